@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+/*
+  Fake payment provider: sends signed billing webhook events to a running app,
+  for trying the /api/webhooks/billing route locally without a real provider.
+
+  Usage:
+    BILLING_WEBHOOK_SECRET=... node scripts/fake-billing-provider.mjs <type> <subscription id> [options]
+
+  Types:
+    created     subscription.created (needs --email or --user, and --plan)
+    renewed     subscription.renewed
+    cancelled   subscription.cancelled (access ends now unless --days is given)
+    failed      payment.failed
+
+  Options:
+    --email <email>     Customer email (created)
+    --user <uuid>       Customer id (created)
+    --plan <plan id>    Plan id from the catalog (created, renewed)
+    --days <n>          Period end / end of access, n days from now (default 30)
+    --id <event id>     Event id; reuse one to test idempotency
+    --repeat            Deliver the same event twice
+    --bad-signature     Sign with the wrong secret (expect 401)
+    --url <url>         Webhook URL (default http://localhost:3000/api/webhooks/billing)
+
+  Example (memory demo data):
+    ADMIN_DATA_SOURCE=memory BILLING_WEBHOOK_SECRET=... npm run dev
+    node scripts/fake-billing-provider.mjs renewed sub_demo_1 --days 45 --repeat
+
+  The webhook tests import buildEvent and sign from here, so they send what
+  this script sends.
+*/
+import crypto from 'crypto';
+import { pathToFileURL } from 'url';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const TYPES = {
+  created: 'subscription.created',
+  renewed: 'subscription.renewed',
+  cancelled: 'subscription.cancelled',
+  failed: 'payment.failed',
+};
+
+function parseArgs(argv) {
+  const [type, subscriptionId, ...rest] = argv;
+  const options = {};
+  for (let i = 0; i < rest.length; i++) {
+    const key = rest[i].replace(/^--/, '');
+    if (key === 'repeat' || key === 'bad-signature') {
+      options[key] = true;
+    } else {
+      options[key] = rest[++i];
+    }
+  }
+  return { type, subscriptionId, options };
+}
+
+// Same format the route verifies: t=<unix seconds>,v1=<hex HMAC-SHA256>
+export function sign(body, secret, now = Date.now()) {
+  const t = Math.floor(now / 1000);
+  const v1 = crypto.createHmac('sha256', secret).update(`${t}.${body}`).digest('hex');
+  return `t=${t},v1=${v1}`;
+}
+
+export function buildEvent(type, subscriptionId, options) {
+  const days = options.days !== undefined ? Number(options.days) : null;
+  const periodEnd = new Date(Date.now() + (days ?? 30) * DAY).toISOString();
+  const data = { subscription_id: subscriptionId };
+
+  switch (type) {
+    case 'subscription.created':
+      Object.assign(data, {
+        user_id: options.user,
+        email: options.email,
+        plan: options.plan,
+        current_period_end: periodEnd,
+      });
+      break;
+    case 'subscription.renewed':
+      Object.assign(data, { plan: options.plan, current_period_end: periodEnd });
+      break;
+    case 'subscription.cancelled':
+      data.ends_at = days === null ? new Date().toISOString() : periodEnd;
+      break;
+  }
+
+  return {
+    id: options.id || `evt_fake_${crypto.randomBytes(8).toString('hex')}`,
+    type,
+    created_at: new Date().toISOString(),
+    data,
+  };
+}
+
+async function main() {
+  const { type, subscriptionId, options } = parseArgs(process.argv.slice(2));
+  const secret = process.env.BILLING_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('❌ BILLING_WEBHOOK_SECRET is not set. Use the same value as the app.');
+    process.exit(1);
+  }
+  if (!TYPES[type] || !subscriptionId) {
+    console.error('Usage: node scripts/fake-billing-provider.mjs <created|renewed|cancelled|failed> <subscription id> [options]');
+    process.exit(1);
+  }
+
+  const url = options.url || 'http://localhost:3000/api/webhooks/billing';
+  const body = JSON.stringify(buildEvent(TYPES[type], subscriptionId, options));
+  const signingSecret = options['bad-signature'] ? `${secret}-wrong` : secret;
+
+  console.log(`→ ${TYPES[type]} for ${subscriptionId}`);
+  for (let attempt = 0; attempt < (options.repeat ? 2 : 1); attempt++) {
+    const resp = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Billing-Signature': sign(body, signingSecret),
+      },
+      body,
+    });
+    console.log(`   ${resp.status} ${await resp.text()}`);
+  }
+}
+
+// Only when run, not when imported
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((err) => {
+    console.error('❌ Failed to send event:', err.message || err);
+    process.exit(1);
+  });
+}
@@ -1,28 +1,236 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { AdminLogin } from "./components/adminLogin";
 import { ManageUsers } from "./components/ManageUsers";
 import { ManageConversions } from "./components/ManageConversions";
+import { ManagePlans } from "./components/ManagePlans";
+import { ManageCampaigns } from "./components/ManageCampaigns";
 import { ManageSupport } from "./components/ManageSupport";
-import { adminAuth } from "./utils/adminAuth";
-import { Users, FileAudio, MessageSquare, LogOut } from "lucide-react";
+import { ManageAuditLog } from "./components/ManageAuditLog";
+import { ManageTeam } from "./components/ManageTeam";
+import { AccountSetup } from "./components/AccountSetup";
+import { TwoFactorSetup } from "./components/TwoFactorSetup";
+import { SecuritySettings } from "./components/SecuritySettings";
+import { SessionLockModal } from "./components/SessionLockModal";
+import { adminAuth, type TwoFactorStatus } from "./utils/adminAuth";
+import { hasPermission, type Permission } from "./utils/permissions";
+import {
+  ACTIVITY_RENEW_INTERVAL,
+  IDLE_LOCK_TIMEOUT,
+} from "./utils/sessionPolicy";
+import {
+  Users,
+  FileAudio,
+  Tags,
+  Mail,
+  MessageSquare,
+  ScrollText,
+  UserCog,
+  ShieldCheck,
+  LogOut,
+} from "lucide-react";
+
+type AdminTab =
+  | "users"
+  | "conversions"
+  | "plans"
+  | "campaigns"
+  | "support"
+  | "audit"
+  | "team";
+
+// Permission each tab requires to be shown
+const TAB_PERMISSIONS: Record<AdminTab, Permission> = {
+  users: "users:view",
+  conversions: "conversions:view",
+  plans: "plans:manage",
+  campaigns: "campaigns:manage",
+  support: "support:view",
+  audit: "audit:view",
+  team: "admins:manage",
+};
+
+// Browser events that count as the admin being active
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+] as const;
 
 export const AdminApp: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(
-    adminAuth.isAuthenticated()
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [checkingSession, setCheckingSession] = useState(true);
+  const [activeTab, setActiveTab] = useState<AdminTab | "security">("users");
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  // Token from an invite or password reset link (/?setup=...)
+  const [setupToken, setSetupToken] = useState<string | null>(null);
+  // Idle or expired: the lock modal covers the panel until the admin signs
+  // back in. The panel stays mounted so unsaved edits are kept.
+  const [locked, setLocked] = useState(false);
+  const lastActivityRef = useRef(0);
+  const lastRenewRef = useRef(0);
+
+  const admin = isAuthenticated ? adminAuth.getSession() : null;
+  const visibleTabs = (Object.keys(TAB_PERMISSIONS) as AdminTab[]).filter(
+    (tab) => hasPermission(admin, TAB_PERMISSIONS[tab])
   );
-  const [activeTab, setActiveTab] = useState<
-    "users" | "conversions" | "support"
-  >("users");
 
-  const handleLogout = () => {
-    //adminAuth.logout();
+  // Fall back to the first tab this admin is allowed to see. Security is
+  // open to every admin.
+  const currentTab =
+    activeTab === "security" || visibleTabs.includes(activeTab)
+      ? activeTab
+      : visibleTabs[0];
+
+  const needsTwoFactorEnrollment =
+    !!twoFactor?.required && !twoFactor.enabled;
+
+  // Verify the session cookie with the server before showing anything.
+  // A link may also name the tab to open (/?tab=support&...).
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setSetupToken(params.get("setup"));
+    const tab = params.get("tab");
+    if (tab === "security" || Object.keys(TAB_PERMISSIONS).includes(tab)) {
+      setActiveTab(tab as AdminTab | "security");
+    }
+
+    adminAuth
+      .loadSession()
+      .then((admin) => {
+        setIsAuthenticated(admin !== null);
+        setTwoFactor(adminAuth.getTwoFactor());
+      })
+      .finally(() => setCheckingSession(false));
+  }, []);
+
+  // Track activity, renew the server session while the admin is active and
+  // lock the panel once they have been idle too long
+  useEffect(() => {
+    if (!isAuthenticated || locked) return;
+
+    lastActivityRef.current = Date.now();
+    lastRenewRef.current = Date.now();
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, markActive, { passive: true })
+    );
+
+    const interval = window.setInterval(async () => {
+      const now = Date.now();
+      if (now - lastActivityRef.current >= IDLE_LOCK_TIMEOUT) {
+        setLocked(true);
+        adminAuth.lock();
+        return;
+      }
+
+      if (
+        lastActivityRef.current > lastRenewRef.current &&
+        now - lastRenewRef.current >= ACTIVITY_RENEW_INTERVAL
+      ) {
+        lastRenewRef.current = now;
+        if (!(await adminAuth.renewSession())) setLocked(true);
+      }
+    }, 15 * 1000);
+
+    // Any API call rejected with 401 also locks
+    const unsubscribe = adminAuth.onSessionExpired(() => setLocked(true));
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, markActive)
+      );
+      window.clearInterval(interval);
+      unsubscribe();
+    };
+  }, [isAuthenticated, locked]);
+
+  // The URL keeps only the new tab; the old tab's filters are dropped
+  const selectTab = (tab: AdminTab | "security") => {
+    if (tab === currentTab) return;
+    setActiveTab(tab);
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${tab === "users" ? "" : `?tab=${tab}`}`
+    );
+  };
+
+  // Drop the used link from the address bar and go back to sign in
+  const handleSetupDone = () => {
+    window.history.replaceState(null, "", window.location.pathname);
+    setSetupToken(null);
+  };
+
+  const handleLoginSuccess = () => {
+    setIsAuthenticated(true);
+    setTwoFactor(adminAuth.getTwoFactor());
+  };
+
+  // Refresh the cached admin once 2FA is switched on
+  const handleTwoFactorEnrolled = async () => {
+    await adminAuth.loadSession();
+    setTwoFactor(adminAuth.getTwoFactor());
+  };
+
+  const handleUnlock = () => {
+    setLocked(false);
+    setTwoFactor(adminAuth.getTwoFactor());
+  };
+
+  const handleLogout = async () => {
+    try {
+      await adminAuth.logout();
+    } catch (error) {
+      console.error("Error signing out:", error);
+      alert("Error signing out, please try again");
+      return;
+    }
+    setLocked(false);
     setIsAuthenticated(false);
   };
 
+  if (checkingSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+      </div>
+    );
+  }
+
+  if (setupToken) {
+    return <AccountSetup token={setupToken} onDone={handleSetupDone} />;
+  }
+
   if (!isAuthenticated) {
-    return <AdminLogin onLoginSuccess={() => setIsAuthenticated(true)} />;
+    return <AdminLogin onLoginSuccess={handleLoginSuccess} />;
+  }
+
+  const lockModal = locked && admin && (
+    <SessionLockModal
+      admin={admin}
+      onUnlock={handleUnlock}
+      onLogout={handleLogout}
+    />
+  );
+
+  if (needsTwoFactorEnrollment) {
+    return (
+      <>
+        <TwoFactorSetup
+          status={twoFactor}
+          forced
+          onEnrolled={handleTwoFactorEnrolled}
+          onLogout={handleLogout}
+        />
+        {lockModal}
+      </>
+    );
   }
 
   return (
@@ -40,38 +248,107 @@ export const AdminApp: React.FC = () => {
 
             {/* Navigation Tabs */}
             <div className="flex items-center space-x-1">
+              {visibleTabs.includes("users") && (
+                <button
+                  onClick={() => selectTab("users")}
+                  className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                    currentTab === "users"
+                      ? "bg-primary text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  <Users className="w-4 h-4 mr-2" />
+                  Manage Users
+                </button>
+              )}
+              {visibleTabs.includes("conversions") && (
+                <button
+                  onClick={() => selectTab("conversions")}
+                  className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                    currentTab === "conversions"
+                      ? "bg-primary text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  <FileAudio className="w-4 h-4 mr-2" />
+                  Manage Conversions
+                </button>
+              )}
+              {visibleTabs.includes("plans") && (
+                <button
+                  onClick={() => selectTab("plans")}
+                  className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                    currentTab === "plans"
+                      ? "bg-primary text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  <Tags className="w-4 h-4 mr-2" />
+                  Plans
+                </button>
+              )}
+              {visibleTabs.includes("campaigns") && (
+                <button
+                  onClick={() => selectTab("campaigns")}
+                  className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                    currentTab === "campaigns"
+                      ? "bg-primary text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  <Mail className="w-4 h-4 mr-2" />
+                  Campaigns
+                </button>
+              )}
+              {visibleTabs.includes("support") && (
+                <button
+                  onClick={() => selectTab("support")}
+                  className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                    currentTab === "support"
+                      ? "bg-primary text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Support
+                </button>
+              )}
+              {visibleTabs.includes("audit") && (
+                <button
+                  onClick={() => selectTab("audit")}
+                  className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                    currentTab === "audit"
+                      ? "bg-primary text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  <ScrollText className="w-4 h-4 mr-2" />
+                  Audit Log
+                </button>
+              )}
+              {visibleTabs.includes("team") && (
+                <button
+                  onClick={() => selectTab("team")}
+                  className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                    currentTab === "team"
+                      ? "bg-primary text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  <UserCog className="w-4 h-4 mr-2" />
+                  Team
+                </button>
+              )}
               <button
-                onClick={() => setActiveTab("users")}
-                className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
-                  activeTab === "users"
-                    ? "bg-primary text-white"
-                    : "text-gray-600 hover:bg-gray-100"
-                }`}
-              >
-                <Users className="w-4 h-4 mr-2" />
-                Manage Users
-              </button>
-              <button
-                onClick={() => setActiveTab("conversions")}
+                onClick={() => selectTab("security")}
                 className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
-                  activeTab === "conversions"
+                  currentTab === "security"
                     ? "bg-primary text-white"
                     : "text-gray-600 hover:bg-gray-100"
                 }`}
               >
-                <FileAudio className="w-4 h-4 mr-2" />
-                Manage Conversions
-              </button>
-              <button
-                onClick={() => setActiveTab("support")}
-                className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
-                  activeTab === "support"
-                    ? "bg-primary text-white"
-                    : "text-gray-600 hover:bg-gray-100"
-                }`}
-              >
-                <MessageSquare className="w-4 h-4 mr-2" />
-                Support
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Security
               </button>
               <button
                 onClick={handleLogout}
@@ -85,12 +362,56 @@ export const AdminApp: React.FC = () => {
         </div>
       </nav>
 
+      {/* 2FA reminder while enrollment is still optional */}
+      {twoFactor && !twoFactor.enabled && currentTab !== "security" && (
+        <div className="bg-amber-50 border-b border-amber-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <p className="text-sm font-medium text-amber-800">
+              {twoFactor.enforceAfter
+                ? `Two-factor authentication will be required from ${new Date(
+                    twoFactor.enforceAfter
+                  ).toLocaleDateString()}. Set it up now to avoid being locked out.`
+                : "Protect your account by turning on two-factor authentication."}
+            </p>
+            <button
+              onClick={() => selectTab("security")}
+              className="text-sm font-semibold text-amber-900 hover:underline"
+            >
+              Set up now
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {activeTab === "users" && <ManageUsers />}
-        {activeTab === "conversions" && <ManageConversions />}
-        {activeTab === "support" && <ManageSupport />}
+        {visibleTabs.length === 0 && currentTab !== "security" && (
+          <div className="text-center py-16">
+            <p className="text-muted-foreground text-lg font-medium">
+              Your account has no sections assigned
+            </p>
+            <p className="text-muted-foreground text-sm mt-2">
+              Ask an owner to change your role on the Team screen
+            </p>
+          </div>
+        )}
+        {currentTab === "users" && <ManageUsers />}
+        {currentTab === "conversions" && <ManageConversions />}
+        {currentTab === "plans" && <ManagePlans />}
+        {currentTab === "campaigns" && <ManageCampaigns />}
+        {currentTab === "support" && <ManageSupport />}
+        {currentTab === "audit" && <ManageAuditLog />}
+        {currentTab === "team" && <ManageTeam />}
+        {currentTab === "security" && (
+          <SecuritySettings
+            twoFactor={twoFactor}
+            onTwoFactorEnrolled={handleTwoFactorEnrolled}
+            onSignedOut={handleLogout}
+          />
+        )}
       </div>
+
+      {lockModal}
     </div>
   );
 };
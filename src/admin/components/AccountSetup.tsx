@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { adminAuth, type AccountSetupPreview } from "./../utils/adminAuth";
+
+interface AccountSetupProps {
+  token: string;
+  onDone: () => void;
+}
+
+// Landing page for invite and password reset links (/?setup=<token>)
+export const AccountSetup: React.FC<AccountSetupProps> = ({
+  token,
+  onDone,
+}) => {
+  const [account, setAccount] = useState<AccountSetupPreview | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [completed, setCompleted] = useState(false);
+
+  // Check the link before showing the form
+  useEffect(() => {
+    adminAuth
+      .previewAccountSetup(token)
+      .then(setAccount)
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : "This link is invalid or has expired"
+        )
+      )
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await adminAuth.completeAccountSetup(token, password);
+      setCompleted(true);
+    } catch (err) {
+      console.error("Account setup error:", err);
+      setError(
+        err instanceof Error ? err.message : "Could not set your password"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <div className="w-full max-w-md">
+        {/* App Name */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-4 bg-gradient-to-r from-primary to-purple-600 bg-clip-text text-transparent">
+            AI PDF-to-Audio Platform
+          </h1>
+        </div>
+
+        <div className="bg-card p-8 rounded-2xl shadow-xl border-2 border-border">
+          <div className="text-center mb-8">
+            <h2 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">
+              {account?.purpose === "password_reset"
+                ? "Reset Password"
+                : "Join Admin Panel"}
+            </h2>
+            {account && (
+              <p className="text-muted-foreground">
+                {account.name} ({account.email})
+              </p>
+            )}
+          </div>
+
+          {completed ? (
+            <div className="space-y-6">
+              <div className="bg-green-500/10 border-2 border-green-500/20 text-green-700 px-4 py-3 rounded-lg font-medium">
+                Your password has been set. You can now sign in.
+              </div>
+              <button
+                onClick={onDone}
+                className="w-full bg-gradient-to-r from-primary to-purple-600 hover:opacity-90 text-white font-semibold py-3 rounded-lg transition-all shadow-md hover:shadow-lg"
+              >
+                Go to Sign In
+              </button>
+            </div>
+          ) : !account ? (
+            <div className="space-y-6">
+              {loading ? (
+                <div className="text-center">
+                  <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+                </div>
+              ) : (
+                <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+                  {error}
+                </div>
+              )}
+              <button
+                onClick={onDone}
+                className="w-full text-sm text-muted-foreground hover:text-foreground font-semibold transition-colors"
+              >
+                Back to Sign In
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label
+                  htmlFor="new-password"
+                  className="block text-sm font-semibold text-foreground mb-2"
+                >
+                  New Password
+                </label>
+                <input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={12}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
+                  placeholder="At least 12 characters"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="confirm-password"
+                  className="block text-sm font-semibold text-foreground mb-2"
+                >
+                  Confirm Password
+                </label>
+                <input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-primary to-purple-600 hover:opacity-90 text-white font-semibold py-3 rounded-lg transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? "Saving..." : "Set Password"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
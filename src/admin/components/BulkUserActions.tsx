@@ -0,0 +1,363 @@
+"use client";
+
+import React, { useState } from "react";
+import { adminAuth } from "./../utils/adminAuth";
+import { adminApi, type BulkUserAction } from "./../utils/adminApi";
+import type {
+  BulkUserResult,
+  PlanRecord,
+  UserRecord as User,
+} from "./../utils/apiSchemas";
+import { editableUserFields, hasPermission } from "./../utils/permissions";
+import { TRASH_RETENTION_DAYS } from "./../utils/trash";
+import type { UserFilters } from "./../utils/userFilters";
+import { CheckCircle2, Layers, XCircle } from "lucide-react";
+
+// The bulk route takes at most this many ids per request
+const BATCH_SIZE = 100;
+
+type ActionType = BulkUserAction["type"];
+
+const ACTION_LABELS: Record<ActionType, string> = {
+  change_plan: "Change plan",
+  extend_expiry: "Extend expiry",
+  reset_conversions: "Reset conversions",
+  delete: "Move to Trash",
+};
+
+const describe = (action: BulkUserAction) => {
+  switch (action.type) {
+    case "change_plan":
+      return `Change the plan to "${action.plan}"`;
+    case "extend_expiry":
+      return `Extend expiry by ${action.days} day${action.days === 1 ? "" : "s"}`;
+    case "reset_conversions":
+      return "Reset conversions to 0";
+    case "delete":
+      return "Move to Trash";
+  }
+};
+
+interface BulkUserActionsProps {
+  selectedIds: string[];
+  // Every user matching the filters, not just the checked rows
+  allMatching: boolean;
+  matchingCount: number;
+  loadedCount: number;
+  hasMore: boolean;
+  filters: UserFilters;
+  // Rows already loaded, to show emails in the report
+  users: User[];
+  plans: PlanRecord[];
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onComplete: () => void;
+}
+
+export const BulkUserActions: React.FC<BulkUserActionsProps> = ({
+  selectedIds,
+  allMatching,
+  matchingCount,
+  loadedCount,
+  hasMore,
+  filters,
+  users,
+  plans,
+  onSelectAllMatching,
+  onClearSelection,
+  onComplete,
+}) => {
+  const adminUser = adminAuth.getSession();
+  const editableFields = editableUserFields(adminUser);
+  const available = (Object.keys(ACTION_LABELS) as ActionType[]).filter(
+    (type) => {
+      switch (type) {
+        case "change_plan":
+          return editableFields.includes("subscription_plan");
+        case "extend_expiry":
+          return editableFields.includes("expiry_date");
+        case "reset_conversions":
+          return editableFields.includes("conversions");
+        case "delete":
+          return hasPermission(adminUser, "users:delete");
+      }
+    }
+  );
+
+  const [type, setType] = useState<ActionType>(available[0]);
+  // Empty until the admin picks one: the first plan in the catalog
+  const [plan, setPlan] = useState("");
+  const [days, setDays] = useState("30");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const [report, setReport] = useState<{
+    label: string;
+    results: BulkUserResult[];
+  } | null>(null);
+
+  const selectedCount = allMatching ? matchingCount : selectedIds.length;
+  const selectedPlan = plan || plans[0]?.id || "";
+
+  const toAction = (): BulkUserAction | null => {
+    switch (type) {
+      case "change_plan":
+        return selectedPlan ? { type, plan: selectedPlan } : null;
+      case "extend_expiry": {
+        const value = Number(days);
+        return Number.isInteger(value) && value > 0
+          ? { type, days: value }
+          : null;
+      }
+      default:
+        return { type };
+    }
+  };
+
+  const handleApply = async () => {
+    const action = toAction();
+    if (!action) {
+      alert(
+        type === "change_plan"
+          ? "Choose a plan"
+          : "Enter a whole number of days"
+      );
+      return;
+    }
+
+    try {
+      // Resolve "all matching" to ids first so the count shown is exact
+      const ids = allMatching
+        ? (await adminApi.users.ids(filters)).ids
+        : selectedIds;
+      if (ids.length === 0) {
+        alert("No users match the current filters");
+        return;
+      }
+
+      const label = describe(action);
+      if (
+        !confirm(
+          `${label} for ${ids.length} user${ids.length === 1 ? "" : "s"}?` +
+            (action.type === "delete"
+              ? ` They can be restored for ${TRASH_RETENTION_DAYS} days.`
+              : "")
+        )
+      ) {
+        return;
+      }
+
+      const results: BulkUserResult[] = [];
+      setReport(null);
+      setProgress({ done: 0, total: ids.length });
+
+      for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+        const batch = ids.slice(start, start + BATCH_SIZE);
+        try {
+          const response = await adminApi.users.bulk(batch, action);
+          results.push(...response.results);
+        } catch (error) {
+          // The whole batch failed (network, permissions); keep going
+          console.error("Error running bulk action:", error);
+          const message =
+            error instanceof Error ? error.message : "Request failed";
+          results.push(
+            ...batch.map((id) => ({ id, ok: false, error: message }))
+          );
+        }
+        setProgress({ done: results.length, total: ids.length });
+      }
+
+      setReport({ label, results });
+      onComplete();
+    } catch (error) {
+      console.error("Error preparing bulk action:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to run bulk action"
+      );
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (available.length === 0) return null;
+  if (selectedCount === 0 && !progress && !report) return null;
+
+  const emails = new Map(users.map((user) => [user.id, user.email]));
+  const failures = report?.results.filter((result) => !result.ok) ?? [];
+
+  return (
+    <div className="bg-card rounded-2xl border-2 border-primary/40 shadow-lg p-4 sm:p-6 mb-6">
+      {selectedCount > 0 && !progress && (
+        <>
+          <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+            <div className="flex items-center gap-2 text-foreground font-semibold lg:mr-auto">
+              <Layers className="w-5 h-5 text-primary" />
+              {selectedCount} user{selectedCount === 1 ? "" : "s"} selected
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                Action
+              </label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as ActionType)}
+                className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
+              >
+                {available.map((option) => (
+                  <option key={option} value={option}>
+                    {ACTION_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {type === "change_plan" && (
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  New Plan
+                </label>
+                <select
+                  value={selectedPlan}
+                  onChange={(e) => setPlan(e.target.value)}
+                  className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
+                >
+                  {plans.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {type === "extend_expiry" && (
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  Days
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={days}
+                  onChange={(e) => setDays(e.target.value)}
+                  className="w-full lg:w-28 px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
+                />
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleApply}
+                className={`px-4 py-2.5 rounded-lg font-semibold text-white transition-all ${
+                  type === "delete"
+                    ? "bg-red-600 hover:bg-red-700"
+                    : "bg-primary hover:bg-primary/90"
+                }`}
+              >
+                Apply
+              </button>
+              <button
+                onClick={onClearSelection}
+                className="px-4 py-2.5 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+
+          {/* Gmail-style "select all matching" once every loaded row is checked */}
+          {!allMatching && hasMore && selectedIds.length === loadedCount && (
+            <p className="mt-4 text-sm text-muted-foreground">
+              All {loadedCount} loaded users are selected.{" "}
+              <button
+                onClick={onSelectAllMatching}
+                className="text-primary hover:text-primary/80 font-semibold transition-colors"
+              >
+                Select all {matchingCount} users matching the filters
+              </button>
+            </p>
+          )}
+          {allMatching && (
+            <p className="mt-4 text-sm text-muted-foreground">
+              Every user matching the current filters is selected, including
+              those not loaded yet.
+            </p>
+          )}
+        </>
+      )}
+
+      {progress && (
+        <div>
+          <p className="text-sm font-semibold text-foreground mb-2">
+            Processing {progress.done} of {progress.total} users...
+          </p>
+          <div className="w-full bg-accent rounded-full h-2">
+            <div
+              className="bg-gradient-to-r from-primary to-purple-600 h-2 rounded-full transition-all"
+              style={{ width: `${(progress.done / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className={selectedCount > 0 && !progress ? "mt-6" : ""}>
+          <div className="flex items-start justify-between gap-4 mb-3">
+            <div>
+              <p className="text-sm font-semibold text-foreground">
+                {report.label}
+              </p>
+              <p className="text-sm text-muted-foreground mt-1 flex flex-wrap gap-4">
+                <span className="inline-flex items-center gap-1">
+                  <CheckCircle2 className="w-4 h-4 text-green-600" />
+                  {report.results.length - failures.length} succeeded
+                </span>
+                <span className="inline-flex items-center gap-1">
+                  <XCircle className="w-4 h-4 text-red-600" />
+                  {failures.length} failed
+                </span>
+              </p>
+            </div>
+            <button
+              onClick={() => setReport(null)}
+              className="px-4 py-2 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors"
+            >
+              Dismiss
+            </button>
+          </div>
+
+          {failures.length > 0 && (
+            <div className="border-2 border-border rounded-lg overflow-hidden max-h-64 overflow-y-auto">
+              <table className="w-full">
+                <thead className="bg-accent/50 border-b-2 border-border">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                      User
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                      Error
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {failures.map((failure) => (
+                    <tr key={failure.id}>
+                      <td className="px-4 py-2 text-sm text-foreground font-mono">
+                        {emails.get(failure.id) || failure.id}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-red-600">
+                        {failure.error}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
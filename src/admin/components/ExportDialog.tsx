@@ -0,0 +1,291 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { adminApi } from "./../utils/adminApi";
+import type { DataExportRecord } from "./../utils/apiSchemas";
+import {
+  DIRECT_EXPORT_ROWS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_FORMATS,
+  EXPORT_RETENTION_DAYS,
+  defaultExportColumns,
+  type ExportDataset,
+  type ExportFormat,
+} from "./../utils/exports";
+import { Download, FileDown, Loader2, X } from "lucide-react";
+
+// How often the list refreshes while a background export is running
+const POLL_MS = 3000;
+
+const DATASET_LABELS: Record<ExportDataset, string> = {
+  users: "Users",
+  conversions: "Conversions",
+  tickets: "Support Tickets",
+};
+
+const STATUS_STYLES: Record<DataExportRecord["status"], string> = {
+  queued: "bg-yellow-100 text-yellow-800",
+  running: "bg-blue-100 text-blue-800",
+  done: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+interface ExportDialogProps {
+  dataset: ExportDataset;
+  // The tab's current list parameters (filters, sort, Trash)
+  query: Record<string, string | number | undefined>;
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  dataset,
+  query,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<string[]>(() =>
+    defaultExportColumns(dataset)
+  );
+  const [exports, setExports] = useState<DataExportRecord[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadExports = useCallback(async () => {
+    try {
+      const { exports } = await adminApi.exports.list();
+      setExports(exports.filter((record) => record.dataset === dataset));
+    } catch (error) {
+      console.error("Error loading exports:", error);
+    }
+  }, [dataset]);
+
+  useEffect(() => {
+    loadExports();
+  }, [loadExports]);
+
+  const pending = exports.some(
+    (record) =>
+      record.background &&
+      (record.status === "queued" || record.status === "running")
+  );
+
+  useEffect(() => {
+    if (!pending) return;
+    const timer = setInterval(loadExports, POLL_MS);
+    return () => clearInterval(timer);
+  }, [pending, loadExports]);
+
+  // Keep the file's columns in the order they are listed
+  const toggleColumn = (key: string) =>
+    setColumns((current) =>
+      current.includes(key)
+        ? current.filter((column) => column !== key)
+        : EXPORT_COLUMNS[dataset]
+            .map((column) => column.key as string)
+            .filter((column) => column === key || current.includes(column))
+    );
+
+  const handleExport = async () => {
+    setError("");
+    setSubmitting(true);
+    try {
+      const { export: record } = await adminApi.exports.create({
+        dataset,
+        format,
+        columns,
+        query,
+      });
+      if (!record.background) {
+        window.location.href = adminApi.exports.downloadUrl(record.id);
+      }
+      await loadExports();
+    } catch (error) {
+      console.error("Error creating export:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to start the export"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm px-4">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-card p-6 sm:p-8 rounded-2xl shadow-xl border-2 border-border">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">
+              Export {DATASET_LABELS[dataset]}
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Everything matching the current filters. Up to{" "}
+              {DIRECT_EXPORT_ROWS.toLocaleString()} rows download right away;
+              larger exports are prepared in the background and kept for{" "}
+              {EXPORT_RETENTION_DAYS} days.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-muted-foreground hover:bg-accent transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-6">
+          <label className="block text-sm font-semibold text-foreground mb-2">
+            Format
+          </label>
+          <div className="flex flex-wrap gap-4">
+            {EXPORT_FORMATS.map((option) => (
+              <label
+                key={option}
+                className="inline-flex items-center gap-2 text-sm text-foreground"
+              >
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={format === option}
+                  onChange={() => setFormat(option)}
+                  className="accent-primary"
+                />
+                {EXPORT_FORMAT_LABELS[option]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-semibold text-foreground">
+              Columns
+            </label>
+            <button
+              onClick={() => setColumns(defaultExportColumns(dataset))}
+              className="text-sm text-primary hover:text-primary/80 font-semibold transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {EXPORT_COLUMNS[dataset].map((column) => (
+              <label
+                key={column.key}
+                className="inline-flex items-center gap-2 text-sm text-foreground"
+              >
+                <input
+                  type="checkbox"
+                  checked={columns.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                  className="w-4 h-4 accent-primary"
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mb-8">
+          <button
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={submitting || columns.length === 0}
+            className="flex items-center px-4 py-2.5 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <FileDown className="w-4 h-4 mr-2" />
+            )}
+            {submitting ? "Preparing..." : "Export"}
+          </button>
+        </div>
+
+        <h3 className="text-sm font-semibold text-foreground mb-2">
+          Recent Exports
+        </h3>
+        {exports.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No {DATASET_LABELS[dataset].toLowerCase()} exported yet.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-accent">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-foreground">
+                    Created
+                  </th>
+                  <th className="px-3 py-2 text-left font-semibold text-foreground">
+                    Format
+                  </th>
+                  <th className="px-3 py-2 text-left font-semibold text-foreground">
+                    Rows
+                  </th>
+                  <th className="px-3 py-2 text-left font-semibold text-foreground">
+                    Status
+                  </th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {exports.map((record) => (
+                  <tr key={record.id}>
+                    <td className="px-3 py-2 text-muted-foreground whitespace-nowrap">
+                      {new Date(record.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2 text-foreground">
+                      {EXPORT_FORMAT_LABELS[record.format]}
+                    </td>
+                    <td className="px-3 py-2 text-foreground">
+                      {record.row_count ?? "—"}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                          STATUS_STYLES[record.status]
+                        }`}
+                      >
+                        {record.status}
+                      </span>
+                      {record.error && (
+                        <p className="mt-1 text-xs text-red-600 break-all">
+                          {record.error}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {/* Direct exports are re-read from the live data */}
+                      {(record.status === "done" || !record.background) && (
+                        <a
+                          href={adminApi.exports.downloadUrl(record.id)}
+                          className="inline-flex items-center text-primary hover:text-primary/80 font-semibold transition-colors"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          Download
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { adminAuth } from "./../utils/adminAuth";
+import { adminApi, type AuditFilters } from "./../utils/adminApi";
+import { AUDIT_ENTITIES, type AuditEntry } from "../../types/audit";
+import { Download, ChevronDown, ChevronRight } from "lucide-react";
+
+const ENTITY_LABELS: Record<string, string> = {
+  user: "User",
+  conversion: "Conversion",
+  plan: "Plan",
+  campaign: "Email Campaign",
+  storage_object: "Storage Object",
+  support_ticket: "Support Ticket",
+  support_message: "Support Message",
+  admin: "Admin",
+  export: "Data Export",
+  saved_view: "Saved View",
+};
+
+export const ManageAuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>({
+    admin: "",
+    entity: "",
+    from: "",
+    to: "",
+  });
+
+  const adminUser = adminAuth.getSession();
+
+  // Fetch one page of entries for the current filters
+  const fetchEntries = useCallback(
+    async (pageNum: number) => {
+      try {
+        setLoading(true);
+        const result = await adminApi.audit.list(filters, pageNum);
+
+        setEntries((prev) =>
+          pageNum === 0 ? result.entries : [...prev, ...result.entries]
+        );
+        setHasMore(result.hasMore);
+        setPage(pageNum);
+      } catch (error) {
+        console.error("Error fetching audit log:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filters]
+  );
+
+  // Reload from the first page whenever filters change
+  useEffect(() => {
+    fetchEntries(0);
+  }, [fetchEntries]);
+
+  const formatJson = (value: unknown) =>
+    value === null || value === undefined
+      ? "—"
+      : JSON.stringify(value, null, 2);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-primary to-purple-600 bg-clip-text text-transparent">
+                Audit Log
+              </h1>
+              <p className="text-sm text-muted-foreground mt-2">
+                Welcome, {adminUser?.name}
+              </p>
+            </div>
+            <a
+              href={adminApi.audit.exportUrl(filters)}
+              className="flex items-center px-4 py-2 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </a>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        <div className="bg-card rounded-2xl border-2 border-border shadow-lg p-6 sm:p-8 mb-6 sm:mb-8 hover:border-primary/50 transition-all">
+          <h2 className="text-xl sm:text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+            <span className="w-1 h-6 bg-gradient-to-b from-primary to-purple-600 rounded-full"></span>
+            Filters
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+            {/* Admin */}
+            <div>
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                Admin
+              </label>
+              <input
+                type="text"
+                placeholder="Admin email"
+                value={filters.admin}
+                onChange={(e) =>
+                  setFilters({ ...filters, admin: e.target.value })
+                }
+                className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
+              />
+            </div>
+
+            {/* Entity */}
+            <div>
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                Entity
+              </label>
+              <select
+                value={filters.entity}
+                onChange={(e) =>
+                  setFilters({
+                    ...filters,
+                    entity: e.target.value as AuditFilters["entity"],
+                  })
+                }
+                className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
+              >
+                <option value="">All Entities</option>
+                {AUDIT_ENTITIES.map((entity) => (
+                  <option key={entity} value={entity}>
+                    {ENTITY_LABELS[entity]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Date From */}
+            <div>
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                Date From
+              </label>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) =>
+                  setFilters({ ...filters, from: e.target.value })
+                }
+                className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
+              />
+            </div>
+
+            {/* Date To */}
+            <div>
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                Date To
+              </label>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Audit Table */}
+        <div className="bg-card rounded-2xl border-2 border-border shadow-xl overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-accent/50 border-b-2 border-border">
+                <tr>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Time
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Admin
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Action
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Entity
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Target ID
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Changes
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {entries.map((entry) => (
+                  <React.Fragment key={entry.id}>
+                    <tr className="hover:bg-accent/30 transition-colors">
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {entry.admin_email || "System"}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                        <span className="px-3 py-1.5 inline-flex text-xs leading-5 font-bold rounded-full bg-gradient-to-r from-purple-500/10 to-primary/10 text-primary border border-primary/20">
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {ENTITY_LABELS[entry.entity] || entry.entity}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 text-sm text-muted-foreground font-mono max-w-xs truncate">
+                        {entry.entity_id}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() =>
+                            setExpanded(expanded === entry.id ? null : entry.id)
+                          }
+                          className="flex items-center text-primary hover:text-primary/80 font-semibold transition-colors"
+                        >
+                          {expanded === entry.id ? (
+                            <ChevronDown className="w-4 h-4 mr-1" />
+                          ) : (
+                            <ChevronRight className="w-4 h-4 mr-1" />
+                          )}
+                          {expanded === entry.id ? "Hide" : "View"}
+                        </button>
+                      </td>
+                    </tr>
+                    {expanded === entry.id && (
+                      <tr className="bg-accent/20">
+                        <td colSpan={6} className="px-4 sm:px-6 py-4">
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                            <div>
+                              <p className="text-xs font-bold text-muted-foreground uppercase tracking-wide mb-2">
+                                Before
+                              </p>
+                              <pre className="text-xs bg-background border-2 border-border rounded-lg p-3 overflow-x-auto">
+                                {formatJson(entry.before)}
+                              </pre>
+                            </div>
+                            <div>
+                              <p className="text-xs font-bold text-muted-foreground uppercase tracking-wide mb-2">
+                                After
+                              </p>
+                              <pre className="text-xs bg-background border-2 border-border rounded-lg p-3 overflow-x-auto">
+                                {formatJson(entry.after)}
+                              </pre>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Loading indicator */}
+          {loading && (
+            <div className="text-center py-12">
+              <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              <p className="mt-4 text-muted-foreground font-medium">
+                Loading audit log...
+              </p>
+            </div>
+          )}
+
+          {/* Load more */}
+          {!loading && hasMore && (
+            <div className="text-center py-6 border-t border-border">
+              <button
+                onClick={() => fetchEntries(page + 1)}
+                className="px-6 py-2 rounded-lg font-semibold text-primary hover:bg-accent transition-colors"
+              >
+                Load more
+              </button>
+            </div>
+          )}
+
+          {/* No results */}
+          {!loading && entries.length === 0 && (
+            <div className="text-center py-16">
+              <p className="text-muted-foreground text-lg font-medium">
+                No audit entries found
+              </p>
+              <p className="text-muted-foreground text-sm mt-2">
+                Try adjusting your filters
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
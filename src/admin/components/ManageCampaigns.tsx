@@ -0,0 +1,522 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { adminAuth } from "./../utils/adminAuth";
+import { adminApi, AdminApiRequestError } from "./../utils/adminApi";
+import type {
+  CampaignReport,
+  CampaignSummary,
+  EmailSendRecord,
+} from "./../utils/apiSchemas";
+import {
+  campaignFieldsSchema,
+  describeOffset,
+  renderTemplate,
+  TEMPLATE_VARIABLES,
+  type CampaignFields,
+  type TemplateValues,
+} from "./../utils/campaigns";
+import { Plus, Save } from "lucide-react";
+
+const EMPTY_CAMPAIGN: CampaignFields = {
+  name: "",
+  offset_days: -7,
+  subject: "",
+  body: "",
+  enabled: true,
+};
+
+// What the preview fills the placeholders with
+const SAMPLE_VALUES: TemplateValues = {
+  name: "Alex",
+  email: "alex@example.com",
+  plan: "Pro",
+  expiry_date: "March 14, 2027",
+  days: "7",
+};
+
+const SEND_STATUS_STYLES: Record<EmailSendRecord["status"], string> = {
+  sending: "bg-yellow-100 text-yellow-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const inputClass =
+  "w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground";
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="mt-1 text-xs text-red-600">{message}</p> : null;
+
+export const ManageCampaigns: React.FC = () => {
+  const [report, setReport] = useState<CampaignReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  // The campaign being edited in the form; null while adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const adminUser = adminAuth.getSession();
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<CampaignFields>({
+    resolver: zodResolver(campaignFieldsSchema),
+    defaultValues: EMPTY_CAMPAIGN,
+  });
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setReport(await adminApi.campaigns.report());
+    } catch (error) {
+      console.error("Error fetching campaigns:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const campaigns = report?.campaigns ?? [];
+  const campaignNames = new Map(
+    campaigns.map((campaign) => [campaign.id, campaign.name])
+  );
+
+  // Handle edit: load the campaign into the form above the table
+  const handleEdit = (campaign: CampaignSummary) => {
+    setEditingId(campaign.id);
+    reset({
+      name: campaign.name,
+      offset_days: campaign.offset_days,
+      subject: campaign.subject,
+      body: campaign.body,
+      enabled: campaign.enabled,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    reset(EMPTY_CAMPAIGN);
+  };
+
+  const handleSave = handleSubmit(async (fields) => {
+    try {
+      if (editingId) {
+        await adminApi.campaigns.update(editingId, fields);
+      } else {
+        await adminApi.campaigns.create(fields);
+      }
+      handleCancel();
+      fetchReport();
+    } catch (error) {
+      console.error("Error saving campaign:", error);
+      const fieldIssues =
+        error instanceof AdminApiRequestError
+          ? error.issues.filter(
+              (issue) => issue.path in campaignFieldsSchema.shape
+            )
+          : [];
+      if (fieldIssues.length === 0) {
+        alert(
+          error instanceof Error ? error.message : "Failed to save campaign"
+        );
+      }
+      for (const issue of fieldIssues) {
+        setError(issue.path as keyof CampaignFields, {
+          message: issue.message,
+        });
+      }
+    }
+  });
+
+  // Handle enable / disable straight from the table
+  const handleToggle = async (campaign: CampaignSummary) => {
+    try {
+      await adminApi.campaigns.update(campaign.id, {
+        enabled: !campaign.enabled,
+      });
+      fetchReport();
+    } catch (error) {
+      console.error("Error updating campaign:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to update campaign"
+      );
+    }
+  };
+
+  // Handle delete: its send history goes too
+  const handleDelete = async (campaign: CampaignSummary) => {
+    if (
+      !confirm(
+        `Delete the "${campaign.name}" campaign and its send history? Use Disable to stop it but keep the history.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await adminApi.campaigns.remove(campaign.id);
+      if (editingId === campaign.id) handleCancel();
+      fetchReport();
+    } catch (error) {
+      console.error("Error deleting campaign:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to delete campaign"
+      );
+    }
+  };
+
+  const [subject, body] = watch(["subject", "body"]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-primary to-purple-600 bg-clip-text text-transparent">
+            Email Campaigns
+          </h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            Welcome, {adminUser?.name}
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        {/* Add / Edit */}
+        <div className="bg-card rounded-2xl border-2 border-border shadow-lg p-6 sm:p-8 mb-6 sm:mb-8 hover:border-primary/50 transition-all">
+          <h2 className="text-xl sm:text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+            <span className="w-1 h-6 bg-gradient-to-b from-primary to-purple-600 rounded-full"></span>
+            {editingId ? "Edit Campaign" : "Add Campaign"}
+          </h2>
+          <form onSubmit={handleSave} className="space-y-4 sm:space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  placeholder="e.g. Expiry reminder"
+                  {...register("name")}
+                  className={inputClass}
+                />
+                <FieldError message={errors.name?.message} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  Days From Expiry
+                </label>
+                <input
+                  type="number"
+                  min={-90}
+                  max={365}
+                  {...register("offset_days", { valueAsNumber: true })}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Negative before the expiry date, positive after
+                </p>
+                <FieldError message={errors.offset_days?.message} />
+              </div>
+              <div className="flex items-center">
+                <label className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                  <input
+                    type="checkbox"
+                    {...register("enabled")}
+                    className="w-4 h-4 accent-primary"
+                  />
+                  Enabled
+                </label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-semibold text-foreground mb-2">
+                    Subject
+                  </label>
+                  <input
+                    type="text"
+                    {...register("subject")}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors.subject?.message} />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-foreground mb-2">
+                    Message
+                  </label>
+                  <textarea
+                    rows={8}
+                    {...register("body")}
+                    className={`${inputClass} resize-y`}
+                  />
+                  <FieldError message={errors.body?.message} />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Placeholders:{" "}
+                  {TEMPLATE_VARIABLES.map((variable) => (
+                    <code key={variable} className="mr-2 font-mono">
+                      {`{{${variable}}}`}
+                    </code>
+                  ))}
+                </p>
+              </div>
+
+              {/* Preview */}
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  Preview
+                </label>
+                <div className="rounded-lg border-2 border-border bg-background p-4 text-sm">
+                  <p className="font-semibold text-foreground mb-3">
+                    {renderTemplate(subject ?? "", SAMPLE_VALUES) ||
+                      "(no subject)"}
+                  </p>
+                  <p className="text-foreground whitespace-pre-wrap">
+                    {renderTemplate(body ?? "", SAMPLE_VALUES)}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="flex items-center justify-center px-4 py-2.5 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {editingId ? (
+                  <Save className="w-4 h-4 mr-2" />
+                ) : (
+                  <Plus className="w-4 h-4 mr-2" />
+                )}
+                {isSubmitting
+                  ? "Saving..."
+                  : editingId
+                    ? "Save Campaign"
+                    : "Add Campaign"}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="px-4 py-2.5 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+
+        {/* Campaigns Table */}
+        <div className="bg-card rounded-2xl border-2 border-border shadow-xl overflow-hidden mb-6 sm:mb-8">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-accent/50 border-b-2 border-border">
+                <tr>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Campaign
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    When
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Sent (30 Days)
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Failed (30 Days)
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Last Sent
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {campaigns.map((campaign) => (
+                  <tr
+                    key={campaign.id}
+                    className="hover:bg-accent/30 transition-colors"
+                  >
+                    <td className="px-4 sm:px-6 py-4">
+                      <div className="text-sm font-semibold text-foreground">
+                        {campaign.name}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {campaign.subject}
+                      </div>
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {describeOffset(campaign.offset_days)}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                          campaign.enabled
+                            ? "bg-green-100 text-green-800"
+                            : "bg-gray-100 text-gray-800"
+                        }`}
+                      >
+                        {campaign.enabled ? "Enabled" : "Disabled"}
+                      </span>
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {campaign.sent}
+                    </td>
+                    <td
+                      className={`px-4 sm:px-6 py-4 whitespace-nowrap text-sm ${
+                        campaign.failed > 0
+                          ? "font-semibold text-red-600"
+                          : "text-foreground"
+                      }`}
+                    >
+                      {campaign.failed}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                      {campaign.lastSentAt
+                        ? new Date(campaign.lastSentAt).toLocaleString()
+                        : "Never"}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => handleEdit(campaign)}
+                          className="text-primary hover:text-primary/80 font-semibold transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggle(campaign)}
+                          className="text-muted-foreground hover:text-foreground font-semibold transition-colors"
+                        >
+                          {campaign.enabled ? "Disable" : "Enable"}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(campaign)}
+                          className="text-red-600 hover:text-red-700 font-semibold transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Loading indicator */}
+          {loading && (
+            <div className="text-center py-12">
+              <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              <p className="mt-4 text-muted-foreground font-medium">
+                Loading campaigns...
+              </p>
+            </div>
+          )}
+
+          {!loading && campaigns.length === 0 && (
+            <div className="text-center py-16">
+              <p className="text-muted-foreground text-lg font-medium">
+                No campaigns yet
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Recent Sends */}
+        {report && (
+          <div className="bg-card rounded-2xl border-2 border-border shadow-xl overflow-hidden">
+            <h2 className="px-4 sm:px-6 pt-6 pb-4 text-xl font-bold text-foreground">
+              Recent Sends
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-accent/50 border-b-2 border-border">
+                  <tr>
+                    <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                      Campaign
+                    </th>
+                    <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                      Recipient
+                    </th>
+                    <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                      Expiry Date
+                    </th>
+                    <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                      Time
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {report.recentSends.map((send) => (
+                    <tr
+                      key={send.id}
+                      className="hover:bg-accent/30 transition-colors"
+                    >
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                        {campaignNames.get(send.campaign_id) ??
+                          "Deleted campaign"}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {send.email}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                        {new Date(send.expiry_date).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 text-sm">
+                        <span
+                          className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                            SEND_STATUS_STYLES[send.status]
+                          }`}
+                        >
+                          {send.status}
+                        </span>
+                        {send.error && (
+                          <p className="mt-1 text-xs text-red-600 break-all">
+                            {send.error}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                        {new Date(
+                          send.sent_at ?? send.created_at
+                        ).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {report.recentSends.length === 0 && (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground font-medium">
+                  Nothing sent yet
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
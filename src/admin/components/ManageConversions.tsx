@@ -1,8 +1,17 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback } from "react";
-import { createClient } from "@supabase/supabase-js";
 import { adminAuth } from "./../utils/adminAuth";
+import { adminApi, type ConversionFilters } from "./../utils/adminApi";
+import type {
+  ConversionRecord as Conversion,
+  ConversionStats,
+  SavedViewRecord,
+} from "./../utils/apiSchemas";
+import { hasPermission } from "./../utils/permissions";
+import { purgeDate, TRASH_RETENTION_DAYS } from "./../utils/trash";
+import { ExportDialog } from "./ExportDialog";
+import { SavedViewsBar } from "./SavedViewsBar";
 import {
   FileText,
   CheckCircle2,
@@ -14,33 +23,10 @@ import {
   Clock,
   Timer,
   Mic,
+  Trash2,
+  Download,
 } from "lucide-react";
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE! || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-interface Conversion {
-  id: string;
-  user_id: string;
-  pdf_path: string | null;
-  audio_path: string | null;
-  pdf_filename: string;
-  pdf_size: number;
-  audio_size: number | null;
-  voice: string;
-  voice_settings: any;
-  text_length: number | null;
-  audio_duration: number | null;
-  status: string;
-  completed_at: string;
-  created_at: string;
-  user_name?: string;
-  user_email?: string;
-}
-
 interface Filters {
   search: string;
   voice: string;
@@ -49,24 +35,65 @@ interface Filters {
   dateTo: string;
 }
 
-const ITEMS_PER_PAGE = 20;
+// The filters as the API takes them ("all" means no filter)
+const toQueryFilters = (filters: Filters): ConversionFilters => ({
+  search: filters.search,
+  voice: filters.voice === "all" ? undefined : filters.voice,
+  status: filters.status === "all" ? undefined : filters.status,
+  dateFrom: filters.dateFrom,
+  dateTo: filters.dateTo,
+});
+
+// Query parameters for the filters, as in the URL and saved views; unset
+// filters are left out
+const filtersToParams = (filters: Filters): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(toQueryFilters(filters)).filter(([, value]) => value)
+  );
+
+// Every query parameter filtersToParams may write
+const FILTER_PARAMS = ["search", "voice", "status", "dateFrom", "dateTo"];
+
+// Inverse of filtersToParams
+const filtersFromParams = (params: URLSearchParams): Filters => ({
+  search: params.get("search") ?? "",
+  voice: params.get("voice") ?? "all",
+  status: params.get("status") ?? "all",
+  dateFrom: params.get("dateFrom") ?? "",
+  dateTo: params.get("dateTo") ?? "",
+});
+
+const NO_STATS: ConversionStats = {
+  total: 0,
+  completed: 0,
+  processing: 0,
+  failed: 0,
+  pdfBytes: 0,
+  pdfFiles: 0,
+  audioBytes: 0,
+  audioFiles: 0,
+  audioSeconds: 0,
+  averageAudioSeconds: 0,
+  averagePdfBytes: 0,
+  voices: {},
+};
 
 export const ManageConversions: React.FC = () => {
   const [conversions, setConversions] = useState<Conversion[]>([]);
   const [loading, setLoading] = useState(true);
   const [hasMore, setHasMore] = useState(true);
   const [page, setPage] = useState(0);
-  const [filters, setFilters] = useState<Filters>({
-    search: "",
-    voice: "all",
-    status: "all",
-    dateFrom: "",
-    dateTo: "",
-  });
+  const [filters, setFilters] = useState<Filters>(() =>
+    filtersFromParams(new URLSearchParams(window.location.search))
+  );
   const [deletingItem, setDeletingItem] = useState<string | null>(null);
+  const [stats, setStats] = useState<ConversionStats>(NO_STATS);
+  const [showTrash, setShowTrash] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   const observerTarget = useRef<HTMLDivElement>(null);
   const adminUser = adminAuth.getSession();
+  const canDelete = hasPermission(adminUser, "conversions:delete");
 
   // Format file size
   const formatFileSize = (bytes: number | null): string => {
@@ -83,106 +110,88 @@ export const ManageConversions: React.FC = () => {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
+  // Format a storage total, in GB from 1 GB up
+  const formatStorage = (bytes: number): string => {
+    const gb = bytes / (1024 * 1024 * 1024);
+    const mb = bytes / (1024 * 1024);
+    return gb >= 1 ? `${gb.toFixed(2)} GB` : `${mb.toFixed(2)} MB`;
+  };
+
+  // Format a long duration as hours and minutes
+  const formatHours = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  };
+
   // Fetch conversions with filters and pagination
   const fetchConversions = useCallback(
     async (pageNum: number, isNewSearch: boolean = false) => {
       try {
         setLoading(true);
 
-        // First, get conversions
-        let query = supabase
-          .from("conversions")
-          .select("*")
-          .order("created_at", { ascending: false })
-          .range(pageNum * ITEMS_PER_PAGE, (pageNum + 1) * ITEMS_PER_PAGE - 1);
-
-        // Apply voice filter
-        if (filters.voice !== "all") {
-          query = query.eq("voice", filters.voice);
-        }
-
-        // Apply status filter
-        if (filters.status !== "all") {
-          query = query.eq("status", filters.status);
-        }
+        const result = await adminApi.conversions.list(
+          toQueryFilters(filters),
+          pageNum,
+          showTrash
+        );
 
-        // Apply date range filter
-        if (filters.dateFrom) {
-          query = query.gte("created_at", filters.dateFrom);
-        }
-        if (filters.dateTo) {
-          query = query.lte("created_at", filters.dateTo);
-        }
-
-        const { data: conversionsData, error } = await query;
-
-        if (error) throw error;
-
-        if (conversionsData && conversionsData.length > 0) {
-          // Get unique user IDs
-          const userIds = [...new Set(conversionsData.map((c) => c.user_id))];
-
-          // Fetch user details
-          const { data: usersData, error: usersError } = await supabase
-            .from("users")
-            .select("id, name, email")
-            .in("id", userIds);
-
-          if (usersError) throw usersError;
-
-          // Create a map of user details
-          const usersMap = new Map(
-            usersData?.map((u) => [u.id, { name: u.name, email: u.email }])
-          );
-
-          // Merge user details with conversions
-          let enrichedConversions = conversionsData.map((conv) => ({
-            ...conv,
-            user_name: usersMap.get(conv.user_id)?.name || "Unknown",
-            user_email: usersMap.get(conv.user_id)?.email || "Unknown",
-          }));
-
-          // Apply search filter (client-side for user data)
-          if (filters.search) {
-            const searchLower = filters.search.toLowerCase();
-            enrichedConversions = enrichedConversions.filter(
-              (conv) =>
-                conv.user_email?.toLowerCase().includes(searchLower) ||
-                conv.user_name?.toLowerCase().includes(searchLower) ||
-                conv.pdf_filename?.toLowerCase().includes(searchLower) ||
-                conv.id?.toLowerCase().includes(searchLower)
-            );
-          }
-
-          if (isNewSearch) {
-            setConversions(enrichedConversions);
-          } else {
-            setConversions((prev) => [...prev, ...enrichedConversions]);
-          }
-
-          setHasMore(conversionsData.length === ITEMS_PER_PAGE);
+        if (isNewSearch) {
+          setConversions(result.conversions);
         } else {
-          if (isNewSearch) {
-            setConversions([]);
-          }
-          setHasMore(false);
+          setConversions((prev) => [...prev, ...result.conversions]);
         }
+
+        setHasMore(result.hasMore);
       } catch (error) {
         console.error("Error fetching conversions:", error);
       } finally {
         setLoading(false);
       }
     },
-    [filters]
+    [filters, showTrash]
   );
 
+  // Stats cover every conversion matching the filters, not just the
+  // pages scrolled so far
+  const fetchStats = useCallback(async () => {
+    try {
+      const { stats } = await adminApi.conversions.stats(toQueryFilters(filters));
+      setStats(stats);
+    } catch (error) {
+      console.error("Error fetching conversion stats:", error);
+    }
+  }, [filters]);
+
+  // Keep the filters in the URL so the view can be reloaded or shared
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    FILTER_PARAMS.forEach((key) => params.delete(key));
+    Object.entries(filtersToParams(filters)).forEach(([key, value]) =>
+      params.set(key, value)
+    );
+
+    const query = params.toString();
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${query ? `?${query}` : ""}`
+    );
+  }, [filters]);
+
+  const applyView = useCallback((view: SavedViewRecord) => {
+    setFilters(filtersFromParams(new URLSearchParams(view.query)));
+    setShowTrash(view.query.trash === "1");
+  }, []);
+
   // Initial load and filter changes
   useEffect(() => {
     setPage(0);
     setConversions([]);
     setHasMore(true);
     fetchConversions(0, true);
-  }, [filters]);
+    fetchStats();
+  }, [fetchConversions, fetchStats]);
 
   // Infinite scroll observer
   useEffect(() => {
@@ -221,29 +230,8 @@ export const ManageConversions: React.FC = () => {
     try {
       setDeletingItem(conversion.id);
 
-      // Call API to delete from storage
-      const response = await fetch("/api/admin/delete-file", {
-        method: "DELETE",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          bucket: "pdfs",
-          path: conversion.pdf_path,
-        }),
-      });
-
-      const result = await response.json();
-
-      if (!response.ok || result.error) {
-        throw new Error(result.error?.message || "Failed to delete file");
-      }
-
-      // Update database record
-      const { error: dbError } = await supabase
-        .from("conversions")
-        .update({ pdf_path: "", pdf_size: 0 })
-        .eq("id", conversion.id);
-
-      if (dbError) throw dbError;
+      // Server removes the file from storage and clears the record
+      await adminApi.conversions.remove(conversion.id, "pdf");
 
       // Update local state
       setConversions(
@@ -273,29 +261,8 @@ export const ManageConversions: React.FC = () => {
     try {
       setDeletingItem(conversion.id);
 
-      // Call API to delete from storage
-      const response = await fetch("/api/admin/delete-file", {
-        method: "DELETE",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          bucket: "audio",
-          path: conversion.audio_path,
-        }),
-      });
-
-      const result = await response.json();
-
-      if (!response.ok || result.error) {
-        throw new Error(result.error?.message || "Failed to delete file");
-      }
-
-      // Update database record
-      const { error: dbError } = await supabase
-        .from("conversions")
-        .update({ audio_path: "", audio_size: null, audio_duration: null })
-        .eq("id", conversion.id);
-
-      if (dbError) throw dbError;
+      // Server removes the file from storage and clears the record
+      await adminApi.conversions.remove(conversion.id, "audio");
 
       // Update local state
       setConversions(
@@ -315,11 +282,11 @@ export const ManageConversions: React.FC = () => {
     }
   };
 
-  // Delete entire conversion
+  // Delete entire conversion (to Trash; files stay until it is purged)
   const handleDeleteConversion = async (conversion: Conversion) => {
     if (
       !confirm(
-        "Are you sure you want to delete this entire conversion? This will remove all files and the database record."
+        `Move this conversion to Trash? It can be restored for ${TRASH_RETENTION_DAYS} days, after which its files and record are deleted.`
       )
     )
       return;
@@ -327,57 +294,59 @@ export const ManageConversions: React.FC = () => {
     try {
       setDeletingItem(conversion.id);
 
-      // Delete PDF from storage if exists
-      if (conversion.pdf_path) {
-        const pdfResponse = await fetch("/api/admin/delete-file", {
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            bucket: "pdfs",
-            path: conversion.pdf_path,
-          }),
-        });
-
-        const pdfResult = await pdfResponse.json();
-        if (!pdfResponse.ok || pdfResult.error) {
-          throw new Error(`Failed to delete PDF: ${pdfResult.error?.message}`);
-        }
-      }
+      await adminApi.conversions.remove(conversion.id, "all");
 
-      // Delete audio from storage if exists
-      if (conversion.audio_path) {
-        const audioResponse = await fetch("/api/admin/delete-file", {
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            bucket: "audio",
-            path: conversion.audio_path,
-          }),
-        });
-
-        const audioResult = await audioResponse.json();
-        if (!audioResponse.ok || audioResult.error) {
-          throw new Error(
-            `Failed to delete audio: ${audioResult.error?.message}`
-          );
-        }
-      }
+      // Update local state
+      setConversions(conversions.filter((c) => c.id !== conversion.id));
+      fetchStats();
+    } catch (error) {
+      console.error("Error deleting conversion:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to delete conversion"
+      );
+    } finally {
+      setDeletingItem(null);
+    }
+  };
 
-      // Delete database record
-      const { error: dbError } = await supabase
-        .from("conversions")
-        .delete()
-        .eq("id", conversion.id);
+  const handleRestoreConversion = async (conversion: Conversion) => {
+    try {
+      setDeletingItem(conversion.id);
 
-      if (dbError) throw dbError;
+      await adminApi.conversions.restore(conversion.id);
 
-      // Update local state
       setConversions(conversions.filter((c) => c.id !== conversion.id));
+      fetchStats();
+    } catch (error) {
+      console.error("Error restoring conversion:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to restore conversion"
+      );
+    } finally {
+      setDeletingItem(null);
+    }
+  };
 
-      alert("Conversion deleted successfully");
-    } catch (error: any) {
-      console.error("Error deleting conversion:", error);
-      alert(`Failed to delete conversion: ${error.message}`);
+  // Delete from Trash for good: both files and the database record
+  const handlePurgeConversion = async (conversion: Conversion) => {
+    if (
+      !confirm(
+        "Delete this conversion permanently? This will remove all files and the database record."
+      )
+    )
+      return;
+
+    try {
+      setDeletingItem(conversion.id);
+
+      await adminApi.conversions.purge(conversion.id);
+
+      setConversions(conversions.filter((c) => c.id !== conversion.id));
+    } catch (error) {
+      console.error("Error deleting conversion permanently:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to delete conversion"
+      );
     } finally {
       setDeletingItem(null);
     }
@@ -397,7 +366,22 @@ export const ManageConversions: React.FC = () => {
                 Welcome, {adminUser?.name}
               </p>
             </div>
+            <button
+              onClick={() => setExporting(true)}
+              className="flex items-center px-4 py-2 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </button>
           </div>
+          <SavedViewsBar
+            tab="conversions"
+            query={{
+              ...filtersToParams(filters),
+              ...(showTrash ? { trash: "1" } : {}),
+            }}
+            onApply={applyView}
+          />
         </div>
       </div>
 
@@ -416,7 +400,7 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-3xl font-bold text-foreground mb-1">
-              {conversions.length}
+              {stats.total}
             </p>
             <p className="text-xs text-muted-foreground">
               Based on current filters
@@ -434,16 +418,11 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-3xl font-bold text-foreground mb-1">
-              {conversions.filter((c) => c.status === "completed").length}
+              {stats.completed}
             </p>
             <p className="text-xs text-muted-foreground">
-              {conversions.length > 0
-                ? (
-                    (conversions.filter((c) => c.status === "completed")
-                      .length /
-                      conversions.length) *
-                    100
-                  ).toFixed(1)
+              {stats.total > 0
+                ? ((stats.completed / stats.total) * 100).toFixed(1)
                 : 0}
               % of total
             </p>
@@ -460,16 +439,11 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-3xl font-bold text-foreground mb-1">
-              {conversions.filter((c) => c.status === "processing").length}
+              {stats.processing}
             </p>
             <p className="text-xs text-muted-foreground">
-              {conversions.length > 0
-                ? (
-                    (conversions.filter((c) => c.status === "processing")
-                      .length /
-                      conversions.length) *
-                    100
-                  ).toFixed(1)
+              {stats.total > 0
+                ? ((stats.processing / stats.total) * 100).toFixed(1)
                 : 0}
               % of total
             </p>
@@ -486,15 +460,11 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-3xl font-bold text-foreground mb-1">
-              {conversions.filter((c) => c.status === "failed").length}
+              {stats.failed}
             </p>
             <p className="text-xs text-muted-foreground">
-              {conversions.length > 0
-                ? (
-                    (conversions.filter((c) => c.status === "failed").length /
-                      conversions.length) *
-                    100
-                  ).toFixed(1)
+              {stats.total > 0
+                ? ((stats.failed / stats.total) * 100).toFixed(1)
                 : 0}
               % of total
             </p>
@@ -514,18 +484,10 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                const totalBytes = conversions.reduce(
-                  (sum, c) => sum + (c.pdf_size || 0),
-                  0
-                );
-                const gb = totalBytes / (1024 * 1024 * 1024);
-                const mb = totalBytes / (1024 * 1024);
-                return gb >= 1 ? `${gb.toFixed(2)} GB` : `${mb.toFixed(2)} MB`;
-              })()}
+              {formatStorage(stats.pdfBytes)}
             </p>
             <p className="text-xs text-muted-foreground">
-              Across {conversions.filter((c) => c.pdf_path).length} PDFs
+              Across {stats.pdfFiles} PDFs
             </p>
           </div>
 
@@ -540,18 +502,10 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                const totalBytes = conversions.reduce(
-                  (sum, c) => sum + (c.audio_size || 0),
-                  0
-                );
-                const gb = totalBytes / (1024 * 1024 * 1024);
-                const mb = totalBytes / (1024 * 1024);
-                return gb >= 1 ? `${gb.toFixed(2)} GB` : `${mb.toFixed(2)} MB`;
-              })()}
+              {formatStorage(stats.audioBytes)}
             </p>
             <p className="text-xs text-muted-foreground">
-              Across {conversions.filter((c) => c.audio_path).length} audio
+              Across {stats.audioFiles} audio
               files
             </p>
           </div>
@@ -567,15 +521,7 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                const totalBytes = conversions.reduce(
-                  (sum, c) => sum + (c.pdf_size || 0) + (c.audio_size || 0),
-                  0
-                );
-                const gb = totalBytes / (1024 * 1024 * 1024);
-                const mb = totalBytes / (1024 * 1024);
-                return gb >= 1 ? `${gb.toFixed(2)} GB` : `${mb.toFixed(2)} MB`;
-              })()}
+              {formatStorage(stats.pdfBytes + stats.audioBytes)}
             </p>
             <p className="text-xs text-muted-foreground">
               Combined PDF + Audio
@@ -596,15 +542,7 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                const totalSeconds = conversions.reduce(
-                  (sum, c) => sum + (c.audio_duration || 0),
-                  0
-                );
-                const hours = Math.floor(totalSeconds / 3600);
-                const minutes = Math.floor((totalSeconds % 3600) / 60);
-                return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
-              })()}
+              {formatHours(stats.audioSeconds)}
             </p>
             <p className="text-xs text-muted-foreground">Total audio length</p>
           </div>
@@ -620,18 +558,7 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                const withAudio = conversions.filter((c) => c.audio_duration);
-                if (withAudio.length === 0) return "0m";
-                const avgSeconds =
-                  withAudio.reduce(
-                    (sum, c) => sum + (c.audio_duration || 0),
-                    0
-                  ) / withAudio.length;
-                const hours = Math.floor(avgSeconds / 3600);
-                const minutes = Math.floor((avgSeconds % 3600) / 60);
-                return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
-              })()}
+              {formatHours(stats.averageAudioSeconds)}
             </p>
             <p className="text-xs text-muted-foreground">Per conversion</p>
           </div>
@@ -647,15 +574,7 @@ export const ManageConversions: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                const withPdf = conversions.filter((c) => c.pdf_size);
-                if (withPdf.length === 0) return "0 MB";
-                const avgBytes =
-                  withPdf.reduce((sum, c) => sum + (c.pdf_size || 0), 0) /
-                  withPdf.length;
-                const mb = avgBytes / (1024 * 1024);
-                return `${mb.toFixed(2)} MB`;
-              })()}
+              {(stats.averagePdfBytes / (1024 * 1024)).toFixed(2)} MB
             </p>
             <p className="text-xs text-muted-foreground">Per document</p>
           </div>
@@ -670,12 +589,10 @@ export const ManageConversions: React.FC = () => {
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {["fable", "onyx", "nova", "shimmer", "alloy", "echo"].map(
               (voice) => {
-                const count = conversions.filter(
-                  (c) => c.voice === voice
-                ).length;
+                const count = stats.voices[voice] ?? 0;
                 const percentage =
-                  conversions.length > 0
-                    ? ((count / conversions.length) * 100).toFixed(1)
+                  stats.total > 0
+                    ? ((count / stats.total) * 100).toFixed(1)
                     : 0;
                 return (
                   <div key={voice} className="flex items-center gap-4">
@@ -806,6 +723,40 @@ export const ManageConversions: React.FC = () => {
           </div>
         </div>
 
+        {/* Live conversions / Trash */}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setShowTrash(false)}
+              className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                !showTrash
+                  ? "bg-primary text-white"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              Conversions
+            </button>
+            <button
+              onClick={() => setShowTrash(true)}
+              className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                showTrash
+                  ? "bg-primary text-white"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Trash
+            </button>
+          </div>
+          {showTrash && (
+            <p className="text-sm text-muted-foreground">
+              Deleted conversions stay here for {TRASH_RETENTION_DAYS} days,
+              then their files and records are deleted for good.
+            </p>
+          )}
+        </div>
+
         {/* Conversions Table */}
         <div className="bg-card rounded-2xl border-2 border-border shadow-xl overflow-hidden">
           <div className="overflow-x-auto">
@@ -836,9 +787,11 @@ export const ManageConversions: React.FC = () => {
                   <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
                     Status
                   </th>
-                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
-                    Actions
-                  </th>
+                  {canDelete && (
+                    <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
                 </tr>
               </thead>
               <tbody className="divide-y divide-border">
@@ -890,37 +843,65 @@ export const ManageConversions: React.FC = () => {
                         {conversion.status}
                       </span>
                     </td>
-                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
-                      <div className="flex flex-col gap-2">
-                        <button
-                          onClick={() => handleDeletePdf(conversion)}
-                          disabled={
-                            !conversion.pdf_path ||
-                            deletingItem === conversion.id
-                          }
-                          className="text-orange-600 hover:text-orange-700 disabled:text-muted-foreground disabled:cursor-not-allowed text-left font-semibold transition-colors"
-                        >
-                          Delete PDF
-                        </button>
-                        <button
-                          onClick={() => handleDeleteAudio(conversion)}
-                          disabled={
-                            !conversion.audio_path ||
-                            deletingItem === conversion.id
-                          }
-                          className="text-blue-600 hover:text-blue-700 disabled:text-muted-foreground disabled:cursor-not-allowed text-left font-semibold transition-colors"
-                        >
-                          Delete Audio
-                        </button>
-                        <button
-                          onClick={() => handleDeleteConversion(conversion)}
-                          disabled={deletingItem === conversion.id}
-                          className="text-red-600 hover:text-red-700 disabled:text-muted-foreground disabled:cursor-not-allowed text-left font-semibold transition-colors"
-                        >
-                          Delete All
-                        </button>
-                      </div>
-                    </td>
+                    {canDelete && showTrash && (
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="flex flex-col gap-2">
+                          <button
+                            onClick={() => handleRestoreConversion(conversion)}
+                            disabled={deletingItem === conversion.id}
+                            className="text-primary hover:text-primary/80 disabled:text-muted-foreground disabled:cursor-not-allowed text-left font-semibold transition-colors"
+                          >
+                            Restore
+                          </button>
+                          <button
+                            onClick={() => handlePurgeConversion(conversion)}
+                            disabled={deletingItem === conversion.id}
+                            className="text-red-600 hover:text-red-700 disabled:text-muted-foreground disabled:cursor-not-allowed text-left font-semibold transition-colors"
+                          >
+                            Delete Forever
+                          </button>
+                          {conversion.deleted_at && (
+                            <span className="text-xs text-muted-foreground">
+                              Purged{" "}
+                              {purgeDate(conversion.deleted_at).toLocaleDateString()}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                    )}
+                    {canDelete && !showTrash && (
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="flex flex-col gap-2">
+                          <button
+                            onClick={() => handleDeletePdf(conversion)}
+                            disabled={
+                              !conversion.pdf_path ||
+                              deletingItem === conversion.id
+                            }
+                            className="text-orange-600 hover:text-orange-700 disabled:text-muted-foreground disabled:cursor-not-allowed text-left font-semibold transition-colors"
+                          >
+                            Delete PDF
+                          </button>
+                          <button
+                            onClick={() => handleDeleteAudio(conversion)}
+                            disabled={
+                              !conversion.audio_path ||
+                              deletingItem === conversion.id
+                            }
+                            className="text-blue-600 hover:text-blue-700 disabled:text-muted-foreground disabled:cursor-not-allowed text-left font-semibold transition-colors"
+                          >
+                            Delete Audio
+                          </button>
+                          <button
+                            onClick={() => handleDeleteConversion(conversion)}
+                            disabled={deletingItem === conversion.id}
+                            className="text-red-600 hover:text-red-700 disabled:text-muted-foreground disabled:cursor-not-allowed text-left font-semibold transition-colors"
+                          >
+                            Delete All
+                          </button>
+                        </div>
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -953,7 +934,7 @@ export const ManageConversions: React.FC = () => {
           {!loading && conversions.length === 0 && (
             <div className="text-center py-16">
               <p className="text-muted-foreground text-lg font-medium">
-                No conversions found
+                {showTrash ? "Trash is empty" : "No conversions found"}
               </p>
               <p className="text-muted-foreground text-sm mt-2">
                 Try adjusting your filters
@@ -962,6 +943,17 @@ export const ManageConversions: React.FC = () => {
           )}
         </div>
       </div>
+
+      {exporting && (
+        <ExportDialog
+          dataset="conversions"
+          query={{
+            ...toQueryFilters(filters),
+            trash: showTrash ? "1" : undefined,
+          }}
+          onClose={() => setExporting(false)}
+        />
+      )}
     </div>
   );
 };
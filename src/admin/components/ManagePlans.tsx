@@ -0,0 +1,375 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { adminAuth } from "./../utils/adminAuth";
+import { adminApi, AdminApiRequestError } from "./../utils/adminApi";
+import type { PlanSummary } from "./../utils/apiSchemas";
+import {
+  formatPlanPrice,
+  newPlanSchema,
+  TTS_VOICES,
+  type NewPlan,
+} from "./../utils/plans";
+import { Plus, Save } from "lucide-react";
+
+const EMPTY_PLAN: NewPlan = {
+  id: "",
+  name: "",
+  monthly_conversions: null,
+  max_pdf_mb: 10,
+  allowed_voices: [...TTS_VOICES],
+  monthly_price: 0,
+};
+
+const inputClass =
+  "w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground read-only:opacity-50";
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="mt-1 text-xs text-red-600">{message}</p> : null;
+
+export const ManagePlans: React.FC = () => {
+  const [plans, setPlans] = useState<PlanSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The plan being edited in the form; null while adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const adminUser = adminAuth.getSession();
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<NewPlan>({
+    resolver: zodResolver(newPlanSchema),
+    defaultValues: EMPTY_PLAN,
+  });
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await adminApi.plans.list();
+      setPlans(result.plans);
+    } catch (error) {
+      console.error("Error fetching plans:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  // Handle edit: load the plan into the form above the table
+  const handleEdit = (plan: PlanSummary) => {
+    setEditingId(plan.id);
+    reset({
+      id: plan.id,
+      name: plan.name,
+      monthly_conversions: plan.monthly_conversions,
+      max_pdf_mb: plan.max_pdf_mb,
+      allowed_voices: plan.allowed_voices as NewPlan["allowed_voices"],
+      monthly_price: plan.monthly_price,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    reset(EMPTY_PLAN);
+  };
+
+  // Handle save: create, or update everything but the id
+  const handleSave = handleSubmit(async ({ id, ...fields }) => {
+    try {
+      if (editingId) {
+        await adminApi.plans.update(editingId, fields);
+      } else {
+        await adminApi.plans.create({ id, ...fields });
+      }
+      handleCancel();
+      fetchPlans();
+    } catch (error) {
+      console.error("Error saving plan:", error);
+      const fieldIssues =
+        error instanceof AdminApiRequestError
+          ? error.issues.filter((issue) => issue.path in newPlanSchema.shape)
+          : [];
+      if (fieldIssues.length === 0) {
+        alert(error instanceof Error ? error.message : "Failed to save plan");
+      }
+      for (const issue of fieldIssues) {
+        setError(issue.path as keyof NewPlan, { message: issue.message });
+      }
+    }
+  });
+
+  // Handle delete: only possible once nobody is on the plan
+  const handleDelete = async (plan: PlanSummary) => {
+    if (!confirm(`Delete the ${plan.name} plan?`)) return;
+
+    try {
+      await adminApi.plans.remove(plan.id);
+      if (editingId === plan.id) handleCancel();
+      fetchPlans();
+    } catch (error) {
+      console.error("Error deleting plan:", error);
+      alert(error instanceof Error ? error.message : "Failed to delete plan");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-primary to-purple-600 bg-clip-text text-transparent">
+            Plans
+          </h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            Welcome, {adminUser?.name}
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        {/* Add / Edit */}
+        <div className="bg-card rounded-2xl border-2 border-border shadow-lg p-6 sm:p-8 mb-6 sm:mb-8 hover:border-primary/50 transition-all">
+          <h2 className="text-xl sm:text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+            <span className="w-1 h-6 bg-gradient-to-b from-primary to-purple-600 rounded-full"></span>
+            {editingId ? "Edit Plan" : "Add Plan"}
+          </h2>
+          <form onSubmit={handleSave} className="space-y-4 sm:space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 sm:gap-6">
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  ID
+                </label>
+                <input
+                  type="text"
+                  placeholder="e.g. pro"
+                  readOnly={!!editingId}
+                  {...register("id")}
+                  className={`${inputClass} font-mono`}
+                />
+                <FieldError message={errors.id?.message} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  {...register("name")}
+                  className={inputClass}
+                />
+                <FieldError message={errors.name?.message} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  Conversions / Month
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Unlimited"
+                  {...register("monthly_conversions", {
+                    setValueAs: (value) =>
+                      value === "" || value === null ? null : Number(value),
+                  })}
+                  className={inputClass}
+                />
+                <FieldError message={errors.monthly_conversions?.message} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  Max PDF Size (MB)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  {...register("max_pdf_mb", { valueAsNumber: true })}
+                  className={inputClass}
+                />
+                <FieldError message={errors.max_pdf_mb?.message} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-foreground mb-2">
+                  Price / Month (USD)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  {...register("monthly_price", { valueAsNumber: true })}
+                  className={inputClass}
+                />
+                <FieldError message={errors.monthly_price?.message} />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                Allowed Voices
+              </label>
+              <div className="flex flex-wrap gap-4">
+                {TTS_VOICES.map((voice) => (
+                  <label
+                    key={voice}
+                    className="flex items-center gap-2 text-sm text-foreground capitalize"
+                  >
+                    <input
+                      type="checkbox"
+                      value={voice}
+                      {...register("allowed_voices")}
+                      className="w-4 h-4 accent-primary"
+                    />
+                    {voice}
+                  </label>
+                ))}
+              </div>
+              <FieldError message={errors.allowed_voices?.message} />
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="flex items-center justify-center px-4 py-2.5 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {editingId ? (
+                  <Save className="w-4 h-4 mr-2" />
+                ) : (
+                  <Plus className="w-4 h-4 mr-2" />
+                )}
+                {isSubmitting
+                  ? "Saving..."
+                  : editingId
+                    ? "Save Plan"
+                    : "Add Plan"}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="px-4 py-2.5 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+
+        {/* Plans Table */}
+        <div className="bg-card rounded-2xl border-2 border-border shadow-xl overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-accent/50 border-b-2 border-border">
+                <tr>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Plan
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Conversions / Month
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Max PDF Size
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Voices
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Price
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Users
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {plans.map((plan) => (
+                  <tr
+                    key={plan.id}
+                    className="hover:bg-accent/30 transition-colors"
+                  >
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-semibold text-foreground">
+                        {plan.name}
+                      </div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {plan.id}
+                      </div>
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {plan.monthly_conversions ?? "Unlimited"}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {plan.max_pdf_mb} MB
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 text-sm text-muted-foreground capitalize">
+                      {plan.allowed_voices.length === TTS_VOICES.length
+                        ? "All"
+                        : plan.allowed_voices.join(", ")}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                      {formatPlanPrice(plan.monthly_price)}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {plan.users}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => handleEdit(plan)}
+                          className="text-primary hover:text-primary/80 font-semibold transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(plan)}
+                          disabled={plan.users > 0}
+                          title={
+                            plan.users > 0
+                              ? "Move its users to another plan first"
+                              : undefined
+                          }
+                          className="text-red-600 hover:text-red-700 font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Loading indicator */}
+          {loading && (
+            <div className="text-center py-12">
+              <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              <p className="mt-4 text-muted-foreground font-medium">
+                Loading plans...
+              </p>
+            </div>
+          )}
+
+          {!loading && plans.length === 0 && (
+            <div className="text-center py-16">
+              <p className="text-muted-foreground text-lg font-medium">
+                No plans yet
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
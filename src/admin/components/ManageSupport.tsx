@@ -1,8 +1,18 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
-import { createClient } from "@supabase/supabase-js";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import { adminAuth } from "./../utils/adminAuth";
+import { adminApi, type SupportFilters } from "./../utils/adminApi";
+import type {
+  SavedViewRecord,
+  SupportInbox,
+  SupportMessageRecord as SupportMessage,
+  SupportStats,
+  SupportTicketRecord as SupportTicket,
+} from "./../utils/apiSchemas";
+import { hasPermission } from "./../utils/permissions";
+import { ExportDialog } from "./ExportDialog";
+import { SavedViewsBar } from "./SavedViewsBar";
 import {
   X,
   Send,
@@ -21,41 +31,9 @@ import {
   MessageCircle,
   Timer,
   Users,
+  Download,
 } from "lucide-react";
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-interface SupportTicket {
-  id: string;
-  user_id: string;
-  subject: string;
-  status: "open" | "closed";
-  created_at: string;
-  updated_at: string;
-  closed_at: string | null;
-  closed_by: string | null;
-}
-
-interface SupportMessage {
-  id: string;
-  ticket_id: string;
-  sender_id: string;
-  sender_type: "user" | "admin";
-  message: string;
-  created_at: string;
-  read: boolean;
-}
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-}
-
 interface TicketWithUser extends SupportTicket {
   user_name: string;
   user_email: string;
@@ -72,6 +50,48 @@ interface Filters {
   sortBy: "created_at" | "updated_at";
 }
 
+// The filters as the export takes them ("all" means no filter)
+const toQueryFilters = (filters: Filters): SupportFilters => ({
+  search: filters.search || undefined,
+  status:
+    filters.status === "all"
+      ? undefined
+      : (filters.status as SupportTicket["status"]),
+  subject: filters.subject === "all" ? undefined : filters.subject,
+  dateFrom: filters.dateFrom,
+  dateTo: filters.dateTo,
+});
+
+// Query parameters for the filters and sort, as in the URL and saved
+// views; unset filters and the default sort are left out
+const filtersToParams = (filters: Filters): Record<string, string> => {
+  const params: Record<string, string> = Object.fromEntries(
+    Object.entries(toQueryFilters(filters)).filter(([, value]) => value)
+  );
+  if (filters.sortBy !== "updated_at") params.sortBy = filters.sortBy;
+  return params;
+};
+
+// Every query parameter filtersToParams may write
+const FILTER_PARAMS = [
+  "search",
+  "status",
+  "subject",
+  "dateFrom",
+  "dateTo",
+  "sortBy",
+];
+
+// Inverse of filtersToParams
+const filtersFromParams = (params: URLSearchParams): Filters => ({
+  search: params.get("search") ?? "",
+  status: params.get("status") ?? "all",
+  subject: params.get("subject") ?? "all",
+  dateFrom: params.get("dateFrom") ?? "",
+  dateTo: params.get("dateTo") ?? "",
+  sortBy: params.get("sortBy") === "created_at" ? "created_at" : "updated_at",
+});
+
 const SUPPORT_SUBJECTS = [
   "Account Issues",
   "Payment & Billing",
@@ -80,27 +100,56 @@ const SUPPORT_SUBJECTS = [
   "Other",
 ];
 
+const NO_STATS: SupportStats = {
+  total: 0,
+  open: 0,
+  closed: 0,
+  averageResolutionMs: null,
+  unreadMessages: 0,
+  ticketsWithUnread: 0,
+  pendingResponse: 0,
+  maxMessagesPerTicket: 0,
+  averageMessagesPerTicket: 0,
+  averageResponseMs: null,
+  newToday: 0,
+  newThisWeek: 0,
+  newThisMonth: 0,
+  closedToday: 0,
+  closedThisWeek: 0,
+  closedThisMonth: 0,
+  subjects: {},
+  uniqueUsers: 0,
+  usersWithMultipleTickets: 0,
+  maxTicketsPerUser: 0,
+};
+
+// Hours below a day, days above
+const formatElapsed = (ms: number | null): string => {
+  if (ms === null) return "N/A";
+  const hours = ms / (1000 * 60 * 60);
+  return hours < 24 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`;
+};
+
 export const ManageSupport: React.FC = () => {
   const [allTickets, setAllTickets] = useState<SupportTicket[]>([]);
   const [allMessages, setAllMessages] = useState<SupportMessage[]>([]);
-  const [allUsers, setAllUsers] = useState<User[]>([]);
+  const [allUsers, setAllUsers] = useState<SupportInbox["users"]>([]);
   const [filteredTickets, setFilteredTickets] = useState<TicketWithUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTicket, setSelectedTicket] = useState<string | null>(null);
   const [ticketMessages, setTicketMessages] = useState<SupportMessage[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [sendingMessage, setSendingMessage] = useState(false);
-  const [filters, setFilters] = useState<Filters>({
-    search: "",
-    status: "all",
-    subject: "all",
-    dateFrom: "",
-    dateTo: "",
-    sortBy: "updated_at",
-  });
+  const [stats, setStats] = useState<SupportStats>(NO_STATS);
+  const [exporting, setExporting] = useState(false);
+  const [filters, setFilters] = useState<Filters>(() =>
+    filtersFromParams(new URLSearchParams(window.location.search))
+  );
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const adminUser = adminAuth.getSession();
+  const canReply = hasPermission(adminUser, "support:reply");
+  const canClose = hasPermission(adminUser, "support:close");
 
   // Scroll to bottom of messages
   const scrollToBottom = () => {
@@ -112,43 +161,10 @@ export const ManageSupport: React.FC = () => {
     try {
       setLoading(true);
 
-      // Fetch all tickets
-      const { data: ticketsData, error: ticketsError } = await supabase
-        .from("support_tickets")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (ticketsError) {
-        console.error("Error fetching tickets:", ticketsError);
-        setAllTickets([]);
-      } else {
-        setAllTickets(ticketsData || []);
-      }
-
-      // Fetch all messages
-      const { data: messagesData, error: messagesError } = await supabase
-        .from("support_messages")
-        .select("*")
-        .order("created_at", { ascending: true });
-
-      if (messagesError) {
-        console.error("Error fetching messages:", messagesError);
-        setAllMessages([]);
-      } else {
-        setAllMessages(messagesData || []);
-      }
-
-      // Fetch all users
-      const { data: usersData, error: usersError } = await supabase
-        .from("users")
-        .select("id, name, email");
-
-      if (usersError) {
-        console.error("Error fetching users:", usersError);
-        setAllUsers([]);
-      } else {
-        setAllUsers(usersData || []);
-      }
+      const inbox = await adminApi.support.inbox();
+      setAllTickets(inbox.tickets);
+      setAllMessages(inbox.messages);
+      setAllUsers(inbox.users);
     } catch (error) {
       console.error("Error in fetchAllData:", error);
       setAllTickets([]);
@@ -260,12 +276,7 @@ export const ManageSupport: React.FC = () => {
   // Mark messages as read
   const markMessagesAsRead = async (ticketId: string) => {
     try {
-      await supabase
-        .from("support_messages")
-        .update({ read: true })
-        .eq("ticket_id", ticketId)
-        .eq("sender_type", "user")
-        .eq("read", false);
+      await adminApi.support.markRead(ticketId);
 
       // Update local state
       setAllMessages((prev) =>
@@ -287,29 +298,11 @@ export const ManageSupport: React.FC = () => {
     try {
       setSendingMessage(true);
 
-      const { data, error } = await supabase
-        .from("support_messages")
-        .insert({
-          ticket_id: selectedTicket,
-          sender_id: adminUser.id,
-          sender_type: "admin",
-          message: newMessage.trim(),
-          read: false,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Update ticket updated_at
-      const { error: updateError } = await supabase
-        .from("support_tickets")
-        .update({ updated_at: new Date().toISOString() })
-        .eq("id", selectedTicket);
-
-      if (updateError) {
-        console.error("Error updating ticket:", updateError);
-      }
+      // Server stamps the sender and bumps the ticket's updated_at
+      const { message: data } = await adminApi.support.sendMessage(
+        selectedTicket,
+        newMessage.trim()
+      );
 
       // Update local messages state
       setAllMessages((prev) => [...prev, data]);
@@ -340,29 +333,13 @@ export const ManageSupport: React.FC = () => {
   ) => {
     try {
       const newStatus = currentStatus === "open" ? "closed" : "open";
-      const updateData: any = {
-        status: newStatus,
-        updated_at: new Date().toISOString(),
-      };
 
-      if (newStatus === "closed") {
-        updateData.closed_at = new Date().toISOString();
-        updateData.closed_by = adminUser?.id;
-      } else {
-        updateData.closed_at = null;
-        updateData.closed_by = null;
-      }
-
-      const { error } = await supabase
-        .from("support_tickets")
-        .update(updateData)
-        .eq("id", ticketId);
-
-      if (error) throw error;
+      // closed_at / closed_by are set server-side from the session
+      const { ticket } = await adminApi.support.setStatus(ticketId, newStatus);
 
       // Update local state
       setAllTickets((prev) =>
-        prev.map((t) => (t.id === ticketId ? { ...t, ...updateData } : t))
+        prev.map((t) => (t.id === ticketId ? { ...t, ...ticket } : t))
       );
     } catch (error) {
       console.error("Error toggling ticket status:", error);
@@ -375,6 +352,55 @@ export const ManageSupport: React.FC = () => {
     fetchAllData();
   }, []);
 
+  // Stats for the current filters, computed server-side; debounced while
+  // typing a search
+  useEffect(() => {
+    const timeout = window.setTimeout(async () => {
+      try {
+        const { stats } = await adminApi.support.stats({
+          search: filters.search || undefined,
+          status:
+            filters.status === "all"
+              ? undefined
+              : (filters.status as SupportTicket["status"]),
+          subject: filters.subject === "all" ? undefined : filters.subject,
+          dateFrom: filters.dateFrom,
+          dateTo: filters.dateTo,
+        });
+        setStats(stats);
+      } catch (error) {
+        console.error("Error fetching support stats:", error);
+      }
+    }, 300);
+    return () => window.clearTimeout(timeout);
+  }, [
+    filters.search,
+    filters.status,
+    filters.subject,
+    filters.dateFrom,
+    filters.dateTo,
+  ]);
+
+  // Keep the filters in the URL so the view can be reloaded or shared
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    FILTER_PARAMS.forEach((key) => params.delete(key));
+    Object.entries(filtersToParams(filters)).forEach(([key, value]) =>
+      params.set(key, value)
+    );
+
+    const query = params.toString();
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${query ? `?${query}` : ""}`
+    );
+  }, [filters]);
+
+  const applyView = useCallback((view: SavedViewRecord) => {
+    setFilters(filtersFromParams(new URLSearchParams(view.query)));
+  }, []);
+
   // Process tickets whenever data or filters change
   useEffect(() => {
     processTickets();
@@ -398,7 +424,19 @@ export const ManageSupport: React.FC = () => {
                 Welcome, {adminUser?.name}
               </p>
             </div>
+            <button
+              onClick={() => setExporting(true)}
+              className="flex items-center px-4 py-2 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </button>
           </div>
+          <SavedViewsBar
+            tab="support"
+            query={filtersToParams(filters)}
+            onApply={applyView}
+          />
         </div>
       </div>
 
@@ -417,7 +455,7 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-3xl font-bold text-foreground mb-1">
-              {filteredTickets.length}
+              {stats.total}
             </p>
             <p className="text-xs text-muted-foreground">
               Based on current filters
@@ -435,15 +473,11 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-3xl font-bold text-foreground mb-1">
-              {filteredTickets.filter((t) => t.status === "open").length}
+              {stats.open}
             </p>
             <p className="text-xs text-muted-foreground">
-              {filteredTickets.length > 0
-                ? (
-                    (filteredTickets.filter((t) => t.status === "open").length /
-                      filteredTickets.length) *
-                    100
-                  ).toFixed(1)
+              {stats.total > 0
+                ? ((stats.open / stats.total) * 100).toFixed(1)
                 : 0}
               % of total
             </p>
@@ -460,16 +494,11 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-3xl font-bold text-foreground mb-1">
-              {filteredTickets.filter((t) => t.status === "closed").length}
+              {stats.closed}
             </p>
             <p className="text-xs text-muted-foreground">
-              {filteredTickets.length > 0
-                ? (
-                    (filteredTickets.filter((t) => t.status === "closed")
-                      .length /
-                      filteredTickets.length) *
-                    100
-                  ).toFixed(1)
+              {stats.total > 0
+                ? ((stats.closed / stats.total) * 100).toFixed(1)
                 : 0}
               % of total
             </p>
@@ -486,28 +515,7 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-3xl font-bold text-foreground mb-1">
-              {(() => {
-                const closedTickets = filteredTickets.filter(
-                  (t) => t.status === "closed" && t.closed_at
-                );
-                if (closedTickets.length === 0) return "N/A";
-
-                const totalTime = closedTickets.reduce((sum, t) => {
-                  const created = new Date(t.created_at).getTime();
-                  const closed = new Date(t.closed_at!).getTime();
-                  return sum + (closed - created);
-                }, 0);
-
-                const avgMs = totalTime / closedTickets.length;
-                const hours = avgMs / (1000 * 60 * 60);
-
-                if (hours < 24) {
-                  return `${hours.toFixed(1)}h`;
-                } else {
-                  const days = hours / 24;
-                  return `${days.toFixed(1)}d`;
-                }
-              })()}
+              {formatElapsed(stats.averageResolutionMs)}
             </p>
             <p className="text-xs text-muted-foreground">Time to close</p>
           </div>
@@ -526,11 +534,10 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {filteredTickets.reduce((sum, t) => sum + t.unreadCount, 0)}
+              {stats.unreadMessages}
             </p>
             <p className="text-xs text-muted-foreground">
-              Across {filteredTickets.filter((t) => t.unreadCount > 0).length}{" "}
-              tickets
+              Across {stats.ticketsWithUnread} tickets
             </p>
           </div>
 
@@ -545,11 +552,7 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {
-                filteredTickets.filter(
-                  (t) => t.lastMessage && t.lastMessage.sender_type === "user"
-                ).length
-              }
+              {stats.pendingResponse}
             </p>
             <p className="text-xs text-muted-foreground">
               Last message from user
@@ -567,16 +570,7 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                const ticketMessageCounts = filteredTickets.map((t) => ({
-                  count: allMessages.filter((m) => m.ticket_id === t.id).length,
-                }));
-                const maxCount = Math.max(
-                  ...ticketMessageCounts.map((t) => t.count),
-                  0
-                );
-                return maxCount;
-              })()}
+              {stats.maxMessagesPerTicket}
             </p>
             <p className="text-xs text-muted-foreground">
               Messages in one ticket
@@ -597,13 +591,7 @@ export const ManageSupport: React.FC = () => {
               </div>
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {
-                    filteredTickets.filter((t) => {
-                      const today = new Date();
-                      today.setHours(0, 0, 0, 0);
-                      return new Date(t.created_at) >= today;
-                    }).length
-                  }
+                  {stats.newToday}
                 </p>
                 <p className="text-sm text-muted-foreground">Today</p>
               </div>
@@ -614,13 +602,7 @@ export const ManageSupport: React.FC = () => {
               </div>
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {
-                    filteredTickets.filter((t) => {
-                      const weekAgo = new Date();
-                      weekAgo.setDate(weekAgo.getDate() - 7);
-                      return new Date(t.created_at) >= weekAgo;
-                    }).length
-                  }
+                  {stats.newThisWeek}
                 </p>
                 <p className="text-sm text-muted-foreground">This Week</p>
               </div>
@@ -631,13 +613,7 @@ export const ManageSupport: React.FC = () => {
               </div>
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {
-                    filteredTickets.filter((t) => {
-                      const monthAgo = new Date();
-                      monthAgo.setMonth(monthAgo.getMonth() - 1);
-                      return new Date(t.created_at) >= monthAgo;
-                    }).length
-                  }
+                  {stats.newThisMonth}
                 </p>
                 <p className="text-sm text-muted-foreground">This Month</p>
               </div>
@@ -658,14 +634,7 @@ export const ManageSupport: React.FC = () => {
               </div>
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {
-                    filteredTickets.filter((t) => {
-                      if (!t.closed_at) return false;
-                      const today = new Date();
-                      today.setHours(0, 0, 0, 0);
-                      return new Date(t.closed_at) >= today;
-                    }).length
-                  }
+                  {stats.closedToday}
                 </p>
                 <p className="text-sm text-muted-foreground">Closed Today</p>
               </div>
@@ -676,14 +645,7 @@ export const ManageSupport: React.FC = () => {
               </div>
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {
-                    filteredTickets.filter((t) => {
-                      if (!t.closed_at) return false;
-                      const weekAgo = new Date();
-                      weekAgo.setDate(weekAgo.getDate() - 7);
-                      return new Date(t.closed_at) >= weekAgo;
-                    }).length
-                  }
+                  {stats.closedThisWeek}
                 </p>
                 <p className="text-sm text-muted-foreground">
                   Closed This Week
@@ -696,14 +658,7 @@ export const ManageSupport: React.FC = () => {
               </div>
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {
-                    filteredTickets.filter((t) => {
-                      if (!t.closed_at) return false;
-                      const monthAgo = new Date();
-                      monthAgo.setMonth(monthAgo.getMonth() - 1);
-                      return new Date(t.closed_at) >= monthAgo;
-                    }).length
-                  }
+                  {stats.closedThisMonth}
                 </p>
                 <p className="text-sm text-muted-foreground">
                   Closed This Month
@@ -726,13 +681,7 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {filteredTickets.length > 0
-                ? (
-                    allMessages.filter((m) =>
-                      filteredTickets.some((t) => t.id === m.ticket_id)
-                    ).length / filteredTickets.length
-                  ).toFixed(1)
-                : "0"}
+              {stats.averageMessagesPerTicket.toFixed(1)}
             </p>
             <p className="text-xs text-muted-foreground">Per ticket</p>
           </div>
@@ -748,48 +697,7 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                let totalResponseTime = 0;
-                let responseCount = 0;
-
-                filteredTickets.forEach((ticket) => {
-                  const ticketMsgs = allMessages
-                    .filter((m) => m.ticket_id === ticket.id)
-                    .sort(
-                      (a, b) =>
-                        new Date(a.created_at).getTime() -
-                        new Date(b.created_at).getTime()
-                    );
-
-                  for (let i = 0; i < ticketMsgs.length - 1; i++) {
-                    if (
-                      ticketMsgs[i].sender_type === "user" &&
-                      ticketMsgs[i + 1].sender_type === "admin"
-                    ) {
-                      const userTime = new Date(
-                        ticketMsgs[i].created_at
-                      ).getTime();
-                      const adminTime = new Date(
-                        ticketMsgs[i + 1].created_at
-                      ).getTime();
-                      totalResponseTime += adminTime - userTime;
-                      responseCount++;
-                    }
-                  }
-                });
-
-                if (responseCount === 0) return "N/A";
-
-                const avgMs = totalResponseTime / responseCount;
-                const hours = avgMs / (1000 * 60 * 60);
-
-                if (hours < 24) {
-                  return `${hours.toFixed(1)}h`;
-                } else {
-                  const days = hours / 24;
-                  return `${days.toFixed(1)}d`;
-                }
-              })()}
+              {formatElapsed(stats.averageResponseMs)}
             </p>
             <p className="text-xs text-muted-foreground">Admin response time</p>
           </div>
@@ -803,13 +711,9 @@ export const ManageSupport: React.FC = () => {
           </h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {SUPPORT_SUBJECTS.map((subject) => {
-              const count = filteredTickets.filter(
-                (t) => t.subject === subject
-              ).length;
+              const count = stats.subjects[subject] ?? 0;
               const percentage =
-                filteredTickets.length > 0
-                  ? ((count / filteredTickets.length) * 100).toFixed(1)
-                  : 0;
+                stats.total > 0 ? ((count / stats.total) * 100).toFixed(1) : 0;
               return (
                 <div key={subject} className="flex items-center gap-4">
                   <div className="w-12 h-12 bg-violet-500/20 rounded-xl flex items-center justify-center flex-shrink-0">
@@ -853,7 +757,7 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {new Set(filteredTickets.map((t) => t.user_id)).size}
+              {stats.uniqueUsers}
             </p>
             <p className="text-xs text-muted-foreground">
               With support tickets
@@ -871,18 +775,7 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                const userTicketCounts = new Map();
-                filteredTickets.forEach((t) => {
-                  userTicketCounts.set(
-                    t.user_id,
-                    (userTicketCounts.get(t.user_id) || 0) + 1
-                  );
-                });
-                return Array.from(userTicketCounts.values()).filter(
-                  (count) => count > 1
-                ).length;
-              })()}
+              {stats.usersWithMultipleTickets}
             </p>
             <p className="text-xs text-muted-foreground">
               Users with 2+ tickets
@@ -900,16 +793,7 @@ export const ManageSupport: React.FC = () => {
               </div>
             </div>
             <p className="text-4xl font-bold text-foreground mb-2">
-              {(() => {
-                const userTicketCounts = new Map();
-                filteredTickets.forEach((t) => {
-                  userTicketCounts.set(
-                    t.user_id,
-                    (userTicketCounts.get(t.user_id) || 0) + 1
-                  );
-                });
-                return Math.max(...Array.from(userTicketCounts.values()), 0);
-              })()}
+              {stats.maxTicketsPerUser}
             </p>
             <p className="text-xs text-muted-foreground">Most active user</p>
           </div>
@@ -1131,23 +1015,25 @@ export const ManageSupport: React.FC = () => {
                     </p>
                   </div>
                   <div className="flex items-center gap-2">
-                    <button
-                      onClick={() =>
-                        toggleTicketStatus(
-                          selectedTicket,
-                          selectedTicketData.status
-                        )
-                      }
-                      className={`px-4 py-2 rounded-lg font-semibold transition-all ${
-                        selectedTicketData.status === "open"
-                          ? "bg-red-500 hover:bg-red-600 text-white"
-                          : "bg-green-500 hover:bg-green-600 text-white"
-                      }`}
-                    >
-                      {selectedTicketData.status === "open"
-                        ? "Close Ticket"
-                        : "Reopen Ticket"}
-                    </button>
+                    {canClose && (
+                      <button
+                        onClick={() =>
+                          toggleTicketStatus(
+                            selectedTicket,
+                            selectedTicketData.status
+                          )
+                        }
+                        className={`px-4 py-2 rounded-lg font-semibold transition-all ${
+                          selectedTicketData.status === "open"
+                            ? "bg-red-500 hover:bg-red-600 text-white"
+                            : "bg-green-500 hover:bg-green-600 text-white"
+                        }`}
+                      >
+                        {selectedTicketData.status === "open"
+                          ? "Close Ticket"
+                          : "Reopen Ticket"}
+                      </button>
+                    )}
                     <button
                       onClick={() => setSelectedTicket(null)}
                       className="p-2 hover:bg-accent rounded-lg transition-colors"
@@ -1192,32 +1078,34 @@ export const ManageSupport: React.FC = () => {
                 </div>
 
                 {/* Message Input */}
-                <div className="border-t-2 border-border p-4">
-                  <div className="flex gap-2">
-                    <input
-                      type="text"
-                      value={newMessage}
-                      onChange={(e) => setNewMessage(e.target.value)}
-                      onKeyPress={(e) => {
-                        if (e.key === "Enter" && !e.shiftKey) {
-                          e.preventDefault();
-                          handleSendMessage();
-                        }
-                      }}
-                      placeholder="Type your message..."
-                      disabled={sendingMessage}
-                      className="flex-1 px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
-                    />
-                    <button
-                      onClick={handleSendMessage}
-                      disabled={sendingMessage || !newMessage.trim()}
-                      className="px-6 py-3 bg-primary hover:bg-primary/90 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 font-semibold"
-                    >
-                      <Send className="w-4 h-4" />
-                      Send
-                    </button>
+                {canReply && (
+                  <div className="border-t-2 border-border p-4">
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={newMessage}
+                        onChange={(e) => setNewMessage(e.target.value)}
+                        onKeyPress={(e) => {
+                          if (e.key === "Enter" && !e.shiftKey) {
+                            e.preventDefault();
+                            handleSendMessage();
+                          }
+                        }}
+                        placeholder="Type your message..."
+                        disabled={sendingMessage}
+                        className="flex-1 px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
+                      />
+                      <button
+                        onClick={handleSendMessage}
+                        disabled={sendingMessage || !newMessage.trim()}
+                        className="px-6 py-3 bg-primary hover:bg-primary/90 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 font-semibold"
+                      >
+                        <Send className="w-4 h-4" />
+                        Send
+                      </button>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             ) : (
               <div className="bg-card rounded-2xl border-2 border-border shadow-xl h-[calc(100vh-300px)] flex items-center justify-center">
@@ -1235,6 +1123,14 @@ export const ManageSupport: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {exporting && (
+        <ExportDialog
+          dataset="tickets"
+          query={{ ...toQueryFilters(filters) }}
+          onClose={() => setExporting(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,488 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  adminAuth,
+  type AdminInvite,
+  type TeamMember,
+} from "./../utils/adminAuth";
+import { adminApi } from "./../utils/adminApi";
+import { ADMIN_ROLES, ROLE_LABELS, type AdminRole } from "./../utils/permissions";
+import { Copy, UserPlus } from "lucide-react";
+
+export const ManageTeam: React.FC = () => {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviting, setInviting] = useState(false);
+  const [inviteForm, setInviteForm] = useState<{
+    name: string;
+    email: string;
+    role: AdminRole;
+  }>({ name: "", email: "", role: "read_only" });
+  // Most recent one-time link, shown until dismissed
+  const [shareLink, setShareLink] = useState<{
+    label: string;
+    url: string;
+  } | null>(null);
+
+  const adminUser = adminAuth.getSession();
+
+  const fetchTeam = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await adminApi.admins.list();
+      setMembers(result.members);
+      setInvites(result.invites);
+    } catch (error) {
+      console.error("Error fetching team:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  // Handle invite
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setInviting(true);
+      const result = await adminApi.admins.invite(inviteForm);
+      setShareLink({
+        label: `Invite link for ${result.invite.email} (valid for 7 days)`,
+        url: result.inviteUrl,
+      });
+      setInviteForm({ name: "", email: "", role: "read_only" });
+      fetchTeam();
+    } catch (error) {
+      console.error("Error inviting admin:", error);
+      alert(error instanceof Error ? error.message : "Error inviting admin");
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  // Handle revoke invite
+  const handleRevokeInvite = async (invite: AdminInvite) => {
+    if (!confirm(`Revoke the invite for ${invite.email}?`)) return;
+
+    try {
+      await adminApi.admins.revokeInvite(invite.id);
+      fetchTeam();
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      alert("Error revoking invite");
+    }
+  };
+
+  // Handle disable / enable
+  const handleToggleDisabled = async (member: TeamMember) => {
+    const disable = !member.disabled_at;
+    if (
+      disable &&
+      !confirm(
+        `Disable ${member.name}? They will be signed out and unable to log in until re-enabled.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await adminApi.admins.setDisabled(member.id, disable);
+      fetchTeam();
+    } catch (error) {
+      console.error("Error updating admin:", error);
+      alert(error instanceof Error ? error.message : "Error updating admin");
+    }
+  };
+
+  // Handle role change
+  const handleRoleChange = async (member: TeamMember, role: AdminRole) => {
+    if (
+      !confirm(
+        `Change ${member.name}'s role to ${ROLE_LABELS[role]}? It applies to their next request.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await adminApi.admins.setRole(member.id, role);
+      fetchTeam();
+    } catch (error) {
+      console.error("Error changing role:", error);
+      alert(error instanceof Error ? error.message : "Error changing role");
+    }
+  };
+
+  // Handle force password reset
+  const handlePasswordReset = async (member: TeamMember) => {
+    if (
+      !confirm(
+        `Reset the password for ${member.name}? Their current password stops working immediately.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const result = await adminApi.admins.forcePasswordReset(member.id);
+      setShareLink({
+        label: `Password reset link for ${member.email} (valid for 24 hours)`,
+        url: result.resetUrl,
+      });
+      fetchTeam();
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      alert(error instanceof Error ? error.message : "Error resetting password");
+    }
+  };
+
+  // Handle 2FA reset
+  const handleResetTwoFactor = async (member: TeamMember) => {
+    if (
+      !confirm(
+        `Reset two-factor authentication for ${member.name}? They will need to enroll again.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await adminApi.admins.resetTwoFactor(member.id);
+      fetchTeam();
+    } catch (error) {
+      console.error("Error resetting 2FA:", error);
+      alert("Error resetting two-factor authentication");
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!shareLink) return;
+    try {
+      await navigator.clipboard.writeText(shareLink.url);
+      alert("Link copied");
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  const getStatusBadge = (member: TeamMember) => {
+    if (member.disabled_at) {
+      return (
+        <span className="px-3 py-1.5 inline-flex text-xs leading-5 font-bold rounded-full bg-red-500/10 text-red-600 border border-red-500/20">
+          Disabled
+        </span>
+      );
+    }
+    if (member.password_reset_pending) {
+      return (
+        <span className="px-3 py-1.5 inline-flex text-xs leading-5 font-bold rounded-full bg-yellow-500/10 text-yellow-700 border border-yellow-500/20">
+          Reset pending
+        </span>
+      );
+    }
+    return (
+      <span className="px-3 py-1.5 inline-flex text-xs leading-5 font-bold rounded-full bg-green-500/10 text-green-600 border border-green-500/20">
+        Active
+      </span>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-primary to-purple-600 bg-clip-text text-transparent">
+            Team
+          </h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            Welcome, {adminUser?.name}
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        {/* Invite */}
+        <div className="bg-card rounded-2xl border-2 border-border shadow-lg p-6 sm:p-8 mb-6 sm:mb-8 hover:border-primary/50 transition-all">
+          <h2 className="text-xl sm:text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+            <span className="w-1 h-6 bg-gradient-to-b from-primary to-purple-600 rounded-full"></span>
+            Invite Admin
+          </h2>
+          <form
+            onSubmit={handleInvite}
+            className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 items-end"
+          >
+            <div>
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                Name
+              </label>
+              <input
+                type="text"
+                required
+                value={inviteForm.name}
+                onChange={(e) =>
+                  setInviteForm({ ...inviteForm, name: e.target.value })
+                }
+                className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                Email
+              </label>
+              <input
+                type="email"
+                required
+                value={inviteForm.email}
+                onChange={(e) =>
+                  setInviteForm({ ...inviteForm, email: e.target.value })
+                }
+                className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-foreground mb-2">
+                Role
+              </label>
+              <select
+                value={inviteForm.role}
+                onChange={(e) =>
+                  setInviteForm({
+                    ...inviteForm,
+                    role: e.target.value as AdminRole,
+                  })
+                }
+                className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
+              >
+                {ADMIN_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={inviting}
+              className="flex items-center justify-center px-4 py-2.5 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              {inviting ? "Inviting..." : "Send Invite"}
+            </button>
+          </form>
+
+          {shareLink && (
+            <div className="mt-6 bg-accent/30 border-2 border-border rounded-lg p-4">
+              <p className="text-sm font-semibold text-foreground mb-2">
+                {shareLink.label}
+              </p>
+              <p className="text-xs text-muted-foreground mb-3">
+                Send this link to them directly. It works once and will not be
+                shown again.
+              </p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={shareLink.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-4 py-2 border-2 border-border bg-background rounded-lg font-mono text-xs text-foreground"
+                />
+                <button
+                  onClick={handleCopyLink}
+                  className="flex items-center justify-center px-4 py-2 rounded-lg font-semibold text-primary hover:bg-accent transition-colors"
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy
+                </button>
+                <button
+                  onClick={() => setShareLink(null)}
+                  className="px-4 py-2 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Team Table */}
+        <div className="bg-card rounded-2xl border-2 border-border shadow-xl overflow-hidden mb-6 sm:mb-8">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-accent/50 border-b-2 border-border">
+                <tr>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Name
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Email
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    2FA
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Last Login
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {members.map((member) => (
+                  <tr
+                    key={member.id}
+                    className="hover:bg-accent/30 transition-colors"
+                  >
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                      {member.name}
+                      {member.id === adminUser?.id && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          (you)
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {member.email}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                      {member.id === adminUser?.id ? (
+                        <span className="px-3 py-1.5 inline-flex text-xs leading-5 font-bold rounded-full bg-gradient-to-r from-purple-500/10 to-primary/10 text-primary border border-primary/20">
+                          {ROLE_LABELS[member.role]}
+                        </span>
+                      ) : (
+                        <select
+                          value={member.role}
+                          onChange={(e) =>
+                            handleRoleChange(
+                              member,
+                              e.target.value as AdminRole
+                            )
+                          }
+                          className="px-3 py-1.5 border-2 border-border bg-background rounded-lg text-xs font-bold text-primary focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all"
+                        >
+                          {ADMIN_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {member.totp_enabled ? "On" : "Off"}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                      {member.last_login_at
+                        ? new Date(member.last_login_at).toLocaleString()
+                        : "Never"}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                      {getStatusBadge(member)}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      {member.id !== adminUser?.id && (
+                        <div className="flex gap-3">
+                          <button
+                            onClick={() => handleToggleDisabled(member)}
+                            className={`font-semibold transition-colors ${
+                              member.disabled_at
+                                ? "text-green-600 hover:text-green-700"
+                                : "text-red-600 hover:text-red-700"
+                            }`}
+                          >
+                            {member.disabled_at ? "Enable" : "Disable"}
+                          </button>
+                          <button
+                            onClick={() => handlePasswordReset(member)}
+                            className="text-primary hover:text-primary/80 font-semibold transition-colors"
+                          >
+                            Reset Password
+                          </button>
+                          {member.totp_enabled && (
+                            <button
+                              onClick={() => handleResetTwoFactor(member)}
+                              className="text-primary hover:text-primary/80 font-semibold transition-colors"
+                            >
+                              Reset 2FA
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Loading indicator */}
+          {loading && (
+            <div className="text-center py-12">
+              <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              <p className="mt-4 text-muted-foreground font-medium">
+                Loading team...
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Pending Invites */}
+        {invites.length > 0 && (
+          <div className="bg-card rounded-2xl border-2 border-border shadow-xl overflow-hidden">
+            <div className="px-4 sm:px-6 py-4 border-b-2 border-border">
+              <h2 className="text-lg font-bold text-foreground">
+                Pending Invites
+              </h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <tbody className="divide-y divide-border">
+                  {invites.map((invite) => (
+                    <tr
+                      key={invite.id}
+                      className="hover:bg-accent/30 transition-colors"
+                    >
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                        {invite.name}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {invite.email}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {ROLE_LABELS[invite.role]}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                        Expires {new Date(invite.expires_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() => handleRevokeInvite(invite)}
+                          className="text-red-600 hover:text-red-700 font-semibold transition-colors"
+                        >
+                          Revoke
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,39 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback } from "react";
-import { createClient } from "@supabase/supabase-js";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  userFieldsSchema,
+  userPatchSchema,
+  type UserPatch,
+} from "../../types/database";
 import { adminAuth } from "./../utils/adminAuth";
+import { adminApi, AdminApiRequestError } from "./../utils/adminApi";
+import type {
+  PlanRecord,
+  SavedViewRecord,
+  UserDeletionReceipt,
+  UserRecord as User,
+  UserStats,
+} from "./../utils/apiSchemas";
+import { editableUserFields, hasPermission } from "./../utils/permissions";
+import { purgeDate, TRASH_RETENTION_DAYS } from "./../utils/trash";
+import { BulkUserActions } from "./BulkUserActions";
+import { ExportDialog } from "./ExportDialog";
+import { SavedViewsBar } from "./SavedViewsBar";
+import { UserImportWizard } from "./UserImportWizard";
+import { UserDetailDrawer } from "./UserDetailDrawer";
+import {
+  EXPIRING_SOON_DAYS,
+  USER_FILTER_PARAMS,
+  userFiltersFromParams,
+  userFiltersToParams,
+  type ExpiryStatus,
+  type UserFilters,
+  type UserSort,
+  type UserSortField,
+} from "./../utils/userFilters";
 import {
   Users,
   Gift,
@@ -14,201 +45,263 @@ import {
   Calendar,
   BarChart3,
   LineChart,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Copy,
+  Download,
+  Upload,
 } from "lucide-react";
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  password: string | null;
-  subscription_plan: string;
-  subscription_id?: string | null;
-  expiry_date: string;
-  conversions: number;
-  created_at: string;
-  updated_at: string;
-}
-
-type ExpiryStatus = "active" | "expiring_soon" | "expired";
-
-interface Filters {
-  search: string;
-  subscriptionPlan: string;
-  conversionsMin: string;
-  conversionsMax: string;
-  expiryStatus: string;
-  subscriptionId: string;
-}
-
-const ITEMS_PER_PAGE = 20;
+const NO_STATS: UserStats = {
+  total: 0,
+  plans: {},
+  active: 0,
+  expiringSoon: 0,
+  expired: 0,
+  newToday: 0,
+  newThisWeek: 0,
+  newThisMonth: 0,
+  newLastMonth: 0,
+  monthlyGrowth: 0,
+};
+
+// A row as the edit form holds it: date only, no nulls
+const toFormValues = (user: User): UserPatch => ({
+  name: user.name ?? "",
+  email: user.email ?? "",
+  subscription_plan: user.subscription_plan,
+  subscription_id: user.subscription_id ?? "",
+  expiry_date: user.expiry_date?.split("T")[0] ?? "",
+  conversions: user.conversions,
+});
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? (
+    <p className="mt-1 text-xs text-red-600 whitespace-normal">{message}</p>
+  ) : null;
+
+// Stats card colours, cycled through the plans in catalog order
+const PLAN_CARD_STYLES = [
+  {
+    card: "from-green-500/10 to-green-600/10 border-green-500/20 hover:border-green-500/40",
+    icon: "bg-green-500/20 text-green-600",
+  },
+  {
+    card: "from-purple-500/10 to-purple-600/10 border-purple-500/20 hover:border-purple-500/40",
+    icon: "bg-purple-500/20 text-purple-600",
+  },
+  {
+    card: "from-sky-500/10 to-sky-600/10 border-sky-500/20 hover:border-sky-500/40",
+    icon: "bg-sky-500/20 text-sky-600",
+  },
+  {
+    card: "from-pink-500/10 to-pink-600/10 border-pink-500/20 hover:border-pink-500/40",
+    icon: "bg-pink-500/20 text-pink-600",
+  },
+];
+
+// Save a deletion receipt as JSON, e.g. to answer an erasure request
+const downloadReceipt = (receipt: UserDeletionReceipt) => {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(receipt, null, 2)], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `deletion-receipt-${receipt.receiptId}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 export const ManageUsers: React.FC = () => {
+  const [initialView] = useState(() =>
+    userFiltersFromParams(new URLSearchParams(window.location.search))
+  );
   const [users, setUsers] = useState<User[]>([]);
-  const [allUsers, setAllUsers] = useState<User[]>([]); // Store all users for stats
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [stats, setStats] = useState<UserStats>(NO_STATS);
+  const [plans, setPlans] = useState<PlanRecord[]>([]);
   const [editingUser, setEditingUser] = useState<string | null>(null);
-  const [editForm, setEditForm] = useState<Partial<User>>({});
-  const [filters, setFilters] = useState<Filters>({
-    search: "",
-    subscriptionPlan: "all",
-    conversionsMin: "",
-    conversionsMax: "",
-    expiryStatus: "all",
-    subscriptionId: "",
-  });
-
+  const [detailUserId, setDetailUserId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [allMatching, setAllMatching] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [temporaryPassword, setTemporaryPassword] = useState<{
+    email: string;
+    password: string;
+  } | null>(null);
+  const [filters, setFilters] = useState<UserFilters>(initialView.filters);
+  const [sort, setSort] = useState<UserSort>(initialView.sort);
+
+  const observerTarget = useRef<HTMLDivElement>(null);
+  const latestRequest = useRef(0);
   const adminUser = adminAuth.getSession();
+  const editableFields = editableUserFields(adminUser);
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    watch,
+    formState: { errors, dirtyFields, isSubmitting },
+  } = useForm<UserPatch>({ resolver: zodResolver(userPatchSchema) });
+  const canEdit = editableFields.length > 0;
+  const canDelete = hasPermission(adminUser, "users:delete");
+  const canResetPassword = hasPermission(adminUser, "users:edit");
+  const canBulk = (canEdit || canDelete) && !showTrash;
+  const planNames = new Map(plans.map((plan) => [plan.id, plan.name]));
+
+  // Fetch a page of users; without a cursor the list starts over
+  const fetchUsers = useCallback(
+    async (cursor?: string) => {
+      const requestId = ++latestRequest.current;
+      try {
+        setLoading(true);
+
+        const result = await adminApi.users.list(
+          filters,
+          sort,
+          cursor,
+          showTrash
+        );
 
-  // Fetch users with filters and pagination
-  const fetchUsers = useCallback(async () => {
-    try {
-      setLoading(true);
-
-      // Fetch ALL users without pagination
-      const { data, error } = await supabase
-        .from("users")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-
-      if (data) {
-        setAllUsers(data); // Store all users for stats calculation
-
-        // Apply filters to get filtered users
-        let filteredData = data;
-
-        // Apply search filter
-        if (filters.search) {
-          const searchLower = filters.search.toLowerCase();
-          filteredData = filteredData.filter(
-            (user) =>
-              user.name?.toLowerCase().includes(searchLower) ||
-              user.email?.toLowerCase().includes(searchLower) ||
-              user.subscription_id?.toLowerCase().includes(searchLower)
-          );
-        }
-
-        // Apply subscription ID filter
-        if (filters.subscriptionId) {
-          const subIdLower = filters.subscriptionId.toLowerCase();
-          filteredData = filteredData.filter((user) =>
-            user.subscription_id?.toLowerCase().includes(subIdLower)
-          );
-        }
-
-        // Apply subscription plan filter
-        if (filters.subscriptionPlan !== "all") {
-          filteredData = filteredData.filter(
-            (user) => user.subscription_plan === filters.subscriptionPlan
-          );
-        }
-
-        // Apply conversions filter
-        if (filters.conversionsMin) {
-          filteredData = filteredData.filter(
-            (user) => user.conversions >= parseInt(filters.conversionsMin)
-          );
-        }
-        if (filters.conversionsMax) {
-          filteredData = filteredData.filter(
-            (user) => user.conversions <= parseInt(filters.conversionsMax)
-          );
-        }
+        // A newer request (different filters) has been sent since
+        if (requestId !== latestRequest.current) return;
 
-        // Apply expiry status filter
-        if (filters.expiryStatus !== "all") {
-          filteredData = filteredData.filter((user) => {
-            const status = getExpiryStatus(user.expiry_date);
-            return status === filters.expiryStatus;
-          });
+        if (cursor) {
+          setUsers((prev) => [...prev, ...result.users]);
+        } else {
+          setUsers(result.users);
         }
-
-        setUsers(filteredData);
+        setNextCursor(result.nextCursor);
+      } catch (error) {
+        console.error("Error fetching users:", error);
+      } finally {
+        if (requestId === latestRequest.current) setLoading(false);
       }
+    },
+    [filters, sort, showTrash]
+  );
+
+  // Stats cover every user matching the filters, not just the loaded pages
+  const fetchStats = useCallback(async () => {
+    try {
+      const { stats } = await adminApi.users.stats(filters);
+      setStats(stats);
     } catch (error) {
-      console.error("Error fetching users:", error);
-    } finally {
-      setLoading(false);
+      console.error("Error fetching user stats:", error);
     }
   }, [filters]);
 
-  // Initial load
+  // Keep the filters in the URL so the view can be reloaded or shared
   useEffect(() => {
-    fetchUsers();
-  }, []);
+    const params = new URLSearchParams(window.location.search);
+    USER_FILTER_PARAMS.forEach((key) => params.delete(key));
+    Object.entries(userFiltersToParams(filters, sort)).forEach(([key, value]) =>
+      params.set(key, value)
+    );
 
-  // Re-filter when filters change
+    const query = params.toString();
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${query ? `?${query}` : ""}`
+    );
+  }, [filters, sort]);
+
+  // Initial load and filter changes, debounced while typing. A selection
+  // made under other filters no longer applies.
   useEffect(() => {
-    if (allUsers.length > 0) {
-      let filteredData = allUsers;
-
-      // Apply search filter
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase();
-        filteredData = filteredData.filter(
-          (user) =>
-            user.name?.toLowerCase().includes(searchLower) ||
-            user.email?.toLowerCase().includes(searchLower) ||
-            user.subscription_id?.toLowerCase().includes(searchLower)
-        );
-      }
+    setLoading(true);
+    setNextCursor(null);
+    setSelectedIds(new Set());
+    setAllMatching(false);
+    const timeout = window.setTimeout(() => fetchUsers(), 300);
+    return () => window.clearTimeout(timeout);
+  }, [fetchUsers]);
 
-      // Apply subscription ID filter
-      if (filters.subscriptionId) {
-        const subIdLower = filters.subscriptionId.toLowerCase();
-        filteredData = filteredData.filter((user) =>
-          user.subscription_id?.toLowerCase().includes(subIdLower)
-        );
-      }
+  useEffect(() => {
+    const timeout = window.setTimeout(() => fetchStats(), 300);
+    return () => window.clearTimeout(timeout);
+  }, [fetchStats]);
 
-      // Apply subscription plan filter
-      if (filters.subscriptionPlan !== "all") {
-        filteredData = filteredData.filter(
-          (user) => user.subscription_plan === filters.subscriptionPlan
-        );
-      }
+  // The plan catalog, for the stats cards and plan dropdowns
+  useEffect(() => {
+    adminApi.plans
+      .list()
+      .then((result) => setPlans(result.plans))
+      .catch((error) => console.error("Error fetching plans:", error));
+  }, []);
 
-      // Apply conversions filter
-      if (filters.conversionsMin) {
-        filteredData = filteredData.filter(
-          (user) => user.conversions >= parseInt(filters.conversionsMin)
-        );
-      }
-      if (filters.conversionsMax) {
-        filteredData = filteredData.filter(
-          (user) => user.conversions <= parseInt(filters.conversionsMax)
-        );
-      }
+  // Infinite scroll observer
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && nextCursor && !loading) {
+          fetchUsers(nextCursor);
+        }
+      },
+      { threshold: 0.1 }
+    );
 
-      // Apply expiry status filter
-      if (filters.expiryStatus !== "all") {
-        filteredData = filteredData.filter((user) => {
-          const status = getExpiryStatus(user.expiry_date);
-          return status === filters.expiryStatus;
-        });
+    const currentTarget = observerTarget.current;
+    if (currentTarget) {
+      observer.observe(currentTarget);
+    }
+
+    return () => {
+      if (currentTarget) {
+        observer.unobserve(currentTarget);
       }
+    };
+  }, [nextCursor, loading, fetchUsers]);
+
+  // A saved view's query is in the same form as the URL
+  const applyView = useCallback((view: SavedViewRecord) => {
+    const next = userFiltersFromParams(new URLSearchParams(view.query));
+    setFilters(next.filters);
+    setSort(next.sort);
+    setShowTrash(view.query.trash === "1");
+  }, []);
 
-      setUsers(filteredData);
-    }
-  }, [filters, allUsers]);
+  // Clicking the sorted column flips the direction; another column starts
+  // ascending
+  const handleSort = (field: UserSortField) => {
+    setSort((current) =>
+      current.field === field
+        ? { field, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { field, direction: "asc" }
+    );
+  };
+
+  const renderSortableHeader = (field: UserSortField, label: string) => (
+    <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+      <button
+        onClick={() => handleSort(field)}
+        className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-primary transition-colors"
+      >
+        {label}
+        {sort.field === field &&
+          (sort.direction === "asc" ? (
+            <ArrowUp className="w-3.5 h-3.5" />
+          ) : (
+            <ArrowDown className="w-3.5 h-3.5" />
+          ))}
+      </button>
+    </th>
+  );
 
-  // Get expiry status
+  // Same boundaries as the server-side filter and stats
   const getExpiryStatus = (expiryDate: string): ExpiryStatus => {
-    const today = new Date();
-    const expiry = new Date(expiryDate);
-    const daysUntilExpiry = Math.ceil(
-      (expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    const msUntilExpiry = new Date(expiryDate).getTime() - Date.now();
 
-    if (daysUntilExpiry < 0) return "expired";
-    if (daysUntilExpiry <= 7) return "expiring_soon";
+    if (msUntilExpiry < 0) return "expired";
+    if (msUntilExpiry < EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000) {
+      return "expiring_soon";
+    }
     return "active";
   };
 
@@ -236,142 +329,175 @@ export const ManageUsers: React.FC = () => {
     );
   };
 
-  // Calculate stats based on filtered users
-  const calculateStats = () => {
-    const total = users.length;
-    const freeUsers = users.filter(
-      (u) => u.subscription_plan === "free"
-    ).length;
-    const paidUsers = users.filter(
-      (u) => u.subscription_plan === "paid"
-    ).length;
-
-    const active = users.filter(
-      (u) => getExpiryStatus(u.expiry_date) === "active"
-    ).length;
-    const expiringSoon = users.filter(
-      (u) => getExpiryStatus(u.expiry_date) === "expiring_soon"
-    ).length;
-    const expired = users.filter(
-      (u) => getExpiryStatus(u.expiry_date) === "expired"
-    ).length;
-
-    // Time-based stats
-    const now = new Date();
-    const todayStart = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate()
-    );
-    const weekStart = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    const lastMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-    const lastMonthEnd = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      0,
-      23,
-      59,
-      59
-    );
+  const toggleSelected = (userId: string) => {
+    setAllMatching(false);
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(userId)) next.delete(userId);
+      else next.add(userId);
+      return next;
+    });
+  };
 
-    const newToday = users.filter(
-      (u) => new Date(u.created_at) >= todayStart
-    ).length;
-    const newThisWeek = users.filter(
-      (u) => new Date(u.created_at) >= weekStart
-    ).length;
-    const newThisMonth = users.filter(
-      (u) => new Date(u.created_at) >= monthStart
-    ).length;
-    const newLastMonth = users.filter(
-      (u) =>
-        new Date(u.created_at) >= lastMonthStart &&
-        new Date(u.created_at) <= lastMonthEnd
-    ).length;
-
-    // Calculate percentage change
-    const monthlyGrowth =
-      newLastMonth > 0
-        ? (((newThisMonth - newLastMonth) / newLastMonth) * 100).toFixed(1)
-        : newThisMonth > 0
-        ? "100"
-        : "0";
-
-    return {
-      total,
-      freeUsers,
-      paidUsers,
-      active,
-      expiringSoon,
-      expired,
-      newToday,
-      newThisWeek,
-      newThisMonth,
-      monthlyGrowth: parseFloat(monthlyGrowth),
-    };
+  const allLoadedSelected =
+    users.length > 0 && users.every((user) => selectedIds.has(user.id));
+
+  const toggleAllLoaded = () => {
+    setAllMatching(false);
+    setSelectedIds(
+      allLoadedSelected ? new Set() : new Set(users.map((user) => user.id))
+    );
   };
 
-  const stats = calculateStats();
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatching(false);
+  };
 
   // Handle edit
   const handleEdit = (user: User) => {
     setEditingUser(user.id);
-    setEditForm(user);
+    reset(toFormValues(user));
   };
 
-  // Handle save
-  const handleSave = async (userId: string) => {
-    try {
-      const allowedFields = [
-        "name",
-        "email",
-        "subscription_plan",
-        "subscription_id",
-        "expiry_date",
-        "conversions",
-        "password",
-      ];
-      const updateData = Object.keys(editForm)
-        .filter((key) => allowedFields.includes(key))
-        .reduce(
-          (obj, key) => ({ ...obj, [key]: editForm[key as keyof User] }),
-          {}
-        );
-
-      const { error } = await supabase
-        .from("users")
-        .update({ ...updateData, updated_at: new Date().toISOString() })
-        .eq("id", userId);
+  const handleCancelEdit = () => {
+    setEditingUser(null);
+    reset({});
+  };
 
-      if (error) throw error;
+  // Handle save: only changed fields are sent. Field errors from the server
+  // (e.g. an email already in use) are shown under their inputs.
+  const handleSave = handleSubmit(async (values) => {
+    const changes = Object.fromEntries(
+      Object.entries(values).filter(
+        ([key]) => dirtyFields[key as keyof UserPatch]
+      )
+    ) as UserPatch;
+    if ("subscription_id" in changes && !changes.subscription_id) {
+      changes.subscription_id = null;
+    }
+    if (Object.keys(changes).length === 0) {
+      handleCancelEdit();
+      return;
+    }
 
-      setUsers(
-        users.map((u) =>
-          u.id === userId ? ({ ...u, ...updateData } as User) : u
-        )
+    try {
+      const { user: updated } = await adminApi.users.update(
+        editingUser,
+        changes
       );
-      setEditingUser(null);
-      setEditForm({});
+
+      setUsers(users.map((u) => (u.id === updated.id ? updated : u)));
+      handleCancelEdit();
     } catch (error) {
       console.error("Error updating user:", error);
-      alert("Failed to update user");
+      const fieldIssues =
+        error instanceof AdminApiRequestError
+          ? error.issues.filter((issue) => issue.path in userFieldsSchema.shape)
+          : [];
+      if (fieldIssues.length === 0) {
+        alert(error instanceof Error ? error.message : "Failed to update user");
+      }
+      for (const issue of fieldIssues) {
+        setError(issue.path as keyof UserPatch, { message: issue.message });
+      }
+    }
+  });
+
+  // Handle delete: the user goes to Trash and can be restored from there
+  const handleDelete = async (user: User) => {
+    if (
+      !confirm(
+        `Move ${user.email} to Trash? They can be restored for ${TRASH_RETENTION_DAYS} days.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await adminApi.users.remove(user.id);
+
+      setUsers(users.filter((u) => u.id !== user.id));
+      fetchStats();
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      alert(error instanceof Error ? error.message : "Failed to delete user");
     }
   };
 
-  // Handle delete
-  const handleDelete = async (userId: string) => {
-    if (!confirm("Are you sure you want to delete this user?")) return;
+  // Handle password reset: the server generates the password and signs the
+  // user out; it is shown here once
+  const handleResetPassword = async (user: User) => {
+    if (
+      !confirm(
+        `Set a temporary password for ${user.email}? Their current password stops working and they are signed out everywhere.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const result = await adminApi.users.setTemporaryPassword(user.id);
+      setTemporaryPassword({
+        email: result.user.email,
+        password: result.temporaryPassword,
+      });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      alert(error instanceof Error ? error.message : "Error resetting password");
+    }
+  };
 
+  const handleCopyPassword = async () => {
+    if (!temporaryPassword) return;
     try {
-      const { error } = await supabase.from("users").delete().eq("id", userId);
+      await navigator.clipboard.writeText(temporaryPassword.password);
+      alert("Password copied");
+    } catch (error) {
+      console.error("Error copying password:", error);
+    }
+  };
 
-      if (error) throw error;
+  const handleRestore = async (userId: string) => {
+    try {
+      await adminApi.users.restore(userId);
 
       setUsers(users.filter((u) => u.id !== userId));
+      fetchStats();
     } catch (error) {
-      console.error("Error deleting user:", error);
-      alert("Failed to delete user");
+      console.error("Error restoring user:", error);
+      alert(error instanceof Error ? error.message : "Failed to restore user");
+    }
+  };
+
+  // Delete from Trash for good: show what goes with the user, then keep the
+  // receipt
+  const handlePurge = async (userId: string) => {
+    try {
+      const { plan } = await adminApi.users.deletionPlan(userId);
+      const summary = [
+        `${plan.conversions} conversions`,
+        `${plan.pdfFiles} PDF files`,
+        `${plan.audioFiles} audio files`,
+        `${plan.supportTickets} support tickets (${plan.supportMessages} messages)`,
+      ];
+      if (
+        !confirm(
+          `Delete ${plan.user.email} permanently? This also deletes:\n\n` +
+            summary.map((line) => `• ${line}`).join("\n") +
+            "\n\nThis cannot be undone."
+        )
+      ) {
+        return;
+      }
+
+      const { receipt } = await adminApi.users.purge(userId);
+      downloadReceipt(receipt);
+
+      setUsers(users.filter((u) => u.id !== userId));
+    } catch (error) {
+      console.error("Error deleting user permanently:", error);
+      alert(error instanceof Error ? error.message : "Failed to delete user");
     }
   };
 
@@ -389,7 +515,33 @@ export const ManageUsers: React.FC = () => {
                 Welcome, {adminUser?.name}
               </p>
             </div>
+            <div className="flex gap-2">
+              {canEdit && (
+                <button
+                  onClick={() => setImporting(true)}
+                  className="flex items-center px-4 py-2 rounded-lg font-semibold border-2 border-border text-foreground hover:bg-accent transition-all"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import
+                </button>
+              )}
+              <button
+                onClick={() => setExporting(true)}
+                className="flex items-center px-4 py-2 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </button>
+            </div>
           </div>
+          <SavedViewsBar
+            tab="users"
+            query={{
+              ...userFiltersToParams(filters, sort),
+              ...(showTrash ? { trash: "1" } : {}),
+            }}
+            onApply={applyView}
+          />
         </div>
       </div>
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 pb-0">
@@ -413,47 +565,38 @@ export const ManageUsers: React.FC = () => {
             </p>
           </div>
 
-          {/* Free Users */}
-          <div className="bg-gradient-to-br from-green-500/10 to-green-600/10 rounded-2xl border-2 border-green-500/20 p-6 hover:border-green-500/40 transition-all hover:shadow-lg">
-            <div className="flex items-center justify-between mb-2">
-              <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
-                Free Plan
-              </h3>
-              <div className="w-10 h-10 bg-green-500/20 rounded-lg flex items-center justify-center">
-                <Gift className="text-green-600 w-5 h-5" />
-              </div>
-            </div>
-            <p className="text-3xl font-bold text-foreground mb-1">
-              {stats.freeUsers}
-            </p>
-            <p className="text-xs text-muted-foreground">
-              {stats.total > 0
-                ? ((stats.freeUsers / stats.total) * 100).toFixed(1)
-                : 0}
-              % of total
-            </p>
-          </div>
-
-          {/* Paid Users */}
-          <div className="bg-gradient-to-br from-purple-500/10 to-purple-600/10 rounded-2xl border-2 border-purple-500/20 p-6 hover:border-purple-500/40 transition-all hover:shadow-lg">
-            <div className="flex items-center justify-between mb-2">
-              <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
-                Paid Plan
-              </h3>
-              <div className="w-10 h-10 bg-purple-500/20 rounded-lg flex items-center justify-center">
-                <Crown className="text-purple-600 w-5 h-5" />
+          {/* One card per plan */}
+          {plans.map((plan, i) => {
+            const style = PLAN_CARD_STYLES[i % PLAN_CARD_STYLES.length];
+            const count = stats.plans[plan.id] ?? 0;
+            const Icon = plan.monthly_price > 0 ? Crown : Gift;
+            return (
+              <div
+                key={plan.id}
+                className={`bg-gradient-to-br rounded-2xl border-2 p-6 transition-all hover:shadow-lg ${style.card}`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                    {plan.name} Plan
+                  </h3>
+                  <div
+                    className={`w-10 h-10 rounded-lg flex items-center justify-center ${style.icon}`}
+                  >
+                    <Icon className="w-5 h-5" />
+                  </div>
+                </div>
+                <p className="text-3xl font-bold text-foreground mb-1">
+                  {count}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {stats.total > 0
+                    ? ((count / stats.total) * 100).toFixed(1)
+                    : 0}
+                  % of total
+                </p>
               </div>
-            </div>
-            <p className="text-3xl font-bold text-foreground mb-1">
-              {stats.paidUsers}
-            </p>
-            <p className="text-xs text-muted-foreground">
-              {stats.total > 0
-                ? ((stats.paidUsers / stats.total) * 100).toFixed(1)
-                : 0}
-              % of total
-            </p>
-          </div>
+            );
+          })}
 
           {/* Monthly Growth */}
           <div className="bg-gradient-to-br from-orange-500/10 to-orange-600/10 rounded-2xl border-2 border-orange-500/20 p-6 hover:border-orange-500/40 transition-all hover:shadow-lg">
@@ -645,8 +788,11 @@ export const ManageUsers: React.FC = () => {
                 className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
               >
                 <option value="all">All Plans</option>
-                <option value="free">Free</option>
-                <option value="paid">Paid</option>
+                {plans.map((plan) => (
+                  <option key={plan.id} value={plan.id}>
+                    {plan.name}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -719,30 +865,119 @@ export const ManageUsers: React.FC = () => {
           </div>
         </div>
 
+        {/* Bulk Actions */}
+        {canBulk && (
+          <BulkUserActions
+            selectedIds={[...selectedIds]}
+            allMatching={allMatching}
+            matchingCount={stats.total}
+            loadedCount={users.length}
+            hasMore={!!nextCursor}
+            filters={filters}
+            users={users}
+            plans={plans}
+            onSelectAllMatching={() => setAllMatching(true)}
+            onClearSelection={clearSelection}
+            onComplete={() => {
+              clearSelection();
+              fetchUsers();
+              fetchStats();
+            }}
+          />
+        )}
+
+        {/* Live users / Trash */}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setShowTrash(false)}
+              className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                !showTrash
+                  ? "bg-primary text-white"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              <Users className="w-4 h-4 mr-2" />
+              Users
+            </button>
+            <button
+              onClick={() => setShowTrash(true)}
+              className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+                showTrash
+                  ? "bg-primary text-white"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Trash
+            </button>
+          </div>
+          {showTrash && (
+            <p className="text-sm text-muted-foreground">
+              Deleted users stay here for {TRASH_RETENTION_DAYS} days, then go
+              for good with their files, conversions and support tickets.
+            </p>
+          )}
+        </div>
+
+        {temporaryPassword && (
+          <div className="bg-card rounded-2xl border-2 border-border shadow-lg p-4 sm:p-6 mb-6">
+            <p className="text-sm font-semibold text-foreground mb-2">
+              Temporary password for {temporaryPassword.email}
+            </p>
+            <p className="text-xs text-muted-foreground mb-3">
+              Send it to them directly. It will not be shown again.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                readOnly
+                value={temporaryPassword.password}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-4 py-2 border-2 border-border bg-background rounded-lg font-mono text-sm text-foreground"
+              />
+              <button
+                onClick={handleCopyPassword}
+                className="flex items-center justify-center px-4 py-2 rounded-lg font-semibold text-primary hover:bg-accent transition-colors"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </button>
+              <button
+                onClick={() => setTemporaryPassword(null)}
+                className="px-4 py-2 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Users Table */}
         <div className="bg-card rounded-2xl border-2 border-border shadow-xl overflow-hidden">
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-accent/50 border-b-2 border-border">
                 <tr>
-                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
-                    Name
-                  </th>
-                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
-                    Email
-                  </th>
-                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
-                    Plan
-                  </th>
+                  {canBulk && (
+                    <th className="pl-4 sm:pl-6 py-4 w-4">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all loaded users"
+                        checked={allMatching || allLoadedSelected}
+                        onChange={toggleAllLoaded}
+                        className="w-4 h-4 accent-primary cursor-pointer"
+                      />
+                    </th>
+                  )}
+                  {renderSortableHeader("name", "Name")}
+                  {renderSortableHeader("email", "Email")}
+                  {renderSortableHeader("subscription_plan", "Plan")}
                   <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
                     Subscription ID
                   </th>
-                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
-                    Conversions
-                  </th>
-                  <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
-                    Expiry Date
-                  </th>
+                  {renderSortableHeader("conversions", "Conversions")}
+                  {renderSortableHeader("expiry_date", "Expiry Date")}
                   <th className="px-4 sm:px-6 py-4 text-left text-xs font-bold text-foreground uppercase tracking-wider">
                     Status
                   </th>
@@ -755,107 +990,114 @@ export const ManageUsers: React.FC = () => {
                 {users.map((user) => (
                   <tr
                     key={user.id}
-                    className="hover:bg-accent/30 transition-colors"
+                    className={`hover:bg-accent/30 transition-colors ${
+                      allMatching || selectedIds.has(user.id)
+                        ? "bg-primary/5"
+                        : ""
+                    }`}
                   >
+                    {canBulk && (
+                      <td className="pl-4 sm:pl-6 py-4 w-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${user.email}`}
+                          checked={allMatching || selectedIds.has(user.id)}
+                          onChange={() => toggleSelected(user.id)}
+                          className="w-4 h-4 accent-primary cursor-pointer"
+                        />
+                      </td>
+                    )}
                     {editingUser === user.id ? (
                       // Edit Mode
                       <>
-                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap align-top">
                           <input
                             type="text"
-                            value={editForm.name || ""}
-                            onChange={(e) =>
-                              setEditForm({ ...editForm, name: e.target.value })
-                            }
-                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground"
+                            {...register("name", {
+                              disabled: !editableFields.includes("name"),
+                            })}
+                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
                           />
+                          <FieldError message={errors.name?.message} />
                         </td>
-                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap align-top">
                           <input
                             type="email"
-                            value={editForm.email || ""}
-                            onChange={(e) =>
-                              setEditForm({
-                                ...editForm,
-                                email: e.target.value,
-                              })
-                            }
-                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground"
+                            {...register("email", {
+                              disabled: !editableFields.includes("email"),
+                            })}
+                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
                           />
+                          <FieldError message={errors.email?.message} />
                         </td>
-                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap align-top">
                           <select
-                            value={editForm.subscription_plan || ""}
-                            onChange={(e) =>
-                              setEditForm({
-                                ...editForm,
-                                subscription_plan: e.target.value,
-                              })
-                            }
-                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground"
+                            {...register("subscription_plan", {
+                              disabled:
+                                !editableFields.includes("subscription_plan"),
+                            })}
+                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
                           >
-                            <option value="free">Free</option>
-                            <option value="paid">Paid</option>
+                            {plans.map((plan) => (
+                              <option key={plan.id} value={plan.id}>
+                                {plan.name}
+                              </option>
+                            ))}
                           </select>
+                          <FieldError
+                            message={errors.subscription_plan?.message}
+                          />
                         </td>
-                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap align-top">
                           <input
                             type="text"
-                            value={editForm.subscription_id || ""}
-                            onChange={(e) =>
-                              setEditForm({
-                                ...editForm,
-                                subscription_id: e.target.value,
-                              })
-                            }
-                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground"
+                            {...register("subscription_id", {
+                              disabled:
+                                !editableFields.includes("subscription_id"),
+                            })}
+                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
                             placeholder="Subscription ID"
                           />
+                          <FieldError message={errors.subscription_id?.message} />
                         </td>
-                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap align-top">
                           <input
                             type="number"
-                            value={editForm.conversions || 0}
-                            onChange={(e) =>
-                              setEditForm({
-                                ...editForm,
-                                conversions: parseInt(e.target.value),
-                              })
-                            }
-                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground"
+                            min={0}
+                            {...register("conversions", {
+                              valueAsNumber: true,
+                              disabled: !editableFields.includes("conversions"),
+                            })}
+                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
                           />
+                          <FieldError message={errors.conversions?.message} />
                         </td>
-                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap align-top">
                           <input
                             type="date"
-                            value={editForm.expiry_date?.split("T")[0] || ""}
-                            onChange={(e) =>
-                              setEditForm({
-                                ...editForm,
-                                expiry_date: e.target.value,
-                              })
-                            }
-                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground"
+                            {...register("expiry_date", {
+                              disabled: !editableFields.includes("expiry_date"),
+                            })}
+                            className="w-full px-3 py-2 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary outline-none text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
                           />
+                          <FieldError message={errors.expiry_date?.message} />
                         </td>
-                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap align-top">
                           {getExpiryBadge(
-                            editForm.expiry_date || user.expiry_date
+                            watch("expiry_date") || user.expiry_date
                           )}
                         </td>
-                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                        <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm align-top">
                           <div className="flex flex-col gap-2">
                             <button
-                              onClick={() => handleSave(user.id)}
-                              className="text-green-600 hover:text-green-700 font-semibold transition-colors text-left"
+                              onClick={handleSave}
+                              disabled={isSubmitting}
+                              className="text-green-600 hover:text-green-700 font-semibold transition-colors text-left disabled:opacity-50"
                             >
-                              Save
+                              {isSubmitting ? "Saving..." : "Save"}
                             </button>
                             <button
-                              onClick={() => {
-                                setEditingUser(null);
-                                setEditForm({});
-                              }}
+                              onClick={handleCancelEdit}
                               className="text-muted-foreground hover:text-foreground font-semibold transition-colors text-left"
                             >
                               Cancel
@@ -867,9 +1109,12 @@ export const ManageUsers: React.FC = () => {
                       // View Mode
                       <>
                         <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm font-semibold text-foreground">
+                          <button
+                            onClick={() => setDetailUserId(user.id)}
+                            className="text-sm font-semibold text-foreground hover:text-primary transition-colors text-left"
+                          >
                             {user.name}
-                          </div>
+                          </button>
                         </td>
                         <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
                           <div className="text-sm font-medium text-foreground">
@@ -878,7 +1123,8 @@ export const ManageUsers: React.FC = () => {
                         </td>
                         <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
                           <span className="px-3 py-1.5 inline-flex text-xs leading-5 font-bold rounded-full bg-gradient-to-r from-blue-500/10 to-blue-600/10 text-blue-600 border border-blue-500/20">
-                            {user.subscription_plan}
+                            {planNames.get(user.subscription_plan) ??
+                              user.subscription_plan}
                           </span>
                         </td>
                         <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
@@ -893,23 +1139,63 @@ export const ManageUsers: React.FC = () => {
                           {new Date(user.expiry_date).toLocaleDateString()}
                         </td>
                         <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
-                          {getExpiryBadge(user.expiry_date)}
+                          {user.deleted_at ? (
+                            <span className="px-2 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-800">
+                              In Trash until{" "}
+                              {purgeDate(user.deleted_at).toLocaleDateString()}
+                            </span>
+                          ) : (
+                            getExpiryBadge(user.expiry_date)
+                          )}
                         </td>
                         <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
-                          <div className="flex flex-col gap-2">
-                            <button
-                              onClick={() => handleEdit(user)}
-                              className="text-primary hover:text-primary/80 font-semibold transition-colors text-left"
-                            >
-                              Edit
-                            </button>
-                            <button
-                              onClick={() => handleDelete(user.id)}
-                              className="text-red-600 hover:text-red-700 font-semibold transition-colors text-left"
-                            >
-                              Delete
-                            </button>
-                          </div>
+                          {showTrash ? (
+                            <div className="flex flex-col gap-2">
+                              {canDelete && (
+                                <button
+                                  onClick={() => handleRestore(user.id)}
+                                  className="text-primary hover:text-primary/80 font-semibold transition-colors text-left"
+                                >
+                                  Restore
+                                </button>
+                              )}
+                              {canDelete && (
+                                <button
+                                  onClick={() => handlePurge(user.id)}
+                                  className="text-red-600 hover:text-red-700 font-semibold transition-colors text-left"
+                                >
+                                  Delete Forever
+                                </button>
+                              )}
+                            </div>
+                          ) : (
+                            <div className="flex flex-col gap-2">
+                              {canEdit && (
+                                <button
+                                  onClick={() => handleEdit(user)}
+                                  className="text-primary hover:text-primary/80 font-semibold transition-colors text-left"
+                                >
+                                  Edit
+                                </button>
+                              )}
+                              {canResetPassword && (
+                                <button
+                                  onClick={() => handleResetPassword(user)}
+                                  className="text-primary hover:text-primary/80 font-semibold transition-colors text-left"
+                                >
+                                  Reset Password
+                                </button>
+                              )}
+                              {canDelete && (
+                                <button
+                                  onClick={() => handleDelete(user)}
+                                  className="text-red-600 hover:text-red-700 font-semibold transition-colors text-left"
+                                >
+                                  Delete
+                                </button>
+                              )}
+                            </div>
+                          )}
                         </td>
                       </>
                     )}
@@ -929,14 +1215,14 @@ export const ManageUsers: React.FC = () => {
             </div>
           )}
 
-          {/* No results */}
-          {!loading && users.length === 0 && (
-            <div className="text-center py-16">
-              <p className="text-muted-foreground text-lg font-medium">
-                No users found
-              </p>
-              <p className="text-muted-foreground text-sm mt-2">
-                Try adjusting your filters
+          {/* Infinite scroll trigger */}
+          <div ref={observerTarget} className="h-10" />
+
+          {/* No more results */}
+          {!loading && !nextCursor && users.length > 0 && (
+            <div className="text-center py-8 border-t border-border">
+              <p className="text-muted-foreground font-medium">
+                No more users to load
               </p>
             </div>
           )}
@@ -945,7 +1231,7 @@ export const ManageUsers: React.FC = () => {
           {!loading && users.length === 0 && (
             <div className="text-center py-16">
               <p className="text-muted-foreground text-lg font-medium">
-                No users found
+                {showTrash ? "Trash is empty" : "No users found"}
               </p>
               <p className="text-muted-foreground text-sm mt-2">
                 Try adjusting your filters
@@ -954,6 +1240,34 @@ export const ManageUsers: React.FC = () => {
           )}
         </div>
       </div>
+
+      {detailUserId && (
+        <UserDetailDrawer
+          userId={detailUserId}
+          onClose={() => setDetailUserId(null)}
+        />
+      )}
+
+      {exporting && (
+        <ExportDialog
+          dataset="users"
+          query={{
+            ...userFiltersToParams(filters, sort),
+            trash: showTrash ? "1" : undefined,
+          }}
+          onClose={() => setExporting(false)}
+        />
+      )}
+
+      {importing && (
+        <UserImportWizard
+          onClose={() => setImporting(false)}
+          onComplete={() => {
+            fetchUsers();
+            fetchStats();
+          }}
+        />
+      )}
     </div>
   );
 };
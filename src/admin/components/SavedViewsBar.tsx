@@ -0,0 +1,355 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { adminAuth } from "./../utils/adminAuth";
+import { adminApi } from "./../utils/adminApi";
+import type { SavedViewRecord } from "./../utils/apiSchemas";
+import { hasPermission } from "./../utils/permissions";
+import {
+  sameViewQuery,
+  savedViewPath,
+  type SavedViewTab,
+} from "./../utils/savedViews";
+import {
+  Bookmark,
+  BookmarkPlus,
+  ChevronDown,
+  Link,
+  Lock,
+  Pin,
+  PinOff,
+  RefreshCw,
+  Trash2,
+  Users,
+} from "lucide-react";
+
+interface SavedViewsBarProps {
+  tab: SavedViewTab;
+  // The tab's current list parameters, as saved with a new view
+  query: Record<string, string>;
+  // Set the tab's filters to the view's
+  onApply: (view: SavedViewRecord) => void;
+}
+
+// Pinned views as chips with their match counts, plus a menu of every view
+// the admin can see. Opens the view named by a ?view= link once loaded.
+export const SavedViewsBar: React.FC<SavedViewsBarProps> = ({
+  tab,
+  query,
+  onApply,
+}) => {
+  const [views, setViews] = useState<SavedViewRecord[]>([]);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const linkHandled = useRef(false);
+
+  const adminUser = adminAuth.getSession();
+  const canManageShared = hasPermission(adminUser, "admins:manage");
+  const pinned = views.filter((view) => view.pinned);
+  const activeView = views.find((view) => sameViewQuery(view.query, query));
+
+  const loadViews = useCallback(async () => {
+    try {
+      const { views } = await adminApi.views.list(tab);
+      setViews(views);
+      return views;
+    } catch (error) {
+      console.error("Error loading saved views:", error);
+      return [];
+    }
+  }, [tab]);
+
+  // Apply a linked view once, then drop it from the address bar so the
+  // tab's own filters take over
+  useEffect(() => {
+    loadViews().then((views) => {
+      if (linkHandled.current) return;
+      linkHandled.current = true;
+
+      const params = new URLSearchParams(window.location.search);
+      const id = params.get("view");
+      if (!id) return;
+
+      const view = views.find((view) => view.id === id);
+      if (view) onApply(view);
+      else alert("This view was deleted or is not shared with you");
+
+      params.delete("view");
+      const search = params.toString();
+      window.history.replaceState(
+        null,
+        "",
+        `${window.location.pathname}${search ? `?${search}` : ""}`
+      );
+    });
+  }, [loadViews, onApply]);
+
+  const replaceView = (view: SavedViewRecord) =>
+    setViews((current) =>
+      current.map((row) => (row.id === view.id ? view : row))
+    );
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSubmitting(true);
+    try {
+      await adminApi.views.create({ tab, name, query, shared });
+      await loadViews();
+      setSaving(false);
+      setName("");
+      setShared(false);
+    } catch (error) {
+      console.error("Error saving view:", error);
+      setError(error instanceof Error ? error.message : "Failed to save view");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleTogglePin = async (view: SavedViewRecord) => {
+    try {
+      const result = await adminApi.views.setPinned(view.id, !view.pinned);
+      replaceView(result.view);
+    } catch (error) {
+      console.error("Error pinning view:", error);
+      alert(error instanceof Error ? error.message : "Failed to pin view");
+    }
+  };
+
+  const handleUpdate = async (view: SavedViewRecord) => {
+    if (!confirm(`Save the current filters as "${view.name}"?`)) return;
+    try {
+      const result = await adminApi.views.update(view.id, { query });
+      replaceView(result.view);
+    } catch (error) {
+      console.error("Error updating view:", error);
+      alert(error instanceof Error ? error.message : "Failed to update view");
+    }
+  };
+
+  const handleToggleShared = async (view: SavedViewRecord) => {
+    try {
+      const result = await adminApi.views.update(view.id, {
+        shared: !view.shared,
+      });
+      replaceView(result.view);
+    } catch (error) {
+      console.error("Error sharing view:", error);
+      alert(error instanceof Error ? error.message : "Failed to share view");
+    }
+  };
+
+  const handleDelete = async (view: SavedViewRecord) => {
+    const warning = view.shared
+      ? `Delete "${view.name}" for every admin?`
+      : `Delete "${view.name}"?`;
+    if (!confirm(warning)) return;
+    try {
+      await adminApi.views.remove(view.id);
+      setViews((current) => current.filter((row) => row.id !== view.id));
+    } catch (error) {
+      console.error("Error deleting view:", error);
+      alert(error instanceof Error ? error.message : "Failed to delete view");
+    }
+  };
+
+  const handleCopyLink = async (view: SavedViewRecord) => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}${savedViewPath(tab, view.id)}`
+      );
+      alert("Link copied");
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {pinned.map((view) => (
+          <button
+            key={view.id}
+            onClick={() => onApply(view)}
+            className={`flex items-center px-3 py-1.5 rounded-full text-sm font-medium border-2 transition-colors ${
+              activeView?.id === view.id
+                ? "bg-primary text-white border-primary"
+                : "border-border text-foreground hover:bg-accent"
+            }`}
+          >
+            {view.name}
+            <span
+              className={`ml-2 px-2 rounded-full text-xs font-bold ${
+                activeView?.id === view.id
+                  ? "bg-white/20"
+                  : "bg-muted text-muted-foreground"
+              }`}
+            >
+              {view.count ?? "–"}
+            </span>
+          </button>
+        ))}
+
+        <div className="relative">
+          <button
+            onClick={() => setMenuOpen(!menuOpen)}
+            className="flex items-center px-3 py-1.5 rounded-full text-sm font-medium text-muted-foreground hover:bg-accent transition-colors"
+          >
+            <Bookmark className="w-4 h-4 mr-1.5" />
+            Views
+            <ChevronDown className="w-4 h-4 ml-1" />
+          </button>
+
+          {menuOpen && (
+            <div className="absolute left-0 z-40 mt-2 w-96 max-w-[90vw] bg-card rounded-xl shadow-xl border-2 border-border p-2">
+              {views.length === 0 && (
+                <p className="px-3 py-2 text-sm text-muted-foreground">
+                  No saved views yet
+                </p>
+              )}
+              {views.map((view) => (
+                <div
+                  key={view.id}
+                  className="flex items-center gap-1 px-2 py-1.5 rounded-lg hover:bg-accent/50"
+                >
+                  <button
+                    onClick={() => {
+                      onApply(view);
+                      setMenuOpen(false);
+                    }}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <p className="text-sm font-semibold text-foreground truncate">
+                      {view.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {view.mine
+                        ? view.shared
+                          ? "Shared with the team"
+                          : "Only you"
+                        : `Shared by ${view.owner_name ?? "a former admin"}`}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => handleTogglePin(view)}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:bg-accent transition-colors"
+                    title={view.pinned ? "Unpin" : "Pin to header"}
+                  >
+                    {view.pinned ? (
+                      <PinOff className="w-4 h-4" />
+                    ) : (
+                      <Pin className="w-4 h-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => handleCopyLink(view)}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:bg-accent transition-colors"
+                    title={
+                      view.shared ? "Copy link" : "Copy link (only works for you)"
+                    }
+                  >
+                    <Link className="w-4 h-4" />
+                  </button>
+                  {view.mine && (
+                    <>
+                      <button
+                        onClick={() => handleUpdate(view)}
+                        disabled={sameViewQuery(view.query, query)}
+                        className="p-1.5 rounded-lg text-muted-foreground hover:bg-accent transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Save current filters to this view"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleToggleShared(view)}
+                        className="p-1.5 rounded-lg text-muted-foreground hover:bg-accent transition-colors"
+                        title={view.shared ? "Stop sharing" : "Share with team"}
+                      >
+                        {view.shared ? (
+                          <Users className="w-4 h-4" />
+                        ) : (
+                          <Lock className="w-4 h-4" />
+                        )}
+                      </button>
+                    </>
+                  )}
+                  {(view.mine || canManageShared) && (
+                    <button
+                      onClick={() => handleDelete(view)}
+                      className="p-1.5 rounded-lg text-red-600 hover:bg-red-50 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              <div className="border-t border-border mt-2 pt-2">
+                {saving ? (
+                  <form onSubmit={handleSave} className="space-y-2 px-2 py-1">
+                    {error && (
+                      <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-3 py-2 rounded-lg text-sm font-medium">
+                        {error}
+                      </div>
+                    )}
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="View name"
+                      maxLength={100}
+                      autoFocus
+                      className="w-full px-3 py-2 border-2 border-input bg-background rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+                    />
+                    <label className="flex items-center gap-2 text-sm text-foreground">
+                      <input
+                        type="checkbox"
+                        checked={shared}
+                        onChange={(e) => setShared(e.target.checked)}
+                        className="rounded border-gray-300"
+                      />
+                      Share with the team
+                    </label>
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setSaving(false);
+                          setError("");
+                        }}
+                        className="px-3 py-1.5 rounded-lg text-sm font-medium text-muted-foreground hover:bg-accent transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={submitting || !name.trim()}
+                        className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-primary hover:bg-primary/90 text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {submitting ? "Saving..." : "Save"}
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <button
+                    onClick={() => setSaving(true)}
+                    className="flex items-center w-full px-3 py-2 rounded-lg text-sm font-semibold text-primary hover:bg-accent transition-colors"
+                  >
+                    <BookmarkPlus className="w-4 h-4 mr-2" />
+                    Save current view
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
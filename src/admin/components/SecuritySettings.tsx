@@ -0,0 +1,85 @@
+"use client";
+
+import React, { useState } from "react";
+import { adminAuth, type TwoFactorStatus } from "./../utils/adminAuth";
+import { adminApi } from "./../utils/adminApi";
+import { TwoFactorSetup } from "./TwoFactorSetup";
+import { LogOut } from "lucide-react";
+
+interface SecuritySettingsProps {
+  twoFactor: TwoFactorStatus | null;
+  onTwoFactorEnrolled: () => void;
+  onSignedOut: () => void;
+}
+
+export const SecuritySettings: React.FC<SecuritySettingsProps> = ({
+  twoFactor,
+  onTwoFactorEnrolled,
+  onSignedOut,
+}) => {
+  const [signingOut, setSigningOut] = useState(false);
+
+  const adminUser = adminAuth.getSession();
+
+  // Handle sign out everywhere
+  const handleSignOutAll = async () => {
+    if (
+      !confirm(
+        "Sign out of every session, on all devices? You will need to sign in again here too."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setSigningOut(true);
+      await adminApi.sessions.revokeAll();
+      onSignedOut();
+    } catch (error) {
+      console.error("Error signing out all sessions:", error);
+      alert("Error signing out all sessions");
+      setSigningOut(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-primary to-purple-600 bg-clip-text text-transparent">
+            Security
+          </h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            Welcome, {adminUser?.name}
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 max-w-3xl">
+        <TwoFactorSetup status={twoFactor} onEnrolled={onTwoFactorEnrolled} />
+
+        {/* Sessions */}
+        <div className="bg-card rounded-2xl border-2 border-border shadow-lg p-6 sm:p-8">
+          <h2 className="text-xl sm:text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+            <span className="w-1 h-6 bg-gradient-to-b from-primary to-purple-600 rounded-full"></span>
+            Sessions
+          </h2>
+          <p className="text-foreground mb-6">
+            If you signed in on a shared computer or think someone else has
+            access to your account, sign out everywhere. Sessions also end on
+            their own after 15 minutes without activity.
+          </p>
+          <button
+            onClick={handleSignOutAll}
+            disabled={signingOut}
+            className="flex items-center px-4 py-2 rounded-lg font-semibold text-red-600 border-2 border-red-500/20 hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            {signingOut ? "Signing out..." : "Sign out all sessions"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
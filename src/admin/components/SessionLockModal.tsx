@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useState } from "react";
+import { adminAuth, type AdminUser } from "./../utils/adminAuth";
+import { Lock } from "lucide-react";
+
+interface SessionLockModalProps {
+  admin: AdminUser;
+  onUnlock: () => void;
+  onLogout: () => void;
+}
+
+// Shown over the panel after inactivity or when the server drops the
+// session. The panel stays mounted underneath, so unsaved edits survive
+// signing back in.
+export const SessionLockModal: React.FC<SessionLockModalProps> = ({
+  admin,
+  onUnlock,
+  onLogout,
+}) => {
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [step, setStep] = useState<"password" | "totp">("password");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      if (step === "password") {
+        const result = await adminAuth.login(admin.email, password);
+        if (result.status === "totp_required") {
+          setStep("totp");
+          return;
+        }
+      } else {
+        await adminAuth.verifyTotp(
+          useRecoveryCode ? { recoveryCode: code } : { code }
+        );
+      }
+      onUnlock();
+    } catch (err) {
+      console.error("Unlock error:", err);
+      setError(
+        err instanceof Error ? err.message : "An error occurred during login"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm px-4">
+      <div className="w-full max-w-md bg-card p-8 rounded-2xl shadow-xl border-2 border-border">
+        <div className="text-center mb-6">
+          <Lock className="w-10 h-10 mx-auto mb-3 text-primary" />
+          <h2 className="text-2xl font-bold text-foreground mb-2">
+            Session Locked
+          </h2>
+          <p className="text-muted-foreground">
+            {step === "password"
+              ? `Enter the password for ${admin.email} to continue`
+              : useRecoveryCode
+              ? "Enter one of your recovery codes"
+              : "Enter the 6-digit code from your authenticator app"}
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {error && (
+            <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+              {error}
+            </div>
+          )}
+
+          {step === "password" ? (
+            <input
+              type="password"
+              autoFocus
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
+              placeholder="Enter your password"
+            />
+          ) : (
+            <input
+              type="text"
+              inputMode={useRecoveryCode ? "text" : "numeric"}
+              autoFocus
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground font-mono tracking-widest"
+              placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+            />
+          )}
+
+          {step === "totp" && (
+            <button
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode("");
+                setError("");
+              }}
+              className="text-sm text-primary hover:text-primary/80 font-semibold transition-colors"
+            >
+              {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+            </button>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-gradient-to-r from-primary to-purple-600 hover:opacity-90 text-white font-semibold py-3 rounded-lg transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Unlocking..." : "Unlock"}
+          </button>
+
+          <button
+            type="button"
+            onClick={onLogout}
+            className="w-full text-sm text-muted-foreground hover:text-foreground font-semibold transition-colors"
+          >
+            Sign out instead
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+"use client";
+
+import React, { useState } from "react";
+import type { TwoFactorStatus } from "./../utils/adminAuth";
+import { adminApi } from "./../utils/adminApi";
+import { ShieldCheck, Copy } from "lucide-react";
+
+interface TwoFactorSetupProps {
+  status: TwoFactorStatus | null;
+  // Enrollment is mandatory: shown full-screen instead of the panel.
+  // Otherwise this is a card on the Security screen.
+  forced?: boolean;
+  onEnrolled: () => void;
+  onLogout?: () => void;
+}
+
+export const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({
+  status,
+  forced = false,
+  onEnrolled,
+  onLogout,
+}) => {
+  const [setup, setSetup] = useState<{
+    secret: string;
+    qrDataUrl: string;
+  } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  // Generate a new secret and QR code
+  const handleStart = async () => {
+    setError("");
+    setLoading(true);
+    try {
+      const result = await adminApi.twoFactor.setup();
+      setSetup({ secret: result.secret, qrDataUrl: result.qrDataUrl });
+      setCode("");
+    } catch (err) {
+      console.error("Error starting 2FA setup:", err);
+      setError(err instanceof Error ? err.message : "Could not start setup");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Confirm the first code from the authenticator app
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+    try {
+      const result = await adminApi.twoFactor.verify(code);
+      setRecoveryCodes(result.recoveryCodes);
+    } catch (err) {
+      console.error("Error verifying 2FA code:", err);
+      setError(err instanceof Error ? err.message : "Could not verify code");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      alert("Recovery codes copied");
+    } catch (err) {
+      console.error("Error copying recovery codes:", err);
+    }
+  };
+
+  const renderBody = () => {
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-6">
+          <div className="bg-green-500/10 border-2 border-green-500/20 text-green-700 px-4 py-3 rounded-lg font-medium">
+            Two-factor authentication is now enabled.
+          </div>
+          <div>
+            <p className="text-sm text-foreground mb-3">
+              Save these recovery codes somewhere safe. Each one can be used
+              once to sign in if you lose your phone. They will not be shown
+              again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 bg-background border-2 border-border rounded-lg p-4 font-mono text-sm text-foreground">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={handleCopyCodes}
+              className="flex items-center px-4 py-2 rounded-lg font-semibold text-primary hover:bg-accent transition-colors"
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Copy
+            </button>
+            <button
+              onClick={onEnrolled}
+              className="flex-1 bg-gradient-to-r from-primary to-purple-600 hover:opacity-90 text-white font-semibold py-2 rounded-lg transition-all shadow-md hover:shadow-lg"
+            >
+              I have saved my codes
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    if (status?.enabled) {
+      return (
+        <div className="flex items-center gap-3 text-foreground">
+          <ShieldCheck className="w-6 h-6 text-green-600" />
+          <p className="font-medium">
+            Two-factor authentication is enabled for your account. If you lose
+            your authenticator and recovery codes, ask an owner to reset it.
+          </p>
+        </div>
+      );
+    }
+
+    if (!setup) {
+      return (
+        <div className="space-y-6">
+          <p className="text-foreground">
+            Use an authenticator app (Google Authenticator, 1Password, Authy…)
+            to generate a 6-digit code each time you sign in.
+          </p>
+          {status?.enforceAfter && (
+            <p className="text-sm text-muted-foreground">
+              {status.required
+                ? "Two-factor authentication is required for all admins."
+                : `Two-factor authentication becomes required on ${new Date(
+                    status.enforceAfter
+                  ).toLocaleDateString()}.`}
+            </p>
+          )}
+          {error && (
+            <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+              {error}
+            </div>
+          )}
+          <button
+            onClick={handleStart}
+            disabled={loading}
+            className="w-full bg-gradient-to-r from-primary to-purple-600 hover:opacity-90 text-white font-semibold py-3 rounded-lg transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Preparing..." : "Set up two-factor authentication"}
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleVerify} className="space-y-6">
+        <p className="text-foreground">
+          Scan this QR code with your authenticator app, then enter the code it
+          shows.
+        </p>
+        <div className="flex justify-center">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={setup.qrDataUrl}
+            alt="Two-factor authentication QR code"
+            className="w-48 h-48 border-2 border-border rounded-lg"
+          />
+        </div>
+        <div>
+          <p className="text-xs font-bold text-muted-foreground uppercase tracking-wide mb-2">
+            Or enter this key manually
+          </p>
+          <p className="font-mono text-sm text-foreground break-all bg-background border-2 border-border rounded-lg p-3">
+            {setup.secret}
+          </p>
+        </div>
+        {error && (
+          <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+            {error}
+          </div>
+        )}
+        <div>
+          <label
+            htmlFor="totp-code"
+            className="block text-sm font-semibold text-foreground mb-2"
+          >
+            Verification Code
+          </label>
+          <input
+            id="totp-code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground font-mono tracking-widest"
+            placeholder="123456"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-gradient-to-r from-primary to-purple-600 hover:opacity-90 text-white font-semibold py-3 rounded-lg transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? "Verifying..." : "Enable"}
+        </button>
+      </form>
+    );
+  };
+
+  if (forced) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <div className="w-full max-w-md">
+          <div className="bg-card p-8 rounded-2xl shadow-xl border-2 border-border">
+            <div className="text-center mb-8">
+              <h2 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">
+                Secure your account
+              </h2>
+              <p className="text-muted-foreground">
+                Two-factor authentication is required before you can continue
+              </p>
+            </div>
+            {renderBody()}
+            {onLogout && (
+              <button
+                onClick={onLogout}
+                className="w-full mt-4 text-sm text-muted-foreground hover:text-foreground font-semibold transition-colors"
+              >
+                Sign out
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card rounded-2xl border-2 border-border shadow-lg p-6 sm:p-8 mb-6 sm:mb-8">
+      <h2 className="text-xl sm:text-2xl font-bold text-foreground mb-6 flex items-center gap-2">
+        <span className="w-1 h-6 bg-gradient-to-b from-primary to-purple-600 rounded-full"></span>
+        Two-Factor Authentication
+      </h2>
+      {renderBody()}
+    </div>
+  );
+};
@@ -0,0 +1,595 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { adminApi } from "./../utils/adminApi";
+import { adminAuth } from "./../utils/adminAuth";
+import type {
+  BillingEventRecord,
+  BillingEventType,
+  TimelineEvent,
+  UsageSummary,
+  UserDetail,
+} from "./../utils/apiSchemas";
+import { hasPermission } from "./../utils/permissions";
+import {
+  X,
+  UserPlus,
+  FileText,
+  MessageSquare,
+  MessageCircle,
+  CheckCircle2,
+  Pencil,
+  Music,
+} from "lucide-react";
+
+interface UserDetailDrawerProps {
+  userId: string;
+  onClose: () => void;
+}
+
+const TIMELINE_ICONS: Record<TimelineEvent["kind"], React.ElementType> = {
+  signup: UserPlus,
+  conversion: FileText,
+  ticket_opened: MessageSquare,
+  ticket_message: MessageCircle,
+  ticket_closed: CheckCircle2,
+  admin_edit: Pencil,
+};
+
+const PLAN_FIELD_LABELS = {
+  subscription_plan: "Plan",
+  expiry_date: "Expiry date",
+};
+
+const BILLING_EVENT_LABELS: Record<BillingEventType, string> = {
+  "subscription.created": "Subscription created",
+  "subscription.renewed": "Subscription renewed",
+  "subscription.cancelled": "Subscription cancelled",
+  "payment.failed": "Payment failed",
+};
+
+const BILLING_STATUS_STYLES: Record<BillingEventRecord["status"], string> = {
+  received: "bg-yellow-100 text-yellow-800",
+  processed: "bg-green-100 text-green-800",
+  ignored: "bg-gray-100 text-gray-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-lg font-bold text-foreground mb-4 flex items-center gap-2">
+    <span className="w-1 h-6 bg-gradient-to-b from-primary to-purple-600 rounded-full"></span>
+    {children}
+  </h3>
+);
+
+// Conversions left in the billing period, with a form to grant more
+const UsageSection: React.FC<{
+  userId: string;
+  usage: UsageSummary;
+  canTopUp: boolean;
+  onChange: (usage: UsageSummary) => void;
+}> = ({ userId, usage, canTopUp, onChange }) => {
+  const [amount, setAmount] = useState("5");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const allowance = usage.quota === null ? null : usage.quota + usage.topUps;
+  const percent =
+    allowance === null || allowance === 0
+      ? 100
+      : Math.min(100, (usage.used / allowance) * 100);
+
+  const handleTopUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (!Number.isInteger(value) || value < 1) {
+      alert("Enter a whole number of conversions");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await adminApi.users.grantTopUp(
+        userId,
+        value,
+        note.trim() || undefined
+      );
+      onChange(response.usage);
+      setNote("");
+    } catch (error) {
+      console.error("Error granting conversions:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to grant conversions"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border-2 border-border p-6">
+      <SectionTitle>Usage This Period</SectionTitle>
+      <p className="text-sm text-muted-foreground mb-4">
+        Billing period {formatDate(usage.periodStart)} –{" "}
+        {formatDate(usage.periodEnd)}
+      </p>
+
+      {usage.remaining === null ? (
+        <p className="text-sm font-medium text-foreground">
+          Unlimited plan · {usage.used} conversion{usage.used === 1 ? "" : "s"}{" "}
+          this period
+        </p>
+      ) : (
+        <>
+          <div className="flex items-baseline justify-between gap-4 mb-2">
+            <p className="text-3xl font-bold text-foreground">
+              {usage.remaining}
+              <span className="text-sm font-medium text-muted-foreground ml-2">
+                remaining
+              </span>
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {usage.used} of {allowance} used
+              {usage.topUps > 0 &&
+                ` (${usage.quota} plan + ${usage.topUps} extra)`}
+            </p>
+          </div>
+          <div className="w-full bg-accent rounded-full h-2">
+            <div
+              className={`h-2 rounded-full transition-all ${
+                usage.remaining === 0
+                  ? "bg-red-500"
+                  : "bg-gradient-to-r from-primary to-purple-600"
+              }`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </>
+      )}
+
+      {canTopUp && usage.remaining !== null && (
+        <form
+          onSubmit={handleTopUp}
+          className="mt-6 flex flex-col sm:flex-row sm:items-end gap-3"
+        >
+          <div>
+            <label className="block text-sm font-semibold text-foreground mb-2">
+              Extra conversions
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full sm:w-28 px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-foreground mb-2">
+              Note
+            </label>
+            <input
+              type="text"
+              value={note}
+              maxLength={500}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why, for the audit log"
+              className="w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2.5 rounded-lg font-semibold text-white bg-primary hover:bg-primary/90 transition-all disabled:opacity-50"
+          >
+            {saving ? "Granting..." : "Grant"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+// Everything about one customer in a side panel: profile, quota usage, plan
+// history, billing events, conversions, support tickets and a merged
+// activity timeline
+export const UserDetailDrawer: React.FC<UserDetailDrawerProps> = ({
+  userId,
+  onClose,
+}) => {
+  const [detail, setDetail] = useState<UserDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    adminApi.users
+      .detail(userId)
+      .then(({ detail }) => {
+        if (!cancelled) setDetail(detail);
+      })
+      .catch((err) => {
+        console.error("Error fetching user detail:", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load user");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const user = detail?.user;
+  // Users in Trash cannot be granted conversions
+  const canTopUp =
+    hasPermission(adminAuth.getSession(), "users:edit_billing") &&
+    !user?.deleted_at;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl h-full bg-background border-l-2 border-border shadow-xl overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="sticky top-0 z-10 border-b bg-card shadow-sm px-6 py-5 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold bg-gradient-to-r from-primary to-purple-600 bg-clip-text text-transparent truncate">
+              {user?.name || "Customer"}
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1 truncate">
+              {user?.email}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading && (
+          <div className="text-center py-16">
+            <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+            <p className="mt-4 text-muted-foreground font-medium">
+              Loading customer...
+            </p>
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="m-6 bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+            {error}
+          </div>
+        )}
+
+        {!loading && detail && user && (
+          <div className="p-6 space-y-6">
+            {/* Profile */}
+            <div className="bg-card rounded-2xl border-2 border-border p-6">
+              <SectionTitle>Profile</SectionTitle>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                {[
+                  ["Plan", user.subscription_plan],
+                  ["Subscription ID", user.subscription_id || "N/A"],
+                  ["Lifetime Conversions", String(user.conversions)],
+                  [
+                    "Expiry Date",
+                    new Date(user.expiry_date).toLocaleDateString(),
+                  ],
+                  ["Signed Up", formatDateTime(user.created_at)],
+                  ["Last Updated", formatDateTime(user.updated_at)],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                      {label}
+                    </dt>
+                    <dd className="mt-1 font-medium text-foreground break-all">
+                      {value}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+
+            <UsageSection
+              userId={user.id}
+              usage={detail.usage}
+              canTopUp={canTopUp}
+              onChange={(usage) => setDetail({ ...detail, usage })}
+            />
+
+            {/* Plan history */}
+            <div className="bg-card rounded-2xl border-2 border-border p-6">
+              <SectionTitle>Plan History</SectionTitle>
+              {detail.planHistory.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No plan or expiry changes recorded
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {detail.planHistory.map((change, i) => (
+                    <li key={i} className="text-sm">
+                      <span className="font-semibold text-foreground">
+                        {PLAN_FIELD_LABELS[change.field]}:
+                      </span>{" "}
+                      <span className="text-muted-foreground">
+                        {change.from ?? "—"}
+                      </span>{" "}
+                      →{" "}
+                      <span className="font-medium text-foreground">
+                        {change.to ?? "—"}
+                      </span>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {formatDateTime(change.at)}
+                        {change.by && ` by ${change.by}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Billing events */}
+            <div className="bg-card rounded-2xl border-2 border-border p-6">
+              <SectionTitle>Billing Events</SectionTitle>
+              {detail.billingEvents.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nothing received from the payment provider
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {detail.billingEvents.map((billingEvent) => (
+                    <li key={billingEvent.id} className="text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold text-foreground">
+                          {BILLING_EVENT_LABELS[
+                            billingEvent.type as BillingEventType
+                          ] ?? billingEvent.type}
+                        </span>
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                            BILLING_STATUS_STYLES[billingEvent.status]
+                          }`}
+                        >
+                          {billingEvent.status}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-0.5 break-all">
+                        {formatDateTime(billingEvent.received_at)} ·{" "}
+                        {billingEvent.subscription_id}
+                        {billingEvent.error && ` · ${billingEvent.error}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Conversions */}
+            {detail.conversions && (
+              <div className="bg-card rounded-2xl border-2 border-border overflow-hidden">
+                <div className="p-6 pb-0">
+                  <SectionTitle>
+                    Conversions ({detail.conversions.length})
+                  </SectionTitle>
+                </div>
+                {detail.conversions.length === 0 ? (
+                  <p className="px-6 pb-6 text-sm text-muted-foreground">
+                    No conversions yet
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-accent/50 border-y-2 border-border">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                            File
+                          </th>
+                          <th className="px-4 py-3 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                            Status
+                          </th>
+                          <th className="px-4 py-3 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                            Created
+                          </th>
+                          <th className="px-4 py-3 text-left text-xs font-bold text-foreground uppercase tracking-wider">
+                            Files
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {detail.conversions.map((conversion) => (
+                          <tr
+                            key={conversion.id}
+                            className="hover:bg-accent/30 transition-colors"
+                          >
+                            <td className="px-4 py-3 text-sm font-medium text-foreground max-w-[12rem] truncate">
+                              {conversion.pdf_filename}
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap">
+                              <span
+                                className={`px-3 py-1 inline-flex text-xs leading-5 font-bold rounded-full ${
+                                  conversion.status === "completed"
+                                    ? "bg-green-500/10 text-green-600 border border-green-500/20"
+                                    : conversion.status === "processing"
+                                    ? "bg-yellow-500/10 text-yellow-600 border border-yellow-500/20"
+                                    : "bg-red-500/10 text-red-600 border border-red-500/20"
+                                }`}
+                              >
+                                {conversion.status}
+                              </span>
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm text-muted-foreground">
+                              {new Date(
+                                conversion.created_at
+                              ).toLocaleDateString()}
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm">
+                              <div className="flex gap-3">
+                                {conversion.pdf_url ? (
+                                  <a
+                                    href={conversion.pdf_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="inline-flex items-center gap-1 text-primary hover:text-primary/80 font-semibold"
+                                  >
+                                    <FileText className="w-4 h-4" /> PDF
+                                  </a>
+                                ) : (
+                                  <span className="text-muted-foreground">
+                                    No PDF
+                                  </span>
+                                )}
+                                {conversion.audio_url && (
+                                  <a
+                                    href={conversion.audio_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="inline-flex items-center gap-1 text-primary hover:text-primary/80 font-semibold"
+                                  >
+                                    <Music className="w-4 h-4" /> Audio
+                                  </a>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Support tickets */}
+            {detail.tickets && (
+              <div className="bg-card rounded-2xl border-2 border-border p-6">
+                <SectionTitle>
+                  Support Tickets ({detail.tickets.length})
+                </SectionTitle>
+                {detail.tickets.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No support tickets
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {detail.tickets.map((ticket) => (
+                      <div
+                        key={ticket.id}
+                        className="rounded-xl border-2 border-border p-4"
+                      >
+                        <div className="flex items-center justify-between gap-2 mb-3">
+                          <p className="font-semibold text-foreground">
+                            {ticket.subject}
+                          </p>
+                          <span
+                            className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                              ticket.status === "open"
+                                ? "bg-green-100 text-green-800"
+                                : "bg-gray-100 text-gray-800"
+                            }`}
+                          >
+                            {ticket.status}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground mb-3">
+                          Opened {formatDateTime(ticket.created_at)} ·{" "}
+                          {ticket.message_count} messages
+                        </p>
+                        <div className="space-y-2">
+                          {ticket.latest_messages.map((message) => (
+                            <div
+                              key={message.id}
+                              className={`flex ${
+                                message.sender_type === "admin"
+                                  ? "justify-end"
+                                  : "justify-start"
+                              }`}
+                            >
+                              <div
+                                className={`max-w-[80%] rounded-2xl px-4 py-2 ${
+                                  message.sender_type === "admin"
+                                    ? "bg-primary text-white"
+                                    : "bg-accent text-foreground"
+                                }`}
+                              >
+                                <p className="text-sm">{message.message}</p>
+                                <p
+                                  className={`text-xs mt-1 ${
+                                    message.sender_type === "admin"
+                                      ? "text-white/70"
+                                      : "text-muted-foreground"
+                                  }`}
+                                >
+                                  {formatDateTime(message.created_at)}
+                                </p>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Timeline */}
+            <div className="bg-card rounded-2xl border-2 border-border p-6">
+              <SectionTitle>Timeline</SectionTitle>
+              <ol className="relative border-l-2 border-border ml-4 space-y-5">
+                {detail.timeline.map((event, i) => {
+                  const Icon = TIMELINE_ICONS[event.kind];
+                  return (
+                    <li key={i} className="ml-6">
+                      <span className="absolute -left-[15px] flex items-center justify-center w-7 h-7 bg-primary/10 border-2 border-primary/30 rounded-full">
+                        <Icon className="w-3.5 h-3.5 text-primary" />
+                      </span>
+                      <p className="text-sm font-semibold text-foreground">
+                        {event.title}
+                      </p>
+                      {event.detail && (
+                        <p className="text-sm text-muted-foreground mt-0.5 break-words">
+                          {event.detail}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDateTime(event.at)}
+                        {event.actor && ` · ${event.actor}`}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,493 @@
+"use client";
+
+import React, { useState } from "react";
+import { adminApi } from "./../utils/adminApi";
+import type { UserImportResult } from "./../utils/apiSchemas";
+import { parseCsv, toCsvLine } from "./../utils/csv";
+import {
+  MAX_IMPORT_ROWS,
+  USER_IMPORT_BATCH,
+  USER_IMPORT_FIELD_LABELS,
+  USER_IMPORT_FIELDS,
+  duplicateEmailRows,
+  guessImportMapping,
+  toImportRows,
+  type UserImportField,
+  type UserImportMapping,
+  type UserImportRow,
+} from "./../utils/userImport";
+import { Download, FileUp, X } from "lucide-react";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+type ImportAction = UserImportResult["action"];
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: "Create",
+  update: "Update",
+  skip: "Skip",
+  error: "Error",
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  skip: "bg-gray-100 text-gray-800",
+  error: "bg-red-100 text-red-800",
+};
+
+// Rows listed in the preview table; the counts cover the whole file
+const PREVIEW_ROWS = 500;
+
+const selectClass =
+  "w-full px-4 py-2.5 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground";
+
+const fieldLabel = (field: string) =>
+  USER_IMPORT_FIELD_LABELS[field as UserImportField] ?? field;
+
+const countBy = (results: UserImportResult[]) =>
+  results.reduce<Record<ImportAction, number>>(
+    (counts, result) => ({
+      ...counts,
+      [result.action]: counts[result.action] + 1,
+    }),
+    { create: 0, update: 0, skip: 0, error: 0 }
+  );
+
+// A row that fails as a whole, before or instead of reaching the server
+const errorResult = (
+  row: UserImportRow,
+  path: string,
+  message: string
+): UserImportResult => ({
+  line: row.line,
+  email: row.values.email ?? null,
+  action: "error",
+  userId: null,
+  changes: [],
+  errors: [{ path, message }],
+});
+
+// The failed rows as they were in the file, with the line and what went
+// wrong in front, so they can be fixed and imported again
+const downloadErrorReport = (
+  records: string[][],
+  results: UserImportResult[]
+) => {
+  const lines = [
+    toCsvLine(["Line", "Errors", ...records[0]]),
+    ...results
+      .filter((result) => result.action === "error")
+      .map((result) =>
+        toCsvLine([
+          result.line,
+          result.errors
+            .map((error) =>
+              error.path
+                ? `${fieldLabel(error.path)}: ${error.message}`
+                : error.message
+            )
+            .join("; "),
+          ...records[result.line - 1],
+        ])
+      ),
+  ];
+  const url = URL.createObjectURL(
+    new Blob([lines.join("\r\n")], { type: "text/csv" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "user-import-errors.csv";
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface UserImportWizardProps {
+  onClose: () => void;
+  // Called after changes were applied, to reload the list
+  onComplete: () => void;
+}
+
+export const UserImportWizard: React.FC<UserImportWizardProps> = ({
+  onClose,
+  onComplete,
+}) => {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [records, setRecords] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<UserImportMapping>({});
+  const [results, setResults] = useState<UserImportResult[]>([]);
+  const [progress, setProgress] = useState<{
+    label: string;
+    done: number;
+    total: number;
+  } | null>(null);
+  const [error, setError] = useState("");
+
+  const header = records[0] ?? [];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError("");
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        setError("The file needs a header row and at least one user");
+        return;
+      }
+      if (parsed.length - 1 > MAX_IMPORT_ROWS) {
+        setError(
+          `The file has ${parsed.length - 1} rows; import at most ${MAX_IMPORT_ROWS} at a time`
+        );
+        return;
+      }
+      setFileName(file.name);
+      setRecords(parsed);
+      setMapping(guessImportMapping(parsed[0]));
+      setStep("map");
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      setError("The file could not be read as CSV");
+    }
+  };
+
+  // Send the rows batch by batch, keeping every result
+  const runBatches = async (
+    label: string,
+    rows: UserImportRow[],
+    send: (batch: UserImportRow[]) => Promise<{ results: UserImportResult[] }>
+  ) => {
+    const collected: UserImportResult[] = [];
+    setProgress({ label, done: 0, total: rows.length });
+    for (let start = 0; start < rows.length; start += USER_IMPORT_BATCH) {
+      const batch = rows.slice(start, start + USER_IMPORT_BATCH);
+      try {
+        collected.push(...(await send(batch)).results);
+      } catch (error) {
+        // The whole batch failed (network, permissions); keep going
+        console.error("Error importing users:", error);
+        const message =
+          error instanceof Error ? error.message : "Request failed";
+        collected.push(...batch.map((row) => errorResult(row, "", message)));
+      }
+      setProgress({ label, done: collected.length, total: rows.length });
+    }
+    setProgress(null);
+    return collected;
+  };
+
+  const handlePreview = async () => {
+    if (mapping.email === undefined) {
+      setError("Choose the column that holds the email address");
+      return;
+    }
+    setError("");
+
+    // Batches are checked separately, so repeated emails are caught here
+    const rows = toImportRows(records, mapping);
+    const duplicates = duplicateEmailRows(rows);
+    const checked = await runBatches(
+      "Checking",
+      rows.filter((row) => !duplicates.has(row.line)),
+      adminApi.users.importPreview
+    );
+    const byLine = new Map(checked.map((result) => [result.line, result]));
+    setResults(
+      rows.map(
+        (row) =>
+          byLine.get(row.line) ??
+          errorResult(
+            row,
+            "email",
+            `Same email as line ${duplicates.get(row.line)}`
+          )
+      )
+    );
+    setStep("preview");
+  };
+
+  const handleApply = async () => {
+    const lines = new Set(
+      results
+        .filter(
+          (result) => result.action === "create" || result.action === "update"
+        )
+        .map((result) => result.line)
+    );
+    if (
+      !confirm(
+        `Apply ${lines.size} change${lines.size === 1 ? "" : "s"} to users?`
+      )
+    ) {
+      return;
+    }
+
+    const applied = await runBatches(
+      "Importing",
+      toImportRows(records, mapping).filter((row) => lines.has(row.line)),
+      adminApi.users.importRows
+    );
+    const byLine = new Map(applied.map((result) => [result.line, result]));
+    setResults(results.map((result) => byLine.get(result.line) ?? result));
+    setStep("done");
+    onComplete();
+  };
+
+  const counts = countBy(results);
+  const pendingChanges = counts.create + counts.update;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm px-4">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-card p-6 sm:p-8 rounded-2xl shadow-xl border-2 border-border">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Import Users</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {step === "upload" &&
+                "Create users and update existing ones (matched by email) from a CSV file with a header row."}
+              {step === "map" &&
+                `Choose which column of ${fileName} goes into each field. Unmapped fields and empty cells are left unchanged.`}
+              {step === "preview" &&
+                "Nothing has been changed yet. Check what the import will do, then apply it."}
+              {step === "done" && "The import has finished."}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={!!progress}
+            className="p-2 rounded-lg text-muted-foreground hover:bg-accent transition-colors disabled:opacity-50"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium mb-6">
+            {error}
+          </div>
+        )}
+
+        {progress && (
+          <div className="mb-6">
+            <p className="text-sm font-semibold text-foreground mb-2">
+              {progress.label} {progress.done} of {progress.total} rows...
+            </p>
+            <div className="w-full bg-accent rounded-full h-2">
+              <div
+                className="bg-gradient-to-r from-primary to-purple-600 h-2 rounded-full transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === "upload" && (
+          <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-border rounded-2xl p-10 cursor-pointer hover:border-primary transition-colors">
+            <FileUp className="w-10 h-10 text-primary" />
+            <span className="font-semibold text-foreground">
+              Choose a CSV file
+            </span>
+            <span className="text-sm text-muted-foreground">
+              Up to {MAX_IMPORT_ROWS} rows. Plans may be given by ID or name.
+            </span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {step === "map" && !progress && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              {USER_IMPORT_FIELDS.map((field) => (
+                <div key={field}>
+                  <label className="block text-sm font-semibold text-foreground mb-2">
+                    {USER_IMPORT_FIELD_LABELS[field]}
+                    {field === "email" && " (required)"}
+                  </label>
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={(e) =>
+                      setMapping({
+                        ...mapping,
+                        [field]:
+                          e.target.value === ""
+                            ? undefined
+                            : Number(e.target.value),
+                      })
+                    }
+                    className={selectClass}
+                  >
+                    <option value="">Don&apos;t import</option>
+                    {header.map((name, index) => (
+                      <option key={index} value={index}>
+                        {name || `Column ${index + 1}`}
+                        {records[1]?.[index]
+                          ? ` (e.g. ${records[1][index]})`
+                          : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground mb-6">
+              New users need a name, plan and expiry date; they get no
+              password until one is set with Reset Password.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setStep("upload")}
+                className="px-4 py-2.5 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors"
+              >
+                Back
+              </button>
+              <button
+                onClick={handlePreview}
+                className="px-4 py-2.5 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all"
+              >
+                Preview {records.length - 1} rows
+              </button>
+            </div>
+          </>
+        )}
+
+        {(step === "preview" || step === "done") && !progress && (
+          <>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(Object.keys(ACTION_LABELS) as ImportAction[]).map((action) => (
+                <span
+                  key={action}
+                  className={`px-3 py-1 rounded-full text-sm font-semibold ${ACTION_STYLES[action]}`}
+                >
+                  {step === "done" && action === "create"
+                    ? "Created"
+                    : step === "done" && action === "update"
+                      ? "Updated"
+                      : ACTION_LABELS[action]}
+                  : {counts[action]}
+                </span>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto border-2 border-border rounded-lg mb-2">
+              <table className="w-full text-sm">
+                <thead className="bg-accent">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-foreground">
+                      Line
+                    </th>
+                    <th className="px-3 py-2 text-left font-semibold text-foreground">
+                      Email
+                    </th>
+                    <th className="px-3 py-2 text-left font-semibold text-foreground">
+                      Action
+                    </th>
+                    <th className="px-3 py-2 text-left font-semibold text-foreground">
+                      Details
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {results.slice(0, PREVIEW_ROWS).map((result) => (
+                    <tr key={result.line} className="align-top">
+                      <td className="px-3 py-2 text-muted-foreground">
+                        {result.line}
+                      </td>
+                      <td className="px-3 py-2 text-foreground break-all">
+                        {result.email ?? "—"}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                            ACTION_STYLES[result.action]
+                          }`}
+                        >
+                          {ACTION_LABELS[result.action]}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">
+                        {result.errors.map((error, i) => (
+                          <p key={i} className="text-xs text-red-600">
+                            {error.path && `${fieldLabel(error.path)}: `}
+                            {error.message}
+                          </p>
+                        ))}
+                        {result.action !== "error" &&
+                          result.changes.map((change) => (
+                            <p
+                              key={change.field}
+                              className="text-xs text-muted-foreground"
+                            >
+                              {fieldLabel(change.field)}:{" "}
+                              {change.before !== null && (
+                                <>
+                                  <span className="line-through">
+                                    {change.before}
+                                  </span>{" "}
+                                  →{" "}
+                                </>
+                              )}
+                              <span className="text-foreground">
+                                {change.after ?? "—"}
+                              </span>
+                            </p>
+                          ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {results.length > PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground mb-2">
+                Showing the first {PREVIEW_ROWS} of {results.length} rows.
+              </p>
+            )}
+
+            <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2 mt-4">
+              {counts.error > 0 && (
+                <button
+                  onClick={() => downloadErrorReport(records, results)}
+                  className="flex items-center justify-center px-4 py-2.5 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors sm:mr-auto"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download Error Report
+                </button>
+              )}
+              {step === "preview" ? (
+                <>
+                  <button
+                    onClick={() => setStep("map")}
+                    className="px-4 py-2.5 rounded-lg font-semibold text-muted-foreground hover:bg-accent transition-colors"
+                  >
+                    Back
+                  </button>
+                  <button
+                    onClick={handleApply}
+                    disabled={pendingChanges === 0}
+                    className="flex items-center justify-center px-4 py-2.5 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Apply {pendingChanges} change
+                    {pendingChanges === 1 ? "" : "s"}
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2.5 rounded-lg font-semibold bg-primary hover:bg-primary/90 text-white transition-all"
+                >
+                  Done
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,7 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { createClient } from "@supabase/supabase-js";
-import { adminAuth } from "./../utils/adminAuth";
-
-// Initialize Supabase client (adjust with your actual credentials)
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { adminAuth, LoginLockedError } from "./../utils/adminAuth";
 
 interface AdminLoginProps {
   onLoginSuccess: () => void;
@@ -19,6 +12,11 @@ export const AdminLogin: React.FC<AdminLoginProps> = ({ onLoginSuccess }) => {
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
+  const [step, setStep] = useState<"password" | "totp">("password");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
 
   // Check if already logged in
   useEffect(() => {
@@ -27,44 +25,97 @@ export const AdminLogin: React.FC<AdminLoginProps> = ({ onLoginSuccess }) => {
     }
   }, [onLoginSuccess]);
 
+  // Tick once a second while locked out so the countdown updates
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const interval = window.setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil.getTime()) {
+        setLockedUntil(null);
+        setError("");
+      }
+    }, 1000);
+    return () => window.clearInterval(interval);
+  }, [lockedUntil]);
+
+  const isLockedOut = !!lockedUntil && lockedUntil.getTime() > now;
+
+  const formatRemaining = () => {
+    const seconds = Math.max(
+      0,
+      Math.ceil(((lockedUntil?.getTime() ?? now) - now) / 1000)
+    );
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  };
+
+  const handleFailure = (err: unknown) => {
+    if (err instanceof LoginLockedError) {
+      setNow(Date.now());
+      setLockedUntil(err.lockedUntil);
+    }
+    setError(
+      err instanceof Error ? err.message : "An error occurred during login"
+    );
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setLoading(true);
 
     try {
-      // Query admin table
-      const { data, error: queryError } = await supabase
-        .from("admin")
-        .select("*")
-        .eq("email", email)
-        .eq("password", password)
-        .single();
-
-      if (queryError || !data) {
-        setError("Invalid email or password");
-        setLoading(false);
+      // Password is checked server-side; on success the session cookie is set
+      const result = await adminAuth.login(email, password);
+
+      if (result.status === "totp_required") {
+        setStep("totp");
         return;
       }
 
-      // Store admin session
-      adminAuth.setSession({
-        id: data.id,
-        name: data.name,
-        email: data.email,
-        created_at: data.created_at,
-      });
-
       // Call success callback
       onLoginSuccess();
     } catch (err) {
       console.error("Login error:", err);
-      setError("An error occurred during login");
+      handleFailure(err);
     } finally {
       setLoading(false);
     }
   };
 
+  // Second step for admins with 2FA enabled
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      await adminAuth.verifyTotp(
+        useRecoveryCode ? { recoveryCode: code } : { code }
+      );
+      onLoginSuccess();
+    } catch (err) {
+      console.error("TOTP verification error:", err);
+      handleFailure(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Go back to the password step
+  const handleCancelVerify = async () => {
+    try {
+      // Drops the pending 2FA challenge cookie
+      await adminAuth.logout();
+    } catch (err) {
+      console.error("Error cancelling sign-in:", err);
+    }
+    setStep("password");
+    setCode("");
+    setUseRecoveryCode(false);
+    setError("");
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <div className="w-full max-w-md">
@@ -81,60 +132,140 @@ export const AdminLogin: React.FC<AdminLoginProps> = ({ onLoginSuccess }) => {
             <h2 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">
               Admin Panel
             </h2>
-            <p className="text-muted-foreground">Sign in to manage</p>
+            <p className="text-muted-foreground">
+              {step === "password"
+                ? "Sign in to manage"
+                : useRecoveryCode
+                ? "Enter one of your recovery codes"
+                : "Enter the 6-digit code from your authenticator app"}
+            </p>
           </div>
 
-          <form onSubmit={handleLogin} className="space-y-6">
-            {error && (
-              <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
-                {error}
+          {step === "totp" ? (
+            <form onSubmit={handleVerify} className="space-y-6">
+              {isLockedOut ? (
+                <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+                  Too many failed attempts. Try again in {formatRemaining()}.
+                </div>
+              ) : (
+                error && (
+                  <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+                    {error}
+                  </div>
+                )
+              )}
+
+              <div>
+                <label
+                  htmlFor="code"
+                  className="block text-sm font-semibold text-foreground mb-2"
+                >
+                  {useRecoveryCode ? "Recovery Code" : "Verification Code"}
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground font-mono tracking-widest"
+                  placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                />
               </div>
-            )}
 
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-semibold text-foreground mb-2"
+              <button
+                type="submit"
+                disabled={loading || isLockedOut}
+                className="w-full bg-gradient-to-r from-primary to-purple-600 hover:opacity-90 text-white font-semibold py-3 rounded-lg transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Email Address
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
-                placeholder="admin@example.com"
-              />
-            </div>
-
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-semibold text-foreground mb-2"
+                {loading ? "Verifying..." : "Verify"}
+              </button>
+
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                    setError("");
+                  }}
+                  className="text-primary hover:text-primary/80 font-semibold transition-colors"
+                >
+                  {useRecoveryCode
+                    ? "Use authenticator app"
+                    : "Use a recovery code"}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCancelVerify}
+                  className="text-muted-foreground hover:text-foreground font-semibold transition-colors"
+                >
+                  Back
+                </button>
+              </div>
+            </form>
+          ) : (
+            <form onSubmit={handleLogin} className="space-y-6">
+              {isLockedOut ? (
+                <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+                  Too many failed attempts. Try again in {formatRemaining()}.
+                </div>
+              ) : (
+                error && (
+                  <div className="bg-red-500/10 border-2 border-red-500/20 text-red-600 px-4 py-3 rounded-lg font-medium">
+                    {error}
+                  </div>
+                )
+              )}
+
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-semibold text-foreground mb-2"
+                >
+                  Email Address
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
+                  placeholder="admin@example.com"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-semibold text-foreground mb-2"
+                >
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
+                  placeholder="Enter your password"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading || isLockedOut}
+                className="w-full bg-gradient-to-r from-primary to-purple-600 hover:opacity-90 text-white font-semibold py-3 rounded-lg transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="w-full px-4 py-3 border-2 border-border bg-background rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-foreground placeholder:text-muted-foreground"
-                placeholder="Enter your password"
-              />
-            </div>
-
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full bg-gradient-to-r from-primary to-purple-600 hover:opacity-90 text-white font-semibold py-3 rounded-lg transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {loading ? "Signing in..." : "Sign In"}
-            </button>
-          </form>
+                {loading ? "Signing in..." : "Sign In"}
+              </button>
+            </form>
+          )}
         </div>
       </div>
     </div>
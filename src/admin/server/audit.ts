@@ -0,0 +1,60 @@
+import { z } from "zod";
+import {
+  AUDIT_ENTITIES,
+  type AuditEntity,
+  type AuditEntry,
+} from "../../types/audit";
+import type { AdminUser } from "../utils/adminAuth";
+import { repositories } from "./repositories";
+import { dateSchema } from "./support";
+
+export interface AuditInput {
+  action: string;
+  entity: AuditEntity;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// The named columns of a row, as an entry's before and after snapshots
+export const pick = <T extends object>(row: T, keys: string[]) =>
+  Object.fromEntries(keys.map((key) => [key, row[key as keyof T]]));
+
+// Append an entry to admin_audit_log. The table rejects UPDATE and DELETE
+// (see the migration), so entries can only ever be added. A failed write is
+// logged rather than thrown: the mutation it describes has already happened.
+export const recordAudit = async (
+  admin: AdminUser | null,
+  input: AuditInput
+): Promise<void> => {
+  try {
+    await repositories().auditLog.insert({
+      admin_id: admin?.id ?? null,
+      admin_email: admin?.email ?? null,
+      action: input.action,
+      entity: input.entity,
+      entity_id: input.entityId,
+      before: input.before ?? null,
+      after: input.after ?? null,
+    });
+  } catch (error) {
+    console.error("Failed to write audit entry:", input.action, error);
+  }
+};
+
+// Filters accepted by the audit list and export routes
+export const auditQuerySchema = z.object({
+  admin: z.string().trim().max(200).optional(),
+  entity: z.enum(AUDIT_ENTITIES as [AuditEntity, ...AuditEntity[]]).optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export const listAuditEntries = (
+  query: AuditQuery,
+  offset: number,
+  limit: number
+): Promise<AuditEntry[]> =>
+  repositories().auditLog.list(query, offset, limit);
@@ -0,0 +1,257 @@
+import crypto from "crypto";
+import { z } from "zod";
+import type { User } from "../../types/database";
+import { pick, recordAudit } from "./audit";
+import { AdminApiError } from "./guard";
+import { assertPlanExists } from "./plans";
+import { repositories, type BillingEventRow } from "./repositories";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Signatures older than this are rejected, so a captured delivery cannot be
+// replayed later
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+// A delivery still "received" after this long is assumed to have crashed,
+// and the provider's next retry may take it over
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+// After a failed payment the subscription stays active this long while the
+// provider retries the charge
+export const PAYMENT_GRACE_DAYS = 3;
+
+const isDate = (value: string) => !Number.isNaN(Date.parse(value));
+
+const timestamp = z.string().refine(isDate, "Expected a date");
+
+const subscriptionId = z.string().trim().min(1).max(200);
+
+const envelope = {
+  // The provider's event id, used as the idempotency key
+  id: z.string().trim().min(1).max(200),
+  created_at: timestamp,
+};
+
+// What the provider posts. subscription.created names the user (by id or
+// email); later events only refer to the subscription.
+export const billingWebhookSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...envelope,
+    type: z.literal("subscription.created"),
+    data: z
+      .object({
+        subscription_id: subscriptionId,
+        user_id: z.string().uuid().optional(),
+        email: z.string().trim().email().optional(),
+        plan: z.string().trim().min(1).max(50),
+        current_period_end: timestamp,
+      })
+      .refine((data) => data.user_id || data.email, {
+        message: "Expected user_id or email",
+        path: ["user_id"],
+      }),
+  }),
+  z.object({
+    ...envelope,
+    type: z.literal("subscription.renewed"),
+    data: z.object({
+      subscription_id: subscriptionId,
+      // Set when the renewal also switched plans
+      plan: z.string().trim().min(1).max(50).optional(),
+      current_period_end: timestamp,
+    }),
+  }),
+  z.object({
+    ...envelope,
+    type: z.literal("subscription.cancelled"),
+    data: z.object({
+      subscription_id: subscriptionId,
+      // When access ends; the end of the paid period unless cancelled at once
+      ends_at: timestamp,
+    }),
+  }),
+  z.object({
+    ...envelope,
+    type: z.literal("payment.failed"),
+    data: z.object({ subscription_id: subscriptionId }),
+  }),
+]);
+
+export type BillingWebhookEvent = z.infer<typeof billingWebhookSchema>;
+
+const getWebhookSecret = (): string => {
+  const secret = process.env.BILLING_WEBHOOK_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("BILLING_WEBHOOK_SECRET must be set (at least 32 chars)");
+  }
+  return secret;
+};
+
+// "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>", the format the
+// provider sends in the Billing-Signature header
+export const signBillingPayload = (
+  body: string,
+  secret: string,
+  now = Date.now()
+) => {
+  const t = Math.floor(now / 1000);
+  const v1 = crypto
+    .createHmac("sha256", secret)
+    .update(`${t}.${body}`)
+    .digest("hex");
+  return `t=${t},v1=${v1}`;
+};
+
+// Whether the raw body was signed with our secret within the tolerance
+export const verifyBillingSignature = (
+  body: string,
+  header: string | null,
+  now = Date.now()
+): boolean => {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.trim().split("=", 2))
+  );
+  const t = Number(parts.t);
+  if (!Number.isInteger(t) || !parts.v1) return false;
+  if (Math.abs(now - t * 1000) > SIGNATURE_TOLERANCE_MS) return false;
+
+  const expected = Buffer.from(
+    signBillingPayload(body, getWebhookSecret(), t * 1000)
+  );
+  const actual = Buffer.from(`t=${t},v1=${parts.v1}`);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
+
+const findUser = (event: BillingWebhookEvent) => {
+  if (event.type !== "subscription.created") {
+    return repositories().users.findBySubscriptionId(
+      event.data.subscription_id
+    );
+  }
+  return event.data.user_id
+    ? repositories().users.findById(event.data.user_id)
+    : repositories().users.findByEmail(event.data.email);
+};
+
+const later = (a: string, b: string) =>
+  Date.parse(a) >= Date.parse(b) ? a : b;
+
+const earlier = (a: string, b: string) =>
+  Date.parse(a) <= Date.parse(b) ? a : b;
+
+const iso = (value: string) => new Date(value).toISOString();
+
+// The users columns an event sets. Deliveries can arrive out of order, so a
+// renewal never moves the expiry date back and a failure never moves it on.
+const patchFor = (event: BillingWebhookEvent, user: User): Partial<User> => {
+  switch (event.type) {
+    case "subscription.created":
+      return {
+        subscription_id: event.data.subscription_id,
+        subscription_plan: event.data.plan,
+        expiry_date: iso(event.data.current_period_end),
+      };
+    case "subscription.renewed":
+      return {
+        ...(event.data.plan ? { subscription_plan: event.data.plan } : {}),
+        expiry_date: later(
+          user.expiry_date,
+          iso(event.data.current_period_end)
+        ),
+      };
+    case "subscription.cancelled":
+      return { expiry_date: iso(event.data.ends_at) };
+    case "payment.failed":
+      return {
+        expiry_date: earlier(
+          user.expiry_date,
+          new Date(
+            Date.parse(event.created_at) + PAYMENT_GRACE_DAYS * DAY
+          ).toISOString()
+        ),
+      };
+  }
+};
+
+// Apply one event to its user. `ignored` says why nothing changed, if so.
+const applyEvent = async (
+  event: BillingWebhookEvent
+): Promise<{ userId: string | null; ignored: string | null }> => {
+  const user = await findUser(event);
+  if (!user) {
+    return { userId: null, ignored: "No user for this subscription" };
+  }
+  if (user.deleted_at) {
+    return { userId: user.id, ignored: "User is in Trash" };
+  }
+  if ("plan" in event.data && event.data.plan) {
+    await assertPlanExists(event.data.plan, "data.plan");
+  }
+
+  const patch = patchFor(event, user);
+  const after = await repositories().users.update(user.id, {
+    ...patch,
+    updated_at: new Date().toISOString(),
+  });
+  if (!after) {
+    return { userId: null, ignored: "No user for this subscription" };
+  }
+
+  const keys = Object.keys(patch);
+  await recordAudit(null, {
+    action: "user.billing_sync",
+    entity: "user",
+    entityId: user.id,
+    before: pick(user, keys),
+    after: pick(after, keys),
+  });
+  return { userId: user.id, ignored: null };
+};
+
+export interface BillingWebhookResult {
+  status: BillingEventRow["status"] | "duplicate";
+}
+
+// Record and apply one verified delivery. A redelivery of an event already
+// processed or ignored is acknowledged without doing anything. A failure is
+// stored and rethrown, so the provider retries it.
+export const handleBillingEvent = async (
+  event: BillingWebhookEvent,
+  now = Date.now()
+): Promise<BillingWebhookResult> => {
+  const claimed = await repositories().billingEvents.claim(
+    {
+      id: event.id,
+      type: event.type,
+      subscription_id: event.data.subscription_id,
+      payload: event,
+    },
+    new Date(now).toISOString(),
+    new Date(now - STALE_CLAIM_MS).toISOString()
+  );
+  if (!claimed) return { status: "duplicate" };
+
+  try {
+    const { userId, ignored } = await applyEvent(event);
+    const status = ignored ? "ignored" : "processed";
+    await repositories().billingEvents.update(event.id, {
+      user_id: userId,
+      status,
+      error: ignored,
+      processed_at: new Date().toISOString(),
+    });
+    return { status };
+  } catch (error) {
+    console.error("Billing event failed:", event.id, event.type, error);
+    await repositories().billingEvents.update(event.id, {
+      status: "failed",
+      error: error instanceof AdminApiError ? error.message : "Processing failed",
+    });
+    throw error;
+  }
+};
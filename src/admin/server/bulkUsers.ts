@@ -0,0 +1,156 @@
+import { z } from "zod";
+import type { User } from "../../types/database";
+import type { AdminUser } from "../utils/adminAuth";
+import type { BulkUserResult } from "../utils/apiSchemas";
+import { editableUserFields, hasPermission } from "../utils/permissions";
+import { pick, recordAudit } from "./audit";
+import { AdminApiError } from "./guard";
+import { assertPlanExists } from "./plans";
+import { repositories } from "./repositories";
+import { trashUser } from "./trash";
+import { toUserFilter, type UserFilterQuery } from "./users";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Users per bulk request; the panel splits larger selections into batches
+export const BULK_BATCH_SIZE = 100;
+
+// "Select all matching" stops here; narrow the filters beyond it
+export const MAX_BULK_TARGETS = 10000;
+
+export const bulkUserActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("change_plan"),
+    plan: z.string().trim().min(1).max(50),
+  }),
+  z.object({
+    type: z.literal("extend_expiry"),
+    days: z.number().int().min(1).max(3650),
+  }),
+  z.object({ type: z.literal("reset_conversions") }),
+  z.object({ type: z.literal("delete") }),
+]);
+
+export type BulkUserAction = z.infer<typeof bulkUserActionSchema>;
+
+export const bulkUserRequestSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(BULK_BATCH_SIZE),
+  action: bulkUserActionSchema,
+});
+
+export type BulkUserRequest = z.infer<typeof bulkUserRequestSchema>;
+
+type EditAction = Exclude<BulkUserAction, { type: "delete" }>;
+
+// The column each edit action writes, checked against the admin's role
+const ACTION_FIELDS: Record<EditAction["type"], keyof User> = {
+  change_plan: "subscription_plan",
+  extend_expiry: "expiry_date",
+  reset_conversions: "conversions",
+};
+
+const assertAllowed = (admin: AdminUser, action: BulkUserAction) => {
+  const allowed =
+    action.type === "delete"
+      ? hasPermission(admin, "users:delete")
+      : editableUserFields(admin).includes(ACTION_FIELDS[action.type]);
+
+  if (!allowed) {
+    throw new AdminApiError(
+      403,
+      "forbidden",
+      "You do not have permission for this bulk action"
+    );
+  }
+};
+
+// Expiry is pushed back from each user's own expiry date, not from today
+// (unless they have none)
+const patchFor = (action: EditAction, user: User): Partial<User> => {
+  switch (action.type) {
+    case "change_plan":
+      return { subscription_plan: action.plan };
+    case "extend_expiry":
+      return {
+        expiry_date: new Date(
+          new Date(user.expiry_date || Date.now()).getTime() +
+            action.days * DAY
+        ).toISOString(),
+      };
+    case "reset_conversions":
+      return { conversions: 0 };
+  }
+};
+
+// Null when the row was changed, otherwise why not
+const applyToUser = async (
+  admin: AdminUser,
+  id: string,
+  action: BulkUserAction
+): Promise<string | null> => {
+  if (action.type === "delete") {
+    await trashUser(admin, id);
+    return null;
+  }
+
+  const before = await repositories().users.findById(id);
+  if (!before) return "User not found";
+
+  const patch = patchFor(action, before);
+  const after = await repositories().users.update(id, {
+    ...patch,
+    updated_at: new Date().toISOString(),
+  });
+  if (!after) return "User not found";
+
+  const keys = Object.keys(patch);
+  await recordAudit(admin, {
+    action: "user.bulk_update",
+    entity: "user",
+    entityId: id,
+    before: pick(before, keys),
+    after: pick(after, keys),
+  });
+  return null;
+};
+
+// Apply one action to each user in turn. A failing row is reported and the
+// rest carry on, so one batch can partly succeed.
+export const runBulkUserAction = async (
+  admin: AdminUser,
+  { ids, action }: BulkUserRequest
+): Promise<BulkUserResult[]> => {
+  assertAllowed(admin, action);
+  if (action.type === "change_plan") {
+    await assertPlanExists(action.plan, "action.plan");
+  }
+
+  const results: BulkUserResult[] = [];
+  for (const id of new Set(ids)) {
+    let error: string | null;
+    try {
+      error = await applyToUser(admin, id, action);
+    } catch (cause) {
+      console.error("Bulk user action failed:", action.type, id, cause);
+      error = cause instanceof AdminApiError ? cause.message : "Update failed";
+    }
+    results.push({ id, ok: error === null, error });
+  }
+  return results;
+};
+
+// Every user matching the list filters, for "select all matching"
+export const listMatchingUserIds = async (query: UserFilterQuery) => {
+  const ids = await repositories().users.listIds(
+    toUserFilter(query),
+    MAX_BULK_TARGETS + 1
+  );
+  if (ids.length > MAX_BULK_TARGETS) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      `More than ${MAX_BULK_TARGETS} users match; narrow the filters first`
+    );
+  }
+  return ids;
+};
@@ -0,0 +1,121 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runEmailCampaigns } from "./campaigns";
+import {
+  createFileTransport,
+  setMailTransport,
+  type MailMessage,
+} from "./mail";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  repositories,
+  setRepositories,
+} from "./repositories";
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+const DAY = 24 * 60 * 60 * 1000;
+
+let mailDir: string;
+
+// The messages the file transport wrote, decoded
+const readMail = async () => {
+  const names = (await fs.readdir(mailDir)).sort();
+  return Promise.all(
+    names.map(async (name) => {
+      const raw = await fs.readFile(path.join(mailDir, name), "utf8");
+      const [headers, body] = raw.split("\r\n\r\n");
+      const header = (key: string) =>
+        headers.match(new RegExp(`^${key}: (.*)$`, "m"))?.[1];
+      return {
+        to: header("To"),
+        subject: header("Subject"),
+        text: Buffer.from(body.replace(/\r\n/g, ""), "base64").toString(),
+      };
+    })
+  );
+};
+
+beforeEach(async () => {
+  vi.stubEnv("MAIL_FROM", "Admin <hello@example.com>");
+  mailDir = await fs.mkdtemp(path.join(os.tmpdir(), "campaigns-test-"));
+  setMailTransport(createFileTransport(mailDir));
+  setRepositories(createMemoryRepositories(demoFixtures(NOW)));
+});
+
+afterEach(async () => {
+  setMailTransport(null);
+  await fs.rm(mailDir, { recursive: true, force: true });
+});
+
+describe("runEmailCampaigns", () => {
+  it("emails the users a campaign is due for", async () => {
+    // Only Bilal's plan expires in the 7-day reminder's window
+    expect(await runEmailCampaigns(NOW)).toEqual({ sent: 1, failed: 0 });
+
+    const [message, ...rest] = await readMail();
+    expect(rest).toHaveLength(0);
+    expect(message.to).toBe("bilal@example.com");
+    expect(message.subject).toBe("Your Paid plan renews in 5 days");
+    expect(message.text).toMatch(/^Hi Bilal Ahmed,/);
+  });
+
+  it("does not email a user twice for the same expiry", async () => {
+    await runEmailCampaigns(NOW);
+    expect(await runEmailCampaigns(NOW + DAY)).toEqual({ sent: 0, failed: 0 });
+    expect(await readMail()).toHaveLength(1);
+  });
+
+  it("records a failed send and retries it on the next run", async () => {
+    setMailTransport({
+      async send() {
+        throw new Error("Mailbox unavailable");
+      },
+    });
+    expect(await runEmailCampaigns(NOW)).toEqual({ sent: 0, failed: 1 });
+    const [failed] = await repositories().emailSends.listRecent(1);
+    expect(failed.status).toBe("failed");
+    expect(failed.error).toBe("Mailbox unavailable");
+
+    setMailTransport(createFileTransport(mailDir));
+    expect(await runEmailCampaigns(NOW)).toEqual({ sent: 1, failed: 0 });
+  });
+
+  it("records a send to an address with a line break as failed", async () => {
+    // Bilal, the user the 7-day reminder is due for
+    await repositories().users.update(demoFixtures(NOW).users[1].id, {
+      email: "bilal@example.com\r\nBcc: list@example.com",
+    });
+
+    expect(await runEmailCampaigns(NOW)).toEqual({ sent: 0, failed: 1 });
+    const [failed] = await repositories().emailSends.listRecent(1);
+    expect(failed.status).toBe("failed");
+    expect(await readMail()).toHaveLength(0);
+  });
+
+  it("reaches every due user, however many there are", async () => {
+    const sent: MailMessage[] = [];
+    setMailTransport({
+      async send(message) {
+        sent.push(message);
+      },
+    });
+    const expiry = new Date(NOW + 5 * DAY).toISOString();
+    for (let i = 0; i < 1200; i++) {
+      await repositories().users.insert({
+        name: `Customer ${i}`,
+        email: `customer-${i}@example.com`,
+        password: null,
+        subscription_plan: "paid",
+        subscription_id: null,
+        expiry_date: expiry,
+        conversions: 0,
+      });
+    }
+
+    expect(await runEmailCampaigns(NOW)).toEqual({ sent: 1201, failed: 0 });
+    expect(new Set(sent.map((message) => message.to)).size).toBe(1201);
+  });
+});
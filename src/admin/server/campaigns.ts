@@ -0,0 +1,236 @@
+import type { User } from "../../types/database";
+import type { AdminUser } from "../utils/adminAuth";
+import type { CampaignReport } from "../utils/apiSchemas";
+import {
+  renderTemplate,
+  type CampaignFields,
+  type TemplateValues,
+} from "../utils/campaigns";
+import { pick, recordAudit } from "./audit";
+import { AdminApiError } from "./guard";
+import { mailTransport } from "./mail";
+import { repositories, type EmailCampaignRow } from "./repositories";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A send that comes due while the job is not running still goes out for
+// this long afterwards. Older ones are skipped, so a new campaign does not
+// email everyone who expired months ago.
+export const CAMPAIGN_CATCH_UP_DAYS = 3;
+
+// Users loaded at a time while sending a campaign
+const SEND_BATCH = 500;
+
+// A send still "sending" after this long is assumed to have crashed
+const STALE_SEND_MS = 15 * 60 * 1000;
+
+// The report covers sends from this many days back
+const REPORT_DAYS = 30;
+
+// Latest sends listed under the report
+const RECENT_SENDS = 50;
+
+const findCampaign = async (id: string) => {
+  const campaign = await repositories().emailCampaigns.findById(id);
+  if (!campaign) {
+    throw new AdminApiError(404, "not_found", "Campaign not found");
+  }
+  return campaign;
+};
+
+// Every campaign with its sent and failed counts, and the latest sends
+export const campaignReport = async (
+  now = Date.now()
+): Promise<CampaignReport> => {
+  const since = new Date(now - REPORT_DAYS * DAY).toISOString();
+  const [campaigns, stats, recentSends] = await Promise.all([
+    repositories().emailCampaigns.list(),
+    repositories().emailSends.stats(since),
+    repositories().emailSends.listRecent(RECENT_SENDS),
+  ]);
+
+  return {
+    since,
+    campaigns: campaigns.map((campaign) => ({
+      ...campaign,
+      sent: stats[campaign.id]?.sent ?? 0,
+      failed: stats[campaign.id]?.failed ?? 0,
+      lastSentAt: stats[campaign.id]?.lastSentAt ?? null,
+    })),
+    recentSends,
+  };
+};
+
+export const createCampaign = async (
+  admin: AdminUser,
+  input: CampaignFields
+) => {
+  const campaign = await repositories().emailCampaigns.insert(input);
+
+  await recordAudit(admin, {
+    action: "campaign.create",
+    entity: "campaign",
+    entityId: campaign.id,
+    after: campaign,
+  });
+  return campaign;
+};
+
+export const updateCampaign = async (
+  admin: AdminUser,
+  id: string,
+  patch: Partial<CampaignFields>
+) => {
+  const before = await findCampaign(id);
+  const campaign = await repositories().emailCampaigns.update(id, {
+    ...patch,
+    updated_at: new Date().toISOString(),
+  });
+  if (!campaign) {
+    throw new AdminApiError(404, "not_found", "Campaign not found");
+  }
+
+  const keys = Object.keys(patch);
+  await recordAudit(admin, {
+    action: "campaign.update",
+    entity: "campaign",
+    entityId: id,
+    before: pick(before, keys),
+    after: pick(campaign, keys),
+  });
+  return campaign;
+};
+
+// Its send history goes with it
+export const deleteCampaign = async (admin: AdminUser, id: string) => {
+  const before = await findCampaign(id);
+  await repositories().emailCampaigns.remove(id);
+
+  await recordAudit(admin, {
+    action: "campaign.delete",
+    entity: "campaign",
+    entityId: id,
+    before,
+  });
+};
+
+const templateValues = (
+  user: User,
+  planNames: Map<string, string>,
+  now: number
+): TemplateValues => ({
+  name: user.name || "there",
+  email: user.email,
+  plan: planNames.get(user.subscription_plan) ?? user.subscription_plan,
+  expiry_date: new Date(user.expiry_date).toLocaleDateString("en-US", {
+    dateStyle: "long",
+    timeZone: "UTC",
+  }),
+  // Whole days to or since expiry
+  days: String(
+    Math.round(Math.abs(Date.parse(user.expiry_date) - now) / DAY)
+  ),
+});
+
+export interface CampaignRunResult {
+  sent: number;
+  failed: number;
+}
+
+// Email the campaign to one user unless another run already has
+const sendToUser = async (
+  campaign: EmailCampaignRow,
+  user: User,
+  planNames: Map<string, string>,
+  now: number,
+  result: CampaignRunResult
+) => {
+  if (!user.email) return;
+
+  const send = await repositories().emailSends.claim(
+    {
+      campaign_id: campaign.id,
+      user_id: user.id,
+      expiry_date: user.expiry_date,
+      email: user.email,
+    },
+    new Date(now).toISOString(),
+    new Date(now - STALE_SEND_MS).toISOString()
+  );
+  if (!send) return;
+
+  const values = templateValues(user, planNames, now);
+  try {
+    await mailTransport().send({
+      to: user.email,
+      subject: renderTemplate(campaign.subject, values),
+      text: renderTemplate(campaign.body, values),
+    });
+    await repositories().emailSends.update(send.id, {
+      status: "sent",
+      sent_at: new Date().toISOString(),
+    });
+    result.sent++;
+  } catch (error) {
+    console.error("Campaign email failed:", campaign.id, user.id, error);
+    await repositories().emailSends.update(send.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Send failed",
+    });
+    result.failed++;
+  }
+};
+
+// Email one campaign to the users it is due for: those whose expiry date
+// plus the offset passed within the catch-up window. Users in Trash are
+// left out by the user filter. Pages through the window by id, so users
+// already emailed do not crowd out the rest.
+const runCampaign = async (
+  campaign: EmailCampaignRow,
+  planNames: Map<string, string>,
+  now: number,
+  result: CampaignRunResult
+) => {
+  const dueBefore = now - campaign.offset_days * DAY;
+  const filter = {
+    expiresFrom: new Date(
+      dueBefore - CAMPAIGN_CATCH_UP_DAYS * DAY
+    ).toISOString(),
+    expiresBefore: new Date(dueBefore).toISOString(),
+  };
+
+  let afterId: string | undefined;
+  for (;;) {
+    const ids = await repositories().users.listIds(
+      filter,
+      SEND_BATCH,
+      afterId
+    );
+    const users = await repositories().users.findByIds(ids);
+    for (const user of users) {
+      await sendToUser(campaign, user, planNames, now, result);
+    }
+
+    if (ids.length < SEND_BATCH) return;
+    afterId = ids[ids.length - 1];
+  }
+};
+
+// The scheduled job: send every enabled campaign that has come due. Each
+// user gets a campaign once per expiry date, however often this runs; a
+// failed send is retried on the next run while still in the window.
+export const runEmailCampaigns = async (
+  now = Date.now()
+): Promise<CampaignRunResult> => {
+  const [campaigns, plans] = await Promise.all([
+    repositories().emailCampaigns.list(),
+    repositories().plans.list(),
+  ]);
+  const planNames = new Map(plans.map((plan) => [plan.id, plan.name]));
+  const result: CampaignRunResult = { sent: 0, failed: 0 };
+
+  for (const campaign of campaigns.filter((row) => row.enabled)) {
+    await runCampaign(campaign, planNames, now, result);
+  }
+  return result;
+};
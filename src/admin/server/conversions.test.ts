@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { conversionQuerySchema, listConversions } from "./conversions";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  setRepositories,
+} from "./repositories";
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories(demoFixtures()));
+});
+
+describe("conversionQuerySchema", () => {
+  it("takes days as date inputs send them", () => {
+    const result = conversionQuerySchema.safeParse({
+      dateFrom: "2026-10-01",
+      dateTo: "2026-10-19",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("refuses other date formats", () => {
+    for (const dateFrom of ["yesterday", "2026-10-1", "19/10/2026"]) {
+      expect(conversionQuerySchema.safeParse({ dateFrom }).success).toBe(
+        false
+      );
+    }
+  });
+});
+
+describe("listConversions", () => {
+  it("finds conversions by owner and names the owner", async () => {
+    const rows = await listConversions({ search: "Grace" }, 0, 50);
+
+    expect(rows).toHaveLength(4);
+    expect(rows.every((row) => row.user_name === "Grace Liu")).toBe(true);
+    expect(rows.every((row) => row.user_email === "grace@example.com")).toBe(
+      true
+    );
+  });
+});
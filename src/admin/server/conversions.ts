@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { repositories } from "./repositories";
+import { dateSchema } from "./support";
+
+// Filters accepted by the conversions list route
+export const conversionQuerySchema = z.object({
+  // Matches the owner's name or email, the PDF filename, or an exact id
+  search: z.string().trim().max(200).optional(),
+  voice: z.string().trim().max(100).optional(),
+  status: z.string().trim().max(50).optional(),
+  dateFrom: dateSchema.optional(),
+  dateTo: dateSchema.optional(),
+});
+
+export type ConversionQuery = z.infer<typeof conversionQuerySchema>;
+
+// The Conversions tab as a whole (filters and Trash toggle), as exports and
+// saved views take it
+export const conversionTabQuerySchema = conversionQuerySchema.extend({
+  trash: z.literal("1").optional(),
+});
+
+export type ConversionTabQuery = z.infer<typeof conversionTabQuerySchema>;
+
+// Conversions newest first, each with its owner's name and email. With
+// `trashed`, the ones in Trash instead.
+export const listConversions = async (
+  query: ConversionQuery,
+  offset: number,
+  limit: number,
+  trashed = false
+) => {
+  const conversions = await repositories().conversions.list(
+    { ...query, trashed },
+    offset,
+    limit
+  );
+  if (conversions.length === 0) return [];
+
+  const userIds = [...new Set(conversions.map((c) => c.user_id))];
+  const users = await repositories().users.findByIds(userIds);
+
+  const usersMap = new Map(users.map((u) => [u.id, u]));
+  return conversions.map((conversion) => ({
+    ...conversion,
+    user_name: usersMap.get(conversion.user_id)?.name || "Unknown",
+    user_email: usersMap.get(conversion.user_id)?.email || "Unknown",
+  }));
+};
@@ -0,0 +1,505 @@
+import { z } from "zod";
+import type { AdminUser } from "../utils/adminAuth";
+import { toCsvLine } from "../utils/csv";
+import {
+  DIRECT_EXPORT_ROWS,
+  EXPORT_COLUMNS,
+  EXPORT_RETENTION_DAYS,
+  MAX_EXPORT_ROWS,
+  type ExportColumn,
+  type ExportColumnKey,
+  type ExportDataset,
+  type ExportFormat,
+  type ExportRequest,
+} from "../utils/exports";
+import { hasPermission, type Permission } from "../utils/permissions";
+import { recordAudit } from "./audit";
+import { conversionTabQuerySchema, listConversions } from "./conversions";
+import { AdminApiError } from "./guard";
+import { repositories, type DataExportRow } from "./repositories";
+import {
+  listSupportTickets,
+  supportQuerySchema,
+  toSupportTicketFilter,
+} from "./support";
+import { listUsersPage, toUserFilter, userTabQuerySchema } from "./users";
+import { toXlsx } from "./xlsx";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Rows fetched per query while writing an export
+const EXPORT_BATCH = 1000;
+
+// Private bucket holding the files of background exports
+const EXPORT_BUCKET = "exports";
+
+// A background export still queued or running after this long died with
+// the server process that was building it
+const STALE_EXPORT_MS = 30 * 60 * 1000;
+
+// Exports listed in the export dialog
+const RECENT_EXPORTS = 20;
+
+// Expired exports deleted per purge run; the rest go in the next run
+const PURGE_BATCH = 200;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// One tab's rows as cells, with its query type and row type erased
+interface ExportSource {
+  permission: Permission;
+  // Start of the download's file name
+  filename: string;
+  // The tab's list parameters, validated (422 on bad ones)
+  parseQuery(raw: unknown): Record<string, unknown>;
+  // Whether more than `n` rows match
+  exceeds(query: Record<string, unknown>, n: number): Promise<boolean>;
+  // Cells of the given columns, a batch of rows at a time
+  rows(
+    query: Record<string, unknown>,
+    columns: string[]
+  ): AsyncGenerator<unknown[][]>;
+}
+
+const defineSource = <D extends ExportDataset, TQuery, TRow>(
+  dataset: D,
+  definition: {
+    permission: Permission;
+    filename: string;
+    query: z.ZodType<TQuery>;
+    exceeds(query: TQuery, n: number): Promise<boolean>;
+    batches(query: TQuery): AsyncGenerator<TRow[]>;
+    // A value for every column the dataset offers
+    columns: Record<ExportColumnKey<D>, (row: TRow) => unknown>;
+  }
+): ExportSource => ({
+  permission: definition.permission,
+  filename: definition.filename,
+  parseQuery(raw) {
+    const result = definition.query.safeParse(raw);
+    if (!result.success) {
+      throw new AdminApiError(
+        422,
+        "validation_failed",
+        "Invalid export filters",
+        result.error.issues.map((issue) => ({
+          path: ["query", ...issue.path].join("."),
+          message: issue.message,
+        }))
+      );
+    }
+    return result.data as Record<string, unknown>;
+  },
+  exceeds: (query, n) => definition.exceeds(query as TQuery, n),
+  async *rows(query, columns) {
+    const cells = columns.map(
+      (key) => definition.columns[key as ExportColumnKey<D>]
+    );
+    for await (const batch of definition.batches(query as TQuery)) {
+      yield batch.map((row) => cells.map((cell) => cell(row)));
+    }
+  },
+});
+
+const SOURCES: Record<ExportDataset, ExportSource> = {
+  users: defineSource("users", {
+    permission: "users:view",
+    filename: "users",
+    query: userTabQuerySchema,
+    exceeds: async (query, n) =>
+      (await repositories().users.count({
+        ...toUserFilter(query),
+        trashed: query.trash === "1",
+      })) > n,
+    async *batches(query) {
+      const plans = await repositories().plans.list();
+      const planNames = new Map(plans.map((plan) => [plan.id, plan.name]));
+
+      let cursor: string | undefined;
+      do {
+        const page = await listUsersPage({ ...query, cursor }, EXPORT_BATCH);
+        yield page.users.map((user) => ({
+          ...user,
+          plan: planNames.get(user.subscription_plan) ?? user.subscription_plan,
+        }));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+    },
+    columns: {
+      id: (u) => u.id,
+      name: (u) => u.name,
+      email: (u) => u.email,
+      plan: (u) => u.plan,
+      subscription_plan: (u) => u.subscription_plan,
+      subscription_id: (u) => u.subscription_id,
+      expiry_date: (u) => u.expiry_date,
+      conversions: (u) => u.conversions,
+      created_at: (u) => u.created_at,
+      updated_at: (u) => u.updated_at,
+      deleted_at: (u) => u.deleted_at,
+    },
+  }),
+
+  conversions: defineSource("conversions", {
+    permission: "conversions:view",
+    filename: "conversions",
+    query: conversionTabQuerySchema,
+    exceeds: async ({ trash, ...filters }, n) =>
+      (
+        await repositories().conversions.list(
+          { ...filters, trashed: trash === "1" },
+          n,
+          1
+        )
+      ).length > 0,
+    async *batches({ trash, ...filters }) {
+      for (let offset = 0; ; offset += EXPORT_BATCH) {
+        const batch = await listConversions(
+          filters,
+          offset,
+          EXPORT_BATCH,
+          trash === "1"
+        );
+        if (batch.length > 0) yield batch;
+        if (batch.length < EXPORT_BATCH) return;
+      }
+    },
+    columns: {
+      id: (c) => c.id,
+      created_at: (c) => c.created_at,
+      user_name: (c) => c.user_name,
+      user_email: (c) => c.user_email,
+      user_id: (c) => c.user_id,
+      pdf_filename: (c) => c.pdf_filename,
+      pdf_size: (c) => c.pdf_size,
+      voice: (c) => c.voice,
+      status: (c) => c.status,
+      text_length: (c) => c.text_length,
+      audio_duration: (c) => c.audio_duration,
+      audio_size: (c) => c.audio_size,
+      completed_at: (c) => c.completed_at,
+      deleted_at: (c) => c.deleted_at,
+    },
+  }),
+
+  tickets: defineSource("tickets", {
+    permission: "support:view",
+    filename: "support-tickets",
+    query: supportQuerySchema,
+    exceeds: async (query, n) =>
+      (
+        await repositories().supportTickets.page(
+          await toSupportTicketFilter(query),
+          n,
+          1
+        )
+      ).length > 0,
+    async *batches(query) {
+      for (let offset = 0; ; offset += EXPORT_BATCH) {
+        const batch = await listSupportTickets(query, offset, EXPORT_BATCH);
+        if (batch.length > 0) yield batch;
+        if (batch.length < EXPORT_BATCH) return;
+      }
+    },
+    columns: {
+      id: (t) => t.id,
+      created_at: (t) => t.created_at,
+      subject: (t) => t.subject,
+      status: (t) => t.status,
+      user_name: (t) => t.user_name,
+      user_email: (t) => t.user_email,
+      user_id: (t) => t.user_id,
+      messages: (t) => t.messages,
+      unread: (t) => t.unread,
+      updated_at: (t) => t.updated_at,
+      closed_at: (t) => t.closed_at,
+    },
+  }),
+};
+
+const headerOf = (record: DataExportRow) => {
+  const columns: readonly ExportColumn[] = EXPORT_COLUMNS[record.dataset];
+  return record.columns.map(
+    (key) => columns.find((column) => column.key === key)?.label ?? key
+  );
+};
+
+// The export's rows of cells, a batch at a time, cut off at MAX_EXPORT_ROWS
+// in case more rows have appeared since it was requested
+const cellRows = async function* (record: DataExportRow) {
+  const source = SOURCES[record.dataset];
+  let remaining = MAX_EXPORT_ROWS;
+
+  for await (const batch of source.rows(
+    source.parseQuery(record.query),
+    record.columns
+  )) {
+    yield batch.slice(0, remaining);
+    remaining -= batch.length;
+    if (remaining <= 0) return;
+  }
+};
+
+// The whole file in memory: for XLSX, and for background exports
+const buildFile = async (record: DataExportRow) => {
+  const rows: unknown[][] = [];
+  for await (const batch of cellRows(record)) rows.push(...batch);
+
+  const body =
+    record.format === "xlsx"
+      ? toXlsx(headerOf(record), rows)
+      : Buffer.from(
+          [headerOf(record), ...rows].map(toCsvLine).join("\r\n"),
+          "utf8"
+        );
+  return { body, rows: rows.length };
+};
+
+// A CSV written while its rows are read, so a direct export starts
+// downloading at once. `onDone` gets the row count once every row is out.
+const streamCsv = (
+  record: DataExportRow,
+  onDone: (rows: number) => Promise<void>
+) => {
+  const encoder = new TextEncoder();
+  const batches = cellRows(record);
+  let count = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(toCsvLine(headerOf(record))));
+    },
+    async pull(controller) {
+      try {
+        const next = await batches.next();
+        if (next.done) {
+          await onDone(count);
+          controller.close();
+          return;
+        }
+        const rows = next.value as unknown[][];
+        count += rows.length;
+        controller.enqueue(
+          encoder.encode(rows.map((row) => `\r\n${toCsvLine(row)}`).join(""))
+        );
+      } catch (error) {
+        console.error("Export stream failed:", record.id, error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await batches.return(undefined);
+    },
+  });
+};
+
+const filenameOf = (record: DataExportRow) =>
+  `${SOURCES[record.dataset].filename}-${record.created_at.split("T")[0]}.${
+    record.format
+  }`;
+
+// Record an export of the tab's current filters. Up to DIRECT_EXPORT_ROWS
+// rows it is written when downloaded; above that it is a background job
+// (start it with runExportJob).
+export const createExport = async (
+  admin: AdminUser,
+  request: ExportRequest,
+  now = Date.now()
+): Promise<DataExportRow> => {
+  const source = SOURCES[request.dataset];
+  if (!hasPermission(admin, source.permission)) {
+    throw new AdminApiError(403, "forbidden", "You cannot export this data");
+  }
+
+  const query = source.parseQuery(request.query);
+  if (await source.exceeds(query, MAX_EXPORT_ROWS)) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      `More than ${MAX_EXPORT_ROWS.toLocaleString("en-US")} rows match; narrow the filters and try again`
+    );
+  }
+  const background = await source.exceeds(query, DIRECT_EXPORT_ROWS);
+
+  const record = await repositories().dataExports.insert({
+    admin_id: admin.id,
+    dataset: request.dataset,
+    format: request.format,
+    columns: request.columns,
+    query,
+    background,
+    status: "queued",
+    expires_at: new Date(now + EXPORT_RETENTION_DAYS * DAY).toISOString(),
+  });
+
+  await recordAudit(admin, {
+    action: "export.create",
+    entity: "export",
+    entityId: record.id,
+    after: {
+      dataset: record.dataset,
+      format: record.format,
+      columns: record.columns,
+      query: record.query,
+      background,
+    },
+  });
+  return record;
+};
+
+// Build a background export and store the file. Runs after the response
+// that created it; a failure is recorded on the export, not thrown.
+export const runExportJob = async (id: string): Promise<void> => {
+  const record = await repositories().dataExports.findById(id);
+  if (!record || !record.background || record.status !== "queued") return;
+
+  await repositories().dataExports.update(id, { status: "running" });
+  try {
+    const { body, rows } = await buildFile(record);
+    const path = `${record.admin_id}/${record.id}.${record.format}`;
+    await repositories().files.upload(
+      EXPORT_BUCKET,
+      path,
+      body,
+      CONTENT_TYPES[record.format]
+    );
+    await repositories().dataExports.update(id, {
+      status: "done",
+      row_count: rows,
+      file_path: path,
+      finished_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Export failed:", id, error);
+    await repositories().dataExports.update(id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Export failed",
+      finished_at: new Date().toISOString(),
+    });
+  }
+};
+
+// The admin's exports that can still be downloaded, newest first
+export const listExports = async (
+  admin: AdminUser,
+  now = Date.now()
+): Promise<DataExportRow[]> => {
+  const records = await repositories().dataExports.listByAdmin(
+    admin.id,
+    new Date(now).toISOString(),
+    RECENT_EXPORTS
+  );
+  const staleBefore = new Date(now - STALE_EXPORT_MS).toISOString();
+
+  return Promise.all(
+    records.map(async (record) => {
+      const stale =
+        record.background &&
+        (record.status === "queued" || record.status === "running") &&
+        record.created_at < staleBefore;
+      if (!stale) return record;
+
+      return (
+        (await repositories().dataExports.update(record.id, {
+          status: "failed",
+          error: "The export was interrupted; please run it again",
+          finished_at: new Date(now).toISOString(),
+        })) ?? record
+      );
+    })
+  );
+};
+
+export interface ExportDownload {
+  filename: string;
+  contentType: string;
+  body: Uint8Array<ArrayBuffer> | ReadableStream<Uint8Array>;
+}
+
+// The file of one of the admin's exports. A direct export is written from
+// the current data each time it is downloaded; a background one is the file
+// the job stored.
+export const downloadExport = async (
+  admin: AdminUser,
+  id: string,
+  now = Date.now()
+): Promise<ExportDownload> => {
+  const record = await repositories().dataExports.findById(id);
+  if (
+    !record ||
+    record.admin_id !== admin.id ||
+    record.expires_at <= new Date(now).toISOString()
+  ) {
+    throw new AdminApiError(404, "not_found", "Export not found or expired");
+  }
+  if (!hasPermission(admin, SOURCES[record.dataset].permission)) {
+    throw new AdminApiError(403, "forbidden", "You cannot export this data");
+  }
+
+  const download = {
+    filename: filenameOf(record),
+    contentType: CONTENT_TYPES[record.format],
+  };
+
+  if (record.background) {
+    if (record.status !== "done" || !record.file_path) {
+      throw new AdminApiError(409, "conflict", "The export is not ready yet");
+    }
+    const body = await repositories().files.download(
+      EXPORT_BUCKET,
+      record.file_path
+    );
+    if (!body) {
+      throw new AdminApiError(404, "not_found", "Export file not found");
+    }
+    return { ...download, body: new Uint8Array(body) };
+  }
+
+  const markDone = async (rows: number) => {
+    await repositories().dataExports.update(id, {
+      status: "done",
+      row_count: rows,
+      finished_at: new Date().toISOString(),
+    });
+  };
+
+  if (record.format === "csv") {
+    return { ...download, body: streamCsv(record, markDone) };
+  }
+  const { body, rows } = await buildFile(record);
+  await markDone(rows);
+  return { ...download, body: new Uint8Array(body) };
+};
+
+export interface ExportPurgeResult {
+  exports: number;
+  failed: number;
+}
+
+// Scheduled with the Trash purge: delete expired exports and their files
+export const purgeExpiredExports = async (
+  now = Date.now()
+): Promise<ExportPurgeResult> => {
+  const result: ExportPurgeResult = { exports: 0, failed: 0 };
+  const expired = await repositories().dataExports.listExpired(
+    new Date(now).toISOString(),
+    PURGE_BATCH
+  );
+
+  for (const record of expired) {
+    try {
+      if (record.file_path) {
+        await repositories().files.remove(EXPORT_BUCKET, record.file_path);
+      }
+      await repositories().dataExports.remove(record.id);
+      result.exports++;
+    } catch (error) {
+      console.error("Failed to purge export:", record.id, error);
+      result.failed++;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,190 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import type { AdminUser } from "../utils/adminAuth";
+import { hasPermission, type Permission } from "../utils/permissions";
+import { getAdminSession } from "./session";
+import { isTwoFactorRequired } from "./twoFactor";
+
+export type AdminErrorCode =
+  | "unauthorized"
+  | "forbidden"
+  | "mfa_enrollment_required"
+  | "not_found"
+  | "conflict"
+  | "validation_failed"
+  | "internal_error";
+
+export interface AdminErrorBody {
+  error: {
+    code: AdminErrorCode;
+    message: string;
+    issues?: { path: string; message: string }[];
+  };
+}
+
+// Thrown from inside a handler to short-circuit with a structured response.
+export class AdminApiError extends Error {
+  constructor(
+    public status: number,
+    public code: AdminErrorCode,
+    message: string,
+    public issues?: { path: string; message: string }[]
+  ) {
+    super(message);
+    this.name = "AdminApiError";
+  }
+}
+
+export const adminErrorResponse = (
+  status: number,
+  code: AdminErrorCode,
+  message: string,
+  issues?: { path: string; message: string }[]
+) =>
+  NextResponse.json<AdminErrorBody>(
+    { error: { code, message, ...(issues ? { issues } : {}) } },
+    { status }
+  );
+
+// Send a payload through its response schema. Columns the schema does not
+// list are dropped, and a row that does not match fails here (500) instead of
+// reaching the panel malformed.
+export const jsonResponse = <T>(schema: z.ZodType<T>, data: unknown) =>
+  NextResponse.json<T>(schema.parse(data));
+
+const toIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+
+interface AdminRouteOptions<TBody, TQuery> {
+  // The admin needs at least one of these (403 otherwise)
+  permission?: Permission | Permission[];
+  body?: z.ZodType<TBody>;
+  query?: z.ZodType<TQuery>;
+  // Reachable by an admin who still has to enroll in 2FA
+  allowPendingEnrollment?: boolean;
+}
+
+export interface AdminRouteContext<TBody, TQuery, TParams> {
+  request: NextRequest;
+  admin: AdminUser;
+  body: TBody;
+  query: TQuery;
+  params: TParams;
+}
+
+type RouteParams = Record<string, string | string[]>;
+
+// Every /api/admin/* handler (except login/logout/session) is wrapped in this.
+// It rejects requests without a valid admin session (401), from admins who
+// still owe 2FA enrollment (403) or without the required permission (403),
+// validates the JSON body and query string against the given zod schemas
+// (422), and turns a thrown AdminApiError into the matching structured
+// response.
+export const adminRoute =
+  <TBody = undefined, TQuery = undefined, TParams extends RouteParams = RouteParams>(
+    options: AdminRouteOptions<TBody, TQuery>,
+    handler: (
+      context: AdminRouteContext<TBody, TQuery, TParams>
+    ) => Promise<NextResponse>
+  ) =>
+  async (
+    request: NextRequest,
+    routeContext: { params: Promise<TParams> }
+  ): Promise<NextResponse> => {
+    try {
+      const current = await getAdminSession(request);
+      if (!current) {
+        return adminErrorResponse(401, "unauthorized", "Not authenticated");
+      }
+
+      const { admin } = current;
+      if (
+        isTwoFactorRequired() &&
+        !admin.totp_enabled &&
+        !options.allowPendingEnrollment
+      ) {
+        return adminErrorResponse(
+          403,
+          "mfa_enrollment_required",
+          "Set up two-factor authentication to continue"
+        );
+      }
+
+      if (options.permission) {
+        const required = ([] as Permission[]).concat(options.permission);
+        if (!required.some((permission) => hasPermission(admin, permission))) {
+          return adminErrorResponse(
+            403,
+            "forbidden",
+            "You do not have permission to do this"
+          );
+        }
+      }
+
+      let body = undefined as TBody;
+      if (options.body) {
+        const parsed = options.body.safeParse(
+          await request.json().catch(() => undefined)
+        );
+        if (!parsed.success) {
+          return adminErrorResponse(
+            422,
+            "validation_failed",
+            "Invalid request body",
+            toIssues(parsed.error)
+          );
+        }
+        body = parsed.data;
+      }
+
+      let query = undefined as TQuery;
+      if (options.query) {
+        const parsed = options.query.safeParse(
+          Object.fromEntries(request.nextUrl.searchParams)
+        );
+        if (!parsed.success) {
+          return adminErrorResponse(
+            422,
+            "validation_failed",
+            "Invalid query parameters",
+            toIssues(parsed.error)
+          );
+        }
+        query = parsed.data;
+      }
+
+      const params = (await routeContext?.params) ?? ({} as TParams);
+
+      return await handler({ request, admin, body, query, params });
+    } catch (error) {
+      if (error instanceof AdminApiError) {
+        return adminErrorResponse(
+          error.status,
+          error.code,
+          error.message,
+          error.issues
+        );
+      }
+      console.error("Admin API error:", error);
+      return adminErrorResponse(500, "internal_error", "Internal server error");
+    }
+  };
+
+// For routes called by a scheduler, not an admin: authorized with
+// "Authorization: Bearer $ADMIN_CRON_SECRET" instead of a session. Without
+// the variable set every call is refused.
+export const isSchedulerRequest = (request: NextRequest) => {
+  const secret = process.env.ADMIN_CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get("authorization") ?? "");
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
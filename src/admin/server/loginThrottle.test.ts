@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkLockout,
+  clearFailedAttempts,
+  createMemoryAttemptStore,
+  EMAIL_POLICY,
+  IP_POLICY,
+  lockedUntil,
+  lockoutMessage,
+  loginKeys,
+  recordFailedAttempt,
+  secondFactorKeys,
+} from "./loginThrottle";
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+const SECOND = 1000;
+
+// Fail `count` times, one second apart from `start`; returns the last lockout
+const failTimes = async (
+  keys: ReturnType<typeof loginKeys>,
+  count: number,
+  store: ReturnType<typeof createMemoryAttemptStore>,
+  start = NOW
+) => {
+  let until = 0;
+  for (let i = 0; i < count; i++) {
+    until = await recordFailedAttempt(keys, start + i * SECOND, store);
+  }
+  return until;
+};
+
+describe("lockedUntil", () => {
+  it("is not locked below the threshold", () => {
+    const record = { failures: 4, lastFailedAt: NOW };
+    expect(lockedUntil(record, EMAIL_POLICY, NOW)).toBe(0);
+  });
+
+  it("doubles the lockout with each failure past the threshold", () => {
+    const lockout = (failures: number) =>
+      lockedUntil({ failures, lastFailedAt: NOW }, EMAIL_POLICY, NOW) - NOW;
+    expect(lockout(5)).toBe(30 * SECOND);
+    expect(lockout(6)).toBe(60 * SECOND);
+    expect(lockout(7)).toBe(120 * SECOND);
+  });
+
+  it("caps the lockout at the maximum", () => {
+    const record = { failures: 50, lastFailedAt: NOW };
+    expect(lockedUntil(record, EMAIL_POLICY, NOW)).toBe(
+      NOW + EMAIL_POLICY.maxLockout
+    );
+  });
+
+  it("ends once the lockout has passed", () => {
+    const record = { failures: 5, lastFailedAt: NOW };
+    expect(lockedUntil(record, EMAIL_POLICY, NOW + 30 * SECOND)).toBe(0);
+  });
+});
+
+describe("login throttle on the memory store", () => {
+  it("locks an email after five failures", async () => {
+    const store = createMemoryAttemptStore();
+    const keys = loginKeys("Admin@Example.com ", "203.0.113.7");
+
+    expect(await failTimes(keys, 4, store)).toBe(0);
+    const until = await recordFailedAttempt(keys, NOW + 10 * SECOND, store);
+    expect(until).toBe(NOW + 10 * SECOND + 30 * SECOND);
+
+    // The same email in another case, from another address
+    const sameEmail = loginKeys("admin@example.com", "198.51.100.1");
+    expect(await checkLockout(sameEmail, NOW + 20 * SECOND, store)).toBe(
+      until
+    );
+    expect(await checkLockout(sameEmail, until, store)).toBe(0);
+  });
+
+  it("locks an address spraying many emails", async () => {
+    const store = createMemoryAttemptStore();
+    for (let i = 0; i < IP_POLICY.threshold; i++) {
+      await recordFailedAttempt(
+        loginKeys(`user${i}@example.com`, "203.0.113.7"),
+        NOW + i * SECOND,
+        store
+      );
+    }
+
+    const fresh = loginKeys("someone-else@example.com", "203.0.113.7");
+    expect(await checkLockout(fresh, NOW + 20 * SECOND, store)).toBeGreaterThan(
+      NOW + 20 * SECOND
+    );
+    const elsewhere = loginKeys("someone-else@example.com", "198.51.100.1");
+    expect(await checkLockout(elsewhere, NOW + 20 * SECOND, store)).toBe(0);
+  });
+
+  it("starts over after a quiet period", async () => {
+    const store = createMemoryAttemptStore();
+    const keys = loginKeys("admin@example.com", "203.0.113.7");
+    await failTimes(keys, 4, store);
+
+    const later = NOW + EMAIL_POLICY.resetAfter + 60 * SECOND;
+    expect(await recordFailedAttempt(keys, later, store)).toBe(0);
+    expect((await store.get(keys[0].key)).failures).toBe(1);
+  });
+
+  it("clears the account counter on success but not the address", async () => {
+    const store = createMemoryAttemptStore();
+    const keys = loginKeys("admin@example.com", "203.0.113.7");
+    await failTimes(keys, 3, store);
+
+    await clearFailedAttempts(keys, store);
+    expect(await store.get(keys[0].key)).toBeNull();
+    expect((await store.get(keys[1].key)).failures).toBe(3);
+  });
+
+  it("counts the 2FA step per admin", async () => {
+    const store = createMemoryAttemptStore();
+    const keys = secondFactorKeys("admin-1", "203.0.113.7");
+    expect(await failTimes(keys, 5, store)).toBeGreaterThan(0);
+    expect(
+      await checkLockout(
+        secondFactorKeys("admin-2", "198.51.100.1"),
+        NOW + 5 * SECOND,
+        store
+      )
+    ).toBe(0);
+  });
+});
+
+describe("lockoutMessage", () => {
+  it("rounds the remaining time up to minutes", () => {
+    expect(lockoutMessage(NOW + 30 * SECOND, NOW)).toBe(
+      "Too many failed attempts. Try again in 1 minute."
+    );
+    expect(lockoutMessage(NOW + 61 * SECOND, NOW)).toBe(
+      "Too many failed attempts. Try again in 2 minutes."
+    );
+  });
+});
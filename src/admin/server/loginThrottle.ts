@@ -0,0 +1,258 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "./audit";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+
+// Failed-login counters with exponential lockout. Every key (an email, an
+// IP, a pending 2FA challenge) gets its own counter; an attempt is refused
+// while any of its keys is locked.
+
+export interface AttemptRecord {
+  failures: number;
+  lastFailedAt: number; // epoch ms
+}
+
+// Where counters live. Implementations must make recordFailure atomic so
+// parallel guesses cannot slip past the limit.
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  // Count one more failure, starting over when the previous one is older
+  // than resetAfter ms
+  recordFailure(
+    key: string,
+    now: number,
+    resetAfter: number
+  ): Promise<AttemptRecord>;
+  reset(key: string): Promise<void>;
+}
+
+export interface ThrottlePolicy {
+  // Failures allowed before the first lockout
+  threshold: number;
+  // First lockout; doubles with every further failure up to maxLockout
+  baseLockout: number;
+  maxLockout: number;
+  // Quiet period after which the counter starts from zero
+  resetAfter: number;
+}
+
+export const EMAIL_POLICY: ThrottlePolicy = {
+  threshold: 5,
+  baseLockout: 30 * 1000, // 30 seconds
+  maxLockout: 60 * 60 * 1000, // 1 hour
+  resetAfter: 24 * 60 * 60 * 1000, // 24 hours
+};
+
+// Looser per IP so admins behind one office NAT do not lock each other out
+export const IP_POLICY: ThrottlePolicy = {
+  threshold: 20,
+  baseLockout: 60 * 1000, // 1 minute
+  maxLockout: 60 * 60 * 1000, // 1 hour
+  resetAfter: 24 * 60 * 60 * 1000, // 24 hours
+};
+
+export interface ThrottleKey {
+  key: string;
+  policy: ThrottlePolicy;
+}
+
+export const loginKeys = (email: string, ip: string): ThrottleKey[] => [
+  { key: `email:${email.trim().toLowerCase()}`, policy: EMAIL_POLICY },
+  { key: `ip:${ip}`, policy: IP_POLICY },
+];
+
+// The 2FA step is counted per admin so a stolen password cannot be paired
+// with unlimited code guesses
+export const secondFactorKeys = (adminId: string, ip: string): ThrottleKey[] => [
+  { key: `mfa:${adminId}`, policy: EMAIL_POLICY },
+  { key: `ip:${ip}`, policy: IP_POLICY },
+];
+
+// Epoch ms until which the record is locked, or 0
+export const lockedUntil = (
+  record: AttemptRecord | null,
+  policy: ThrottlePolicy,
+  now: number
+): number => {
+  if (!record || now - record.lastFailedAt > policy.resetAfter) return 0;
+  if (record.failures < policy.threshold) return 0;
+
+  const lockout = Math.min(
+    policy.maxLockout,
+    policy.baseLockout * 2 ** (record.failures - policy.threshold)
+  );
+  const until = record.lastFailedAt + lockout;
+  return until > now ? until : 0;
+};
+
+export const createMemoryAttemptStore = (): AttemptStore => {
+  const records = new Map<string, AttemptRecord>();
+
+  return {
+    async get(key) {
+      return records.get(key) ?? null;
+    },
+
+    async recordFailure(key, now, resetAfter) {
+      const previous = records.get(key);
+      const record =
+        previous && now - previous.lastFailedAt <= resetAfter
+          ? { failures: previous.failures + 1, lastFailedAt: now }
+          : { failures: 1, lastFailedAt: now };
+      records.set(key, record);
+      return record;
+    },
+
+    async reset(key) {
+      records.delete(key);
+    },
+  };
+};
+
+// Backed by admin_login_attempts; the increment is a single SQL statement
+// (see the migration) so it is safe across server instances.
+export const createSupabaseAttemptStore = (): AttemptStore => ({
+  async get(key) {
+    const { data, error } = await getSupabaseAdmin()
+      .from("admin_login_attempts")
+      .select("failures, last_failed_at")
+      .eq("key", key)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data
+      ? {
+          failures: data.failures,
+          lastFailedAt: new Date(data.last_failed_at).getTime(),
+        }
+      : null;
+  },
+
+  async recordFailure(key, now, resetAfter) {
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("admin_login_attempt_fail", {
+        p_key: key,
+        p_now: new Date(now).toISOString(),
+        p_reset_after_seconds: Math.round(resetAfter / 1000),
+      })
+      .single<{ failures: number; last_failed_at: string }>();
+
+    if (error) throw error;
+    return {
+      failures: data.failures,
+      lastFailedAt: new Date(data.last_failed_at).getTime(),
+    };
+  },
+
+  async reset(key) {
+    const { error } = await getSupabaseAdmin()
+      .from("admin_login_attempts")
+      .delete()
+      .eq("key", key);
+
+    if (error) throw error;
+  },
+});
+
+// ADMIN_ATTEMPT_STORE=memory keeps counters in this process only (tests,
+// local development without the migration). Implied by the in-memory data
+// source.
+let store: AttemptStore | null = null;
+
+export const attemptStore = (): AttemptStore => {
+  if (!store) {
+    store =
+      process.env.ADMIN_ATTEMPT_STORE === "memory" ||
+      process.env.ADMIN_DATA_SOURCE === "memory"
+        ? createMemoryAttemptStore()
+        : createSupabaseAttemptStore();
+  }
+  return store;
+};
+
+// Epoch ms until which any of the keys is locked, or 0
+export const checkLockout = async (
+  keys: ThrottleKey[],
+  now = Date.now(),
+  attempts = attemptStore()
+): Promise<number> => {
+  const records = await Promise.all(keys.map(({ key }) => attempts.get(key)));
+  return Math.max(
+    0,
+    ...records.map((record, i) => lockedUntil(record, keys[i].policy, now))
+  );
+};
+
+// Count a failure against every key; returns the resulting lockout (or 0)
+export const recordFailedAttempt = async (
+  keys: ThrottleKey[],
+  now = Date.now(),
+  attempts = attemptStore()
+): Promise<number> => {
+  const records = await Promise.all(
+    keys.map(({ key, policy }) =>
+      attempts.recordFailure(key, now, policy.resetAfter)
+    )
+  );
+  return Math.max(
+    0,
+    ...records.map((record, i) => lockedUntil(record, keys[i].policy, now))
+  );
+};
+
+// A successful sign-in clears the account's counter. The IP counter is left
+// alone so one valid login does not reset a spray against other accounts.
+export const clearFailedAttempts = async (
+  keys: ThrottleKey[],
+  attempts = attemptStore()
+): Promise<void> => {
+  await Promise.all(
+    keys
+      .filter(({ key }) => !key.startsWith("ip:"))
+      .map(({ key }) => attempts.reset(key))
+  );
+};
+
+export const lockoutMessage = (until: number, now = Date.now()): string => {
+  const minutes = Math.ceil((until - now) / 60000);
+  return `Too many failed attempts. Try again in ${minutes} minute${
+    minutes === 1 ? "" : "s"
+  }.`;
+};
+
+// 429 with the lockout end so the login form can count down
+export const lockedResponse = (until: number, now = Date.now()) =>
+  NextResponse.json(
+    {
+      error: {
+        code: "locked",
+        message: lockoutMessage(until, now),
+        lockedUntil: new Date(until).toISOString(),
+      },
+    },
+    {
+      status: 429,
+      headers: { "Retry-After": String(Math.ceil((until - now) / 1000)) },
+    }
+  );
+
+// Failed attempts go to the audit log with no acting admin; the target is
+// the email (or admin id for the 2FA step) that was tried.
+export const auditFailedLogin = async (
+  target: string,
+  ip: string,
+  step: "password" | "totp",
+  lockedUntilAt: number
+): Promise<void> => {
+  await recordAudit(null, {
+    action: lockedUntilAt ? "admin.login_locked" : "admin.login_failed",
+    entity: "admin",
+    entityId: target,
+    after: {
+      ip,
+      step,
+      ...(lockedUntilAt
+        ? { locked_until: new Date(lockedUntilAt).toISOString() }
+        : {}),
+    },
+  });
+};
@@ -0,0 +1,119 @@
+import net from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSmtpTransport } from "./mail";
+
+// A plain SMTP server without STARTTLS, answering RCPT TO with `rcptCode`.
+// Records the commands it was sent.
+const startServer = async (rcptCode: number) => {
+  const commands: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 test ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 Queued\r\n");
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === "EHLO") socket.write("250-test\r\n250 AUTH PLAIN\r\n");
+        else if (verb === "RCPT") socket.write(`${rcptCode} OK\r\n`);
+        else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 Go ahead\r\n");
+        } else if (verb === "QUIT") socket.end("221 Bye\r\n");
+        else socket.write("250 OK\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return { server, port, commands };
+};
+
+let smtp: Awaited<ReturnType<typeof startServer>> | null = null;
+
+const message = {
+  to: "Bilal <bilal@example.com>",
+  subject: "Hello",
+  text: "Hi",
+};
+
+beforeEach(() => {
+  vi.stubEnv("MAIL_FROM", "Admin <hello@example.com>");
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => smtp?.server.close(resolve));
+  smtp = null;
+});
+
+describe("createSmtpTransport", () => {
+  it("sends over a plain connection without credentials", async () => {
+    smtp = await startServer(250);
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: smtp.port,
+      secure: false,
+    });
+
+    await transport.send(message);
+    expect(smtp.commands.slice(1)).toEqual([
+      "MAIL FROM:<hello@example.com>",
+      "RCPT TO:<bilal@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+  });
+
+  it("accepts a recipient the server will forward (251)", async () => {
+    smtp = await startServer(251);
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: smtp.port,
+      secure: false,
+    });
+
+    await expect(transport.send(message)).resolves.toBeUndefined();
+  });
+
+  it("refuses to send a password without TLS", async () => {
+    smtp = await startServer(250);
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: smtp.port,
+      secure: false,
+      user: "mailer",
+      pass: "secret",
+    });
+
+    await expect(transport.send(message)).rejects.toThrow(/does not offer TLS/);
+    expect(smtp.commands.some((line) => line.startsWith("AUTH"))).toBe(false);
+  });
+
+  it("refuses a recipient that would inject a command", async () => {
+    smtp = await startServer(250);
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: smtp.port,
+      secure: false,
+    });
+
+    await expect(
+      transport.send({
+        ...message,
+        to: "bilal@example.com>\r\nRCPT TO:<other@example.com",
+      })
+    ).rejects.toThrow(/control characters/);
+    expect(smtp.commands.some((line) => line.startsWith("RCPT"))).toBe(false);
+  });
+});
@@ -0,0 +1,261 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import tls from "tls";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  // Plain text
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Replies slower than this abort the SMTP session
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+const getSender = (): string => {
+  const from = process.env.MAIL_FROM;
+  if (!from) throw new Error("MAIL_FROM must be set to send email");
+  return from;
+};
+
+// The recipient as given, once it is known to hold no control characters:
+// a CR or LF in it would start a new header, or a new SMTP command
+const recipient = (message: MailMessage) => {
+  if (/[\x00-\x1f\x7f]/.test(message.to)) {
+    throw new Error("Recipient address contains control characters");
+  }
+  return message.to;
+};
+
+// Header values outside ASCII as RFC 2047 encoded words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+// The whole message as RFC 5322 text with CRLF line endings. The body is
+// base64 so any text survives any server.
+export const formatMessage = (
+  message: MailMessage,
+  from: string,
+  now = new Date()
+) => {
+  const domain = from.split("@")[1]?.replace(/>.*$/, "") || "localhost";
+  const body =
+    Buffer.from(message.text.replace(/\r?\n/g, "\r\n"))
+      .toString("base64")
+      .match(/.{1,76}/g) ?? [];
+
+  return [
+    `From: ${from}`,
+    `To: ${recipient(message)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...body,
+  ].join("\r\n");
+};
+
+// Writes each message to an .eml file instead of sending it, for local
+// development and tests
+export const createFileTransport = (dir: string): MailTransport => ({
+  async send(message) {
+    await fs.mkdir(dir, { recursive: true });
+    const name = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.eml`;
+    await fs.writeFile(
+      path.join(dir, name),
+      formatMessage(message, getSender())
+    );
+  },
+});
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // TLS from the first byte (usually port 465). Otherwise the connection
+  // is upgraded with STARTTLS when the server offers it (usually port 587),
+  // and stays plain only for a local sink or trusted relay that does not.
+  secure: boolean;
+  // Only sent over TLS
+  user?: string;
+  pass?: string;
+}
+
+// One reply at a time from an SMTP server: the lines up to the one without
+// a "-" after the code
+const createReplyReader = (socket: net.Socket) => {
+  let buffer = "";
+  let waiting: {
+    resolve: (reply: { code: number; text: string }) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  let failure: Error | null = null;
+
+  const deliver = () => {
+    if (!waiting) return;
+    if (failure) {
+      waiting.reject(failure);
+      waiting = null;
+      return;
+    }
+    const lines = buffer.split("\r\n");
+    // The last element is an unfinished line (or empty)
+    const end = lines
+      .slice(0, -1)
+      .findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (end === -1) return;
+
+    buffer = lines.slice(end + 1).join("\r\n");
+    const reply = {
+      code: Number(lines[end].slice(0, 3)),
+      text: lines.slice(0, end + 1).join(" "),
+    };
+    const { resolve } = waiting;
+    waiting = null;
+    resolve(reply);
+  };
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    deliver();
+  });
+  const fail = (error: Error) => {
+    failure = failure ?? error;
+    deliver();
+  };
+  socket.on("error", fail);
+  socket.on("close", () => fail(new Error("SMTP connection closed")));
+
+  return () =>
+    new Promise<{ code: number; text: string }>((resolve, reject) => {
+      waiting = { resolve, reject };
+      deliver();
+    });
+};
+
+// Switch a connected socket to TLS after the server accepted STARTTLS
+const startTls = (socket: net.Socket, host: string) =>
+  new Promise<tls.TLSSocket>((resolve, reject) => {
+    // The old reader must not see the handshake
+    socket.removeAllListeners("data");
+    const secure = tls.connect({ socket, servername: host }, () => {
+      secure.off("error", reject);
+      resolve(secure);
+    });
+    secure.once("error", reject);
+  });
+
+// Dot-stuffing: a line starting with "." gets another one
+const toDataBlock = (text: string) =>
+  `${text.replace(/^\./gm, "..")}\r\n.`;
+
+const withTimeout = <T extends net.Socket>(socket: T) =>
+  socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+    socket.destroy(new Error("SMTP server timed out"))
+  );
+
+// A minimal SMTP client: EHLO, STARTTLS when offered, optional AUTH PLAIN,
+// one message per connection
+export const createSmtpTransport = (options: SmtpOptions): MailTransport => ({
+  async send(message) {
+    const from = getSender();
+    const to = recipient(message);
+    let socket: net.Socket = withTimeout(
+      options.secure
+        ? tls.connect({
+            host: options.host,
+            port: options.port,
+            servername: options.host,
+          })
+        : net.connect({ host: options.host, port: options.port })
+    );
+    let read = createReplyReader(socket);
+
+    const expect = async (command: string | null, ...codes: number[]) => {
+      if (command !== null) socket.write(`${command}\r\n`);
+      const reply = await read();
+      if (!codes.includes(reply.code)) {
+        throw new Error(`SMTP error: ${reply.text}`);
+      }
+      return reply;
+    };
+
+    const address = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value;
+
+    try {
+      await expect(null, 220);
+      const ehlo = await expect(`EHLO ${os.hostname()}`, 250);
+      if (!options.secure && /\bSTARTTLS\b/i.test(ehlo.text)) {
+        await expect("STARTTLS", 220);
+        socket = withTimeout(await startTls(socket, options.host));
+        read = createReplyReader(socket);
+        // The server forgets what was said before the upgrade
+        await expect(`EHLO ${os.hostname()}`, 250);
+      }
+      if (options.user) {
+        if (!(socket instanceof tls.TLSSocket)) {
+          throw new Error(
+            "SMTP server does not offer TLS; refusing to send the password"
+          );
+        }
+        const credentials = Buffer.from(
+          `\0${options.user}\0${options.pass ?? ""}`
+        ).toString("base64");
+        await expect(`AUTH PLAIN ${credentials}`, 235);
+      }
+      await expect(`MAIL FROM:<${address(from)}>`, 250);
+      // 251: not local, will forward
+      await expect(`RCPT TO:<${address(to)}>`, 250, 251);
+      await expect("DATA", 354);
+      await expect(toDataBlock(formatMessage(message, from)), 250);
+      await expect("QUIT", 221).catch(() => undefined);
+    } finally {
+      socket.destroy();
+    }
+  },
+});
+
+let current: MailTransport | null = null;
+
+// MAIL_TRANSPORT=smtp sends through MAIL_SMTP_HOST (a provider, or a local
+// sink such as Mailpit); MAIL_TRANSPORT=file writes .eml files to
+// MAIL_FILE_DIR. Anything else refuses to send rather than dropping mail.
+export const mailTransport = (): MailTransport => {
+  if (current) return current;
+
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      current = createSmtpTransport({
+        host: process.env.MAIL_SMTP_HOST || "localhost",
+        port: Number(process.env.MAIL_SMTP_PORT) || 25,
+        secure: process.env.MAIL_SMTP_SECURE === "true",
+        user: process.env.MAIL_SMTP_USER || undefined,
+        pass: process.env.MAIL_SMTP_PASS || undefined,
+      });
+      return current;
+    case "file":
+      current = createFileTransport(
+        process.env.MAIL_FILE_DIR || path.join(os.tmpdir(), "admin-mail")
+      );
+      return current;
+    default:
+      throw new Error("MAIL_TRANSPORT must be set to smtp or file");
+  }
+};
+
+// Swap the transport, e.g. for a test that collects messages in memory.
+// Pass null to go back to the environment default.
+export const setMailTransport = (next: MailTransport | null): void => {
+  current = next;
+};
@@ -0,0 +1,97 @@
+import type { AdminUser } from "../utils/adminAuth";
+import type { PlanSummary } from "../utils/apiSchemas";
+import type { NewPlan, PlanFields } from "../utils/plans";
+import { pick, recordAudit } from "./audit";
+import { AdminApiError } from "./guard";
+import { repositories } from "./repositories";
+
+const findPlan = async (id: string) => {
+  const plan = await repositories().plans.findById(id);
+  if (!plan) throw new AdminApiError(404, "not_found", "Plan not found");
+  return plan;
+};
+
+// The catalog with the number of users on each plan (Trash included)
+export const listPlans = async (): Promise<PlanSummary[]> => {
+  const plans = await repositories().plans.list();
+  const counts = await Promise.all(
+    plans.map((plan) => repositories().users.countOnPlan(plan.id))
+  );
+  return plans.map((plan, i) => ({ ...plan, users: counts[i] }));
+};
+
+// A plan id sent with a user edit or bulk change must be in the catalog.
+// `path` names the offending field in the 422.
+export const assertPlanExists = async (id: string, path: string) => {
+  if (!(await repositories().plans.findById(id))) {
+    throw new AdminApiError(422, "validation_failed", "Unknown plan", [
+      { path, message: "Choose a plan from the catalog" },
+    ]);
+  }
+};
+
+export const createPlan = async (admin: AdminUser, input: NewPlan) => {
+  if (await repositories().plans.findById(input.id)) {
+    throw new AdminApiError(409, "conflict", "Plan ID is already in use", [
+      { path: "id", message: "Another plan already has this ID" },
+    ]);
+  }
+
+  const plan = await repositories().plans.insert({
+    ...input,
+    monthly_conversions: input.monthly_conversions ?? null,
+  });
+
+  await recordAudit(admin, {
+    action: "plan.create",
+    entity: "plan",
+    entityId: plan.id,
+    after: plan,
+  });
+  return plan;
+};
+
+export const updatePlan = async (
+  admin: AdminUser,
+  id: string,
+  patch: Partial<PlanFields>
+) => {
+  const before = await findPlan(id);
+  const plan = await repositories().plans.update(id, {
+    ...patch,
+    updated_at: new Date().toISOString(),
+  });
+  if (!plan) throw new AdminApiError(404, "not_found", "Plan not found");
+
+  const keys = Object.keys(patch);
+  await recordAudit(admin, {
+    action: "plan.update",
+    entity: "plan",
+    entityId: id,
+    before: pick(before, keys),
+    after: pick(plan, keys),
+  });
+  return plan;
+};
+
+// Users keep the plan id, so a plan can only go once nobody is on it
+export const deletePlan = async (admin: AdminUser, id: string) => {
+  const before = await findPlan(id);
+  const users = await repositories().users.countOnPlan(id);
+  if (users > 0) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      `Move the ${users} user${users === 1 ? "" : "s"} on this plan to another plan first`
+    );
+  }
+
+  await repositories().plans.remove(id);
+
+  await recordAudit(admin, {
+    action: "plan.delete",
+    entity: "plan",
+    entityId: id,
+    before,
+  });
+};
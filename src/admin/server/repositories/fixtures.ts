@@ -0,0 +1,312 @@
+import type { User } from "../../../types/database";
+import type { SupportMessage, SupportTicket } from "../../../types/support";
+import type { AdminFixtures } from "./memory";
+import type {
+  AdminRow,
+  BillingEventRow,
+  ConversionRow,
+  EmailCampaignRow,
+  EmailSendRow,
+  PlanRow,
+  SavedViewRow,
+  UsageLedgerRow,
+} from "./types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Sign in to the demo panel with this account
+export const DEMO_ADMIN_EMAIL = "demo@example.com";
+export const DEMO_ADMIN_PASSWORD = "demo-admin-password";
+const DEMO_ADMIN_PASSWORD_HASH =
+  "$2b$10$VvgKPjctJghEKvkeVi29ae0FytvqpnXW4fp2.l7Z6JPET2ANTBVq.";
+
+// Stable UUIDs so links and tests can refer to fixture rows
+const fixtureId = (kind: number, n: number) =>
+  `00000000-0000-4000-8${kind}00-${String(n).padStart(12, "0")}`;
+
+const DEMO_USERS: [name: string, plan: string, expiresInDays: number][] = [
+  ["Ayesha Khan", "paid", 120],
+  ["Bilal Ahmed", "paid", 5],
+  ["Carla Mendes", "free", 30],
+  ["David Osei", "paid", -12],
+  ["Emma Larsen", "free", -3],
+  ["Farid Haddad", "paid", 2],
+  ["Grace Liu", "free", 200],
+  ["Hamza Qureshi", "paid", 60],
+];
+
+// The campaigns the migration seeds: name, offset, subject, body
+const DEMO_CAMPAIGNS: [string, number, string, string][] = [
+  [
+    "Expiry reminder",
+    -7,
+    "Your {{plan}} plan renews in {{days}} days",
+    "Hi {{name}},\n\nYour {{plan}} plan expires on {{expiry_date}}. Renew before then to keep converting PDFs to audio without interruption.\n\nThanks for listening with us!",
+  ],
+  [
+    "Last day reminder",
+    -1,
+    "Your {{plan}} plan expires tomorrow",
+    "Hi {{name}},\n\nJust a reminder that your {{plan}} plan expires on {{expiry_date}}. Renew today to keep your conversions and voices.\n\nThanks for listening with us!",
+  ],
+  [
+    "Win-back",
+    7,
+    "We miss you, {{name}}",
+    "Hi {{name}},\n\nYour {{plan}} plan expired {{days}} days ago. Come back any time: your account and conversions are still here.\n\nThanks for listening with us!",
+  ],
+];
+
+// Views shared with the team: tab, name, query
+const DEMO_VIEWS: [SavedViewRow["tab"], string, Record<string, string>][] = [
+  [
+    "users",
+    "Paid users expiring this week",
+    { plan: "paid", expiryStatus: "expiring_soon" },
+  ],
+  ["conversions", "Failed conversions", { status: "failed" }],
+  ["support", "Open tickets", { status: "open" }],
+];
+
+const VOICES = ["fable", "onyx", "nova", "shimmer", "alloy", "echo"];
+const STATUSES = ["completed", "completed", "completed", "processing", "failed"];
+
+// A small, believable data set relative to `now`, so expiry badges and
+// date filters look the same whenever the demo is started
+export const demoFixtures = (now = Date.now()): AdminFixtures => {
+  const at = (daysAgo: number) => new Date(now - daysAgo * DAY).toISOString();
+
+  const admins: AdminRow[] = [
+    {
+      id: fixtureId(1, 1),
+      name: "Demo Owner",
+      email: DEMO_ADMIN_EMAIL,
+      role: "owner",
+      password_hash: DEMO_ADMIN_PASSWORD_HASH,
+      totp_enabled: false,
+      totp_secret: null,
+      totp_pending_secret: null,
+      totp_recovery_codes: null,
+      totp_enrolled_at: null,
+      totp_last_step: null,
+      last_login_at: null,
+      disabled_at: null,
+      disabled_by: null,
+      created_at: at(365),
+    },
+  ];
+
+  const plans: PlanRow[] = [
+    {
+      id: "free",
+      name: "Free",
+      monthly_conversions: 5,
+      max_pdf_mb: 10,
+      allowed_voices: ["alloy", "nova"],
+      monthly_price: 0,
+      created_at: at(365),
+      updated_at: at(365),
+    },
+    {
+      id: "paid",
+      name: "Paid",
+      monthly_conversions: null,
+      max_pdf_mb: 50,
+      allowed_voices: [...VOICES].sort(),
+      monthly_price: 9.99,
+      created_at: at(365),
+      updated_at: at(40),
+    },
+  ];
+
+  const users: User[] = DEMO_USERS.map(([name, plan, expiresInDays], i) => ({
+    id: fixtureId(2, i + 1),
+    name,
+    email: `${name.split(" ")[0].toLowerCase()}@example.com`,
+    password: null,
+    subscription_plan: plan,
+    subscription_id: plan === "paid" ? `sub_demo_${i + 1}` : null,
+    expiry_date: at(-expiresInDays),
+    conversions: (i * 3) % 7,
+    created_at: at(90 - i * 10),
+    updated_at: at(10 - i),
+  }));
+
+  const conversions: ConversionRow[] = users.flatMap((user, u) =>
+    Array.from({ length: user.conversions }, (_, c) => {
+      const n = u * 10 + c + 1;
+      const status = STATUSES[n % STATUSES.length];
+      const created = at((n * 7) % 80);
+      return {
+        id: fixtureId(3, n),
+        user_id: user.id,
+        pdf_path: `${user.id}/document-${n}.pdf`,
+        audio_path: status === "completed" ? `${user.id}/document-${n}.mp3` : null,
+        pdf_filename: `document-${n}.pdf`,
+        pdf_size: 250_000 + n * 48_000,
+        audio_size: status === "completed" ? 1_200_000 + n * 90_000 : null,
+        voice: VOICES[n % VOICES.length],
+        voice_settings: { speed: 1 },
+        text_length: 4_000 + n * 350,
+        audio_duration: status === "completed" ? 180 + n * 25 : null,
+        status,
+        completed_at: status === "completed" ? created : null,
+        created_at: created,
+        deleted_at: null,
+        deleted_by: null,
+      };
+    })
+  );
+
+  // One entry per conversion, as the conversions trigger writes them, plus
+  // a top-up so the drawer has one to show
+  const usageLedger: UsageLedgerRow[] = [
+    ...conversions.map((conversion, i) => ({
+      id: fixtureId(6, i + 1),
+      user_id: conversion.user_id,
+      kind: "conversion" as const,
+      amount: 1,
+      conversion_id: conversion.id,
+      note: null,
+      created_by: null,
+      created_at: conversion.created_at,
+    })),
+    {
+      id: fixtureId(6, conversions.length + 1),
+      user_id: users[6].id,
+      kind: "top_up",
+      amount: 3,
+      conversion_id: null,
+      note: "Goodwill after a failed conversion",
+      created_by: DEMO_ADMIN_EMAIL,
+      created_at: at(2),
+    },
+  ];
+
+  // What the payment provider would have sent for the paid users
+  const billingEvents: BillingEventRow[] = users
+    .filter((user) => user.subscription_id)
+    .map((user, i) => {
+      const type = i === 0 ? "subscription.renewed" : "subscription.created";
+      const received = i === 0 ? at(20) : user.created_at;
+      return {
+        id: `evt_demo_${i + 1}`,
+        type,
+        subscription_id: user.subscription_id,
+        user_id: user.id,
+        status: "processed",
+        error: null,
+        payload: {
+          id: `evt_demo_${i + 1}`,
+          type,
+          created_at: received,
+          data: {
+            subscription_id: user.subscription_id,
+            current_period_end: user.expiry_date,
+          },
+        },
+        received_at: received,
+        processed_at: received,
+      };
+    });
+
+  const emailCampaigns: EmailCampaignRow[] = DEMO_CAMPAIGNS.map(
+    ([name, offset_days, subject, body], i) => ({
+      id: fixtureId(7, i + 1),
+      name,
+      offset_days,
+      subject,
+      body,
+      enabled: true,
+      created_at: at(60),
+      updated_at: at(60),
+    })
+  );
+
+  // Reminders already sent in earlier runs: the 7-day one to Farid and the
+  // win-back to David
+  const emailSends: EmailSendRow[] = [
+    [0, users[5]],
+    [2, users[3]],
+  ].map(([campaign, user]: [number, User], i) => ({
+    id: fixtureId(8, i + 1),
+    campaign_id: emailCampaigns[campaign].id,
+    user_id: user.id,
+    expiry_date: user.expiry_date,
+    email: user.email,
+    status: "sent",
+    error: null,
+    created_at: at(5),
+    sent_at: at(5),
+  }));
+
+  const supportTickets: SupportTicket[] = [
+    ["Payment & Billing", "open", 1, 0],
+    ["Technical Problems", "open", 4, 2],
+    ["Account Issues", "closed", 12, 9],
+  ].map(([subject, status, createdDaysAgo, updatedDaysAgo], i) => ({
+    id: fixtureId(4, i + 1),
+    user_id: users[i + 1].id,
+    subject: subject as string,
+    status: status as SupportTicket["status"],
+    created_at: at(createdDaysAgo as number),
+    updated_at: at(updatedDaysAgo as number),
+    closed_at: status === "closed" ? at(updatedDaysAgo as number) : null,
+    closed_by: status === "closed" ? admins[0].id : null,
+  }));
+
+  const thread: [ticket: number, sender: "user" | "admin", text: string][] = [
+    [0, "user", "I was charged twice this month, can you check?"],
+    [1, "user", "The audio stops halfway through my PDF."],
+    [1, "admin", "Thanks, could you tell us which file it was?"],
+    [1, "user", "document-12.pdf, uploaded yesterday."],
+    [2, "user", "How do I change my email address?"],
+    [2, "admin", "Done, you can now sign in with the new address."],
+  ];
+
+  const supportMessages: SupportMessage[] = thread.map(
+    ([ticket, sender, message], i) => ({
+      id: fixtureId(5, i + 1),
+      ticket_id: supportTickets[ticket].id,
+      sender_id: sender === "admin" ? admins[0].id : supportTickets[ticket].user_id,
+      sender_type: sender,
+      message,
+      created_at: new Date(
+        new Date(supportTickets[ticket].created_at).getTime() + i * 60 * 60 * 1000
+      ).toISOString(),
+      read: sender === "admin" || ticket === 2,
+    })
+  );
+
+  const savedViews: SavedViewRow[] = DEMO_VIEWS.map(
+    ([tab, name, query], i) => ({
+      id: fixtureId(9, i + 1),
+      owner_id: admins[0].id,
+      tab,
+      name,
+      query,
+      shared: true,
+      created_at: at(30),
+      updated_at: at(30),
+    })
+  );
+
+  return {
+    users,
+    conversions,
+    plans,
+    usageLedger,
+    billingEvents,
+    emailCampaigns,
+    emailSends,
+    supportTickets,
+    supportMessages,
+    admins,
+    savedViews,
+    // Pinned by the demo owner, so their counts show in the tab headers
+    savedViewPins: savedViews.map((view) => ({
+      admin_id: admins[0].id,
+      view_id: view.id,
+    })),
+  };
+};
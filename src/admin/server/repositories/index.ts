@@ -0,0 +1,29 @@
+import { demoFixtures } from "./fixtures";
+import { createMemoryRepositories } from "./memory";
+import { createSupabaseRepositories } from "./supabase";
+import type { AdminRepositories } from "./types";
+
+export * from "./types";
+export { createMemoryRepositories, type AdminFixtures } from "./memory";
+export { createSupabaseRepositories } from "./supabase";
+export { DEMO_ADMIN_EMAIL, DEMO_ADMIN_PASSWORD, demoFixtures } from "./fixtures";
+
+// ADMIN_DATA_SOURCE=memory runs the whole panel on in-process demo data
+// (offline demos, tests); anything else uses Supabase.
+let current: AdminRepositories | null = null;
+
+export const repositories = (): AdminRepositories => {
+  if (!current) {
+    current =
+      process.env.ADMIN_DATA_SOURCE === "memory"
+        ? createMemoryRepositories(demoFixtures())
+        : createSupabaseRepositories();
+  }
+  return current;
+};
+
+// Swap the data source, e.g. for a test seeded with its own fixtures. Pass
+// null to go back to the environment default.
+export const setRepositories = (next: AdminRepositories | null): void => {
+  current = next;
+};
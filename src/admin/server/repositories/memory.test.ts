@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { User } from "../../../types/database";
+import { demoFixtures } from "./fixtures";
+import { createMemoryRepositories } from "./memory";
+import type { AdminRepositories, UserCursor } from "./types";
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+const DAY = 24 * 60 * 60 * 1000;
+
+let repos: AdminRepositories;
+
+beforeEach(() => {
+  repos = createMemoryRepositories(demoFixtures(NOW));
+});
+
+describe("users", () => {
+  it("filters by plan, conversions and search", async () => {
+    expect(await repos.users.count({ plan: "paid" })).toBe(5);
+    expect(await repos.users.count({ conversionsMin: 3 })).toBe(4);
+    expect(
+      await repos.users.count({ conversionsMin: 2, conversionsMax: 3 })
+    ).toBe(2);
+    expect(await repos.users.count({ search: "BILAL" })).toBe(1);
+    expect(await repos.users.count({ search: "sub_demo_" })).toBe(5);
+  });
+
+  it("finds a user by email whatever its case", async () => {
+    const user = await repos.users.findByEmail("Grace@Example.COM");
+    expect(user?.name).toBe("Grace Liu");
+    expect(await repos.users.findByEmail("grace@example")).toBeNull();
+  });
+
+  it("takes an expiry window as from inclusive, before exclusive", async () => {
+    const at = (days: number) => new Date(NOW + days * DAY).toISOString();
+    const ids = await repos.users.listIds(
+      { expiresFrom: at(0), expiresBefore: at(7) },
+      100
+    );
+    const users = await repos.users.findByIds(ids);
+    expect(users.map((user) => user.name).sort()).toEqual([
+      "Bilal Ahmed",
+      "Farid Haddad",
+    ]);
+  });
+
+  it("pages through every match with a cursor, without repeats", async () => {
+    const sort = { field: "created_at", direction: "desc" } as const;
+    const seen: User[] = [];
+    let after: UserCursor | null = null;
+    for (;;) {
+      const page = await repos.users.page({}, sort, after, 3);
+      if (page.length === 0) break;
+      seen.push(...page);
+      const last = page[page.length - 1];
+      after = { value: last.created_at, id: last.id };
+    }
+
+    expect(seen).toHaveLength(8);
+    expect(new Set(seen.map((user) => user.id)).size).toBe(8);
+    const created = seen.map((user) => user.created_at);
+    expect(created).toEqual([...created].sort().reverse());
+  });
+
+  it("keeps users in Trash out of the live list", async () => {
+    const [first] = await repos.users.page(
+      {},
+      { field: "name", direction: "asc" },
+      null,
+      1
+    );
+    await repos.users.update(first.id, {
+      deleted_at: new Date(NOW).toISOString(),
+    });
+
+    expect(await repos.users.count({})).toBe(7);
+    expect(await repos.users.count({ trashed: true })).toBe(1);
+    expect(await repos.users.count({ search: first.name })).toBe(0);
+  });
+});
+
+describe("conversions", () => {
+  it("matches the owner's name or email in a search", async () => {
+    const byName = await repos.conversions.list({ search: "bilal" }, 0, 50);
+    const byEmail = await repos.conversions.list(
+      { search: "CARLA@example" },
+      0,
+      50
+    );
+    const owners = await repos.users.findByIds([
+      ...new Set([...byName, ...byEmail].map((c) => c.user_id)),
+    ]);
+
+    expect(byName).toHaveLength(3);
+    expect(byEmail).toHaveLength(6);
+    expect(owners.map((user) => user.name).sort()).toEqual([
+      "Bilal Ahmed",
+      "Carla Mendes",
+    ]);
+  });
+
+  it("matches part of the filename or the exact id", async () => {
+    const byFilename = await repos.conversions.list(
+      { search: "document-4" },
+      0,
+      50
+    );
+    expect(byFilename).toHaveLength(5);
+
+    const [one] = byFilename;
+    const byId = await repos.conversions.list({ search: one.id }, 0, 50);
+    expect(byId.map((c) => c.id)).toEqual([one.id]);
+  });
+
+  it("combines the search with the other filters", async () => {
+    const all = await repos.conversions.list({ search: "carla" }, 0, 50);
+    const failed = await repos.conversions.list(
+      { search: "carla", status: "failed" },
+      0,
+      50
+    );
+
+    expect(failed.length).toBeGreaterThan(0);
+    expect(failed.length).toBeLessThan(all.length);
+    expect(failed.every((c) => c.status === "failed")).toBe(true);
+    expect(
+      (await repos.conversions.stats({ search: "carla", status: "failed" }))
+        .total
+    ).toBe(failed.length);
+  });
+
+  it("pages newest first without gaps or repeats", async () => {
+    const { total } = await repos.conversions.stats({});
+    const pages = await Promise.all(
+      [0, 5, 10, 15, 20].map((offset) =>
+        repos.conversions.list({}, offset, 5)
+      )
+    );
+    const rows = pages.flat();
+
+    expect(total).toBe(21);
+    expect(pages.map((page) => page.length)).toEqual([5, 5, 5, 5, 1]);
+    expect(new Set(rows.map((c) => c.id)).size).toBe(total);
+    const created = rows.map((c) => c.created_at);
+    expect(created).toEqual([...created].sort().reverse());
+  });
+
+  it("counts Trash apart from live conversions", async () => {
+    const [latest] = await repos.conversions.list({}, 0, 1);
+    await repos.conversions.update(latest.id, {
+      deleted_at: new Date(NOW).toISOString(),
+    });
+
+    expect((await repos.conversions.stats({})).total).toBe(20);
+    expect((await repos.conversions.stats({ trashed: true })).total).toBe(1);
+    expect(
+      (await repos.conversions.list({ trashed: true }, 0, 50)).map((c) => c.id)
+    ).toEqual([latest.id]);
+  });
+});
@@ -0,0 +1,1004 @@
+import crypto from "crypto";
+import type { AuditEntry } from "../../../types/audit";
+import type { User } from "../../../types/database";
+import type { SupportMessage, SupportTicket } from "../../../types/support";
+import type {
+  AccountTokenRow,
+  AdminRepositories,
+  AdminRow,
+  AdminSessionRow,
+  BillingEventRow,
+  ConversionFilter,
+  ConversionRow,
+  DataExportRow,
+  EmailCampaignRow,
+  EmailSendRow,
+  EmailSendStats,
+  PlanRow,
+  SavedViewRow,
+  SupportTicketFilter,
+  UsageLedgerRow,
+  UserFilter,
+} from "./types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface AdminFixtures {
+  users: User[];
+  conversions: ConversionRow[];
+  plans: PlanRow[];
+  usageLedger: UsageLedgerRow[];
+  billingEvents: BillingEventRow[];
+  emailCampaigns: EmailCampaignRow[];
+  emailSends: EmailSendRow[];
+  supportTickets: SupportTicket[];
+  supportMessages: SupportMessage[];
+  admins: AdminRow[];
+  savedViews: SavedViewRow[];
+  savedViewPins: { admin_id: string; view_id: string }[];
+}
+
+// Rows are copied in and out so callers cannot mutate the store by holding
+// on to a returned object
+const copy = <T>(row: T): T => structuredClone(row);
+
+const contains = (value: string | null | undefined, term: string) =>
+  !!value && value.toLowerCase().includes(term.toLowerCase());
+
+const byNewest = <T extends { created_at: string }>(a: T, b: T) =>
+  b.created_at.localeCompare(a.created_at);
+
+const byOldest = <T extends { created_at: string }>(a: T, b: T) =>
+  a.created_at.localeCompare(b.created_at);
+
+type SortKey = [value: string | number | null, id: string];
+
+// Compare two (value, id) keys in the given direction, nulls always last
+const compareKeys = (a: SortKey, b: SortKey, direction: "asc" | "desc") => {
+  const [va, vb] = [a[0], b[0]];
+  if (va === null || vb === null) {
+    if (va !== vb) return va === null ? 1 : -1;
+  } else if (va !== vb) {
+    const order =
+      typeof va === "number" && typeof vb === "number"
+        ? va - vb
+        : String(va).localeCompare(String(vb));
+    return direction === "asc" ? order : -order;
+  }
+  const order = a[1].localeCompare(b[1]);
+  return direction === "asc" ? order : -order;
+};
+
+const countWhere = <T>(rows: T[], test: (row: T) => boolean) =>
+  rows.filter(test).length;
+
+const countBy = <T>(rows: T[], key: (row: T) => string) =>
+  rows.reduce<Record<string, number>>((counts, row) => {
+    counts[key(row)] = (counts[key(row)] ?? 0) + 1;
+    return counts;
+  }, {});
+
+const sum = (values: number[]) => values.reduce((total, n) => total + n, 0);
+
+const average = (values: number[]) =>
+  values.length > 0 ? sum(values) / values.length : null;
+
+// Live rows, or only rows in Trash when the filter asks for them
+const matchesTrash = (
+  row: { deleted_at?: string | null },
+  filter: { trashed?: boolean; trashedBefore?: string }
+) =>
+  filter.trashed
+    ? !!row.deleted_at &&
+      (!filter.trashedBefore || row.deleted_at < filter.trashedBefore)
+    : !row.deleted_at;
+
+const matchesUserFilter = (row: User, filter: UserFilter) =>
+  matchesTrash(row, filter) &&
+  (!filter.search ||
+    contains(row.name, filter.search) ||
+    contains(row.email, filter.search) ||
+    contains(row.subscription_id, filter.search)) &&
+  (!filter.plan || row.subscription_plan === filter.plan) &&
+  (filter.conversionsMin === undefined ||
+    row.conversions >= filter.conversionsMin) &&
+  (filter.conversionsMax === undefined ||
+    row.conversions <= filter.conversionsMax) &&
+  (!filter.expiresFrom ||
+    (!!row.expiry_date && row.expiry_date >= filter.expiresFrom)) &&
+  (!filter.expiresBefore ||
+    (!!row.expiry_date && row.expiry_date < filter.expiresBefore)) &&
+  (!filter.subscriptionId ||
+    contains(row.subscription_id, filter.subscriptionId));
+
+const matchesConversionFilter = (
+  row: ConversionRow,
+  owner: User | undefined,
+  filter: ConversionFilter
+) =>
+  matchesTrash(row, filter) &&
+  (!filter.voice || row.voice === filter.voice) &&
+  (!filter.status || row.status === filter.status) &&
+  (!filter.dateFrom || row.created_at >= filter.dateFrom) &&
+  (!filter.dateTo || row.created_at <= filter.dateTo) &&
+  (!filter.search ||
+    contains(row.pdf_filename, filter.search) ||
+    row.id === filter.search ||
+    contains(owner?.name, filter.search) ||
+    contains(owner?.email, filter.search));
+
+const matchesTicketFilter = (row: SupportTicket, filter: SupportTicketFilter) =>
+  (!filter.status || row.status === filter.status) &&
+  (!filter.subject || row.subject === filter.subject) &&
+  (!filter.createdFrom || row.created_at >= filter.createdFrom) &&
+  (!filter.createdBefore || row.created_at < filter.createdBefore) &&
+  (!filter.search ||
+    contains(row.id, filter.search) ||
+    !!filter.userIds?.includes(row.user_id));
+
+// Apply a patch to the row with this id; returns the updated copy or null
+const patchRow = <T extends { id: string }>(
+  rows: T[],
+  id: string,
+  patch: Partial<T>
+): T | null => {
+  const index = rows.findIndex((row) => row.id === id);
+  if (index === -1) return null;
+  rows[index] = { ...rows[index], ...copy(patch), id };
+  return copy(rows[index]);
+};
+
+const removeRow = <T extends { id: string }>(rows: T[], id: string): T | null => {
+  const index = rows.findIndex((row) => row.id === id);
+  if (index === -1) return null;
+  return rows.splice(index, 1)[0];
+};
+
+// Process-local tables seeded from fixtures (ADMIN_DATA_SOURCE=memory). Lost
+// on restart; meant for demos and tests, never production.
+export const createMemoryRepositories = (
+  fixtures: Partial<AdminFixtures> = {}
+): AdminRepositories => {
+  const users = (fixtures.users ?? []).map(copy);
+  const conversions = (fixtures.conversions ?? []).map(copy);
+  const plans = (fixtures.plans ?? []).map(copy);
+  const ledger = (fixtures.usageLedger ?? []).map(copy);
+  const billingEvents = (fixtures.billingEvents ?? []).map(copy);
+  const campaigns = (fixtures.emailCampaigns ?? []).map(copy);
+  const sends = (fixtures.emailSends ?? []).map(copy);
+  const tickets = (fixtures.supportTickets ?? []).map(copy);
+  const messages = (fixtures.supportMessages ?? []).map(copy);
+  const admins = (fixtures.admins ?? []).map(copy);
+  const views = (fixtures.savedViews ?? []).map(copy);
+  const pins = (fixtures.savedViewPins ?? []).map(copy);
+  const sessions: AdminSessionRow[] = [];
+  const tokens: AccountTokenRow[] = [];
+  const auditLog: AuditEntry[] = [];
+  const dataExports: DataExportRow[] = [];
+  // Uploaded objects by "<bucket>/<path>"
+  const objects = new Map<string, Buffer>();
+
+  const nowIso = () => new Date().toISOString();
+
+  // Conversions matching the filter, owners' names and emails included
+  const filterConversions = (filter: ConversionFilter) =>
+    conversions.filter((row) =>
+      matchesConversionFilter(
+        row,
+        users.find((user) => user.id === row.user_id),
+        filter
+      )
+    );
+
+  return {
+    users: {
+      async page(filter, sort, after, limit) {
+        const key = (row: User): SortKey => [row[sort.field] ?? null, row.id];
+        const cursor: SortKey | null = after ? [after.value, after.id] : null;
+
+        return users
+          .filter(
+            (row) =>
+              matchesUserFilter(row, filter) &&
+              (!cursor || compareKeys(key(row), cursor, sort.direction) > 0)
+          )
+          .sort((a, b) => compareKeys(key(a), key(b), sort.direction))
+          .slice(0, limit)
+          .map(copy);
+      },
+
+      async findById(id) {
+        const user = users.find((row) => row.id === id);
+        return user ? copy(user) : null;
+      },
+
+      async findByIds(ids) {
+        return users.filter((row) => ids.includes(row.id)).map(copy);
+      },
+
+      async findByEmail(email) {
+        const user = users.find(
+          (row) => row.email.toLowerCase() === email.toLowerCase()
+        );
+        return user ? copy(user) : null;
+      },
+
+      async findBySubscriptionId(subscriptionId) {
+        const user = users.find((row) => row.subscription_id === subscriptionId);
+        return user ? copy(user) : null;
+      },
+
+      async searchIds(term, limit) {
+        return users
+          .filter((row) => contains(row.name, term) || contains(row.email, term))
+          .slice(0, limit)
+          .map((row) => row.id);
+      },
+
+      async listIds(filter, limit, afterId) {
+        return users
+          .filter(
+            (row) =>
+              matchesUserFilter(row, filter) && (!afterId || row.id > afterId)
+          )
+          .map((row) => row.id)
+          .sort()
+          .slice(0, limit);
+      },
+
+      async count(filter) {
+        return countWhere(users, (row) => matchesUserFilter(row, filter));
+      },
+
+      async countOnPlan(planId) {
+        return countWhere(users, (row) => row.subscription_plan === planId);
+      },
+
+      async insert(user) {
+        const row: User = {
+          ...copy(user),
+          id: crypto.randomUUID(),
+          created_at: nowIso(),
+          updated_at: nowIso(),
+        };
+        users.push(row);
+        return copy(row);
+      },
+
+      async update(id, patch) {
+        return patchRow(users, id, patch);
+      },
+
+      async remove(id) {
+        return removeRow(users, id);
+      },
+
+      async removeCascade(id) {
+        if (!removeRow(users, id)) return null;
+
+        const ticketIds = tickets
+          .filter((row) => row.user_id === id)
+          .map((row) => row.id);
+        const counts = {
+          conversions: countWhere(conversions, (row) => row.user_id === id),
+          supportTickets: ticketIds.length,
+          supportMessages: countWhere(messages, (row) =>
+            ticketIds.includes(row.ticket_id)
+          ),
+        };
+
+        const keep = <T>(rows: T[], predicate: (row: T) => boolean) =>
+          rows.splice(0, rows.length, ...rows.filter(predicate));
+        keep(conversions, (row) => row.user_id !== id);
+        keep(tickets, (row) => row.user_id !== id);
+        keep(messages, (row) => !ticketIds.includes(row.ticket_id));
+        keep(ledger, (row) => row.user_id !== id);
+        keep(billingEvents, (row) => row.user_id !== id);
+        keep(sends, (row) => row.user_id !== id);
+        return counts;
+      },
+
+      async stats(filter, periods) {
+        const rows = users.filter((row) => matchesUserFilter(row, filter));
+        const createdSince = (at: string) =>
+          countWhere(rows, (row) => row.created_at >= at);
+
+        return {
+          total: rows.length,
+          plans: countBy(rows, (row) => row.subscription_plan),
+          active: countWhere(rows, (row) => row.expiry_date >= periods.soon),
+          expiringSoon: countWhere(
+            rows,
+            (row) =>
+              row.expiry_date >= periods.now && row.expiry_date < periods.soon
+          ),
+          expired: countWhere(rows, (row) => row.expiry_date < periods.now),
+          newToday: createdSince(periods.today),
+          newThisWeek: createdSince(periods.week),
+          newThisMonth: createdSince(periods.month),
+          newLastMonth: countWhere(
+            rows,
+            (row) =>
+              row.created_at >= periods.lastMonth &&
+              row.created_at < periods.month
+          ),
+        };
+      },
+    },
+
+    conversions: {
+      async list(filter, offset, limit) {
+        return filterConversions(filter)
+          .sort(byNewest)
+          .slice(offset, offset + limit)
+          .map(copy);
+      },
+
+      async findById(id) {
+        const conversion = conversions.find((row) => row.id === id);
+        return conversion ? copy(conversion) : null;
+      },
+
+      async update(id, patch) {
+        return patchRow(conversions, id, patch);
+      },
+
+      async remove(id) {
+        return removeRow(conversions, id);
+      },
+
+      async stats(filter) {
+        const rows = filterConversions(filter);
+        const durations = rows
+          .map((row) => row.audio_duration ?? 0)
+          .filter((seconds) => seconds > 0);
+        const pdfSizes = rows
+          .map((row) => row.pdf_size ?? 0)
+          .filter((bytes) => bytes > 0);
+
+        return {
+          total: rows.length,
+          completed: countWhere(rows, (row) => row.status === "completed"),
+          processing: countWhere(rows, (row) => row.status === "processing"),
+          failed: countWhere(rows, (row) => row.status === "failed"),
+          pdfBytes: sum(rows.map((row) => row.pdf_size ?? 0)),
+          pdfFiles: countWhere(rows, (row) => !!row.pdf_path),
+          audioBytes: sum(rows.map((row) => row.audio_size ?? 0)),
+          audioFiles: countWhere(rows, (row) => !!row.audio_path),
+          audioSeconds: sum(durations),
+          averageAudioSeconds: average(durations) ?? 0,
+          averagePdfBytes: average(pdfSizes) ?? 0,
+          voices: countBy(rows, (row) => row.voice),
+        };
+      },
+
+      async listByUser(userId) {
+        return conversions
+          .filter((row) => row.user_id === userId)
+          .sort(byNewest)
+          .map(copy);
+      },
+    },
+
+    plans: {
+      async list() {
+        return [...plans]
+          .sort(
+            (a, b) =>
+              a.monthly_price - b.monthly_price || a.id.localeCompare(b.id)
+          )
+          .map(copy);
+      },
+
+      async findById(id) {
+        const plan = plans.find((row) => row.id === id);
+        return plan ? copy(plan) : null;
+      },
+
+      async insert(plan) {
+        const row: PlanRow = {
+          ...copy(plan),
+          created_at: nowIso(),
+          updated_at: nowIso(),
+        };
+        plans.push(row);
+        return copy(row);
+      },
+
+      async update(id, patch) {
+        return patchRow(plans, id, patch);
+      },
+
+      async remove(id) {
+        return removeRow(plans, id);
+      },
+    },
+
+    usageLedger: {
+      async listForUser(userId, from, before) {
+        return ledger
+          .filter(
+            (row) =>
+              row.user_id === userId &&
+              row.created_at >= from &&
+              row.created_at < before
+          )
+          .sort(byOldest)
+          .map(copy);
+      },
+
+      async insert(entry) {
+        const row = { ...copy(entry), id: crypto.randomUUID(), created_at: nowIso() };
+        ledger.push(row);
+        return copy(row);
+      },
+    },
+
+    billingEvents: {
+      async claim(event, at, staleBefore) {
+        const existing = billingEvents.find((row) => row.id === event.id);
+        if (!existing) {
+          billingEvents.push({
+            ...copy(event),
+            user_id: null,
+            status: "received",
+            error: null,
+            received_at: at,
+            processed_at: null,
+          });
+          return true;
+        }
+
+        const retry =
+          existing.status === "failed" ||
+          (existing.status === "received" && existing.received_at < staleBefore);
+        if (!retry) return false;
+        Object.assign(existing, {
+          status: "received",
+          error: null,
+          payload: copy(event.payload),
+          received_at: at,
+          processed_at: null,
+        });
+        return true;
+      },
+
+      async update(id, patch) {
+        return patchRow(billingEvents, id, patch);
+      },
+
+      async listByUser(userId, limit) {
+        return billingEvents
+          .filter((row) => row.user_id === userId)
+          .sort((a, b) => b.received_at.localeCompare(a.received_at))
+          .slice(0, limit)
+          .map(copy);
+      },
+    },
+
+    emailCampaigns: {
+      async list() {
+        return [...campaigns]
+          .sort(
+            (a, b) =>
+              a.offset_days - b.offset_days || a.name.localeCompare(b.name)
+          )
+          .map(copy);
+      },
+
+      async findById(id) {
+        const campaign = campaigns.find((row) => row.id === id);
+        return campaign ? copy(campaign) : null;
+      },
+
+      async insert(campaign) {
+        const row: EmailCampaignRow = {
+          ...copy(campaign),
+          id: crypto.randomUUID(),
+          created_at: nowIso(),
+          updated_at: nowIso(),
+        };
+        campaigns.push(row);
+        return copy(row);
+      },
+
+      async update(id, patch) {
+        return patchRow(campaigns, id, patch);
+      },
+
+      async remove(id) {
+        const campaign = removeRow(campaigns, id);
+        if (campaign) {
+          sends.splice(
+            0,
+            sends.length,
+            ...sends.filter((row) => row.campaign_id !== id)
+          );
+        }
+        return campaign;
+      },
+    },
+
+    emailSends: {
+      async claim(send, at, staleBefore) {
+        const existing = sends.find(
+          (row) =>
+            row.campaign_id === send.campaign_id &&
+            row.user_id === send.user_id &&
+            row.expiry_date === send.expiry_date
+        );
+        if (!existing) {
+          const row: EmailSendRow = {
+            ...copy(send),
+            id: crypto.randomUUID(),
+            status: "sending",
+            error: null,
+            created_at: at,
+            sent_at: null,
+          };
+          sends.push(row);
+          return copy(row);
+        }
+
+        const retry =
+          existing.status === "failed" ||
+          (existing.status === "sending" && existing.created_at < staleBefore);
+        if (!retry) return null;
+        Object.assign(existing, {
+          email: send.email,
+          status: "sending",
+          error: null,
+          created_at: at,
+        });
+        return copy(existing);
+      },
+
+      async update(id, patch) {
+        return patchRow(sends, id, patch);
+      },
+
+      async listRecent(limit) {
+        return [...sends].sort(byNewest).slice(0, limit).map(copy);
+      },
+
+      async stats(since) {
+        return sends
+          .filter((row) => row.created_at >= since)
+          .reduce<EmailSendStats>((stats, row) => {
+            const entry = stats[row.campaign_id] ?? {
+              sent: 0,
+              failed: 0,
+              lastSentAt: null,
+            };
+            if (row.status === "sent") entry.sent++;
+            if (row.status === "failed") entry.failed++;
+            if (
+              row.sent_at &&
+              (!entry.lastSentAt || row.sent_at > entry.lastSentAt)
+            ) {
+              entry.lastSentAt = row.sent_at;
+            }
+            stats[row.campaign_id] = entry;
+            return stats;
+          }, {});
+      },
+    },
+
+    supportTickets: {
+      async list() {
+        return [...tickets].sort(byNewest).map(copy);
+      },
+
+      async page(filter, offset, limit) {
+        return tickets
+          .filter((row) => matchesTicketFilter(row, filter))
+          .sort(byNewest)
+          .slice(offset, offset + limit)
+          .map(copy);
+      },
+
+      async listByUser(userId) {
+        return tickets
+          .filter((row) => row.user_id === userId)
+          .sort(byNewest)
+          .map(copy);
+      },
+
+      async findById(id) {
+        const ticket = tickets.find((row) => row.id === id);
+        return ticket ? copy(ticket) : null;
+      },
+
+      async update(id, patch) {
+        return patchRow(tickets, id, patch);
+      },
+
+      async stats(filter, periods) {
+        const rows = tickets.filter((row) => matchesTicketFilter(row, filter));
+        const threads = rows.map((ticket) =>
+          messages.filter((m) => m.ticket_id === ticket.id).sort(byOldest)
+        );
+        const unread = threads.map((thread) =>
+          countWhere(thread, (m) => m.sender_type === "user" && !m.read)
+        );
+        // Time from a customer message to the admin reply right after it
+        const responses = threads.flatMap((thread) =>
+          thread.slice(1).flatMap((reply, i) =>
+            thread[i].sender_type === "user" && reply.sender_type === "admin"
+              ? [Date.parse(reply.created_at) - Date.parse(thread[i].created_at)]
+              : []
+          )
+        );
+        const resolutions = rows
+          .filter((row) => row.status === "closed" && row.closed_at)
+          .map((row) => Date.parse(row.closed_at) - Date.parse(row.created_at));
+        const perUser = Object.values(countBy(rows, (row) => row.user_id));
+        const createdSince = (at: string) =>
+          countWhere(rows, (row) => row.created_at >= at);
+        const closedSince = (at: string) =>
+          countWhere(rows, (row) => !!row.closed_at && row.closed_at >= at);
+
+        return {
+          total: rows.length,
+          open: countWhere(rows, (row) => row.status === "open"),
+          closed: countWhere(rows, (row) => row.status === "closed"),
+          averageResolutionMs: average(resolutions),
+          unreadMessages: sum(unread),
+          ticketsWithUnread: countWhere(unread, (n) => n > 0),
+          pendingResponse: countWhere(
+            threads,
+            (thread) => thread[thread.length - 1]?.sender_type === "user"
+          ),
+          maxMessagesPerTicket: Math.max(0, ...threads.map((t) => t.length)),
+          averageMessagesPerTicket:
+            average(threads.map((thread) => thread.length)) ?? 0,
+          averageResponseMs: average(responses),
+          newToday: createdSince(periods.today),
+          newThisWeek: createdSince(periods.week),
+          newThisMonth: createdSince(periods.month),
+          closedToday: closedSince(periods.today),
+          closedThisWeek: closedSince(periods.week),
+          closedThisMonth: closedSince(periods.month),
+          subjects: countBy(rows, (row) => row.subject),
+          uniqueUsers: perUser.length,
+          usersWithMultipleTickets: countWhere(perUser, (n) => n > 1),
+          maxTicketsPerUser: Math.max(0, ...perUser),
+        };
+      },
+    },
+
+    supportMessages: {
+      async list() {
+        return [...messages].sort(byOldest).map(copy);
+      },
+
+      async listByTickets(ticketIds) {
+        return messages
+          .filter((row) => ticketIds.includes(row.ticket_id))
+          .sort(byOldest)
+          .map(copy);
+      },
+
+      async insert(message) {
+        const row = { ...copy(message), id: crypto.randomUUID(), created_at: nowIso() };
+        messages.push(row);
+        return copy(row);
+      },
+
+      async markUserMessagesRead(ticketId) {
+        messages.forEach((row) => {
+          if (row.ticket_id === ticketId && row.sender_type === "user") {
+            row.read = true;
+          }
+        });
+      },
+    },
+
+    admins: {
+      async list() {
+        return [...admins].sort(byOldest).map(copy);
+      },
+
+      async findById(id) {
+        const admin = admins.find((row) => row.id === id);
+        return admin ? copy(admin) : null;
+      },
+
+      async findByEmail(email) {
+        const admin = admins.find((row) => row.email === email);
+        return admin ? copy(admin) : null;
+      },
+
+      async insert(admin) {
+        const row: AdminRow = {
+          ...copy(admin),
+          id: crypto.randomUUID(),
+          totp_enabled: false,
+          totp_secret: null,
+          totp_pending_secret: null,
+          totp_recovery_codes: null,
+          totp_enrolled_at: null,
+          totp_last_step: null,
+          last_login_at: null,
+          disabled_at: null,
+          disabled_by: null,
+          created_at: nowIso(),
+        };
+        admins.push(row);
+        return copy(row);
+      },
+
+      async update(id, patch) {
+        return patchRow(admins, id, patch);
+      },
+
+      async consumeRecoveryCode(id, used, remaining) {
+        const admin = admins.find((row) => row.id === id);
+        if (!admin?.totp_recovery_codes?.includes(used)) return false;
+        admin.totp_recovery_codes = [...remaining];
+        return true;
+      },
+
+      async claimTotpStep(id, step) {
+        const admin = admins.find((row) => row.id === id);
+        if (!admin) return false;
+        if (admin.totp_last_step !== null && admin.totp_last_step >= step) {
+          return false;
+        }
+        admin.totp_last_step = step;
+        return true;
+      },
+    },
+
+    adminSessions: {
+      async insert(session) {
+        const row = { ...copy(session), id: crypto.randomUUID(), revoked_at: null };
+        sessions.push(row);
+        return copy(row);
+      },
+
+      async findActive(id, adminId) {
+        const session = sessions.find(
+          (row) => row.id === id && row.admin_id === adminId && !row.revoked_at
+        );
+        return session ? copy(session) : null;
+      },
+
+      async touch(id, at) {
+        patchRow(sessions, id, { last_seen_at: at });
+      },
+
+      async revoke(id, at) {
+        sessions.forEach((row) => {
+          if (row.id === id && !row.revoked_at) row.revoked_at = at;
+        });
+      },
+
+      async revokeAll(adminId, at) {
+        sessions.forEach((row) => {
+          if (row.admin_id === adminId && !row.revoked_at) row.revoked_at = at;
+        });
+      },
+    },
+
+    accountTokens: {
+      async insert(token) {
+        const row = {
+          ...copy(token),
+          id: crypto.randomUUID(),
+          created_at: nowIso(),
+          used_at: null,
+        };
+        tokens.push(row);
+        return copy(row);
+      },
+
+      async removeUnused(purpose, email) {
+        for (let i = tokens.length - 1; i >= 0; i--) {
+          const row = tokens[i];
+          if (row.purpose === purpose && row.email === email && !row.used_at) {
+            tokens.splice(i, 1);
+          }
+        }
+      },
+
+      async findUsable(tokenHash, now) {
+        const token = tokens.find(
+          (row) =>
+            row.token_hash === tokenHash && !row.used_at && row.expires_at > now
+        );
+        return token ? copy(token) : null;
+      },
+
+      async listPendingInvites(now) {
+        return tokens
+          .filter(
+            (row) =>
+              row.purpose === "invite" && !row.used_at && row.expires_at > now
+          )
+          .sort(byNewest)
+          .map(copy);
+      },
+
+      async removePendingInvite(id) {
+        const token = tokens.find(
+          (row) => row.id === id && row.purpose === "invite" && !row.used_at
+        );
+        return token ? removeRow(tokens, id) : null;
+      },
+
+      async claim(id, at) {
+        const token = tokens.find((row) => row.id === id && !row.used_at);
+        if (!token) return false;
+        token.used_at = at;
+        return true;
+      },
+    },
+
+    auditLog: {
+      async insert(entry) {
+        auditLog.push({ ...copy(entry), id: crypto.randomUUID(), created_at: nowIso() });
+      },
+
+      async list(filter, offset, limit) {
+        const to = filter.to
+          ? new Date(new Date(filter.to).getTime() + DAY).toISOString()
+          : null;
+
+        return auditLog
+          .filter(
+            (row) =>
+              (!filter.admin || contains(row.admin_email, filter.admin)) &&
+              (!filter.entity || row.entity === filter.entity) &&
+              (!filter.entityId || row.entity_id === filter.entityId) &&
+              (!filter.from || row.created_at >= filter.from) &&
+              (!to || row.created_at < to)
+          )
+          .sort(byNewest)
+          .slice(offset, offset + limit)
+          .map(copy);
+      },
+    },
+
+    dataExports: {
+      async insert(row) {
+        const created: DataExportRow = {
+          ...copy(row),
+          id: crypto.randomUUID(),
+          row_count: null,
+          file_path: null,
+          error: null,
+          created_at: nowIso(),
+          finished_at: null,
+        };
+        dataExports.push(created);
+        return copy(created);
+      },
+
+      async findById(id) {
+        const row = dataExports.find((e) => e.id === id);
+        return row ? copy(row) : null;
+      },
+
+      async update(id, patch) {
+        return patchRow(dataExports, id, patch);
+      },
+
+      async listByAdmin(adminId, now, limit) {
+        return dataExports
+          .filter((row) => row.admin_id === adminId && row.expires_at > now)
+          .sort(byNewest)
+          .slice(0, limit)
+          .map(copy);
+      },
+
+      async listExpired(now, limit) {
+        return dataExports
+          .filter((row) => row.expires_at <= now)
+          .sort(byOldest)
+          .slice(0, limit)
+          .map(copy);
+      },
+
+      async remove(id) {
+        return removeRow(dataExports, id);
+      },
+    },
+
+    savedViews: {
+      async listVisible(adminId, tab) {
+        return views
+          .filter(
+            (row) => row.tab === tab && (row.shared || row.owner_id === adminId)
+          )
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(copy);
+      },
+
+      async findById(id) {
+        const view = views.find((row) => row.id === id);
+        return view ? copy(view) : null;
+      },
+
+      async insert(view) {
+        const row: SavedViewRow = {
+          ...copy(view),
+          id: crypto.randomUUID(),
+          created_at: nowIso(),
+          updated_at: nowIso(),
+        };
+        views.push(row);
+        return copy(row);
+      },
+
+      async update(id, patch) {
+        return patchRow(views, id, patch);
+      },
+
+      async remove(id) {
+        const view = removeRow(views, id);
+        if (view) {
+          pins.splice(
+            0,
+            pins.length,
+            ...pins.filter((pin) => pin.view_id !== id)
+          );
+        }
+        return view;
+      },
+
+      async listPins(adminId) {
+        return pins
+          .filter((pin) => pin.admin_id === adminId)
+          .map((pin) => pin.view_id);
+      },
+
+      async pin(adminId, viewId) {
+        if (
+          !pins.some((pin) => pin.admin_id === adminId && pin.view_id === viewId)
+        ) {
+          pins.push({ admin_id: adminId, view_id: viewId });
+        }
+      },
+
+      async unpin(adminId, viewId) {
+        const index = pins.findIndex(
+          (pin) => pin.admin_id === adminId && pin.view_id === viewId
+        );
+        if (index !== -1) pins.splice(index, 1);
+      },
+    },
+
+    files: {
+      // Fixture conversions point at paths that were never uploaded, so
+      // only objects uploaded since start are kept
+      async remove(bucket, path) {
+        objects.delete(`${bucket}/${path}`);
+      },
+
+      async removeMany(bucket, paths) {
+        paths.forEach((path) => objects.delete(`${bucket}/${path}`));
+      },
+
+      async list(bucket, prefix) {
+        const folder = `${bucket}/${prefix}/`;
+        return [...objects.keys()]
+          .filter((key) => key.startsWith(folder))
+          .map((key) => key.slice(bucket.length + 1));
+      },
+
+      async upload(bucket, path, body) {
+        objects.set(`${bucket}/${path}`, Buffer.from(body));
+      },
+
+      async download(bucket, path) {
+        const body = objects.get(`${bucket}/${path}`);
+        return body ? Buffer.from(body) : null;
+      },
+
+      async signedUrls(bucket, paths) {
+        return paths.map(() => null);
+      },
+    },
+  };
+};
@@ -0,0 +1,1290 @@
+import type { AuditEntry } from "../../../types/audit";
+import type {
+  ConversionStats,
+  SupportStats,
+  UserStats,
+} from "../../utils/apiSchemas";
+import type { User } from "../../../types/database";
+import type { SupportMessage, SupportTicket } from "../../../types/support";
+import { getSupabaseAdmin } from "../supabaseAdmin";
+import type {
+  AccountTokenRow,
+  AdminRepositories,
+  AdminRow,
+  AdminSessionRow,
+  BillingEventRow,
+  ConversionRow,
+  DataExportRow,
+  EmailCampaignRow,
+  EmailSendRow,
+  EmailSendStats,
+  PlanRow,
+  SavedViewRow,
+  UsageLedgerRow,
+  UserCascadeCounts,
+  UserFilter,
+} from "./types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Storage list and remove calls take at most this many objects
+const STORAGE_BATCH = 1000;
+
+// An ILIKE pattern for exactly this term, ignoring case
+const likeLiteral = (term: string) =>
+  term.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+// An ILIKE "contains" pattern, quoted so commas and parentheses in the
+// search term cannot break out of a PostgREST or() filter
+const containsPattern = (term: string) =>
+  `"%${likeLiteral(term).replace(/[\\"]/g, (c) => `\\${c}`)}%"`;
+
+// A literal for a PostgREST filter string, quoted so any value is safe
+const literal = (value: string | number) =>
+  `"${String(value).replace(/[\\"]/g, (c) => `\\${c}`)}"`;
+
+// The subset of a PostgREST query builder the filters below need
+interface FilterableQuery<T> {
+  or(filters: string): T;
+  eq(column: string, value: string): T;
+  gte(column: string, value: string | number): T;
+  lte(column: string, value: string | number): T;
+  lt(column: string, value: string): T;
+  ilike(column: string, pattern: string): T;
+  is(column: string, value: null): T;
+  not(column: string, operator: string, value: null): T;
+}
+
+// Live rows, or only rows in Trash when the filter asks for them
+const filterTrash = <T extends FilterableQuery<T>>(
+  query: T,
+  filter: { trashed?: boolean; trashedBefore?: string }
+): T => {
+  if (!filter.trashed) return query.is("deleted_at", null);
+
+  const request = query.not("deleted_at", "is", null);
+  return filter.trashedBefore
+    ? request.lt("deleted_at", filter.trashedBefore)
+    : request;
+};
+
+const filterUsers = <T extends FilterableQuery<T>>(
+  query: T,
+  filter: UserFilter
+): T => {
+  let request = filterTrash(query, filter);
+
+  if (filter.search) {
+    const pattern = containsPattern(filter.search);
+    request = request.or(
+      `name.ilike.${pattern},email.ilike.${pattern},subscription_id.ilike.${pattern}`
+    );
+  }
+  if (filter.plan) {
+    request = request.eq("subscription_plan", filter.plan);
+  }
+  if (filter.conversionsMin !== undefined) {
+    request = request.gte("conversions", filter.conversionsMin);
+  }
+  if (filter.conversionsMax !== undefined) {
+    request = request.lte("conversions", filter.conversionsMax);
+  }
+  if (filter.expiresFrom) {
+    request = request.gte("expiry_date", filter.expiresFrom);
+  }
+  if (filter.expiresBefore) {
+    request = request.lt("expiry_date", filter.expiresBefore);
+  }
+  if (filter.subscriptionId) {
+    request = request.ilike(
+      "subscription_id",
+      `%${filter.subscriptionId.replace(/[\\%_]/g, (c) => `\\${c}`)}%`
+    );
+  }
+  return request;
+};
+
+// The tables as they exist in Supabase, through the service-role client
+export const createSupabaseRepositories = (): AdminRepositories => {
+  const db = () => getSupabaseAdmin();
+
+  return {
+    users: {
+      async page(filter, sort, after, limit) {
+        const ascending = sort.direction === "asc";
+        let request = filterUsers(
+          db()
+            .from("users")
+            .select("*")
+            .order(sort.field, { ascending, nullsFirst: false })
+            .order("id", { ascending })
+            .limit(limit),
+          filter
+        );
+
+        // Rows after the cursor in this order. Nulls sort last, so a
+        // non-null cursor is followed by every null row.
+        if (after) {
+          const op = ascending ? "gt" : "lt";
+          const column = sort.field;
+          request = request.or(
+            after.value === null
+              ? `and(${column}.is.null,id.${op}.${after.id})`
+              : [
+                  `${column}.${op}.${literal(after.value)}`,
+                  `and(${column}.eq.${literal(after.value)},id.${op}.${after.id})`,
+                  `${column}.is.null`,
+                ].join(",")
+          );
+        }
+
+        const { data, error } = await request;
+        if (error) throw error;
+        return data as User[];
+      },
+
+      async findById(id) {
+        const { data, error } = await db()
+          .from("users")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as User | null;
+      },
+
+      async findByIds(ids) {
+        if (ids.length === 0) return [];
+        const { data, error } = await db()
+          .from("users")
+          .select("*")
+          .in("id", ids);
+
+        if (error) throw error;
+        return data as User[];
+      },
+
+      async findByEmail(email) {
+        const { data, error } = await db()
+          .from("users")
+          .select("*")
+          .ilike("email", likeLiteral(email))
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as User | null;
+      },
+
+      async findBySubscriptionId(subscriptionId) {
+        const { data, error } = await db()
+          .from("users")
+          .select("*")
+          .eq("subscription_id", subscriptionId)
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as User | null;
+      },
+
+      async searchIds(term, limit) {
+        const pattern = containsPattern(term);
+        const { data, error } = await db()
+          .from("users")
+          .select("id")
+          .or(`name.ilike.${pattern},email.ilike.${pattern}`)
+          .limit(limit);
+
+        if (error) throw error;
+        return data.map((row) => row.id as string);
+      },
+
+      async listIds(filter, limit, afterId) {
+        let request = filterUsers(
+          db().from("users").select("id").order("id").limit(limit),
+          filter
+        );
+        if (afterId) request = request.gt("id", afterId);
+
+        const { data, error } = await request;
+        if (error) throw error;
+        return data.map((row) => row.id as string);
+      },
+
+      async count(filter) {
+        // The count covers every match, whatever the limit
+        const { count, error } = await filterUsers(
+          db().from("users").select("id", { count: "exact" }).limit(1),
+          filter
+        );
+
+        if (error) throw error;
+        return count ?? 0;
+      },
+
+      async countOnPlan(planId) {
+        const { count, error } = await db()
+          .from("users")
+          .select("id", { count: "exact", head: true })
+          .eq("subscription_plan", planId);
+
+        if (error) throw error;
+        return count ?? 0;
+      },
+
+      async insert(user) {
+        const { data, error } = await db()
+          .from("users")
+          .insert(user)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as User;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("users")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as User | null;
+      },
+
+      async remove(id) {
+        const { data, error } = await db()
+          .from("users")
+          .delete()
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as User | null;
+      },
+
+      async removeCascade(id) {
+        const { data, error } = await db().rpc("admin_delete_user", {
+          p_user_id: id,
+        });
+
+        if (error) throw error;
+        return data as UserCascadeCounts | null;
+      },
+
+      async stats(filter, periods) {
+        const { data, error } = await db().rpc("admin_user_stats", {
+          p_search: filter.search ?? null,
+          p_plan: filter.plan ?? null,
+          p_conversions_min: filter.conversionsMin ?? null,
+          p_conversions_max: filter.conversionsMax ?? null,
+          p_expires_from: filter.expiresFrom ?? null,
+          p_expires_before: filter.expiresBefore ?? null,
+          p_subscription_id: filter.subscriptionId ?? null,
+          p_now: periods.now,
+          p_soon: periods.soon,
+          p_today: periods.today,
+          p_week: periods.week,
+          p_month: periods.month,
+          p_last_month: periods.lastMonth,
+        });
+
+        if (error) throw error;
+        return data as Omit<UserStats, "monthlyGrowth">;
+      },
+    },
+
+    conversions: {
+      async list(filter, offset, limit) {
+        // Owners are matched by name and email in the database
+        let request = filterTrash(
+          db()
+            .rpc("admin_conversions_matching", {
+              p_search: filter.search ?? null,
+            })
+            .select("*")
+            .order("created_at", { ascending: false })
+            .range(offset, offset + limit - 1),
+          filter
+        );
+
+        if (filter.voice) {
+          request = request.eq("voice", filter.voice);
+        }
+        if (filter.status) {
+          request = request.eq("status", filter.status);
+        }
+        if (filter.dateFrom) {
+          request = request.gte("created_at", filter.dateFrom);
+        }
+        if (filter.dateTo) {
+          request = request.lte("created_at", filter.dateTo);
+        }
+
+        const { data, error } = await request;
+        if (error) throw error;
+        return data as ConversionRow[];
+      },
+
+      async findById(id) {
+        const { data, error } = await db()
+          .from("conversions")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as ConversionRow | null;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("conversions")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as ConversionRow | null;
+      },
+
+      async remove(id) {
+        const { data, error } = await db()
+          .from("conversions")
+          .delete()
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as ConversionRow | null;
+      },
+
+      async stats(filter) {
+        const { data, error } = await db().rpc("admin_conversion_stats", {
+          p_search: filter.search ?? null,
+          p_voice: filter.voice ?? null,
+          p_status: filter.status ?? null,
+          p_date_from: filter.dateFrom ?? null,
+          p_date_to: filter.dateTo ?? null,
+          p_trashed: !!filter.trashed,
+        });
+
+        if (error) throw error;
+        return data as ConversionStats;
+      },
+
+      async listByUser(userId) {
+        const { data, error } = await db()
+          .from("conversions")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        return data as ConversionRow[];
+      },
+    },
+
+    plans: {
+      async list() {
+        const { data, error } = await db()
+          .from("plans")
+          .select("*")
+          .order("monthly_price")
+          .order("id");
+
+        if (error) throw error;
+        return data as PlanRow[];
+      },
+
+      async findById(id) {
+        const { data, error } = await db()
+          .from("plans")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as PlanRow | null;
+      },
+
+      async insert(plan) {
+        const { data, error } = await db()
+          .from("plans")
+          .insert(plan)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as PlanRow;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("plans")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as PlanRow | null;
+      },
+
+      async remove(id) {
+        const { data, error } = await db()
+          .from("plans")
+          .delete()
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as PlanRow | null;
+      },
+    },
+
+    usageLedger: {
+      async listForUser(userId, from, before) {
+        const { data, error } = await db()
+          .from("usage_ledger")
+          .select("*")
+          .eq("user_id", userId)
+          .gte("created_at", from)
+          .lt("created_at", before)
+          .order("created_at");
+
+        if (error) throw error;
+        return data as UsageLedgerRow[];
+      },
+
+      async insert(entry) {
+        const { data, error } = await db()
+          .from("usage_ledger")
+          .insert(entry)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as UsageLedgerRow;
+      },
+    },
+
+    billingEvents: {
+      async claim(event, at, staleBefore) {
+        const { data, error } = await db()
+          .from("billing_events")
+          .upsert(
+            { ...event, status: "received", received_at: at },
+            { onConflict: "id", ignoreDuplicates: true }
+          )
+          .select("id");
+
+        if (error) throw error;
+        if (data.length > 0) return true;
+
+        // Already recorded: only a failed or abandoned delivery is retried.
+        // The status condition makes the takeover atomic.
+        const { data: retried, error: retryError } = await db()
+          .from("billing_events")
+          .update({
+            status: "received",
+            error: null,
+            payload: event.payload,
+            received_at: at,
+            processed_at: null,
+          })
+          .eq("id", event.id)
+          .or(
+            `status.eq.failed,and(status.eq.received,received_at.lt.${literal(
+              staleBefore
+            )})`
+          )
+          .select("id");
+
+        if (retryError) throw retryError;
+        return retried.length > 0;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("billing_events")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as BillingEventRow | null;
+      },
+
+      async listByUser(userId, limit) {
+        const { data, error } = await db()
+          .from("billing_events")
+          .select("*")
+          .eq("user_id", userId)
+          .order("received_at", { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+        return data as BillingEventRow[];
+      },
+    },
+
+    emailCampaigns: {
+      async list() {
+        const { data, error } = await db()
+          .from("email_campaigns")
+          .select("*")
+          .order("offset_days")
+          .order("name");
+
+        if (error) throw error;
+        return data as EmailCampaignRow[];
+      },
+
+      async findById(id) {
+        const { data, error } = await db()
+          .from("email_campaigns")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as EmailCampaignRow | null;
+      },
+
+      async insert(campaign) {
+        const { data, error } = await db()
+          .from("email_campaigns")
+          .insert(campaign)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as EmailCampaignRow;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("email_campaigns")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as EmailCampaignRow | null;
+      },
+
+      async remove(id) {
+        const { data, error } = await db()
+          .from("email_campaigns")
+          .delete()
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as EmailCampaignRow | null;
+      },
+    },
+
+    emailSends: {
+      async claim(send, at, staleBefore) {
+        const { data, error } = await db()
+          .from("email_sends")
+          .upsert(
+            { ...send, status: "sending", created_at: at },
+            {
+              onConflict: "campaign_id,user_id,expiry_date",
+              ignoreDuplicates: true,
+            }
+          )
+          .select();
+
+        if (error) throw error;
+        if (data.length > 0) return data[0] as EmailSendRow;
+
+        // Already recorded: as for billing events, only a failed or
+        // abandoned send is taken over
+        const { data: retried, error: retryError } = await db()
+          .from("email_sends")
+          .update({
+            email: send.email,
+            status: "sending",
+            error: null,
+            created_at: at,
+          })
+          .eq("campaign_id", send.campaign_id)
+          .eq("user_id", send.user_id)
+          .eq("expiry_date", send.expiry_date)
+          .or(
+            `status.eq.failed,and(status.eq.sending,created_at.lt.${literal(
+              staleBefore
+            )})`
+          )
+          .select()
+          .maybeSingle();
+
+        if (retryError) throw retryError;
+        return retried as EmailSendRow | null;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("email_sends")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as EmailSendRow | null;
+      },
+
+      async listRecent(limit) {
+        const { data, error } = await db()
+          .from("email_sends")
+          .select("*")
+          .order("created_at", { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+        return data as EmailSendRow[];
+      },
+
+      async stats(since) {
+        const { data, error } = await db().rpc("admin_email_send_stats", {
+          p_since: since,
+        });
+
+        if (error) throw error;
+        return data as EmailSendStats;
+      },
+    },
+
+    supportTickets: {
+      async list() {
+        const { data, error } = await db()
+          .from("support_tickets")
+          .select("*")
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        return data as SupportTicket[];
+      },
+
+      async page(filter, offset, limit) {
+        // Ticket ids are matched as text, which PostgREST filters cannot do
+        const { data, error } = await db()
+          .rpc("admin_support_ticket_page", {
+            p_search: filter.search ?? null,
+            p_user_ids: filter.userIds ?? null,
+            p_status: filter.status ?? null,
+            p_subject: filter.subject ?? null,
+            p_created_from: filter.createdFrom ?? null,
+            p_created_before: filter.createdBefore ?? null,
+            p_offset: offset,
+            p_limit: limit,
+          });
+
+        if (error) throw error;
+        return data as SupportTicket[];
+      },
+
+      async listByUser(userId) {
+        const { data, error } = await db()
+          .from("support_tickets")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        return data as SupportTicket[];
+      },
+
+      async findById(id) {
+        const { data, error } = await db()
+          .from("support_tickets")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as SupportTicket | null;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("support_tickets")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as SupportTicket | null;
+      },
+
+      async stats(filter, periods) {
+        const { data, error } = await db().rpc("admin_support_stats", {
+          p_search: filter.search ?? null,
+          p_user_ids: filter.userIds ?? null,
+          p_status: filter.status ?? null,
+          p_subject: filter.subject ?? null,
+          p_created_from: filter.createdFrom ?? null,
+          p_created_before: filter.createdBefore ?? null,
+          p_today: periods.today,
+          p_week: periods.week,
+          p_month: periods.month,
+        });
+
+        if (error) throw error;
+        return data as SupportStats;
+      },
+    },
+
+    supportMessages: {
+      async list() {
+        const { data, error } = await db()
+          .from("support_messages")
+          .select("*")
+          .order("created_at", { ascending: true });
+
+        if (error) throw error;
+        return data as SupportMessage[];
+      },
+
+      async listByTickets(ticketIds) {
+        if (ticketIds.length === 0) return [];
+        const { data, error } = await db()
+          .from("support_messages")
+          .select("*")
+          .in("ticket_id", ticketIds)
+          .order("created_at", { ascending: true });
+
+        if (error) throw error;
+        return data as SupportMessage[];
+      },
+
+      async insert(message) {
+        const { data, error } = await db()
+          .from("support_messages")
+          .insert(message)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as SupportMessage;
+      },
+
+      async markUserMessagesRead(ticketId) {
+        const { error } = await db()
+          .from("support_messages")
+          .update({ read: true })
+          .eq("ticket_id", ticketId)
+          .eq("sender_type", "user")
+          .eq("read", false);
+
+        if (error) throw error;
+      },
+    },
+
+    admins: {
+      async list() {
+        const { data, error } = await db()
+          .from("admin")
+          .select("*")
+          .order("created_at", { ascending: true });
+
+        if (error) throw error;
+        return data as AdminRow[];
+      },
+
+      async findById(id) {
+        const { data, error } = await db()
+          .from("admin")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as AdminRow | null;
+      },
+
+      async findByEmail(email) {
+        const { data, error } = await db()
+          .from("admin")
+          .select("*")
+          .eq("email", email)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as AdminRow | null;
+      },
+
+      async insert(admin) {
+        const { data, error } = await db()
+          .from("admin")
+          .insert(admin)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as AdminRow;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("admin")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as AdminRow | null;
+      },
+
+      async consumeRecoveryCode(id, used, remaining) {
+        const { data, error } = await db()
+          .from("admin")
+          .update({ totp_recovery_codes: remaining })
+          .eq("id", id)
+          .contains("totp_recovery_codes", [used])
+          .select("id")
+          .maybeSingle();
+
+        if (error) throw error;
+        return !!data;
+      },
+
+      async claimTotpStep(id, step) {
+        const { data, error } = await db()
+          .from("admin")
+          .update({ totp_last_step: step })
+          .eq("id", id)
+          .or(`totp_last_step.is.null,totp_last_step.lt.${step}`)
+          .select("id")
+          .maybeSingle();
+
+        if (error) throw error;
+        return !!data;
+      },
+    },
+
+    adminSessions: {
+      async insert(session) {
+        const { data, error } = await db()
+          .from("admin_sessions")
+          .insert(session)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as AdminSessionRow;
+      },
+
+      async findActive(id, adminId) {
+        const { data, error } = await db()
+          .from("admin_sessions")
+          .select("*")
+          .eq("id", id)
+          .eq("admin_id", adminId)
+          .is("revoked_at", null)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as AdminSessionRow | null;
+      },
+
+      async touch(id, at) {
+        const { error } = await db()
+          .from("admin_sessions")
+          .update({ last_seen_at: at })
+          .eq("id", id);
+
+        if (error) throw error;
+      },
+
+      async revoke(id, at) {
+        const { error } = await db()
+          .from("admin_sessions")
+          .update({ revoked_at: at })
+          .eq("id", id)
+          .is("revoked_at", null);
+
+        if (error) throw error;
+      },
+
+      async revokeAll(adminId, at) {
+        const { error } = await db()
+          .from("admin_sessions")
+          .update({ revoked_at: at })
+          .eq("admin_id", adminId)
+          .is("revoked_at", null);
+
+        if (error) throw error;
+      },
+    },
+
+    accountTokens: {
+      async insert(token) {
+        const { data, error } = await db()
+          .from("admin_account_tokens")
+          .insert(token)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as AccountTokenRow;
+      },
+
+      async removeUnused(purpose, email) {
+        const { error } = await db()
+          .from("admin_account_tokens")
+          .delete()
+          .eq("purpose", purpose)
+          .eq("email", email)
+          .is("used_at", null);
+
+        if (error) throw error;
+      },
+
+      async findUsable(tokenHash, now) {
+        const { data, error } = await db()
+          .from("admin_account_tokens")
+          .select("*")
+          .eq("token_hash", tokenHash)
+          .is("used_at", null)
+          .gt("expires_at", now)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as AccountTokenRow | null;
+      },
+
+      async listPendingInvites(now) {
+        const { data, error } = await db()
+          .from("admin_account_tokens")
+          .select("*")
+          .eq("purpose", "invite")
+          .is("used_at", null)
+          .gt("expires_at", now)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        return data as AccountTokenRow[];
+      },
+
+      async removePendingInvite(id) {
+        const { data, error } = await db()
+          .from("admin_account_tokens")
+          .delete()
+          .eq("id", id)
+          .eq("purpose", "invite")
+          .is("used_at", null)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as AccountTokenRow | null;
+      },
+
+      async claim(id, at) {
+        const { data, error } = await db()
+          .from("admin_account_tokens")
+          .update({ used_at: at })
+          .eq("id", id)
+          .is("used_at", null)
+          .select("id")
+          .maybeSingle();
+
+        if (error) throw error;
+        return !!data;
+      },
+    },
+
+    auditLog: {
+      async insert(entry) {
+        const { error } = await db().from("admin_audit_log").insert(entry);
+        if (error) throw error;
+      },
+
+      async list(filter, offset, limit) {
+        let request = db()
+          .from("admin_audit_log")
+          .select("*")
+          .order("created_at", { ascending: false })
+          // Ties broken by id so that consecutive pages never overlap
+          .order("id", { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (filter.admin) {
+          const escaped = filter.admin.replace(/[\\%_]/g, (c) => `\\${c}`);
+          request = request.ilike("admin_email", `%${escaped}%`);
+        }
+        if (filter.entity) {
+          request = request.eq("entity", filter.entity);
+        }
+        if (filter.entityId) {
+          request = request.eq("entity_id", filter.entityId);
+        }
+        if (filter.from) {
+          request = request.gte("created_at", filter.from);
+        }
+        if (filter.to) {
+          // Inclusive of the whole "to" day
+          request = request.lt(
+            "created_at",
+            new Date(new Date(filter.to).getTime() + DAY).toISOString()
+          );
+        }
+
+        const { data, error } = await request;
+        if (error) throw error;
+        return data as AuditEntry[];
+      },
+    },
+
+    dataExports: {
+      async insert(row) {
+        const { data, error } = await db()
+          .from("data_exports")
+          .insert(row)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as DataExportRow;
+      },
+
+      async findById(id) {
+        const { data, error } = await db()
+          .from("data_exports")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as DataExportRow | null;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("data_exports")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as DataExportRow | null;
+      },
+
+      async listByAdmin(adminId, now, limit) {
+        const { data, error } = await db()
+          .from("data_exports")
+          .select("*")
+          .eq("admin_id", adminId)
+          .gt("expires_at", now)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+        return data as DataExportRow[];
+      },
+
+      async listExpired(now, limit) {
+        const { data, error } = await db()
+          .from("data_exports")
+          .select("*")
+          .lte("expires_at", now)
+          .order("created_at")
+          .limit(limit);
+
+        if (error) throw error;
+        return data as DataExportRow[];
+      },
+
+      async remove(id) {
+        const { data, error } = await db()
+          .from("data_exports")
+          .delete()
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as DataExportRow | null;
+      },
+    },
+
+    savedViews: {
+      async listVisible(adminId, tab) {
+        const { data, error } = await db()
+          .from("saved_views")
+          .select("*")
+          .eq("tab", tab)
+          .or(`shared.eq.true,owner_id.eq.${adminId}`)
+          .order("name");
+
+        if (error) throw error;
+        return data as SavedViewRow[];
+      },
+
+      async findById(id) {
+        const { data, error } = await db()
+          .from("saved_views")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as SavedViewRow | null;
+      },
+
+      async insert(view) {
+        const { data, error } = await db()
+          .from("saved_views")
+          .insert(view)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as SavedViewRow;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db()
+          .from("saved_views")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as SavedViewRow | null;
+      },
+
+      // saved_view_pins cascades
+      async remove(id) {
+        const { data, error } = await db()
+          .from("saved_views")
+          .delete()
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as SavedViewRow | null;
+      },
+
+      async listPins(adminId) {
+        const { data, error } = await db()
+          .from("saved_view_pins")
+          .select("view_id")
+          .eq("admin_id", adminId);
+
+        if (error) throw error;
+        return (data as { view_id: string }[]).map((row) => row.view_id);
+      },
+
+      async pin(adminId, viewId) {
+        const { error } = await db()
+          .from("saved_view_pins")
+          .upsert(
+            { admin_id: adminId, view_id: viewId },
+            { onConflict: "admin_id,view_id", ignoreDuplicates: true }
+          );
+
+        if (error) throw error;
+      },
+
+      async unpin(adminId, viewId) {
+        const { error } = await db()
+          .from("saved_view_pins")
+          .delete()
+          .eq("admin_id", adminId)
+          .eq("view_id", viewId);
+
+        if (error) throw error;
+      },
+    },
+
+    files: {
+      async remove(bucket, path) {
+        const { error } = await db().storage.from(bucket).remove([path]);
+        if (error) throw error;
+      },
+
+      async removeMany(bucket, paths) {
+        for (let i = 0; i < paths.length; i += STORAGE_BATCH) {
+          const { error } = await db()
+            .storage.from(bucket)
+            .remove(paths.slice(i, i + STORAGE_BATCH));
+          if (error) throw error;
+        }
+      },
+
+      async list(bucket, prefix) {
+        const paths: string[] = [];
+        for (let offset = 0; ; offset += STORAGE_BATCH) {
+          const { data, error } = await db()
+            .storage.from(bucket)
+            .list(prefix, { limit: STORAGE_BATCH, offset });
+          if (error) throw error;
+
+          for (const entry of data) {
+            const path = `${prefix}/${entry.name}`;
+            // Folders come back without an id
+            if (entry.id === null) {
+              paths.push(...(await this.list(bucket, path)));
+            } else {
+              paths.push(path);
+            }
+          }
+          if (data.length < STORAGE_BATCH) return paths;
+        }
+      },
+
+      async upload(bucket, path, body, contentType) {
+        const { error } = await db()
+          .storage.from(bucket)
+          .upload(path, body, { contentType, upsert: true });
+        if (error) throw error;
+      },
+
+      async download(bucket, path) {
+        const { data, error } = await db().storage.from(bucket).download(path);
+        if (error) {
+          // A missing object is a 404 from the storage API
+          if ((error as { statusCode?: string }).statusCode === "404") {
+            return null;
+          }
+          throw error;
+        }
+        return Buffer.from(await data.arrayBuffer());
+      },
+
+      async signedUrls(bucket, paths, expiresIn) {
+        if (paths.length === 0) return [];
+        const { data, error } = await db()
+          .storage.from(bucket)
+          .createSignedUrls(paths, expiresIn);
+
+        if (error) throw error;
+        return data.map((entry) => (entry.error ? null : entry.signedUrl));
+      },
+    },
+  };
+};
@@ -0,0 +1,569 @@
+import type { AuditEntity, AuditEntry } from "../../../types/audit";
+import type { User } from "../../../types/database";
+import type { SupportMessage, SupportTicket } from "../../../types/support";
+import type { AdminUser } from "../../utils/adminAuth";
+import type { ExportDataset, ExportFormat } from "../../utils/exports";
+import type { SavedViewTab } from "../../utils/savedViews";
+import type {
+  ConversionStats,
+  SupportStats,
+  UserStats,
+} from "../../utils/apiSchemas";
+import type { UserSort } from "../../utils/userFilters";
+
+// Storage-agnostic access to every table the admin panel reads or writes.
+// Timestamps are ISO strings throughout, as Postgres returns them. Methods
+// that target a single row return null when it does not exist.
+
+export interface ConversionRow {
+  id: string;
+  user_id: string;
+  pdf_path: string | null;
+  audio_path: string | null;
+  pdf_filename: string;
+  pdf_size: number;
+  audio_size: number | null;
+  voice: string;
+  voice_settings: unknown;
+  text_length: number | null;
+  audio_duration: number | null;
+  status: string;
+  completed_at: string | null;
+  created_at: string;
+  // Set while the conversion is in Trash
+  deleted_at: string | null;
+  deleted_by: string | null;
+}
+
+// A plan in the catalog; users.subscription_plan holds its id
+export interface PlanRow {
+  id: string;
+  name: string;
+  // Null: unlimited
+  monthly_conversions: number | null;
+  max_pdf_mb: number;
+  allowed_voices: string[];
+  monthly_price: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// One line of a user's conversion usage: a conversion they made, or extra
+// conversions an admin granted for the current billing period
+export interface UsageLedgerRow {
+  id: string;
+  user_id: string;
+  kind: "conversion" | "top_up";
+  amount: number;
+  conversion_id: string | null;
+  note: string | null;
+  // Admin email, for top-ups
+  created_by: string | null;
+  created_at: string;
+}
+
+// A payment provider webhook delivery; id is the provider's event id
+export interface BillingEventRow {
+  id: string;
+  type: string;
+  subscription_id: string;
+  user_id: string | null;
+  status: "received" | "processed" | "ignored" | "failed";
+  // Why the event was ignored or failed
+  error: string | null;
+  payload: unknown;
+  received_at: string;
+  processed_at: string | null;
+}
+
+export interface EmailCampaignRow {
+  id: string;
+  name: string;
+  // Days from the expiry date: negative before it, positive after
+  offset_days: number;
+  subject: string;
+  body: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// One campaign email to one user for one expiry date
+export interface EmailSendRow {
+  id: string;
+  campaign_id: string;
+  user_id: string;
+  expiry_date: string;
+  email: string;
+  status: "sending" | "sent" | "failed";
+  error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+// Per campaign, keyed by campaign id
+export type EmailSendStats = Record<
+  string,
+  { sent: number; failed: number; lastSentAt: string | null }
+>;
+
+// One CSV or XLSX export of a tab's filtered rows. Small exports stream
+// straight to the browser; large ones are built by a background job and kept
+// in the exports bucket until they expire.
+export interface DataExportRow {
+  id: string;
+  admin_id: string;
+  dataset: ExportDataset;
+  format: ExportFormat;
+  // Column keys, in file order
+  columns: string[];
+  // The tab's list parameters, as validated by the dataset's query schema
+  query: Record<string, unknown>;
+  background: boolean;
+  status: "queued" | "running" | "done" | "failed";
+  row_count: number | null;
+  // Object key in the exports bucket, once a background export is built
+  file_path: string | null;
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+  expires_at: string;
+}
+
+// A named filter view of one tab, private to its owner unless shared
+export interface SavedViewRow {
+  id: string;
+  owner_id: string;
+  tab: SavedViewTab;
+  name: string;
+  // The tab's list parameters, as in its URL
+  query: Record<string, string>;
+  shared: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// The full admin row, secrets included. Convert with toAdminUser before it
+// leaves the server.
+export interface AdminRow extends AdminUser {
+  password_hash: string | null;
+  totp_secret: string | null;
+  totp_pending_secret: string | null;
+  totp_recovery_codes: string[] | null;
+  totp_enrolled_at: string | null;
+  // Time step of the last TOTP code accepted; codes up to it are refused
+  totp_last_step: number | null;
+  last_login_at: string | null;
+  disabled_at: string | null;
+  disabled_by: string | null;
+}
+
+export interface AdminSessionRow {
+  id: string;
+  admin_id: string;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  ip: string | null;
+  user_agent: string | null;
+}
+
+export interface AccountTokenRow {
+  id: string;
+  purpose: "invite" | "password_reset";
+  token_hash: string;
+  email: string;
+  name: string;
+  role: AdminUser["role"];
+  admin_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string;
+  used_at: string | null;
+}
+
+// Start of each "new today / this week / this month" counter
+export interface StatsPeriods {
+  today: string;
+  week: string;
+  month: string;
+}
+
+export interface UserStatsPeriods extends StatsPeriods {
+  // Start of the previous month; it ends where `month` starts
+  lastMonth: string;
+  // Expiry before `now` is expired, before `soon` expiring soon
+  now: string;
+  soon: string;
+}
+
+export interface UserFilter {
+  // Name, email or subscription id contains (case-insensitive)
+  search?: string;
+  plan?: string;
+  conversionsMin?: number;
+  conversionsMax?: number;
+  // Expiry date window: from inclusive, before exclusive
+  expiresFrom?: string;
+  expiresBefore?: string;
+  // Subscription id contains
+  subscriptionId?: string;
+  // Users in Trash instead of live ones, optionally only those moved there
+  // before a time
+  trashed?: boolean;
+  trashedBefore?: string;
+}
+
+// Rows removed together with a user
+export interface UserCascadeCounts {
+  conversions: number;
+  supportTickets: number;
+  supportMessages: number;
+}
+
+// Position after the last row of the previous page: its sort value and id
+// (the tie-breaker)
+export interface UserCursor {
+  value: string | number | null;
+  id: string;
+}
+
+export interface UserRepository {
+  // Keyset page in the given order, nulls last, ties broken by id
+  page(
+    filter: UserFilter,
+    sort: UserSort,
+    after: UserCursor | null,
+    limit: number
+  ): Promise<User[]>;
+  findById(id: string): Promise<User | null>;
+  findByIds(ids: string[]): Promise<User[]>;
+  // Case-insensitive match, in Trash or not
+  findByEmail(email: string): Promise<User | null>;
+  findBySubscriptionId(subscriptionId: string): Promise<User | null>;
+  // Ids of users whose name or email contains the term (case-insensitive)
+  searchIds(term: string, limit: number): Promise<string[]>;
+  // Ids of users matching the filter, in id order; with `afterId`, only
+  // those after it
+  listIds(
+    filter: UserFilter,
+    limit: number,
+    afterId?: string
+  ): Promise<string[]>;
+  count(filter: UserFilter): Promise<number>;
+  // Users on the plan, Trash included
+  countOnPlan(planId: string): Promise<number>;
+  insert(user: Omit<User, "id" | "created_at" | "updated_at">): Promise<User>;
+  update(id: string, patch: Partial<User>): Promise<User | null>;
+  remove(id: string): Promise<User | null>;
+  // Delete the user with everything they own (conversions, tickets and
+  // their messages, usage ledger, billing events, email sends) in one
+  // transaction; null when the user does not exist
+  removeCascade(id: string): Promise<UserCascadeCounts | null>;
+  stats(
+    filter: UserFilter,
+    periods: UserStatsPeriods
+  ): Promise<Omit<UserStats, "monthlyGrowth">>;
+}
+
+export interface ConversionFilter {
+  // Filename or the owner's name or email contains, or exact id
+  search?: string;
+  voice?: string;
+  status?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  // As for UserFilter
+  trashed?: boolean;
+  trashedBefore?: string;
+}
+
+export interface ConversionRepository {
+  // Newest first
+  list(
+    filter: ConversionFilter,
+    offset: number,
+    limit: number
+  ): Promise<ConversionRow[]>;
+  findById(id: string): Promise<ConversionRow | null>;
+  update(
+    id: string,
+    patch: Partial<ConversionRow>
+  ): Promise<ConversionRow | null>;
+  remove(id: string): Promise<ConversionRow | null>;
+  stats(filter: ConversionFilter): Promise<ConversionStats>;
+  // Every conversion of one user, newest first
+  listByUser(userId: string): Promise<ConversionRow[]>;
+}
+
+export interface PlanRepository {
+  // Cheapest first
+  list(): Promise<PlanRow[]>;
+  findById(id: string): Promise<PlanRow | null>;
+  insert(plan: Omit<PlanRow, "created_at" | "updated_at">): Promise<PlanRow>;
+  update(id: string, patch: Partial<PlanRow>): Promise<PlanRow | null>;
+  remove(id: string): Promise<PlanRow | null>;
+}
+
+export interface UsageLedgerRepository {
+  // One user's entries created in [from, before), oldest first
+  listForUser(
+    userId: string,
+    from: string,
+    before: string
+  ): Promise<UsageLedgerRow[]>;
+  insert(
+    entry: Omit<UsageLedgerRow, "id" | "created_at">
+  ): Promise<UsageLedgerRow>;
+}
+
+export interface BillingEventRepository {
+  // Record a delivery as received and return true, so exactly one delivery
+  // of an event gets to apply it. False when the event is already recorded,
+  // unless it failed or has been stuck in "received" since before
+  // `staleBefore`: then this delivery takes it over.
+  claim(
+    event: Pick<BillingEventRow, "id" | "type" | "subscription_id" | "payload">,
+    at: string,
+    staleBefore: string
+  ): Promise<boolean>;
+  update(
+    id: string,
+    patch: Partial<BillingEventRow>
+  ): Promise<BillingEventRow | null>;
+  // Newest first
+  listByUser(userId: string, limit: number): Promise<BillingEventRow[]>;
+}
+
+export interface EmailCampaignRepository {
+  // By offset (earliest first), then name
+  list(): Promise<EmailCampaignRow[]>;
+  findById(id: string): Promise<EmailCampaignRow | null>;
+  insert(
+    campaign: Omit<EmailCampaignRow, "id" | "created_at" | "updated_at">
+  ): Promise<EmailCampaignRow>;
+  update(
+    id: string,
+    patch: Partial<EmailCampaignRow>
+  ): Promise<EmailCampaignRow | null>;
+  remove(id: string): Promise<EmailCampaignRow | null>;
+}
+
+export interface EmailSendRepository {
+  // Record a send as "sending" and return it, so each campaign emails a user
+  // once per expiry date. Null when it is already recorded, unless it failed
+  // or has been stuck in "sending" since before `staleBefore`: then it is
+  // returned again for a retry.
+  claim(
+    send: Pick<
+      EmailSendRow,
+      "campaign_id" | "user_id" | "expiry_date" | "email"
+    >,
+    at: string,
+    staleBefore: string
+  ): Promise<EmailSendRow | null>;
+  update(
+    id: string,
+    patch: Partial<EmailSendRow>
+  ): Promise<EmailSendRow | null>;
+  // Newest first
+  listRecent(limit: number): Promise<EmailSendRow[]>;
+  // Counts of sends recorded since the given time
+  stats(since: string): Promise<EmailSendStats>;
+}
+
+export interface SupportTicketFilter {
+  // Ticket id contains
+  search?: string;
+  // Also match tickets opened by these users (an OR with search)
+  userIds?: string[];
+  status?: string;
+  subject?: string;
+  // Created at: from inclusive, before exclusive
+  createdFrom?: string;
+  createdBefore?: string;
+}
+
+export interface SupportTicketRepository {
+  // Newest first
+  list(): Promise<SupportTicket[]>;
+  // Newest first, matching the filter
+  page(
+    filter: SupportTicketFilter,
+    offset: number,
+    limit: number
+  ): Promise<SupportTicket[]>;
+  listByUser(userId: string): Promise<SupportTicket[]>;
+  findById(id: string): Promise<SupportTicket | null>;
+  update(
+    id: string,
+    patch: Partial<SupportTicket>
+  ): Promise<SupportTicket | null>;
+  stats(
+    filter: SupportTicketFilter,
+    periods: StatsPeriods
+  ): Promise<SupportStats>;
+}
+
+export interface SupportMessageRepository {
+  // Oldest first
+  list(): Promise<SupportMessage[]>;
+  listByTickets(ticketIds: string[]): Promise<SupportMessage[]>;
+  insert(
+    message: Omit<SupportMessage, "id" | "created_at">
+  ): Promise<SupportMessage>;
+  markUserMessagesRead(ticketId: string): Promise<void>;
+}
+
+export interface AdminRepository {
+  // Oldest first
+  list(): Promise<AdminRow[]>;
+  findById(id: string): Promise<AdminRow | null>;
+  findByEmail(email: string): Promise<AdminRow | null>;
+  insert(
+    admin: Pick<AdminRow, "name" | "email" | "role" | "password_hash">
+  ): Promise<AdminRow>;
+  update(id: string, patch: Partial<AdminRow>): Promise<AdminRow | null>;
+  // Replace the recovery codes with `remaining`, but only while `used` is
+  // still stored, so two requests with the same code cannot both succeed.
+  consumeRecoveryCode(
+    id: string,
+    used: string,
+    remaining: string[]
+  ): Promise<boolean>;
+  // Record `step` as the last TOTP step used, but only while it is after the
+  // stored one, so a code cannot be used twice.
+  claimTotpStep(id: string, step: number): Promise<boolean>;
+}
+
+export interface AdminSessionRepository {
+  insert(
+    session: Omit<AdminSessionRow, "id" | "revoked_at">
+  ): Promise<AdminSessionRow>;
+  // The session if it belongs to the admin and has not been revoked
+  findActive(id: string, adminId: string): Promise<AdminSessionRow | null>;
+  touch(id: string, at: string): Promise<void>;
+  revoke(id: string, at: string): Promise<void>;
+  revokeAll(adminId: string, at: string): Promise<void>;
+}
+
+export interface AccountTokenRepository {
+  insert(
+    token: Omit<AccountTokenRow, "id" | "created_at" | "used_at">
+  ): Promise<AccountTokenRow>;
+  // Drop unused links of this purpose for the email
+  removeUnused(
+    purpose: AccountTokenRow["purpose"],
+    email: string
+  ): Promise<void>;
+  // Unused and unexpired at `now`
+  findUsable(tokenHash: string, now: string): Promise<AccountTokenRow | null>;
+  // Unused, unexpired invites, newest first
+  listPendingInvites(now: string): Promise<AccountTokenRow[]>;
+  removePendingInvite(id: string): Promise<AccountTokenRow | null>;
+  // Mark used if still unused; false if someone else got there first
+  claim(id: string, at: string): Promise<boolean>;
+}
+
+export interface AuditFilter {
+  // Admin email contains
+  admin?: string;
+  entity?: AuditEntity;
+  entityId?: string;
+  // YYYY-MM-DD, both inclusive
+  from?: string;
+  to?: string;
+}
+
+export interface AuditLogRepository {
+  insert(entry: Omit<AuditEntry, "id" | "created_at">): Promise<void>;
+  // Newest first
+  list(filter: AuditFilter, offset: number, limit: number): Promise<AuditEntry[]>;
+}
+
+export interface DataExportRepository {
+  insert(
+    row: Omit<
+      DataExportRow,
+      "id" | "created_at" | "row_count" | "file_path" | "error" | "finished_at"
+    >
+  ): Promise<DataExportRow>;
+  findById(id: string): Promise<DataExportRow | null>;
+  update(
+    id: string,
+    patch: Partial<DataExportRow>
+  ): Promise<DataExportRow | null>;
+  // The admin's exports that have not expired at `now`, newest first
+  listByAdmin(
+    adminId: string,
+    now: string,
+    limit: number
+  ): Promise<DataExportRow[]>;
+  // Expired at `now`, oldest first
+  listExpired(now: string, limit: number): Promise<DataExportRow[]>;
+  remove(id: string): Promise<DataExportRow | null>;
+}
+
+export interface SavedViewRepository {
+  // The tab's views the admin owns or that are shared, by name
+  listVisible(adminId: string, tab: SavedViewTab): Promise<SavedViewRow[]>;
+  findById(id: string): Promise<SavedViewRow | null>;
+  insert(
+    view: Omit<SavedViewRow, "id" | "created_at" | "updated_at">
+  ): Promise<SavedViewRow>;
+  update(
+    id: string,
+    patch: Partial<SavedViewRow>
+  ): Promise<SavedViewRow | null>;
+  // Its pins go with it
+  remove(id: string): Promise<SavedViewRow | null>;
+  // Ids of the views the admin pinned
+  listPins(adminId: string): Promise<string[]>;
+  // Pinning twice, or unpinning what is not pinned, is not an error
+  pin(adminId: string, viewId: string): Promise<void>;
+  unpin(adminId: string, viewId: string): Promise<void>;
+}
+
+export interface FileStorage {
+  remove(bucket: string, path: string): Promise<void>;
+  // Missing objects are skipped, not an error
+  removeMany(bucket: string, paths: string[]): Promise<void>;
+  // Paths of every object under a folder ("<prefix>/..."), subfolders included
+  list(bucket: string, prefix: string): Promise<string[]>;
+  // Creates or replaces the object
+  upload(
+    bucket: string,
+    path: string,
+    body: Buffer,
+    contentType: string
+  ): Promise<void>;
+  // Null when the object does not exist
+  download(bucket: string, path: string): Promise<Buffer | null>;
+  // Temporary download links, in the order of `paths`; null where an object
+  // cannot be signed (e.g. it no longer exists)
+  signedUrls(
+    bucket: string,
+    paths: string[],
+    expiresIn: number
+  ): Promise<(string | null)[]>;
+}
+
+export interface AdminRepositories {
+  users: UserRepository;
+  conversions: ConversionRepository;
+  plans: PlanRepository;
+  usageLedger: UsageLedgerRepository;
+  billingEvents: BillingEventRepository;
+  emailCampaigns: EmailCampaignRepository;
+  emailSends: EmailSendRepository;
+  supportTickets: SupportTicketRepository;
+  supportMessages: SupportMessageRepository;
+  admins: AdminRepository;
+  adminSessions: AdminSessionRepository;
+  accountTokens: AccountTokenRepository;
+  auditLog: AuditLogRepository;
+  dataExports: DataExportRepository;
+  savedViews: SavedViewRepository;
+  files: FileStorage;
+}
@@ -0,0 +1,250 @@
+import type { z } from "zod";
+import type { AdminUser } from "../utils/adminAuth";
+import type { SavedViewRecord } from "../utils/apiSchemas";
+import { hasPermission, type Permission } from "../utils/permissions";
+import type {
+  SavedViewInput,
+  SavedViewPatch,
+  SavedViewTab,
+} from "../utils/savedViews";
+import { pick, recordAudit } from "./audit";
+import {
+  conversionTabQuerySchema,
+  type ConversionTabQuery,
+} from "./conversions";
+import { AdminApiError } from "./guard";
+import { repositories, type SavedViewRow } from "./repositories";
+import { getConversionStats, getSupportStats } from "./stats";
+import { supportQuerySchema, type SupportQuery } from "./support";
+import { toUserFilter, userTabQuerySchema, type UserTabQuery } from "./users";
+
+interface ViewSource<TQuery> {
+  permission: Permission;
+  query: z.ZodType<TQuery>;
+  // Rows matching the query right now
+  count: (query: TQuery) => Promise<number>;
+}
+
+// Who may see each tab's views, what their queries take and how to count
+// what they match
+const SOURCES: {
+  users: ViewSource<UserTabQuery>;
+  conversions: ViewSource<ConversionTabQuery>;
+  support: ViewSource<SupportQuery>;
+} = {
+  users: {
+    permission: "users:view",
+    query: userTabQuerySchema,
+    count: (query) =>
+      repositories().users.count({
+        ...toUserFilter(query),
+        trashed: query.trash === "1",
+      }),
+  },
+  conversions: {
+    permission: "conversions:view",
+    query: conversionTabQuerySchema,
+    count: async ({ trash, ...filters }) =>
+      (await getConversionStats(filters, trash === "1")).total,
+  },
+  support: {
+    permission: "support:view",
+    query: supportQuerySchema,
+    count: async (query) => (await getSupportStats(query)).total,
+  },
+};
+
+const assertTabAllowed = (admin: AdminUser, tab: SavedViewTab) => {
+  if (!hasPermission(admin, SOURCES[tab].permission)) {
+    throw new AdminApiError(403, "forbidden", "You cannot view this tab");
+  }
+};
+
+// Checked when saved, so a view always opens; stored as given, since the
+// tab reads it back from its URL form
+const assertValidQuery = (
+  tab: SavedViewTab,
+  query: Record<string, string>
+) => {
+  const result = SOURCES[tab].query.safeParse(query);
+  if (!result.success) {
+    throw new AdminApiError(
+      422,
+      "validation_failed",
+      "Invalid view filters",
+      result.error.issues.map((issue) => ({
+        path: ["query", ...issue.path].join("."),
+        message: issue.message,
+      }))
+    );
+  }
+};
+
+// Null when the count fails, e.g. for a view saved before a filter changed
+const countView = async (view: SavedViewRow): Promise<number | null> => {
+  const source = SOURCES[view.tab] as ViewSource<unknown>;
+  const result = source.query.safeParse(view.query);
+  if (!result.success) return null;
+  try {
+    return await source.count(result.data);
+  } catch (error) {
+    console.error("Saved view count failed:", view.id, error);
+    return null;
+  }
+};
+
+const toRecord = async (
+  admin: AdminUser,
+  view: SavedViewRow,
+  pinned: boolean,
+  ownerName: string | null
+): Promise<SavedViewRecord> => ({
+  id: view.id,
+  tab: view.tab,
+  name: view.name,
+  query: view.query,
+  shared: view.shared,
+  mine: view.owner_id === admin.id,
+  owner_name: ownerName,
+  pinned,
+  count: pinned ? await countView(view) : null,
+  created_at: view.created_at,
+  updated_at: view.updated_at,
+});
+
+const ownerName = async (id: string) =>
+  (await repositories().admins.findById(id))?.name ?? null;
+
+// A view the admin can see: their own, or one shared with the team
+const findVisibleView = async (admin: AdminUser, id: string) => {
+  const view = await repositories().savedViews.findById(id);
+  if (!view || (!view.shared && view.owner_id !== admin.id)) {
+    throw new AdminApiError(404, "not_found", "View not found");
+  }
+  assertTabAllowed(admin, view.tab);
+  return view;
+};
+
+// Only the admin who saved a view may change it
+const findOwnView = async (admin: AdminUser, id: string) => {
+  const view = await findVisibleView(admin, id);
+  if (view.owner_id !== admin.id) {
+    throw new AdminApiError(
+      403,
+      "forbidden",
+      "Only the admin who saved this view can change it"
+    );
+  }
+  return view;
+};
+
+// The tab's views the admin can see, with match counts for pinned ones
+export const listSavedViews = async (
+  admin: AdminUser,
+  tab: SavedViewTab
+): Promise<SavedViewRecord[]> => {
+  assertTabAllowed(admin, tab);
+  const [views, pins, admins] = await Promise.all([
+    repositories().savedViews.listVisible(admin.id, tab),
+    repositories().savedViews.listPins(admin.id),
+    repositories().admins.list(),
+  ]);
+  const names = new Map(admins.map((row) => [row.id, row.name]));
+
+  return Promise.all(
+    views.map((view) =>
+      toRecord(
+        admin,
+        view,
+        pins.includes(view.id),
+        names.get(view.owner_id) ?? null
+      )
+    )
+  );
+};
+
+// Pinned for the admin who saves it
+export const createSavedView = async (
+  admin: AdminUser,
+  input: SavedViewInput
+): Promise<SavedViewRecord> => {
+  assertTabAllowed(admin, input.tab);
+  assertValidQuery(input.tab, input.query);
+
+  const view = await repositories().savedViews.insert({
+    owner_id: admin.id,
+    tab: input.tab,
+    name: input.name,
+    query: input.query,
+    shared: input.shared,
+  });
+  await repositories().savedViews.pin(admin.id, view.id);
+
+  await recordAudit(admin, {
+    action: "view.create",
+    entity: "saved_view",
+    entityId: view.id,
+    after: view,
+  });
+  return toRecord(admin, view, true, admin.name);
+};
+
+export const updateSavedView = async (
+  admin: AdminUser,
+  id: string,
+  patch: SavedViewPatch
+): Promise<SavedViewRecord> => {
+  const before = await findOwnView(admin, id);
+  if (patch.query) assertValidQuery(before.tab, patch.query);
+
+  const view = await repositories().savedViews.update(id, {
+    ...patch,
+    updated_at: new Date().toISOString(),
+  });
+  if (!view) throw new AdminApiError(404, "not_found", "View not found");
+
+  const keys = Object.keys(patch);
+  await recordAudit(admin, {
+    action: "view.update",
+    entity: "saved_view",
+    entityId: id,
+    before: pick(before, keys),
+    after: pick(view, keys),
+  });
+
+  const pins = await repositories().savedViews.listPins(admin.id);
+  return toRecord(admin, view, pins.includes(id), admin.name);
+};
+
+// Owners may also remove views other admins shared with the team
+export const deleteSavedView = async (admin: AdminUser, id: string) => {
+  const view = await findVisibleView(admin, id);
+  if (view.owner_id !== admin.id && !hasPermission(admin, "admins:manage")) {
+    throw new AdminApiError(
+      403,
+      "forbidden",
+      "Only the admin who saved this view can delete it"
+    );
+  }
+  await repositories().savedViews.remove(id);
+
+  await recordAudit(admin, {
+    action: "view.delete",
+    entity: "saved_view",
+    entityId: id,
+    before: view,
+  });
+};
+
+// Pins are per admin, so other admins' headers are not affected
+export const setSavedViewPinned = async (
+  admin: AdminUser,
+  id: string,
+  pinned: boolean
+): Promise<SavedViewRecord> => {
+  const view = await findVisibleView(admin, id);
+  if (pinned) await repositories().savedViews.pin(admin.id, id);
+  else await repositories().savedViews.unpin(admin.id, id);
+
+  return toRecord(admin, view, pinned, await ownerName(view.owner_id));
+};
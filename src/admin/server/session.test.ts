@@ -0,0 +1,37 @@
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it } from "vitest";
+import { clientIp } from "./session";
+
+const request = (headers: Record<string, string>) =>
+  new NextRequest("http://localhost/api/admin/login", { headers });
+
+afterEach(() => {
+  delete process.env.ADMIN_TRUSTED_PROXY_HOPS;
+});
+
+describe("clientIp", () => {
+  it("takes the entry our proxy appended, not the client's", () => {
+    expect(
+      clientIp(request({ "x-forwarded-for": "1.1.1.1, 203.0.113.7" }))
+    ).toBe("203.0.113.7");
+    expect(
+      clientIp(request({ "x-forwarded-for": "9.9.9.9, 203.0.113.7" }))
+    ).toBe("203.0.113.7");
+  });
+
+  it("skips as many entries as there are trusted proxies", () => {
+    process.env.ADMIN_TRUSTED_PROXY_HOPS = "2";
+    expect(
+      clientIp(
+        request({ "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2" })
+      )
+    ).toBe("203.0.113.7");
+  });
+
+  it("falls back to X-Real-IP, then to unknown", () => {
+    expect(clientIp(request({ "x-real-ip": "203.0.113.8" }))).toBe(
+      "203.0.113.8"
+    );
+    expect(clientIp(request({}))).toBe("unknown");
+  });
+});
@@ -0,0 +1,282 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminUser } from "../utils/adminAuth";
+import {
+  ACTIVITY_RENEW_INTERVAL,
+  SESSION_IDLE_TIMEOUT,
+  SESSION_MAX_AGE,
+} from "../utils/sessionPolicy";
+import { repositories, type AdminRow } from "./repositories";
+
+export const ADMIN_SESSION_COOKIE = "admin_session";
+
+// Short-lived proof that the password step passed, exchanged for a session
+// cookie once the TOTP or recovery code is verified.
+export const MFA_CHALLENGE_COOKIE = "admin_mfa";
+export const MFA_CHALLENGE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+
+export interface SessionPayload {
+  typ: "session";
+  sub: string; // admin id
+  sid: string; // admin_sessions row
+  iat: number;
+  exp: number;
+}
+
+export interface MfaChallengePayload {
+  typ: "mfa";
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+const getSecret = (): string => {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("ADMIN_SESSION_SECRET must be set (at least 32 chars)");
+  }
+  return secret;
+};
+
+const sign = (value: string): string =>
+  crypto.createHmac("sha256", getSecret()).update(value).digest("base64url");
+
+// Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256)
+const signToken = (payload: SessionPayload | MfaChallengePayload): string => {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+};
+
+const verifyToken = <T extends SessionPayload | MfaChallengePayload>(
+  token: string | undefined,
+  typ: T["typ"],
+  now: number
+): T | null => {
+  if (!token) return null;
+
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload: T = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf8")
+    );
+    if (
+      payload.typ !== typ ||
+      typeof payload.sub !== "string" ||
+      (payload.typ === "session" && typeof payload.sid !== "string") ||
+      payload.exp <= now
+    ) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+export const signSession = (
+  adminId: string,
+  sessionId: string,
+  now = Date.now()
+): string =>
+  signToken({
+    typ: "session",
+    sub: adminId,
+    sid: sessionId,
+    iat: now,
+    exp: now + SESSION_MAX_AGE,
+  });
+
+export const verifySession = (
+  token: string | undefined,
+  now = Date.now()
+): SessionPayload | null => verifyToken<SessionPayload>(token, "session", now);
+
+export const signMfaChallenge = (adminId: string, now = Date.now()): string =>
+  signToken({
+    typ: "mfa",
+    sub: adminId,
+    iat: now,
+    exp: now + MFA_CHALLENGE_TIMEOUT,
+  });
+
+export const verifyMfaChallenge = (
+  token: string | undefined,
+  now = Date.now()
+): MfaChallengePayload | null =>
+  verifyToken<MfaChallengePayload>(token, "mfa", now);
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+};
+
+export const setSessionCookie = (
+  response: NextResponse,
+  token: string,
+  expiresAt: number
+): void => {
+  response.cookies.set(ADMIN_SESSION_COOKIE, token, {
+    ...cookieOptions,
+    expires: new Date(expiresAt),
+  });
+};
+
+export const clearSessionCookie = (response: NextResponse): void => {
+  response.cookies.set(ADMIN_SESSION_COOKIE, "", {
+    ...cookieOptions,
+    maxAge: 0,
+  });
+};
+
+// How many proxies in front of the app append to X-Forwarded-For (a load
+// balancer, the hosting platform's edge). ADMIN_TRUSTED_PROXY_HOPS, default 1.
+const trustedProxyHops = (): number => {
+  const hops = Number(process.env.ADMIN_TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 1 ? hops : 1;
+};
+
+// The address the outermost trusted proxy saw. Entries to the left of the
+// ones our proxies appended come from the client and can be anything, so
+// the header is read from the right.
+export const clientIp = (request: NextRequest): string => {
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return (
+    forwarded[Math.max(0, forwarded.length - trustedProxyHops())] ||
+    request.headers.get("x-real-ip") ||
+    "unknown"
+  );
+};
+
+// Create a server-side session for the admin and attach its cookie to the
+// response
+export const issueSession = async (
+  request: NextRequest,
+  response: NextResponse,
+  adminId: string,
+  now = Date.now()
+): Promise<void> => {
+  const session = await repositories().adminSessions.insert({
+    admin_id: adminId,
+    created_at: new Date(now).toISOString(),
+    last_seen_at: new Date(now).toISOString(),
+    expires_at: new Date(now + SESSION_MAX_AGE).toISOString(),
+    ip: clientIp(request),
+    user_agent: request.headers.get("user-agent")?.slice(0, 500) ?? null,
+  });
+
+  setSessionCookie(
+    response,
+    signSession(adminId, session.id, now),
+    now + SESSION_MAX_AGE
+  );
+};
+
+export const revokeSession = async (
+  sessionId: string,
+  now = Date.now()
+): Promise<void> => {
+  await repositories().adminSessions.revoke(
+    sessionId,
+    new Date(now).toISOString()
+  );
+};
+
+// Sign the admin out everywhere
+export const revokeAllSessions = async (
+  adminId: string,
+  now = Date.now()
+): Promise<void> => {
+  await repositories().adminSessions.revokeAll(
+    adminId,
+    new Date(now).toISOString()
+  );
+};
+
+export const setMfaChallengeCookie = (
+  response: NextResponse,
+  adminId: string,
+  now = Date.now()
+): void => {
+  response.cookies.set(MFA_CHALLENGE_COOKIE, signMfaChallenge(adminId, now), {
+    ...cookieOptions,
+    expires: new Date(now + MFA_CHALLENGE_TIMEOUT),
+  });
+};
+
+export const clearMfaChallengeCookie = (response: NextResponse): void => {
+  response.cookies.set(MFA_CHALLENGE_COOKIE, "", {
+    ...cookieOptions,
+    maxAge: 0,
+  });
+};
+
+// The part of an admin row that may leave the server
+export const toAdminUser = (row: AdminRow): AdminUser => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  role: row.role,
+  totp_enabled: row.totp_enabled,
+  created_at: row.created_at,
+});
+
+// Resolve the signed-in admin from the request cookie. The admin row and the
+// session row are re-read on every call so disabled admins and revoked or
+// idle sessions stop working immediately. Each successful call counts as
+// activity and pushes the idle expiry forward.
+export const getAdminSession = async (
+  request: NextRequest,
+  now = Date.now()
+): Promise<{ admin: AdminUser; session: SessionPayload } | null> => {
+  const session = verifySession(
+    request.cookies.get(ADMIN_SESSION_COOKIE)?.value,
+    now
+  );
+  if (!session) return null;
+
+  const [admin, activeSession] = await Promise.all([
+    repositories().admins.findById(session.sub),
+    repositories().adminSessions.findActive(session.sid, session.sub),
+  ]).catch((error) => {
+    console.error("Failed to load admin session:", error);
+    return [null, null];
+  });
+
+  if (!admin || admin.disabled_at || !activeSession) return null;
+
+  const lastSeen = new Date(activeSession.last_seen_at).getTime();
+  if (
+    new Date(activeSession.expires_at).getTime() <= now ||
+    now - lastSeen > SESSION_IDLE_TIMEOUT
+  ) {
+    return null;
+  }
+
+  // Throttled so a burst of requests costs one write
+  if (now - lastSeen > ACTIVITY_RENEW_INTERVAL / 2) {
+    await repositories()
+      .adminSessions.touch(session.sid, new Date(now).toISOString())
+      .catch((error) =>
+        console.error("Failed to renew admin session:", error)
+      );
+  }
+
+  return { admin: toAdminUser(admin), session };
+};
@@ -0,0 +1,101 @@
+import type {
+  ConversionStats,
+  SupportStats,
+  UserStats,
+} from "../utils/apiSchemas";
+import { EXPIRING_SOON_DAYS } from "../utils/userFilters";
+import type { ConversionQuery } from "./conversions";
+import { repositories } from "./repositories";
+import { toSupportTicketFilter, type SupportQuery } from "./support";
+import { toUserFilter, type UserFilterQuery } from "./users";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Aggregates scan every matching row, so the result for a given set of
+// filters is reused for this long. Counters may lag a change by as much.
+const STATS_TTL = 30 * 1000;
+
+const cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+// Concurrent requests with the same key share one query. Failures are not
+// kept, so the next request tries again.
+const cached = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+  const now = Date.now();
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > now) return hit.value as Promise<T>;
+
+  cache.forEach((entry, k) => {
+    if (entry.expiresAt <= now) cache.delete(k);
+  });
+
+  const value = load();
+  cache.set(key, { expiresAt: now + STATS_TTL, value });
+  value.catch(() => {
+    if (cache.get(key)?.value === value) cache.delete(key);
+  });
+  return value;
+};
+
+const startOfDay = (now: Date) =>
+  new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+// Percent change, to one decimal; 100 when growing from nothing
+const growth = (current: number, previous: number) => {
+  if (previous === 0) return current > 0 ? 100 : 0;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+};
+
+// New users today, in the last seven days and this calendar month (against
+// last month for growth), plus expiry counts, for the Users tab filters
+export const getUserStats = (query: UserFilterQuery): Promise<UserStats> =>
+  cached(`users:${JSON.stringify(query)}`, async () => {
+    const now = new Date();
+    const counts = await repositories().users.stats(
+      toUserFilter(query, now.getTime()),
+      {
+        now: now.toISOString(),
+        soon: new Date(now.getTime() + EXPIRING_SOON_DAYS * DAY).toISOString(),
+        today: startOfDay(now).toISOString(),
+        week: new Date(now.getTime() - 7 * DAY).toISOString(),
+        month: new Date(now.getFullYear(), now.getMonth(), 1).toISOString(),
+        lastMonth: new Date(
+          now.getFullYear(),
+          now.getMonth() - 1,
+          1
+        ).toISOString(),
+      }
+    );
+
+    return {
+      ...counts,
+      monthlyGrowth: growth(counts.newThisMonth, counts.newLastMonth),
+    };
+  });
+
+// With `trashed`, for the conversions in Trash instead
+export const getConversionStats = (
+  query: ConversionQuery,
+  trashed = false
+): Promise<ConversionStats> => {
+  const filter = { ...query, trashed };
+  return cached(`conversions:${JSON.stringify(filter)}`, () =>
+    repositories().conversions.stats(filter)
+  );
+};
+
+// Ticket counters cover today, the last seven days and the last month
+export const getSupportStats = (query: SupportQuery): Promise<SupportStats> =>
+  cached(`support:${JSON.stringify(query)}`, async () => {
+    const now = new Date();
+    const monthAgo = new Date(now);
+    monthAgo.setMonth(monthAgo.getMonth() - 1);
+
+    return repositories().supportTickets.stats(
+      await toSupportTicketFilter(query),
+      {
+        today: startOfDay(now).toISOString(),
+        week: new Date(now.getTime() - 7 * DAY).toISOString(),
+        month: monthAgo.toISOString(),
+      }
+    );
+  });
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { AdminApiError } from "./guard";
+import { repositories } from "./repositories";
+
+// The only buckets the admin panel is allowed to touch.
+export const ADMIN_BUCKETS = ["pdfs", "audio"] as const;
+
+export type AdminBucket = (typeof ADMIN_BUCKETS)[number];
+
+export const isAdminBucket = (bucket: string): bucket is AdminBucket =>
+  (ADMIN_BUCKETS as readonly string[]).includes(bucket);
+
+// Object keys are relative ("<user id>/<file>"): no leading slash, no empty,
+// "." or ".." segments, no backslashes or control characters.
+export const storagePathSchema = z
+  .string()
+  .min(1)
+  .max(1024)
+  .refine((path) => !/[\\\u0000-\u001f]/.test(path), {
+    message: "Path contains invalid characters",
+  })
+  .refine(
+    (path) =>
+      path
+        .split("/")
+        .every((segment) => segment !== "" && segment !== "." && segment !== ".."),
+    { message: "Path must be a relative object key" }
+  );
+
+export const removeStorageObject = async (
+  bucket: string,
+  path: string
+): Promise<void> => {
+  if (!isAdminBucket(bucket)) {
+    throw new AdminApiError(403, "forbidden", `Bucket "${bucket}" is not allowed`);
+  }
+
+  try {
+    await repositories().files.remove(bucket, path);
+  } catch (error) {
+    throw new AdminApiError(
+      500,
+      "internal_error",
+      error instanceof Error ? error.message : "Could not delete file"
+    );
+  }
+};
+
+// Many objects of one bucket at once, e.g. everything a user owned
+export const removeStorageObjects = async (
+  bucket: AdminBucket,
+  paths: string[]
+): Promise<void> => {
+  try {
+    await repositories().files.removeMany(bucket, paths);
+  } catch (error) {
+    throw new AdminApiError(
+      500,
+      "internal_error",
+      error instanceof Error ? error.message : "Could not delete files"
+    );
+  }
+};
+
+// Download links for objects in an admin bucket, in the order of `paths`.
+// Signing is best-effort: on failure every link is null.
+export const signStorageObjects = async (
+  bucket: AdminBucket,
+  paths: string[],
+  expiresIn: number
+): Promise<(string | null)[]> => {
+  try {
+    return await repositories().files.signedUrls(bucket, paths, expiresIn);
+  } catch (error) {
+    console.error("Failed to sign storage links:", bucket, error);
+    return paths.map(() => null);
+  }
+};
@@ -0,0 +1,16 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let client: SupabaseClient | null = null;
+
+// Service-role client for route handlers only. Never import this from a
+// "use client" module: the key bypasses row level security. Created on first
+// use so the in-memory data source runs without Supabase credentials.
+export const getSupabaseAdmin = (): SupabaseClient => {
+  if (!client) {
+    client = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE!
+    );
+  }
+  return client;
+};
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { repositories } from "./repositories";
+import type { SupportTicketFilter } from "./repositories";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A day as date inputs send it; the date filters of every tab take this
+export const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+// Ticket filters of the Support tab, as sent to the stats route
+export const supportQuerySchema = z.object({
+  // Matches the customer's name or email, or part of the ticket id
+  search: z.string().trim().max(200).optional(),
+  status: z.enum(["open", "closed"]).optional(),
+  subject: z.string().trim().max(100).optional(),
+  // Created between these days, both inclusive
+  dateFrom: dateSchema.optional(),
+  dateTo: dateSchema.optional(),
+});
+
+export type SupportQuery = z.infer<typeof supportQuerySchema>;
+
+// Customers matched by a search are capped; a broader term should be narrowed
+const MAX_SEARCH_USERS = 1000;
+
+export const toSupportTicketFilter = async (
+  query: SupportQuery
+): Promise<SupportTicketFilter> => ({
+  search: query.search || undefined,
+  // Users are a separate table, so resolve matching customers to ids first
+  userIds: query.search
+    ? await repositories().users.searchIds(query.search, MAX_SEARCH_USERS)
+    : undefined,
+  status: query.status,
+  subject: query.subject,
+  createdFrom: query.dateFrom,
+  createdBefore: query.dateTo
+    ? new Date(new Date(query.dateTo).getTime() + DAY).toISOString()
+    : undefined,
+});
+
+// Tickets matching the filters, newest first, each with its customer's name
+// and email and its message counts
+export const listSupportTickets = async (
+  query: SupportQuery,
+  offset: number,
+  limit: number
+) => {
+  const tickets = await repositories().supportTickets.page(
+    await toSupportTicketFilter(query),
+    offset,
+    limit
+  );
+  if (tickets.length === 0) return [];
+
+  const [users, messages] = await Promise.all([
+    repositories().users.findByIds([
+      ...new Set(tickets.map((ticket) => ticket.user_id)),
+    ]),
+    repositories().supportMessages.listByTickets(
+      tickets.map((ticket) => ticket.id)
+    ),
+  ]);
+
+  const usersMap = new Map(users.map((u) => [u.id, u]));
+  return tickets.map((ticket) => {
+    const thread = messages.filter((m) => m.ticket_id === ticket.id);
+    return {
+      ...ticket,
+      user_name: usersMap.get(ticket.user_id)?.name || "Unknown",
+      user_email: usersMap.get(ticket.user_id)?.email || "Unknown",
+      messages: thread.length,
+      unread: thread.filter((m) => m.sender_type === "user" && !m.read).length,
+    };
+  });
+};
+
+// All tickets (newest first), their messages (oldest first) and the
+// customers who opened them
+export const loadSupportInbox = async () => {
+  const [tickets, messages] = await Promise.all([
+    repositories().supportTickets.list(),
+    repositories().supportMessages.list(),
+  ]);
+
+  const userIds = [...new Set(tickets.map((ticket) => ticket.user_id))];
+  const users = (await repositories().users.findByIds(userIds)).map(
+    ({ id, name, email }) => ({ id, name, email })
+  );
+
+  return { tickets, messages, users };
+};
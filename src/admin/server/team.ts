@@ -0,0 +1,286 @@
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { z } from "zod";
+import { ADMIN_ROLES, type AdminRole } from "../utils/permissions";
+import type {
+  AccountSetupPreview,
+  AdminInvite,
+  AdminUser,
+  TeamMember,
+} from "../utils/adminAuth";
+import { AdminApiError } from "./guard";
+import {
+  repositories,
+  type AccountTokenRow,
+  type AdminRow,
+} from "./repositories";
+import { revokeAllSessions, toAdminUser } from "./session";
+
+export const INVITE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const PASSWORD_RESET_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+const BCRYPT_ROUNDS = 10;
+
+type AccountTokenPurpose = AccountSetupPreview["purpose"];
+
+export const inviteSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().email(),
+  role: z.enum(ADMIN_ROLES),
+});
+
+export const newPasswordSchema = z
+  .string()
+  .min(12, "Password must be at least 12 characters")
+  .max(200);
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// The link the owner shares; AdminApp picks the token up from ?setup=
+export const accountSetupUrl = (origin: string, token: string): string =>
+  `${origin}/?setup=${encodeURIComponent(token)}`;
+
+const createAccountToken = async (
+  input: Pick<
+    AccountTokenRow,
+    "purpose" | "email" | "name" | "role" | "admin_id"
+  >,
+  createdBy: AdminUser,
+  ttl: number,
+  now: number
+): Promise<{ token: string; row: AccountTokenRow }> => {
+  // Only the newest link for an email stays usable
+  await repositories().accountTokens.removeUnused(input.purpose, input.email);
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  const row = await repositories().accountTokens.insert({
+    ...input,
+    token_hash: hashToken(token),
+    created_by: createdBy.id,
+    expires_at: new Date(now + ttl).toISOString(),
+  });
+
+  return { token, row };
+};
+
+// An invite as listed on the Team screen (no token hash)
+const toInvite = (row: AccountTokenRow): AdminInvite => ({
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  role: row.role,
+  created_at: row.created_at,
+  expires_at: row.expires_at,
+});
+
+const toTeamMember = (row: AdminRow) => ({
+  ...toAdminUser(row),
+  disabled_at: row.disabled_at,
+});
+
+export const listTeam = async (
+  now = Date.now()
+): Promise<{ members: TeamMember[]; invites: AdminInvite[] }> => {
+  const [admins, invites] = await Promise.all([
+    repositories().admins.list(),
+    repositories().accountTokens.listPendingInvites(new Date(now).toISOString()),
+  ]);
+
+  const members = admins.map((row) => ({
+    ...toTeamMember(row),
+    last_login_at: row.last_login_at,
+    password_reset_pending: !row.password_hash,
+  }));
+
+  return { members, invites: invites.map(toInvite) };
+};
+
+export const inviteAdmin = async (
+  invitedBy: AdminUser,
+  invite: z.infer<typeof inviteSchema>,
+  now = Date.now()
+) => {
+  const existing = await repositories().admins.findByEmail(invite.email);
+  if (existing) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      "An admin with this email already exists"
+    );
+  }
+
+  return createAccountToken(
+    { purpose: "invite", admin_id: null, ...invite },
+    invitedBy,
+    INVITE_TTL,
+    now
+  );
+};
+
+export const revokeInvite = async (
+  inviteId: string
+): Promise<AdminInvite | null> => {
+  const row = await repositories().accountTokens.removePendingInvite(inviteId);
+  return row ? toInvite(row) : null;
+};
+
+const getTeamMember = async (adminId: string) => {
+  const row = await repositories().admins.findById(adminId);
+  if (!row) throw new AdminApiError(404, "not_found", "Admin not found");
+  return toTeamMember(row);
+};
+
+// Disabled admins keep their row (and audit history) but cannot sign in.
+// Their sessions are revoked so re-enabling does not bring them back.
+export const setAdminDisabled = async (
+  actor: AdminUser,
+  adminId: string,
+  disabled: boolean,
+  now = Date.now()
+) => {
+  if (adminId === actor.id) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      "You cannot disable your own account"
+    );
+  }
+
+  const before = await getTeamMember(adminId);
+  const row = await repositories().admins.update(
+    adminId,
+    disabled
+      ? { disabled_at: new Date(now).toISOString(), disabled_by: actor.id }
+      : { disabled_at: null, disabled_by: null }
+  );
+  if (disabled) await revokeAllSessions(adminId, now);
+
+  return { before, after: toTeamMember(row) };
+};
+
+// Takes effect on the admin's next request, since sessions re-read the
+// admin row. Owners cannot change their own role, so one always remains.
+export const setAdminRole = async (
+  actor: AdminUser,
+  adminId: string,
+  role: AdminRole
+) => {
+  if (adminId === actor.id) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      "You cannot change your own role"
+    );
+  }
+
+  const before = await getTeamMember(adminId);
+  const row = await repositories().admins.update(adminId, { role });
+
+  return { before, after: toTeamMember(row) };
+};
+
+// Clear the admin's password so it no longer works, sign them out, and hand
+// back a one-time link for them to choose a new one.
+export const forcePasswordReset = async (
+  actor: AdminUser,
+  adminId: string,
+  now = Date.now()
+) => {
+  if (adminId === actor.id) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      "You cannot reset your own password from here"
+    );
+  }
+
+  const target = await getTeamMember(adminId);
+
+  await repositories().admins.update(adminId, { password_hash: null });
+  await revokeAllSessions(adminId, now);
+
+  const { token } = await createAccountToken(
+    {
+      purpose: "password_reset",
+      admin_id: target.id,
+      email: target.email,
+      name: target.name,
+      role: target.role,
+    },
+    actor,
+    PASSWORD_RESET_TTL,
+    now
+  );
+
+  return { target, token };
+};
+
+const findAccountToken = (
+  token: string,
+  now: number
+): Promise<AccountTokenRow | null> =>
+  repositories().accountTokens.findUsable(
+    hashToken(token),
+    new Date(now).toISOString()
+  );
+
+export const previewAccountSetup = async (
+  token: string,
+  now = Date.now()
+): Promise<AccountSetupPreview | null> => {
+  const row = await findAccountToken(token, now);
+  return row ? { purpose: row.purpose, email: row.email, name: row.name } : null;
+};
+
+// Use an invite or reset link: set the password (creating the admin for an
+// invite) and burn the token. Returns the admin the password now belongs to.
+export const completeAccountSetup = async (
+  token: string,
+  password: string,
+  now = Date.now()
+): Promise<{ purpose: AccountTokenPurpose; admin: AdminUser }> => {
+  const invalid = new AdminApiError(
+    404,
+    "not_found",
+    "This link is invalid or has expired"
+  );
+
+  const row = await findAccountToken(token, now);
+  if (!row) throw invalid;
+
+  // Mark used first and only if still unused, so a link works exactly once
+  const claimed = await repositories().accountTokens.claim(
+    row.id,
+    new Date(now).toISOString()
+  );
+  if (!claimed) throw invalid;
+
+  const password_hash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+
+  const admin =
+    row.purpose === "invite"
+      ? await repositories().admins.insert({
+          name: row.name,
+          email: row.email,
+          role: row.role,
+          password_hash,
+        })
+      : await repositories().admins.update(row.admin_id, { password_hash });
+
+  if (!admin) throw invalid;
+  return { purpose: row.purpose, admin: toAdminUser(admin) };
+};
+
+export const recordLogin = async (
+  adminId: string,
+  now = Date.now()
+): Promise<void> => {
+  try {
+    await repositories().admins.update(adminId, {
+      last_login_at: new Date(now).toISOString(),
+    });
+  } catch (error) {
+    console.error("Failed to record admin login:", error);
+  }
+};
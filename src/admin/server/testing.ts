@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { repositories } from "./repositories";
+import { ADMIN_SESSION_COOKIE, issueSession } from "./session";
+
+// For route tests: a request carrying a live session of the admin with this
+// id, as the browser would send it after signing in
+export const signedInRequest = async (
+  adminId: string,
+  url: string,
+  init: ConstructorParameters<typeof NextRequest>[1] = {}
+) => {
+  if (!(await repositories().admins.findById(adminId))) {
+    throw new Error(`No admin ${adminId} in the test repositories`);
+  }
+  const response = NextResponse.json({});
+  await issueSession(new NextRequest(url), response, adminId);
+  const cookie = response.cookies.get(ADMIN_SESSION_COOKIE)?.value;
+
+  const headers = new Headers(init.headers);
+  headers.set("cookie", `${ADMIN_SESSION_COOKIE}=${cookie}`);
+  return new NextRequest(url, { ...init, headers });
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  otpauthUrl,
+  totpCode,
+  verifyTotp,
+} from "./totp";
+
+// The SHA-1 seed from RFC 6238 appendix B, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+// RFC 6238 appendix B test vectors (SHA-1). The RFC lists 8-digit codes;
+// a 6-digit code is the same value's last 6 digits.
+const RFC_VECTORS: [seconds: number, code: string][] = [
+  [59, "94287082"],
+  [1111111109, "07081804"],
+  [1111111111, "14050471"],
+  [1234567890, "89005924"],
+  [2000000000, "69279037"],
+  [20000000000, "65353130"],
+];
+
+describe("base32", () => {
+  it("encodes the RFC 4648 test vectors", () => {
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(base32Encode(Buffer.from("f"))).toBe("MY");
+  });
+
+  it("decodes what it encodes, ignoring padding, spaces and case", () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(base32Decode("mzxw 6ytb oi======").toString()).toBe("foobar");
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow("Invalid base32 character");
+  });
+});
+
+describe("totpCode", () => {
+  it.each(RFC_VECTORS)("matches the RFC 6238 code at %d s", (time, code) =>
+    expect(totpCode(RFC_SECRET, time * 1000)).toBe(code.slice(-6))
+  );
+});
+
+describe("verifyTotp", () => {
+  const now = 1111111109 * 1000;
+
+  it("accepts the current code, with or without spaces", () => {
+    expect(verifyTotp(RFC_SECRET, "081804", now)).toBe(true);
+    expect(verifyTotp(RFC_SECRET, "081 804", now)).toBe(true);
+  });
+
+  it("allows one step of clock drift either side", () => {
+    expect(verifyTotp(RFC_SECRET, "081804", now - 30 * 1000)).toBe(true);
+    expect(verifyTotp(RFC_SECRET, "081804", now + 30 * 1000)).toBe(true);
+    expect(verifyTotp(RFC_SECRET, "081804", now + 60 * 1000)).toBe(false);
+    expect(verifyTotp(RFC_SECRET, "081804", now + 60 * 1000, 2)).toBe(true);
+  });
+
+  it("rejects wrong and malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "081805", now)).toBe(false);
+    expect(verifyTotp(RFC_SECRET, "81804", now)).toBe(false);
+    expect(verifyTotp(RFC_SECRET, "08180a", now)).toBe(false);
+  });
+});
+
+describe("otpauthUrl", () => {
+  it("builds a provisioning URL authenticator apps accept", () => {
+    const url = new URL(otpauthUrl(RFC_SECRET, "a@x.com", "Admin"));
+    expect(url.protocol).toBe("otpauth:");
+    expect(url.host).toBe("totp");
+    expect(decodeURIComponent(url.pathname)).toBe("/Admin:a@x.com");
+    expect(url.searchParams.get("secret")).toBe(RFC_SECRET);
+    expect(url.searchParams.get("digits")).toBe("6");
+    expect(url.searchParams.get("period")).toBe("30");
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates distinct xxxxx-xxxxx codes", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) =>
+      expect(code).toMatch(/^[a-km-np-z2-9]{5}-[a-km-np-z2-9]{5}$/)
+    );
+  });
+
+  it("hashes codes regardless of case and surrounding spaces", () => {
+    expect(hashRecoveryCode(" ABCDE-fghjk ")).toBe(
+      hashRecoveryCode("abcde-fghjk")
+    );
+    expect(hashRecoveryCode("abcde-fghjk")).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
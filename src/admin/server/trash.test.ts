@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  repositories,
+  setRepositories,
+} from "./repositories";
+import { purgeExpiredTrash } from "./trash";
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+const DAY = 24 * 60 * 60 * 1000;
+
+const fixtures = demoFixtures(NOW);
+// Ayesha, Bilal and Carla
+const [expired, recent, failing] = fixtures.users;
+
+const trashedDaysAgo = (days: number) => ({
+  deleted_at: new Date(NOW - days * DAY).toISOString(),
+  deleted_by: "owner@example.com",
+});
+
+beforeEach(async () => {
+  setRepositories(createMemoryRepositories(fixtures));
+  await repositories().users.update(expired.id, trashedDaysAgo(31));
+  await repositories().users.update(recent.id, trashedDaysAgo(29));
+});
+
+describe("purgeExpiredTrash", () => {
+  it("deletes only what has been in Trash past the retention", async () => {
+    const [old, fresh] = fixtures.conversions.filter(
+      (row) => row.user_id === failing.id
+    );
+    await repositories().conversions.update(old.id, trashedDaysAgo(31));
+    await repositories().conversions.update(fresh.id, trashedDaysAgo(29));
+
+    expect(await purgeExpiredTrash(NOW)).toEqual({
+      users: 1,
+      conversions: 1,
+      failed: 0,
+    });
+    expect(await repositories().users.findById(expired.id)).toBeNull();
+    expect(await repositories().users.findById(recent.id)).not.toBeNull();
+    expect(await repositories().conversions.findById(old.id)).toBeNull();
+    expect(await repositories().conversions.findById(fresh.id)).not.toBeNull();
+  });
+
+  it("leaves an item it could not delete in Trash", async () => {
+    await repositories().users.update(failing.id, trashedDaysAgo(40));
+    const repos = repositories();
+    setRepositories({
+      ...repos,
+      files: {
+        ...repos.files,
+        async removeMany(bucket, paths) {
+          if (paths.some((path) => path.startsWith(`${failing.id}/`))) {
+            throw new Error("Storage unavailable");
+          }
+          return repos.files.removeMany(bucket, paths);
+        },
+      },
+    });
+
+    expect(await purgeExpiredTrash(NOW)).toEqual({
+      users: 1,
+      conversions: 0,
+      failed: 1,
+    });
+    const user = await repositories().users.findById(failing.id);
+    expect(user?.deleted_at).toBe(trashedDaysAgo(40).deleted_at);
+  });
+});
@@ -0,0 +1,200 @@
+import type { User } from "../../types/database";
+import type { AdminUser } from "../utils/adminAuth";
+import { TRASH_RETENTION_DAYS } from "../utils/trash";
+import { recordAudit } from "./audit";
+import { AdminApiError } from "./guard";
+import { repositories, type ConversionRow } from "./repositories";
+import { removeStorageObject } from "./storage";
+import { deleteUser } from "./userDeletion";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Items purged per run; anything left over goes in the next run
+const PURGE_BATCH = 200;
+
+const findUser = async (id: string) => {
+  const user = await repositories().users.findById(id);
+  if (!user) throw new AdminApiError(404, "not_found", "User not found");
+  return user;
+};
+
+const findConversion = async (id: string) => {
+  const conversion = await repositories().conversions.findById(id);
+  if (!conversion) {
+    throw new AdminApiError(404, "not_found", "Conversion not found");
+  }
+  return conversion;
+};
+
+const trashState = (row: Pick<User, "deleted_at" | "deleted_by">) => ({
+  deleted_at: row.deleted_at ?? null,
+  deleted_by: row.deleted_by ?? null,
+});
+
+// Deleting from the panel only moves a user to Trash. Nothing else about
+// the account changes until the purge job removes it.
+export const trashUser = async (admin: AdminUser, id: string) => {
+  const before = await findUser(id);
+  if (before.deleted_at) {
+    throw new AdminApiError(409, "conflict", "User is already in Trash");
+  }
+
+  const user = await repositories().users.update(id, {
+    deleted_at: new Date().toISOString(),
+    deleted_by: admin.email,
+  });
+  if (!user) throw new AdminApiError(404, "not_found", "User not found");
+
+  await recordAudit(admin, {
+    action: "user.trash",
+    entity: "user",
+    entityId: id,
+    before: trashState(before),
+    after: trashState(user),
+  });
+  return user;
+};
+
+export const restoreUser = async (admin: AdminUser, id: string) => {
+  const before = await findUser(id);
+  if (!before.deleted_at) {
+    throw new AdminApiError(409, "conflict", "User is not in Trash");
+  }
+
+  const user = await repositories().users.update(id, {
+    deleted_at: null,
+    deleted_by: null,
+  });
+  if (!user) throw new AdminApiError(404, "not_found", "User not found");
+
+  await recordAudit(admin, {
+    action: "user.restore",
+    entity: "user",
+    entityId: id,
+    before: trashState(before),
+    after: trashState(user),
+  });
+  return user;
+};
+
+export const trashConversion = async (admin: AdminUser, id: string) => {
+  const before = await findConversion(id);
+  if (before.deleted_at) {
+    throw new AdminApiError(409, "conflict", "Conversion is already in Trash");
+  }
+
+  const conversion = await repositories().conversions.update(id, {
+    deleted_at: new Date().toISOString(),
+    deleted_by: admin.email,
+  });
+  if (!conversion) {
+    throw new AdminApiError(404, "not_found", "Conversion not found");
+  }
+
+  await recordAudit(admin, {
+    action: "conversion.trash",
+    entity: "conversion",
+    entityId: id,
+    before: trashState(before),
+    after: trashState(conversion),
+  });
+};
+
+export const restoreConversion = async (admin: AdminUser, id: string) => {
+  const before = await findConversion(id);
+  if (!before.deleted_at) {
+    throw new AdminApiError(409, "conflict", "Conversion is not in Trash");
+  }
+
+  const conversion = await repositories().conversions.update(id, {
+    deleted_at: null,
+    deleted_by: null,
+  });
+  if (!conversion) {
+    throw new AdminApiError(404, "not_found", "Conversion not found");
+  }
+
+  await recordAudit(admin, {
+    action: "conversion.restore",
+    entity: "conversion",
+    entityId: id,
+    before: trashState(before),
+    after: trashState(conversion),
+  });
+};
+
+// Remove a trashed conversion for good: its files through the same path as
+// the delete-file route, then the row. `admin` is null for the purge job.
+export const purgeConversion = async (
+  admin: AdminUser | null,
+  conversion: ConversionRow
+) => {
+  if (!conversion.deleted_at) {
+    throw new AdminApiError(409, "conflict", "Conversion is not in Trash");
+  }
+
+  if (conversion.pdf_path) {
+    await removeStorageObject("pdfs", conversion.pdf_path);
+  }
+  if (conversion.audio_path) {
+    await removeStorageObject("audio", conversion.audio_path);
+  }
+  await repositories().conversions.remove(conversion.id);
+
+  await recordAudit(admin, {
+    action: "conversion.delete",
+    entity: "conversion",
+    entityId: conversion.id,
+    before: conversion,
+  });
+};
+
+export const purgeTrashedConversion = async (admin: AdminUser, id: string) =>
+  purgeConversion(admin, await findConversion(id));
+
+export interface PurgeResult {
+  users: number;
+  conversions: number;
+  failed: number;
+}
+
+// The scheduled job: permanently delete users and conversions that have
+// been in Trash longer than the retention window. A failed item is logged
+// and left in Trash for the next run.
+export const purgeExpiredTrash = async (
+  now = Date.now()
+): Promise<PurgeResult> => {
+  const cutoff = new Date(now - TRASH_RETENTION_DAYS * DAY).toISOString();
+  const result: PurgeResult = { users: 0, conversions: 0, failed: 0 };
+
+  const userIds = await repositories().users.listIds(
+    { trashed: true, trashedBefore: cutoff },
+    PURGE_BATCH
+  );
+  for (const id of userIds) {
+    try {
+      await deleteUser(null, id);
+      result.users++;
+    } catch (error) {
+      console.error("Failed to purge user:", id, error);
+      result.failed++;
+    }
+  }
+
+  const conversions = await repositories().conversions.list(
+    { trashed: true, trashedBefore: cutoff },
+    0,
+    PURGE_BATCH
+  );
+  for (const conversion of conversions) {
+    try {
+      await purgeConversion(null, conversion);
+      result.conversions++;
+    } catch (error) {
+      console.error("Failed to purge conversion:", conversion.id, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  repositories,
+  setRepositories,
+} from "./repositories";
+import { totpCode } from "./totp";
+import {
+  completeEnrollment,
+  resetTwoFactor,
+  startEnrollment,
+  verifySecondFactor,
+} from "./twoFactor";
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+const STEP = 30 * 1000;
+
+const fixtures = demoFixtures();
+const owner = fixtures.admins[0];
+
+// Enroll the demo owner at NOW; returns the secret and recovery codes
+const enroll = async () => {
+  const { secret } = await startEnrollment(owner);
+  const recoveryCodes = await completeEnrollment(
+    owner.id,
+    totpCode(secret, NOW),
+    NOW
+  );
+  return { secret, recoveryCodes };
+};
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories(demoFixtures()));
+});
+
+describe("completeEnrollment", () => {
+  it("turns 2FA on and returns recovery codes", async () => {
+    const { recoveryCodes } = await enroll();
+    expect(recoveryCodes).toHaveLength(10);
+
+    const row = await repositories().admins.findById(owner.id);
+    expect(row.totp_enabled).toBe(true);
+    expect(row.totp_pending_secret).toBeNull();
+    expect(row.totp_recovery_codes).toHaveLength(10);
+  });
+
+  it("keeps 2FA off for a wrong code", async () => {
+    const { secret } = await startEnrollment(owner);
+    const code = totpCode(secret, NOW + 10 * STEP);
+    expect(await completeEnrollment(owner.id, code, NOW)).toBeNull();
+    expect((await repositories().admins.findById(owner.id)).totp_enabled).toBe(
+      false
+    );
+  });
+});
+
+describe("verifySecondFactor", () => {
+  it("refuses a code again within its window", async () => {
+    const { secret } = await enroll();
+    const code = totpCode(secret, NOW + STEP);
+
+    expect(await verifySecondFactor(owner.id, { code }, NOW + STEP)).toBe(
+      "totp"
+    );
+    expect(
+      await verifySecondFactor(owner.id, { code }, NOW + STEP + 5000)
+    ).toBeNull();
+  });
+
+  it("refuses the enrollment code and codes from earlier steps", async () => {
+    const { secret } = await enroll();
+    const enrollmentCode = totpCode(secret, NOW);
+    expect(
+      await verifySecondFactor(owner.id, { code: enrollmentCode }, NOW)
+    ).toBeNull();
+
+    const later = NOW + 3 * STEP;
+    expect(
+      await verifySecondFactor(
+        owner.id,
+        { code: totpCode(secret, later) },
+        later
+      )
+    ).toBe("totp");
+    // Still inside the drift window, but before the step just used
+    expect(
+      await verifySecondFactor(
+        owner.id,
+        { code: totpCode(secret, later - STEP) },
+        later
+      )
+    ).toBeNull();
+  });
+
+  it("accepts each recovery code once", async () => {
+    const { recoveryCodes } = await enroll();
+    const factor = { recoveryCode: recoveryCodes[0].toUpperCase() };
+
+    expect(await verifySecondFactor(owner.id, factor, NOW)).toBe(
+      "recovery_code"
+    );
+    expect(await verifySecondFactor(owner.id, factor, NOW)).toBeNull();
+    expect(
+      (await repositories().admins.findById(owner.id)).totp_recovery_codes
+    ).toHaveLength(9);
+  });
+});
+
+describe("resetTwoFactor", () => {
+  it("turns 2FA off and revokes the admin's sessions", async () => {
+    await enroll();
+    const session = await repositories().adminSessions.insert({
+      admin_id: owner.id,
+      created_at: new Date(NOW).toISOString(),
+      last_seen_at: new Date(NOW).toISOString(),
+      expires_at: new Date(NOW + 60 * 60 * 1000).toISOString(),
+      ip: null,
+      user_agent: null,
+    });
+
+    await resetTwoFactor(owner.id, NOW);
+
+    const row = await repositories().admins.findById(owner.id);
+    expect(row.totp_enabled).toBe(false);
+    expect(row.totp_secret).toBeNull();
+    expect(row.totp_last_step).toBeNull();
+    expect(
+      await repositories().adminSessions.findActive(session.id, owner.id)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import type {
+  AdminUser,
+  SecondFactor,
+  TwoFactorStatus,
+} from "../utils/adminAuth";
+import { repositories } from "./repositories";
+import { revokeAllSessions } from "./session";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  matchTotpStep,
+  otpauthUrl,
+} from "./totp";
+
+const TOTP_ISSUER = "PDF-to-Audio Admin";
+
+// 2FA is optional until ADMIN_2FA_ENFORCE_AFTER (an ISO date), then every
+// admin must enroll before they can use the panel. Unset means optional.
+export const twoFactorEnforceAfter = (): Date | null => {
+  const value = process.env.ADMIN_2FA_ENFORCE_AFTER;
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const isTwoFactorRequired = (now = Date.now()): boolean => {
+  const enforceAfter = twoFactorEnforceAfter();
+  return !!enforceAfter && now >= enforceAfter.getTime();
+};
+
+export const twoFactorStatus = (
+  admin: AdminUser,
+  now = Date.now()
+): TwoFactorStatus => ({
+  enabled: !!admin.totp_enabled,
+  required: isTwoFactorRequired(now),
+  enforceAfter: twoFactorEnforceAfter()?.toISOString() ?? null,
+});
+
+// TOTP secrets are stored AES-256-GCM encrypted so a database dump alone is
+// not enough to mint codes. Format: base64url(iv).base64url(tag).base64url(data)
+const secretKey = (): Buffer => {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("ADMIN_SESSION_SECRET must be set (at least 32 chars)");
+  }
+  return crypto.createHash("sha256").update(`totp:${secret}`).digest();
+};
+
+const sealSecret = (plain: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", secretKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+};
+
+const openSecret = (sealed: string): string | null => {
+  try {
+    const [iv, tag, data] = sealed
+      .split(".")
+      .map((part) => Buffer.from(part, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", secretKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+      "utf8"
+    );
+  } catch {
+    return null;
+  }
+};
+
+// Generate a fresh secret and keep it pending until the admin proves their
+// authenticator app produces matching codes.
+export const startEnrollment = async (admin: AdminUser) => {
+  const secret = generateTotpSecret();
+  const url = otpauthUrl(secret, admin.email, TOTP_ISSUER);
+
+  await repositories().admins.update(admin.id, {
+    totp_pending_secret: sealSecret(secret),
+  });
+
+  return { secret, otpauthUrl: url, qrDataUrl: await QRCode.toDataURL(url) };
+};
+
+// Confirm the pending secret with a code from the app. Returns the plaintext
+// recovery codes (shown once) or null if the code did not match. The code
+// counts as used, so it cannot also sign in.
+export const completeEnrollment = async (
+  adminId: string,
+  code: string,
+  now = Date.now()
+): Promise<string[] | null> => {
+  const row = await repositories().admins.findById(adminId);
+  const pending = row?.totp_pending_secret
+    ? openSecret(row.totp_pending_secret)
+    : null;
+
+  const step = pending ? matchTotpStep(pending, code, now) : null;
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await repositories().admins.update(adminId, {
+    totp_enabled: true,
+    totp_secret: row.totp_pending_secret,
+    totp_pending_secret: null,
+    totp_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+    totp_enrolled_at: new Date(now).toISOString(),
+    totp_last_step: step,
+  });
+  return recoveryCodes;
+};
+
+// Check the second login step. A TOTP code is refused if its time step is
+// not after the last one used, so a code seen over someone's shoulder cannot
+// be replayed while it is still valid; a matching recovery code is removed
+// so it cannot be used again.
+export const verifySecondFactor = async (
+  adminId: string,
+  factor: SecondFactor,
+  now = Date.now()
+): Promise<"totp" | "recovery_code" | null> => {
+  const row = await repositories().admins.findById(adminId);
+  if (!row?.totp_enabled || !row.totp_secret) return null;
+
+  if ("code" in factor) {
+    const secret = openSecret(row.totp_secret);
+    const step = secret ? matchTotpStep(secret, factor.code, now) : null;
+    if (step === null) return null;
+    // Only claims a step after the stored one, so two concurrent requests
+    // with the same code cannot both succeed.
+    const claimed = await repositories().admins.claimTotpStep(adminId, step);
+    return claimed ? "totp" : null;
+  }
+
+  const hash = hashRecoveryCode(factor.recoveryCode);
+  const remaining = row.totp_recovery_codes ?? [];
+  if (!remaining.includes(hash)) return null;
+
+  // Only matches while the code is still stored, so two concurrent requests
+  // with the same code cannot both succeed.
+  const consumed = await repositories().admins.consumeRecoveryCode(
+    adminId,
+    hash,
+    remaining.filter((stored) => stored !== hash)
+  );
+  return consumed ? "recovery_code" : null;
+};
+
+// Owner-initiated reset: the admin is signed out everywhere, then signs in
+// with password only and, if 2FA is enforced, is sent straight back through
+// enrollment. Sessions go too, since the reset may follow a stolen device.
+export const resetTwoFactor = async (
+  adminId: string,
+  now = Date.now()
+): Promise<void> => {
+  await repositories().admins.update(adminId, {
+    totp_enabled: false,
+    totp_secret: null,
+    totp_pending_secret: null,
+    totp_recovery_codes: null,
+    totp_enrolled_at: null,
+    totp_last_step: null,
+  });
+  await revokeAllSessions(adminId, now);
+};
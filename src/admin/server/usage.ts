@@ -0,0 +1,117 @@
+import { z } from "zod";
+import type { User } from "../../types/database";
+import type { AdminUser } from "../utils/adminAuth";
+import type { UsageSummary } from "../utils/apiSchemas";
+import { recordAudit } from "./audit";
+import { AdminApiError } from "./guard";
+import { repositories } from "./repositories";
+
+export const topUpSchema = z.object({
+  amount: z
+    .number("Enter a number of conversions")
+    .int("Enter a whole number")
+    .min(1, "Grant at least 1 conversion")
+    .max(10000),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type TopUp = z.infer<typeof topUpSchema>;
+
+// The same date `months` later in UTC, clamped to the end of shorter months
+// (Jan 31 + 1 month is Feb 28), as Postgres adds intervals
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date.getTime());
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return result;
+};
+
+// The monthly window containing `now`. Periods renew on the day of month of
+// the expiry date, so extending a subscription keeps the same reset day.
+// Keep in step with usage_period() in 20261019001300_usage_ledger.sql.
+export const billingPeriod = (anchor: string, now = Date.now()) => {
+  const start = new Date(anchor);
+  const current = new Date(now);
+  let months =
+    (current.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    current.getUTCMonth() -
+    start.getUTCMonth();
+
+  while (addMonths(start, months).getTime() > now) months--;
+  while (addMonths(start, months + 1).getTime() <= now) months++;
+
+  return {
+    start: addMonths(start, months).toISOString(),
+    end: addMonths(start, months + 1).toISOString(),
+  };
+};
+
+// Quota, top-ups and conversions for the user's current billing period.
+// The database enforces the same numbers when a conversion is created.
+export const loadUsage = async (
+  user: User,
+  now = Date.now()
+): Promise<UsageSummary> => {
+  const period = billingPeriod(user.expiry_date || user.created_at, now);
+  const [plan, entries] = await Promise.all([
+    repositories().plans.findById(user.subscription_plan),
+    repositories().usageLedger.listForUser(user.id, period.start, period.end),
+  ]);
+
+  const total = (kind: "conversion" | "top_up") =>
+    entries
+      .filter((entry) => entry.kind === kind)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+  const quota = plan?.monthly_conversions ?? null;
+  const used = total("conversion");
+  const topUps = total("top_up");
+
+  return {
+    periodStart: period.start,
+    periodEnd: period.end,
+    quota,
+    used,
+    topUps,
+    remaining: quota === null ? null : Math.max(0, quota + topUps - used),
+  };
+};
+
+// Extra conversions for the current billing period only. They are a ledger
+// entry, so the plan quota and the lifetime counter stay as they are.
+export const grantTopUp = async (
+  admin: AdminUser,
+  id: string,
+  { amount, note }: TopUp
+) => {
+  const user = await repositories().users.findById(id);
+  if (!user) throw new AdminApiError(404, "not_found", "User not found");
+  if (user.deleted_at) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      "Restore the user before granting conversions"
+    );
+  }
+
+  const entry = await repositories().usageLedger.insert({
+    user_id: id,
+    kind: "top_up",
+    amount,
+    conversion_id: null,
+    note: note || null,
+    created_by: admin.email,
+  });
+
+  await recordAudit(admin, {
+    action: "user.top_up",
+    entity: "user",
+    entityId: id,
+    after: { amount: entry.amount, note: entry.note },
+  });
+
+  return loadUsage(user);
+};
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  repositories,
+  setRepositories,
+} from "./repositories";
+import { toAdminUser } from "./session";
+import { deleteUser, planUserDeletion } from "./userDeletion";
+
+const fixtures = demoFixtures();
+const owner = toAdminUser(fixtures.admins[0]);
+// Carla Diaz: six conversions and a support ticket with three messages
+const user = fixtures.users[2];
+
+const trash = () =>
+  repositories().users.update(user.id, {
+    deleted_at: new Date().toISOString(),
+    deleted_by: owner.email,
+  });
+
+beforeEach(async () => {
+  setRepositories(createMemoryRepositories(fixtures));
+  // The file of one of the user's conversions, and one in their folder that
+  // no conversion points at
+  const conversion = fixtures.conversions.find(
+    (row) => row.user_id === user.id
+  );
+  for (const path of [conversion.pdf_path, `${user.id}/stray.pdf`]) {
+    await repositories().files.upload(
+      "pdfs",
+      path,
+      Buffer.from("%PDF"),
+      "application/pdf"
+    );
+  }
+});
+
+describe("deleteUser", () => {
+  it("refuses a user who is not in Trash", async () => {
+    await expect(deleteUser(owner, user.id)).rejects.toMatchObject({
+      status: 409,
+      code: "conflict",
+    });
+    expect(await repositories().users.findById(user.id)).not.toBeNull();
+  });
+
+  it("removes what the dry run counted", async () => {
+    await trash();
+    const plan = await planUserDeletion(user.id);
+    const receipt = await deleteUser(owner, user.id);
+
+    expect(plan).toMatchObject({
+      conversions: 6,
+      supportTickets: 1,
+      supportMessages: 3,
+    });
+    expect(receipt).toMatchObject({
+      userId: user.id,
+      email: user.email,
+      deletedBy: owner.email,
+      conversions: plan.conversions,
+      supportTickets: plan.supportTickets,
+      supportMessages: plan.supportMessages,
+      pdfFiles: plan.pdfFiles,
+      audioFiles: plan.audioFiles,
+    });
+  });
+
+  it("removes the user's rows and files", async () => {
+    await trash();
+    await deleteUser(owner, user.id);
+
+    expect(await repositories().users.findById(user.id)).toBeNull();
+    expect(await repositories().conversions.listByUser(user.id)).toEqual([]);
+    const tickets = await repositories().supportTickets.listByUser(user.id);
+    expect(tickets).toEqual([]);
+    const messages = await repositories().supportMessages.listByTickets(
+      fixtures.supportTickets
+        .filter((ticket) => ticket.user_id === user.id)
+        .map((ticket) => ticket.id)
+    );
+    expect(messages).toEqual([]);
+    expect(await repositories().files.list("pdfs", user.id)).toEqual([]);
+  });
+
+  it("keeps the email out of the audit log", async () => {
+    await trash();
+    const receipt = await deleteUser(owner, user.id);
+
+    const [entry] = await repositories().auditLog.list(
+      { entity: "user", entityId: user.id },
+      0,
+      1
+    );
+    expect(entry.action).toBe("user.delete");
+    expect(entry.after).toMatchObject({ receiptId: receipt.receiptId });
+    expect(JSON.stringify(entry)).not.toContain(user.email);
+  });
+});
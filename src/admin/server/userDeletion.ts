@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import type { User } from "../../types/database";
+import type { AdminUser } from "../utils/adminAuth";
+import type {
+  UserDeletionPlan,
+  UserDeletionReceipt,
+} from "../utils/apiSchemas";
+import { recordAudit } from "./audit";
+import { AdminApiError } from "./guard";
+import { repositories } from "./repositories";
+import { removeStorageObjects, type AdminBucket } from "./storage";
+
+interface OwnedData {
+  user: User;
+  conversions: number;
+  supportTickets: number;
+  supportMessages: number;
+  files: Record<AdminBucket, string[]>;
+}
+
+const unique = (paths: (string | null)[]) => [
+  ...new Set(paths.filter((path): path is string => !!path)),
+];
+
+// Everything stored for a user. Files are the paths their conversions point
+// at plus anything left in their "<user id>/" folder of each bucket.
+const findOwnedData = async (id: string): Promise<OwnedData> => {
+  const user = await repositories().users.findById(id);
+  if (!user) throw new AdminApiError(404, "not_found", "User not found");
+
+  const [conversions, tickets, pdfFolder, audioFolder] = await Promise.all([
+    repositories().conversions.listByUser(id),
+    repositories().supportTickets.listByUser(id),
+    repositories().files.list("pdfs", id),
+    repositories().files.list("audio", id),
+  ]);
+  const messages = await repositories().supportMessages.listByTickets(
+    tickets.map((ticket) => ticket.id)
+  );
+
+  return {
+    user,
+    conversions: conversions.length,
+    supportTickets: tickets.length,
+    supportMessages: messages.length,
+    files: {
+      pdfs: unique([...conversions.map((c) => c.pdf_path), ...pdfFolder]),
+      audio: unique([...conversions.map((c) => c.audio_path), ...audioFolder]),
+    },
+  };
+};
+
+// Dry run for deleteUser: what would be removed, without removing anything
+export const planUserDeletion = async (
+  id: string
+): Promise<UserDeletionPlan> => {
+  const owned = await findOwnedData(id);
+  return {
+    user: owned.user,
+    conversions: owned.conversions,
+    supportTickets: owned.supportTickets,
+    supportMessages: owned.supportMessages,
+    pdfFiles: owned.files.pdfs.length,
+    audioFiles: owned.files.audio.length,
+  };
+};
+
+// Delete a user in Trash with everything they own and return a receipt.
+// Files go first: if that fails the account is still there and the whole
+// delete can be retried. The rows then go in one transaction. The audit
+// entry keeps the receipt but not the profile, so an erasure request leaves
+// no personal data behind in the log. `admin` is null for the purge job.
+export const deleteUser = async (
+  admin: AdminUser | null,
+  id: string
+): Promise<UserDeletionReceipt> => {
+  const owned = await findOwnedData(id);
+  if (!owned.user.deleted_at) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      "Move the user to Trash before deleting them permanently"
+    );
+  }
+
+  try {
+    await removeStorageObjects("pdfs", owned.files.pdfs);
+    await removeStorageObjects("audio", owned.files.audio);
+  } catch (error) {
+    console.error("Failed to delete user files:", id, error);
+    throw new AdminApiError(
+      500,
+      "internal_error",
+      "Could not delete the user's files; the account was kept, try again"
+    );
+  }
+
+  const counts = await repositories().users.removeCascade(id);
+  if (!counts) throw new AdminApiError(404, "not_found", "User not found");
+
+  const receipt: UserDeletionReceipt = {
+    receiptId: crypto.randomUUID(),
+    userId: id,
+    email: owned.user.email,
+    deletedAt: new Date().toISOString(),
+    deletedBy: admin?.email ?? null,
+    ...counts,
+    pdfFiles: owned.files.pdfs.length,
+    audioFiles: owned.files.audio.length,
+  };
+
+  await recordAudit(admin, {
+    action: "user.delete",
+    entity: "user",
+    entityId: id,
+    after: { ...receipt, email: null },
+  });
+
+  return receipt;
+};
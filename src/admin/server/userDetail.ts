@@ -0,0 +1,228 @@
+import type { AuditEntry } from "../../types/audit";
+import type { SupportMessage } from "../../types/support";
+import type { AdminUser } from "../utils/adminAuth";
+import type { TimelineEvent, UserDetail } from "../utils/apiSchemas";
+import { hasPermission } from "../utils/permissions";
+import { AdminApiError } from "./guard";
+import { repositories, type ConversionRow } from "./repositories";
+import { signStorageObjects } from "./storage";
+import { loadUsage } from "./usage";
+
+// Download links in the drawer stay valid this long (seconds)
+const FILE_LINK_TTL = 60 * 60;
+
+// Messages shown under each ticket
+const LATEST_MESSAGES = 3;
+
+// Audit entries read for plan history and admin edits
+const MAX_AUDIT_ENTRIES = 500;
+
+// Most recent webhook deliveries shown for the user
+const MAX_BILLING_EVENTS = 50;
+
+// Message text is cut to this length in the timeline
+const MESSAGE_PREVIEW_LENGTH = 140;
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  email: "Email",
+  subscription_plan: "Plan",
+  subscription_id: "Subscription ID",
+  expiry_date: "Expiry date",
+  conversions: "Conversions",
+  password: "Password",
+  sessions_revoked_at: "Signed out at",
+  amount: "Extra conversions",
+  note: "Note",
+};
+
+const PLAN_FIELDS = ["subscription_plan", "expiry_date"] as const;
+
+const AUDIT_TITLES: Record<string, string> = {
+  "user.update": "Profile edited",
+  "user.bulk_update": "Changed in a bulk action",
+  "user.import_create": "Created by a CSV import",
+  "user.import_update": "Changed by a CSV import",
+  "user.trash": "Moved to Trash",
+  "user.restore": "Restored from Trash",
+  "user.password_reset": "Temporary password set",
+  "user.top_up": "Conversions topped up",
+  "user.billing_sync": "Updated by the payment provider",
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+
+const asText = (value: unknown): string | null =>
+  value === null || value === undefined || value === "" ? null : String(value);
+
+const preview = (text: string) =>
+  text.length > MESSAGE_PREVIEW_LENGTH
+    ? `${text.slice(0, MESSAGE_PREVIEW_LENGTH - 1)}…`
+    : text;
+
+const event = (
+  at: string,
+  kind: TimelineEvent["kind"],
+  title: string,
+  detail: string | null = null,
+  actor: string | null = null
+): TimelineEvent => ({ at, kind, title, detail, actor });
+
+// "Plan: free → paid; Expiry date: … → …" for the fields an entry touched
+const describeChanges = (entry: AuditEntry) => {
+  const before = asRecord(entry.before);
+  const after = asRecord(entry.after);
+  const keys = Object.keys(after).length ? Object.keys(after) : Object.keys(before);
+
+  return (
+    keys
+      .map(
+        (key) =>
+          `${FIELD_LABELS[key] ?? key}: ${asText(before[key]) ?? "—"} → ${
+            asText(after[key]) ?? "—"
+          }`
+      )
+      .join("; ") || null
+  );
+};
+
+// Plan and expiry changes recorded by admin edits, newest first
+const toPlanHistory = (audit: AuditEntry[]): UserDetail["planHistory"] =>
+  audit.flatMap((entry) => {
+    const before = asRecord(entry.before);
+    const after = asRecord(entry.after);
+    return PLAN_FIELDS.filter(
+      (field) => field in after && asText(after[field]) !== asText(before[field])
+    ).map((field) => ({
+      at: entry.created_at,
+      field,
+      from: asText(before[field]),
+      to: asText(after[field]),
+      by: entry.admin_email,
+    }));
+  });
+
+const withFileLinks = async (conversions: ConversionRow[]) => {
+  const withPdf = conversions.filter((c) => c.pdf_path);
+  const withAudio = conversions.filter((c) => c.audio_path);
+  const [pdfUrls, audioUrls] = await Promise.all([
+    signStorageObjects(
+      "pdfs",
+      withPdf.map((c) => c.pdf_path),
+      FILE_LINK_TTL
+    ),
+    signStorageObjects(
+      "audio",
+      withAudio.map((c) => c.audio_path),
+      FILE_LINK_TTL
+    ),
+  ]);
+
+  const pdfLinks = new Map(withPdf.map((c, i) => [c.id, pdfUrls[i]]));
+  const audioLinks = new Map(withAudio.map((c, i) => [c.id, audioUrls[i]]));
+  return conversions.map((conversion) => ({
+    ...conversion,
+    pdf_url: pdfLinks.get(conversion.id) ?? null,
+    audio_url: audioLinks.get(conversion.id) ?? null,
+  }));
+};
+
+const loadTickets = async (userId: string) => {
+  const tickets = await repositories().supportTickets.listByUser(userId);
+  const messages = await repositories().supportMessages.listByTickets(
+    tickets.map((ticket) => ticket.id)
+  );
+  return { tickets, messages };
+};
+
+// Profile, plan history, conversions, support tickets, quota usage, billing
+// events and a merged timeline for one customer. Conversions and tickets are left out
+// (null) for admins without the matching view permission.
+export const loadUserDetail = async (
+  admin: AdminUser,
+  id: string
+): Promise<UserDetail> => {
+  const user = await repositories().users.findById(id);
+  if (!user) throw new AdminApiError(404, "not_found", "User not found");
+
+  const [audit, conversions, support, usage, billingEvents] = await Promise.all([
+    repositories().auditLog.list(
+      { entity: "user", entityId: id },
+      0,
+      MAX_AUDIT_ENTRIES
+    ),
+    hasPermission(admin, "conversions:view")
+      ? repositories().conversions.listByUser(id).then(withFileLinks)
+      : null,
+    hasPermission(admin, "support:view") ? loadTickets(id) : null,
+    loadUsage(user),
+    repositories().billingEvents.listByUser(id, MAX_BILLING_EVENTS),
+  ]);
+
+  const messagesByTicket = new Map<string, SupportMessage[]>();
+  support?.messages.forEach((message) => {
+    const thread = messagesByTicket.get(message.ticket_id) ?? [];
+    thread.push(message);
+    messagesByTicket.set(message.ticket_id, thread);
+  });
+
+  const timeline: TimelineEvent[] = [
+    event(user.created_at, "signup", "Signed up"),
+    ...(conversions ?? []).map((conversion) =>
+      event(
+        conversion.created_at,
+        "conversion",
+        `Converted ${conversion.pdf_filename}`,
+        `${conversion.status}, ${conversion.voice} voice`
+      )
+    ),
+    ...(support?.tickets ?? []).flatMap((ticket) => [
+      event(ticket.created_at, "ticket_opened", `Opened ticket: ${ticket.subject}`),
+      ...(ticket.closed_at
+        ? [
+            event(
+              ticket.closed_at,
+              "ticket_closed",
+              `Ticket closed: ${ticket.subject}`
+            ),
+          ]
+        : []),
+    ]),
+    ...(support?.messages ?? []).map((message) =>
+      event(
+        message.created_at,
+        "ticket_message",
+        message.sender_type === "admin" ? "Support replied" : "Customer wrote",
+        preview(message.message)
+      )
+    ),
+    ...audit.map((entry) =>
+      event(
+        entry.created_at,
+        "admin_edit",
+        AUDIT_TITLES[entry.action] ?? entry.action,
+        describeChanges(entry),
+        entry.admin_email
+      )
+    ),
+  ].sort((a, b) => a.at.localeCompare(b.at));
+
+  return {
+    user,
+    planHistory: toPlanHistory(audit),
+    conversions,
+    tickets:
+      support?.tickets.map((ticket) => {
+        const thread = messagesByTicket.get(ticket.id) ?? [];
+        return {
+          ...ticket,
+          message_count: thread.length,
+          latest_messages: thread.slice(-LATEST_MESSAGES),
+        };
+      }) ?? null,
+    usage,
+    billingEvents,
+    timeline,
+  };
+};
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  repositories,
+  setRepositories,
+} from "./repositories";
+import { toAdminUser } from "./session";
+import { applyUserImport, previewUserImport } from "./userImport";
+
+const fixtures = demoFixtures();
+const owner = toAdminUser(fixtures.admins[0]);
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories(fixtures));
+});
+
+describe("previewUserImport", () => {
+  it("matches existing users by email whatever its case", async () => {
+    const [result] = await previewUserImport(owner, [
+      { line: 2, values: { email: "Bilal@Example.com", conversions: "9" } },
+    ]);
+
+    expect(result.action).toBe("update");
+    expect(result.userId).toBe(fixtures.users[1].id);
+    expect(result.changes).toEqual([
+      { field: "conversions", before: "3", after: "9" },
+    ]);
+  });
+
+  it("refuses an email repeated in another case", async () => {
+    const results = await previewUserImport(owner, [
+      { line: 2, values: { email: "new@example.com", name: "New" } },
+      { line: 3, values: { email: "NEW@example.com", name: "New" } },
+    ]);
+
+    expect(results[1].action).toBe("error");
+    expect(results[1].errors[0].message).toMatch(/more than once/);
+  });
+});
+
+describe("applyUserImport", () => {
+  it("updates the matched user without rewriting its email", async () => {
+    await applyUserImport(owner, [
+      { line: 2, values: { email: "BILAL@example.com", conversions: "9" } },
+    ]);
+
+    const user = await repositories().users.findById(fixtures.users[1].id);
+    expect(user?.conversions).toBe(9);
+    expect(user?.email).toBe("bilal@example.com");
+    expect(await repositories().users.count({})).toBe(fixtures.users.length);
+  });
+});
@@ -0,0 +1,294 @@
+import { userPatchSchema, type User } from "../../types/database";
+import type { AdminUser } from "../utils/adminAuth";
+import type { UserImportResult } from "../utils/apiSchemas";
+import { editableUserFields, hasPermission } from "../utils/permissions";
+import {
+  USER_IMPORT_FIELD_LABELS,
+  USER_IMPORT_FIELDS,
+  type UserImportField,
+  type UserImportRow,
+} from "../utils/userImport";
+import { pick, recordAudit } from "./audit";
+import { AdminApiError } from "./guard";
+import { repositories, type PlanRow } from "./repositories";
+
+type ImportFields = Partial<Pick<User, UserImportField>>;
+
+type ImportIssue = UserImportResult["errors"][number];
+
+// Columns a new user cannot do without; conversions start at 0
+const REQUIRED_FOR_CREATE = [
+  "name",
+  "subscription_plan",
+  "expiry_date",
+] as const satisfies readonly UserImportField[];
+
+// The cells as column values, validated like a user edit. Plans match by
+// ID or name; dates take anything Date.parse reads, as in 2027-01-31.
+const parseValues = (
+  values: UserImportRow["values"],
+  plans: PlanRow[]
+): { fields: ImportFields; errors: ImportIssue[] } => {
+  const errors: ImportIssue[] = [];
+  const raw: Record<string, unknown> = { ...values };
+
+  if (values.subscription_plan !== undefined) {
+    const wanted = values.subscription_plan.toLowerCase();
+    const plan = plans.find(
+      (row) =>
+        row.id === values.subscription_plan ||
+        row.name.toLowerCase() === wanted
+    );
+    if (plan) {
+      raw.subscription_plan = plan.id;
+    } else {
+      errors.push({
+        path: "subscription_plan",
+        message: `Unknown plan "${values.subscription_plan}"`,
+      });
+      delete raw.subscription_plan;
+    }
+  }
+  if (values.expiry_date !== undefined) {
+    const time = Date.parse(values.expiry_date);
+    raw.expiry_date = Number.isNaN(time)
+      ? values.expiry_date
+      : new Date(time).toISOString();
+  }
+  if (values.conversions !== undefined) {
+    raw.conversions = Number(values.conversions);
+  }
+
+  const parsed = userPatchSchema.safeParse(raw);
+  if (!parsed.success) {
+    errors.push(
+      ...parsed.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      }))
+    );
+  }
+  if (values.email === undefined) {
+    errors.push({
+      path: "email",
+      message: "Email is required to match users",
+    });
+  }
+  return { fields: parsed.success ? parsed.data : {}, errors };
+};
+
+const asText = (value: unknown): string | null =>
+  value === null || value === undefined ? null : String(value);
+
+// Dates compare by instant, so 2027-01-31 matches 2027-01-31T00:00:00.000Z.
+// Emails ignore case, as users are matched by them.
+const sameValue = (
+  field: UserImportField,
+  before: unknown,
+  after: unknown
+) => {
+  if (field === "expiry_date") {
+    return Date.parse(String(before)) === Date.parse(String(after));
+  }
+  if (field === "email") {
+    return asText(before)?.toLowerCase() === asText(after)?.toLowerCase();
+  }
+  return asText(before) === asText(after);
+};
+
+interface PlannedRow {
+  result: UserImportResult;
+  fields: ImportFields;
+  user: User | null;
+}
+
+// What the row would do: create a user, update the one with its email,
+// or nothing. `seen` holds the emails of earlier rows in the batch.
+const planRow = async (
+  admin: AdminUser,
+  row: UserImportRow,
+  plans: PlanRow[],
+  seen: Set<string>
+): Promise<PlannedRow> => {
+  const result: UserImportResult = {
+    line: row.line,
+    email: row.values.email ?? null,
+    action: "error",
+    userId: null,
+    changes: [],
+    errors: [],
+  };
+  const planned = { result, fields: {}, user: null };
+
+  const { fields, errors } = parseValues(row.values, plans);
+  if (errors.length > 0) {
+    result.errors = errors;
+    return planned;
+  }
+
+  const email = fields.email.toLowerCase();
+  if (seen.has(email)) {
+    result.errors = [
+      { path: "email", message: "Email appears more than once in the file" },
+    ];
+    return planned;
+  }
+  seen.add(email);
+
+  const user = await repositories().users.findByEmail(fields.email);
+
+  if (!user) {
+    if (!hasPermission(admin, "users:edit")) {
+      result.errors = [
+        {
+          path: "email",
+          message: "No user has this email, and you may not create users",
+        },
+      ];
+      return planned;
+    }
+    const missing = REQUIRED_FOR_CREATE.filter(
+      (field) => fields[field] === undefined
+    );
+    if (missing.length > 0) {
+      result.errors = missing.map((field) => ({
+        path: field,
+        message: `${USER_IMPORT_FIELD_LABELS[field]} is required for a new user`,
+      }));
+      return planned;
+    }
+    result.action = "create";
+    result.changes = Object.entries(fields).map(([field, value]) => ({
+      field,
+      before: null,
+      after: asText(value),
+    }));
+    return { result, fields, user: null };
+  }
+
+  result.userId = user.id;
+  if (user.deleted_at) {
+    result.errors = [
+      { path: "email", message: "This user is in Trash; restore them first" },
+    ];
+    return planned;
+  }
+
+  const changed = USER_IMPORT_FIELDS.filter(
+    (field) =>
+      fields[field] !== undefined &&
+      !sameValue(field, user[field], fields[field])
+  );
+  const allowed = editableUserFields(admin);
+  const forbidden = changed.filter((field) => !allowed.includes(field));
+  if (forbidden.length > 0) {
+    result.errors = forbidden.map((field) => ({
+      path: field,
+      message: "You may not edit this field",
+    }));
+    return planned;
+  }
+
+  result.action = changed.length > 0 ? "update" : "skip";
+  result.changes = changed.map((field) => ({
+    field,
+    before: asText(user[field]),
+    after: asText(fields[field]),
+  }));
+  return {
+    result,
+    fields: Object.fromEntries(
+      changed.map((field) => [field, fields[field]])
+    ),
+    user,
+  };
+};
+
+const planRows = async (admin: AdminUser, rows: UserImportRow[]) => {
+  const plans = await repositories().plans.list();
+  const seen = new Set<string>();
+  const planned: PlannedRow[] = [];
+  for (const row of rows) {
+    planned.push(await planRow(admin, row, plans, seen));
+  }
+  return planned;
+};
+
+// The diff preview: what applying these rows would do, without writing
+export const previewUserImport = async (
+  admin: AdminUser,
+  rows: UserImportRow[]
+): Promise<UserImportResult[]> =>
+  (await planRows(admin, rows)).map(({ result }) => result);
+
+// Apply one planned create or update; returns the user's id
+const applyRow = async (
+  admin: AdminUser,
+  { fields, user }: PlannedRow
+): Promise<string> => {
+  const keys = Object.keys(fields);
+
+  if (!user) {
+    const created = await repositories().users.insert({
+      name: fields.name,
+      email: fields.email,
+      // Set with Reset Password, or by the customer through the app
+      password: null,
+      subscription_plan: fields.subscription_plan,
+      subscription_id: fields.subscription_id ?? null,
+      expiry_date: fields.expiry_date,
+      conversions: fields.conversions ?? 0,
+    });
+    await recordAudit(admin, {
+      action: "user.import_create",
+      entity: "user",
+      entityId: created.id,
+      after: pick(created, [...USER_IMPORT_FIELDS]),
+    });
+    return created.id;
+  }
+
+  const updated = await repositories().users.update(user.id, {
+    ...fields,
+    updated_at: new Date().toISOString(),
+  });
+  if (!updated) throw new AdminApiError(404, "not_found", "User not found");
+
+  await recordAudit(admin, {
+    action: "user.import_update",
+    entity: "user",
+    entityId: user.id,
+    before: pick(user, keys),
+    after: pick(updated, keys),
+  });
+  return user.id;
+};
+
+// Plan the rows again (the data may have changed since the preview) and
+// apply each in turn. A failing row is reported and the rest carry on.
+export const applyUserImport = async (
+  admin: AdminUser,
+  rows: UserImportRow[]
+): Promise<UserImportResult[]> => {
+  const results: UserImportResult[] = [];
+  for (const planned of await planRows(admin, rows)) {
+    const { result } = planned;
+    if (result.action === "create" || result.action === "update") {
+      try {
+        result.userId = await applyRow(admin, planned);
+      } catch (cause) {
+        console.error("User import row failed:", result.line, cause);
+        result.action = "error";
+        result.errors = [
+          {
+            path: "",
+            message:
+              cause instanceof AdminApiError ? cause.message : "Import failed",
+          },
+        ];
+      }
+    }
+    results.push(result);
+  }
+  return results;
+};
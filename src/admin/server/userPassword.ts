@@ -0,0 +1,50 @@
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import type { AdminUser } from "../utils/adminAuth";
+import { recordAudit } from "./audit";
+import { AdminApiError } from "./guard";
+import { repositories } from "./repositories";
+
+const BCRYPT_ROUNDS = 10;
+
+// 16 URL-safe characters, easy enough to read out to a customer
+const generateTemporaryPassword = (): string =>
+  crypto.randomBytes(12).toString("base64url");
+
+// Admins never type a customer's password. This generates one, stores only
+// its hash, signs the user out everywhere and hands the plaintext back once
+// for the admin to pass on.
+export const setTemporaryPassword = async (
+  admin: AdminUser,
+  id: string,
+  now = Date.now()
+) => {
+  const before = await repositories().users.findById(id);
+  if (!before) throw new AdminApiError(404, "not_found", "User not found");
+  if (before.deleted_at) {
+    throw new AdminApiError(
+      409,
+      "conflict",
+      "Restore the user before resetting their password"
+    );
+  }
+
+  const temporaryPassword = generateTemporaryPassword();
+  const at = new Date(now).toISOString();
+  const user = await repositories().users.update(id, {
+    password: await bcrypt.hash(temporaryPassword, BCRYPT_ROUNDS),
+    sessions_revoked_at: at,
+    updated_at: at,
+  });
+  if (!user) throw new AdminApiError(404, "not_found", "User not found");
+
+  await recordAudit(admin, {
+    action: "user.password_reset",
+    entity: "user",
+    entityId: id,
+    before: { sessions_revoked_at: before.sessions_revoked_at ?? null },
+    after: { sessions_revoked_at: at },
+  });
+
+  return { user, temporaryPassword };
+};
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import type { User } from "../../types/database";
+import {
+  EXPIRING_SOON_DAYS,
+  EXPIRY_STATUSES,
+  USER_SORT_FIELDS,
+} from "../utils/userFilters";
+import type { ExpiryStatus, UserSort } from "../utils/userFilters";
+import { AdminApiError } from "./guard";
+import { repositories } from "./repositories";
+import type { UserCursor, UserFilter } from "./repositories";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Filters accepted by the users list and stats routes, in the query-string
+// form produced by userFiltersToParams
+export const userFilterQuerySchema = z.object({
+  // Matches name, email or subscription id
+  search: z.string().trim().max(200).optional(),
+  plan: z.string().trim().max(50).optional(),
+  conversionsMin: z.coerce.number().int().min(0).optional(),
+  conversionsMax: z.coerce.number().int().min(0).optional(),
+  expiryStatus: z.enum(EXPIRY_STATUSES).optional(),
+  subscriptionId: z.string().trim().max(200).optional(),
+});
+
+export type UserFilterQuery = z.infer<typeof userFilterQuerySchema>;
+
+// The list route also takes the sort, a page cursor and whether to list
+// Trash instead of live users
+export const userQuerySchema = userFilterQuerySchema.extend({
+  sort: z.enum(USER_SORT_FIELDS).default("created_at"),
+  dir: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().max(500).optional(),
+  trash: z.literal("1").optional(),
+});
+
+export type UserQuery = z.infer<typeof userQuerySchema>;
+
+// The Users tab as a whole (filters, sort and Trash toggle, no paging), as
+// exports and saved views take it
+export const userTabQuerySchema = userQuerySchema.omit({ cursor: true });
+
+export type UserTabQuery = z.infer<typeof userTabQuerySchema>;
+
+// Expiry date window for a status, relative to `now`
+const expiryWindow = (
+  status: ExpiryStatus,
+  now: number
+): Pick<UserFilter, "expiresFrom" | "expiresBefore"> => {
+  const today = new Date(now).toISOString();
+  const soon = new Date(now + EXPIRING_SOON_DAYS * DAY).toISOString();
+
+  switch (status) {
+    case "expired":
+      return { expiresBefore: today };
+    case "expiring_soon":
+      return { expiresFrom: today, expiresBefore: soon };
+    case "active":
+      return { expiresFrom: soon };
+  }
+};
+
+export const toUserFilter = (
+  query: UserFilterQuery,
+  now = Date.now()
+): UserFilter => ({
+  search: query.search || undefined,
+  plan: query.plan || undefined,
+  conversionsMin: query.conversionsMin,
+  conversionsMax: query.conversionsMax,
+  subscriptionId: query.subscriptionId || undefined,
+  ...(query.expiryStatus ? expiryWindow(query.expiryStatus, now) : {}),
+});
+
+// Cursors are opaque to the client: the last row's sort value and id
+const encodeCursor = (user: User, sort: UserSort) =>
+  Buffer.from(JSON.stringify([user[sort.field] ?? null, user.id])).toString(
+    "base64url"
+  );
+
+const cursorSchema = z.tuple([
+  z.union([z.string(), z.number(), z.null()]),
+  z.string().uuid(),
+]);
+
+const decodeCursor = (cursor: string): UserCursor => {
+  try {
+    const [value, id] = cursorSchema.parse(
+      JSON.parse(Buffer.from(cursor, "base64url").toString())
+    );
+    return { value, id };
+  } catch {
+    throw new AdminApiError(422, "validation_failed", "Invalid query parameters", [
+      { path: "cursor", message: "Invalid page cursor" },
+    ]);
+  }
+};
+
+// One page of customer accounts matching the query, and the cursor for the
+// next page (null on the last one)
+export const listUsersPage = async (query: UserQuery, limit: number) => {
+  const sort: UserSort = { field: query.sort, direction: query.dir };
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await repositories().users.page(
+    { ...toUserFilter(query), trashed: query.trash === "1" },
+    sort,
+    after,
+    limit + 1
+  );
+  const users = rows.slice(0, limit);
+
+  return {
+    users,
+    nextCursor:
+      rows.length > limit ? encodeCursor(users[users.length - 1], sort) : null,
+  };
+};
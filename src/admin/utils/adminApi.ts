@@ -0,0 +1,502 @@
+"use client";
+
+import type { z } from "zod";
+import type { AuditEntity, AuditEntry } from "../../types/audit";
+import {
+  adminAuth,
+  type AdminInvite,
+  type AdminUser,
+  type TeamMember,
+  type TwoFactorStatus,
+} from "./adminAuth";
+import type {
+  bulkUserResponseSchema,
+  campaignReportSchema,
+  campaignResponseSchema,
+  conversionPageResponseSchema,
+  conversionStatsResponseSchema,
+  dataExportListResponseSchema,
+  dataExportResponseSchema,
+  planListResponseSchema,
+  planResponseSchema,
+  savedViewListResponseSchema,
+  savedViewResponseSchema,
+  supportInboxResponseSchema,
+  supportMessageResponseSchema,
+  supportStatsResponseSchema,
+  supportTicketResponseSchema,
+  temporaryPasswordResponseSchema,
+  usageResponseSchema,
+  userDeletionPlanResponseSchema,
+  userDeletionReceiptResponseSchema,
+  userDetailResponseSchema,
+  userIdsResponseSchema,
+  userImportResponseSchema,
+  userPageResponseSchema,
+  userResponseSchema,
+  userStatsResponseSchema,
+} from "./apiSchemas";
+import type { CampaignFields } from "./campaigns";
+import type { ExportRequest } from "./exports";
+import type { AdminRole } from "./permissions";
+import type { NewPlan, PlanFields } from "./plans";
+import type {
+  SavedViewInput,
+  SavedViewPatch,
+  SavedViewTab,
+} from "./savedViews";
+import {
+  userFiltersToParams,
+  type UserFilters,
+  type UserSort,
+} from "./userFilters";
+import type { UserImportRow } from "./userImport";
+import type { UserPatch } from "../../types/database";
+import type { SupportTicket } from "../../types/support";
+
+// Error thrown for any non-2xx response from /api/admin/*, carrying the
+// structured { error: { code, message, issues } } body from the guard.
+export class AdminApiRequestError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public issues: { path: string; message: string }[] = []
+  ) {
+    super(message);
+    this.name = "AdminApiRequestError";
+  }
+}
+
+const request = async <T>(
+  path: string,
+  method: string,
+  body?: unknown
+): Promise<T> => {
+  const response = await fetch(path, {
+    method,
+    credentials: "same-origin",
+    headers: body !== undefined ? { "Content-Type": "application/json" } : {},
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    if (response.status === 401) adminAuth.notifySessionExpired();
+    throw new AdminApiRequestError(
+      response.status,
+      result?.error?.code || "internal_error",
+      result?.error?.message || "Request failed",
+      result?.error?.issues
+    );
+  }
+
+  return result as T;
+};
+
+type QueryParams = Record<string, string | number | undefined>;
+
+// Empty and unset values are left out
+const toParams = (params: QueryParams) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  });
+  return search;
+};
+
+const toQueryString = (params: QueryParams) => {
+  const query = toParams(params).toString();
+  return query ? `?${query}` : "";
+};
+
+export type ConversionDeleteScope = "pdf" | "audio" | "all";
+
+export type BulkUserAction =
+  | { type: "change_plan"; plan: string }
+  | { type: "extend_expiry"; days: number }
+  | { type: "reset_conversions" }
+  | { type: "delete" };
+
+export interface ConversionFilters {
+  search?: string;
+  voice?: string;
+  status?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface SupportFilters {
+  search?: string;
+  status?: SupportTicket["status"];
+  subject?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface AuditFilters {
+  admin?: string;
+  entity?: AuditEntity | "";
+  from?: string;
+  to?: string;
+}
+
+export const adminApi = {
+  users: {
+    // With `trash`, users in Trash instead of live ones
+    list: (
+      filters: UserFilters,
+      sort: UserSort,
+      cursor?: string,
+      trash = false
+    ) =>
+      request<z.infer<typeof userPageResponseSchema>>(
+        `/api/admin/users${toQueryString({
+          ...userFiltersToParams(filters, sort),
+          cursor,
+          trash: trash ? "1" : undefined,
+        })}`,
+        "GET"
+      ),
+
+    detail: (id: string) =>
+      request<z.infer<typeof userDetailResponseSchema>>(
+        `/api/admin/users/${id}`,
+        "GET"
+      ),
+
+    update: (id: string, data: UserPatch) =>
+      request<z.infer<typeof userResponseSchema>>(
+        `/api/admin/users/${id}`,
+        "PATCH",
+        data
+      ),
+
+    // Moves the user to Trash
+    remove: (id: string) =>
+      request<z.infer<typeof userResponseSchema>>(
+        `/api/admin/users/${id}`,
+        "DELETE"
+      ),
+
+    restore: (id: string) =>
+      request<z.infer<typeof userResponseSchema>>(
+        `/api/admin/users/${id}/restore`,
+        "POST"
+      ),
+
+    // Replace the password with a generated one and sign the user out
+    setTemporaryPassword: (id: string) =>
+      request<z.infer<typeof temporaryPasswordResponseSchema>>(
+        `/api/admin/users/${id}/password`,
+        "POST"
+      ),
+
+    // Extra conversions for the current billing period
+    grantTopUp: (id: string, amount: number, note?: string) =>
+      request<z.infer<typeof usageResponseSchema>>(
+        `/api/admin/users/${id}/top-ups`,
+        "POST",
+        { amount, note }
+      ),
+
+    // Dry run of purge: what deleting the user for good would take with it
+    deletionPlan: (id: string) =>
+      request<z.infer<typeof userDeletionPlanResponseSchema>>(
+        `/api/admin/users/${id}/deletion`,
+        "GET"
+      ),
+
+    purge: (id: string) =>
+      request<z.infer<typeof userDeletionReceiptResponseSchema>>(
+        `/api/admin/users/${id}/deletion`,
+        "DELETE"
+      ),
+
+    stats: (filters: UserFilters) =>
+      request<z.infer<typeof userStatsResponseSchema>>(
+        `/api/admin/users/stats${toQueryString(userFiltersToParams(filters))}`,
+        "GET"
+      ),
+
+    // Every user matching the filters, for "select all matching"
+    ids: (filters: UserFilters) =>
+      request<z.infer<typeof userIdsResponseSchema>>(
+        `/api/admin/users/ids${toQueryString(userFiltersToParams(filters))}`,
+        "GET"
+      ),
+
+    // At most 100 ids per call; results come back per user
+    bulk: (ids: string[], action: BulkUserAction) =>
+      request<z.infer<typeof bulkUserResponseSchema>>(
+        "/api/admin/users/bulk",
+        "POST",
+        { ids, action }
+      ),
+
+    // At most USER_IMPORT_BATCH rows per call, for both
+    importPreview: (rows: UserImportRow[]) =>
+      request<z.infer<typeof userImportResponseSchema>>(
+        "/api/admin/users/import/preview",
+        "POST",
+        { rows }
+      ),
+
+    importRows: (rows: UserImportRow[]) =>
+      request<z.infer<typeof userImportResponseSchema>>(
+        "/api/admin/users/import",
+        "POST",
+        { rows }
+      ),
+  },
+
+  conversions: {
+    // With `trash`, conversions in Trash instead of live ones
+    list: (filters: ConversionFilters, page: number, trash = false) =>
+      request<z.infer<typeof conversionPageResponseSchema>>(
+        `/api/admin/conversions${toQueryString({
+          ...filters,
+          page,
+          trash: trash ? "1" : undefined,
+        })}`,
+        "GET"
+      ),
+
+    // "all" moves the conversion to Trash; a single file goes right away
+    remove: (id: string, scope: ConversionDeleteScope) =>
+      request<{ success: true }>(`/api/admin/conversions/${id}`, "DELETE", {
+        scope,
+      }),
+
+    restore: (id: string) =>
+      request<{ success: true }>(
+        `/api/admin/conversions/${id}/restore`,
+        "POST"
+      ),
+
+    purge: (id: string) =>
+      request<{ success: true }>(
+        `/api/admin/conversions/${id}/deletion`,
+        "DELETE"
+      ),
+
+    stats: (filters: ConversionFilters) =>
+      request<z.infer<typeof conversionStatsResponseSchema>>(
+        `/api/admin/conversions/stats${toQueryString({ ...filters })}`,
+        "GET"
+      ),
+  },
+
+  plans: {
+    list: () =>
+      request<z.infer<typeof planListResponseSchema>>("/api/admin/plans", "GET"),
+
+    create: (plan: NewPlan) =>
+      request<z.infer<typeof planResponseSchema>>(
+        "/api/admin/plans",
+        "POST",
+        plan
+      ),
+
+    update: (id: string, fields: PlanFields) =>
+      request<z.infer<typeof planResponseSchema>>(
+        `/api/admin/plans/${id}`,
+        "PATCH",
+        fields
+      ),
+
+    remove: (id: string) =>
+      request<{ success: true }>(`/api/admin/plans/${id}`, "DELETE"),
+  },
+
+  campaigns: {
+    // Campaigns with their send counts, and the latest sends
+    report: () =>
+      request<z.infer<typeof campaignReportSchema>>(
+        "/api/admin/campaigns",
+        "GET"
+      ),
+
+    create: (campaign: CampaignFields) =>
+      request<z.infer<typeof campaignResponseSchema>>(
+        "/api/admin/campaigns",
+        "POST",
+        campaign
+      ),
+
+    update: (id: string, fields: Partial<CampaignFields>) =>
+      request<z.infer<typeof campaignResponseSchema>>(
+        `/api/admin/campaigns/${id}`,
+        "PATCH",
+        fields
+      ),
+
+    remove: (id: string) =>
+      request<{ success: true }>(`/api/admin/campaigns/${id}`, "DELETE"),
+  },
+
+  support: {
+    inbox: () =>
+      request<z.infer<typeof supportInboxResponseSchema>>(
+        "/api/admin/support",
+        "GET"
+      ),
+
+    stats: (filters: SupportFilters) =>
+      request<z.infer<typeof supportStatsResponseSchema>>(
+        `/api/admin/support/stats${toQueryString({ ...filters })}`,
+        "GET"
+      ),
+
+    setStatus: (ticketId: string, status: SupportTicket["status"]) =>
+      request<z.infer<typeof supportTicketResponseSchema>>(
+        `/api/admin/support/tickets/${ticketId}`,
+        "PATCH",
+        { status }
+      ),
+
+    sendMessage: (ticketId: string, message: string) =>
+      request<z.infer<typeof supportMessageResponseSchema>>(
+        `/api/admin/support/tickets/${ticketId}/messages`,
+        "POST",
+        { message }
+      ),
+
+    markRead: (ticketId: string) =>
+      request<{ success: true }>(
+        `/api/admin/support/tickets/${ticketId}/read`,
+        "POST"
+      ),
+  },
+
+  exports: {
+    // The signed-in admin's recent exports
+    list: () =>
+      request<z.infer<typeof dataExportListResponseSchema>>(
+        "/api/admin/exports",
+        "GET"
+      ),
+
+    // `query` takes the same parameters as the tab's list request
+    create: ({
+      query,
+      ...rest
+    }: Omit<ExportRequest, "query"> & { query: QueryParams }) =>
+      request<z.infer<typeof dataExportResponseSchema>>(
+        "/api/admin/exports",
+        "POST",
+        { ...rest, query: Object.fromEntries(toParams(query)) }
+      ),
+
+    // Plain URL so the browser downloads the file with the session cookie
+    downloadUrl: (id: string) => `/api/admin/exports/${id}`,
+  },
+
+  views: {
+    // The tab's views the signed-in admin can see, pinned ones with counts
+    list: (tab: SavedViewTab) =>
+      request<z.infer<typeof savedViewListResponseSchema>>(
+        `/api/admin/views${toQueryString({ tab })}`,
+        "GET"
+      ),
+
+    create: (input: SavedViewInput) =>
+      request<z.infer<typeof savedViewResponseSchema>>(
+        "/api/admin/views",
+        "POST",
+        input
+      ),
+
+    update: (id: string, patch: SavedViewPatch) =>
+      request<z.infer<typeof savedViewResponseSchema>>(
+        `/api/admin/views/${id}`,
+        "PATCH",
+        patch
+      ),
+
+    remove: (id: string) =>
+      request<{ success: true }>(`/api/admin/views/${id}`, "DELETE"),
+
+    setPinned: (id: string, pinned: boolean) =>
+      request<z.infer<typeof savedViewResponseSchema>>(
+        `/api/admin/views/${id}/pin`,
+        pinned ? "PUT" : "DELETE"
+      ),
+  },
+
+  audit: {
+    list: (filters: AuditFilters, page: number) =>
+      request<{ entries: AuditEntry[]; hasMore: boolean }>(
+        `/api/admin/audit${toQueryString({ ...filters, page })}`,
+        "GET"
+      ),
+
+    // Plain URL so the browser downloads the CSV with the session cookie
+    exportUrl: (filters: AuditFilters) =>
+      `/api/admin/audit/export${toQueryString({ ...filters })}`,
+  },
+
+  twoFactor: {
+    status: () =>
+      request<{ twoFactor: TwoFactorStatus }>("/api/admin/2fa", "GET"),
+
+    setup: () =>
+      request<{ secret: string; otpauthUrl: string; qrDataUrl: string }>(
+        "/api/admin/2fa/setup",
+        "POST"
+      ),
+
+    verify: (code: string) =>
+      request<{ recoveryCodes: string[]; twoFactor: TwoFactorStatus }>(
+        "/api/admin/2fa/verify",
+        "POST",
+        { code }
+      ),
+  },
+
+  sessions: {
+    // Sign out everywhere, including this browser
+    revokeAll: () => request<{ success: true }>("/api/admin/sessions", "DELETE"),
+  },
+
+  admins: {
+    list: () =>
+      request<{ members: TeamMember[]; invites: AdminInvite[] }>(
+        "/api/admin/admins",
+        "GET"
+      ),
+
+    invite: (data: { name: string; email: string; role: AdminRole }) =>
+      request<{ invite: AdminInvite; inviteUrl: string }>(
+        "/api/admin/admins/invites",
+        "POST",
+        data
+      ),
+
+    revokeInvite: (inviteId: string) =>
+      request<{ success: true }>(
+        `/api/admin/admins/invites/${inviteId}`,
+        "DELETE"
+      ),
+
+    setDisabled: (id: string, disabled: boolean) =>
+      request<{ admin: AdminUser }>(`/api/admin/admins/${id}`, "PATCH", {
+        disabled,
+      }),
+
+    setRole: (id: string, role: AdminRole) =>
+      request<{ admin: AdminUser }>(`/api/admin/admins/${id}`, "PATCH", {
+        role,
+      }),
+
+    forcePasswordReset: (id: string) =>
+      request<{ resetUrl: string }>(
+        `/api/admin/admins/${id}/password-reset`,
+        "POST"
+      ),
+
+    resetTwoFactor: (id: string) =>
+      request<{ success: true }>(`/api/admin/admins/${id}/2fa`, "DELETE"),
+  },
+};
@@ -1,54 +1,264 @@
 "use client";
 
+import type { AdminRole } from "./permissions";
+
 export interface AdminUser {
   id: string;
   name: string;
   email: string;
+  role: AdminRole;
+  totp_enabled: boolean;
+  created_at: string;
+}
+
+// An admin as listed on the Team screen
+export interface TeamMember extends AdminUser {
+  last_login_at: string | null;
+  disabled_at: string | null;
+  // Password cleared by an owner; waiting for the reset link to be used
+  password_reset_pending: boolean;
+}
+
+export interface AdminInvite {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
   created_at: string;
+  expires_at: string;
+}
+
+// What the invite / password reset link resolves to before it is used
+export interface AccountSetupPreview {
+  purpose: "invite" | "password_reset";
+  email: string;
+  name: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Enrollment is mandatory now (ADMIN_2FA_ENFORCE_AFTER has passed)
+  required: boolean;
+  enforceAfter: string | null;
 }
 
-const ADMIN_SESSION_KEY = "admin_session";
-const SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
+export type LoginResult =
+  | { status: "ok"; admin: AdminUser }
+  | { status: "totp_required" };
+
+export type SecondFactor = { code: string } | { recoveryCode: string };
 
-interface AdminSession {
-  admin: AdminUser;
-  timestamp: number;
+// Thrown by login()/verifyTotp() while too many failed attempts have locked
+// the account or this network out
+export class LoginLockedError extends Error {
+  constructor(message: string, public lockedUntil: Date) {
+    super(message);
+    this.name = "LoginLockedError";
+  }
 }
 
+// The session itself lives in an HttpOnly cookie set by /api/admin/login.
+// This is only an in-memory copy of the admin it belongs to, refreshed from
+// the server by loadSession(), so components can read it synchronously.
+let currentAdmin: AdminUser | null = null;
+let currentTwoFactor: TwoFactorStatus | null = null;
+
+// Notified when the server stops accepting the session (idle, revoked) so
+// the app can ask for the password again without losing what is on screen
+const expiryListeners = new Set<() => void>();
+
+const revokeServerSession = async (): Promise<void> => {
+  const response = await fetch("/api/admin/logout", {
+    method: "POST",
+    credentials: "same-origin",
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Could not sign out, please try again")
+    );
+  }
+};
+
+const throwLoginError = async (response: Response): Promise<never> => {
+  if (response.status === 429) {
+    const body = await response.json().catch(() => null);
+    if (body?.error?.lockedUntil) {
+      throw new LoginLockedError(
+        body.error.message,
+        new Date(body.error.lockedUntil)
+      );
+    }
+  }
+  throw new Error(
+    await readErrorMessage(response, "An error occurred during login")
+  );
+};
+
+const readErrorMessage = async (
+  response: Response,
+  fallback: string
+): Promise<string> => {
+  try {
+    const body = await response.json();
+    return body?.error?.message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
 export const adminAuth = {
-  // Store admin session
-  setSession(admin: AdminUser): void {
-    const session: AdminSession = {
-      admin,
-      timestamp: Date.now(),
-    };
-    localStorage.setItem(ADMIN_SESSION_KEY, JSON.stringify(session));
+  // Sign in with email and password; the server sets the session cookie,
+  // or asks for a TOTP code first if the admin has 2FA enabled
+  async login(email: string, password: string): Promise<LoginResult> {
+    const response = await fetch("/api/admin/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "same-origin",
+      body: JSON.stringify({ email, password }),
+    });
+
+    if (!response.ok) await throwLoginError(response);
+
+    const result = await response.json();
+    if (result.status === "totp_required") {
+      return { status: "totp_required" };
+    }
+
+    currentAdmin = result.admin;
+    currentTwoFactor = result.twoFactor;
+    return { status: "ok", admin: result.admin };
+  },
+
+  // Second login step with an authenticator or recovery code
+  async verifyTotp(factor: SecondFactor): Promise<AdminUser> {
+    const response = await fetch("/api/admin/login/totp", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "same-origin",
+      body: JSON.stringify(factor),
+    });
+
+    if (!response.ok) await throwLoginError(response);
+
+    const { admin, twoFactor } = await response.json();
+    currentAdmin = admin;
+    currentTwoFactor = twoFactor;
+    return admin;
+  },
+
+  // Look up an invite or password reset link before showing its form
+  async previewAccountSetup(token: string): Promise<AccountSetupPreview> {
+    const response = await fetch(
+      `/api/admin/account-setup?token=${encodeURIComponent(token)}`,
+      { credentials: "same-origin", cache: "no-store" }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        await readErrorMessage(response, "This link is invalid or has expired")
+      );
+    }
+
+    return (await response.json()).account;
+  },
+
+  // Set the password for an invite or reset link; the admin signs in after
+  async completeAccountSetup(token: string, password: string): Promise<void> {
+    const response = await fetch("/api/admin/account-setup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "same-origin",
+      body: JSON.stringify({ token, password }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        await readErrorMessage(response, "Could not set your password")
+      );
+    }
+  },
+
+  // Ask the server who the session cookie belongs to
+  async loadSession(): Promise<AdminUser | null> {
+    try {
+      const response = await fetch("/api/admin/session", {
+        credentials: "same-origin",
+        cache: "no-store",
+      });
+
+      const result = response.ok ? await response.json() : null;
+      currentAdmin = result?.admin ?? null;
+      currentTwoFactor = result?.twoFactor ?? null;
+    } catch (error) {
+      console.error("Error loading admin session:", error);
+      currentAdmin = null;
+      currentTwoFactor = null;
+    }
+    return currentAdmin;
   },
 
   // Get current admin session
   getSession(): AdminUser | null {
+    return currentAdmin;
+  },
+
+  getTwoFactor(): TwoFactorStatus | null {
+    return currentTwoFactor;
+  },
+
+  // 2FA is enforced and this admin has not enrolled yet
+  needsTwoFactorEnrollment(): boolean {
+    return !!currentTwoFactor?.required && !currentTwoFactor.enabled;
+  },
+
+  // Tell the server the admin is still active; false once the session is gone
+  async renewSession(): Promise<boolean> {
     try {
-      const sessionData = localStorage.getItem(ADMIN_SESSION_KEY);
-      if (!sessionData) return null;
+      const response = await fetch("/api/admin/session", {
+        credentials: "same-origin",
+        cache: "no-store",
+      });
+      if (!response.ok) return false;
 
-      const session: AdminSession = JSON.parse(sessionData);
+      const result = await response.json();
+      currentAdmin = result.admin;
+      currentTwoFactor = result.twoFactor;
+      return true;
+    } catch (error) {
+      console.error("Error renewing admin session:", error);
+      // Network trouble is not proof the session ended
+      return true;
+    }
+  },
 
-      // Check if session has expired
-      if (Date.now() - session.timestamp > SESSION_TIMEOUT) {
-        this.clearSession();
-        return null;
-      }
+  // Sign out: revoke the session server-side and forget the admin
+  async logout(): Promise<void> {
+    await revokeServerSession();
+    currentAdmin = null;
+    currentTwoFactor = null;
+  },
 
-      return session.admin;
+  // Idle lock: revoke the session but keep the cached admin so the lock
+  // screen knows who has to sign back in
+  async lock(): Promise<void> {
+    try {
+      await revokeServerSession();
     } catch (error) {
-      console.error("Error reading admin session:", error);
-      return null;
+      console.error("Error locking admin session:", error);
     }
   },
 
-  // Clear admin session (logout)
-  clearSession(): void {
-    localStorage.removeItem(ADMIN_SESSION_KEY);
+  onSessionExpired(listener: () => void): () => void {
+    expiryListeners.add(listener);
+    return () => {
+      expiryListeners.delete(listener);
+    };
+  },
+
+  // Called by adminApi when a request comes back 401
+  notifySessionExpired(): void {
+    if (currentAdmin) expiryListeners.forEach((listener) => listener());
   },
 
   // Check if admin is authenticated
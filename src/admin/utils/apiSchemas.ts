@@ -0,0 +1,501 @@
+import { z } from "zod";
+import { EXPORT_DATASETS, EXPORT_FORMATS } from "./exports";
+import { SAVED_VIEW_TABS } from "./savedViews";
+
+// Response shapes of the /api/admin data routes. The route handlers parse
+// every payload through these before sending it, and adminApi takes its
+// return types from them.
+
+// A customer account as the panel sees it. The password column is
+// deliberately absent, so it is stripped from every response.
+export const userSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string().nullable(),
+  subscription_plan: z.string(),
+  subscription_id: z.string().nullable().optional(),
+  expiry_date: z.string(),
+  conversions: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  deleted_at: z.string().nullable().optional(),
+});
+
+export type UserRecord = z.infer<typeof userSchema>;
+
+export const userPageResponseSchema = z.object({
+  users: z.array(userSchema),
+  nextCursor: z.string().nullable(),
+});
+
+export const userResponseSchema = z.object({
+  user: userSchema,
+});
+
+// The plaintext is in this one response only; the row keeps a bcrypt hash
+export const temporaryPasswordResponseSchema = z.object({
+  user: userSchema,
+  temporaryPassword: z.string(),
+});
+
+export const planSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  monthly_conversions: z.number().nullable(),
+  max_pdf_mb: z.number(),
+  allowed_voices: z.array(z.string()),
+  monthly_price: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type PlanRecord = z.infer<typeof planSchema>;
+
+// A plan on the Plans screen, with how many users are on it
+export const planSummarySchema = planSchema.extend({
+  users: z.number(),
+});
+
+export type PlanSummary = z.infer<typeof planSummarySchema>;
+
+export const planListResponseSchema = z.object({
+  plans: z.array(planSummarySchema),
+});
+
+export const planResponseSchema = z.object({
+  plan: planSchema,
+});
+
+export const campaignSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  offset_days: z.number(),
+  subject: z.string(),
+  body: z.string(),
+  enabled: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type CampaignRecord = z.infer<typeof campaignSchema>;
+
+export const campaignSummarySchema = campaignSchema.extend({
+  // Over the report period
+  sent: z.number(),
+  failed: z.number(),
+  lastSentAt: z.string().nullable(),
+});
+
+export type CampaignSummary = z.infer<typeof campaignSummarySchema>;
+
+export const emailSendSchema = z.object({
+  id: z.string(),
+  campaign_id: z.string(),
+  user_id: z.string(),
+  // The expiry date the email was about
+  expiry_date: z.string(),
+  email: z.string(),
+  status: z.enum(["sending", "sent", "failed"]),
+  error: z.string().nullable(),
+  created_at: z.string(),
+  sent_at: z.string().nullable(),
+});
+
+export type EmailSendRecord = z.infer<typeof emailSendSchema>;
+
+export const campaignReportSchema = z.object({
+  // Start of the report period
+  since: z.string(),
+  campaigns: z.array(campaignSummarySchema),
+  // Newest first
+  recentSends: z.array(emailSendSchema),
+});
+
+export type CampaignReport = z.infer<typeof campaignReportSchema>;
+
+export const campaignResponseSchema = z.object({
+  campaign: campaignSchema,
+});
+
+export const dataExportSchema = z.object({
+  id: z.string(),
+  dataset: z.enum(EXPORT_DATASETS),
+  format: z.enum(EXPORT_FORMATS),
+  columns: z.array(z.string()),
+  // Built by a background job rather than written on download
+  background: z.boolean(),
+  status: z.enum(["queued", "running", "done", "failed"]),
+  row_count: z.number().nullable(),
+  error: z.string().nullable(),
+  created_at: z.string(),
+  finished_at: z.string().nullable(),
+  expires_at: z.string(),
+});
+
+export type DataExportRecord = z.infer<typeof dataExportSchema>;
+
+export const dataExportResponseSchema = z.object({
+  export: dataExportSchema,
+});
+
+export const dataExportListResponseSchema = z.object({
+  exports: z.array(dataExportSchema),
+});
+
+// A saved filter view as the signed-in admin sees it
+export const savedViewSchema = z.object({
+  id: z.string(),
+  tab: z.enum(SAVED_VIEW_TABS),
+  name: z.string(),
+  query: z.record(z.string(), z.string()),
+  shared: z.boolean(),
+  // Saved by the signed-in admin, who alone may change it
+  mine: z.boolean(),
+  owner_name: z.string().nullable(),
+  pinned: z.boolean(),
+  // Rows the view matches now; only counted for pinned views
+  count: z.number().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type SavedViewRecord = z.infer<typeof savedViewSchema>;
+
+export const savedViewResponseSchema = z.object({
+  view: savedViewSchema,
+});
+
+export const savedViewListResponseSchema = z.object({
+  views: z.array(savedViewSchema),
+});
+
+export const conversionSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  pdf_path: z.string().nullable(),
+  audio_path: z.string().nullable(),
+  pdf_filename: z.string(),
+  pdf_size: z.number(),
+  audio_size: z.number().nullable(),
+  voice: z.string(),
+  voice_settings: z.any(),
+  text_length: z.number().nullable(),
+  audio_duration: z.number().nullable(),
+  status: z.string(),
+  completed_at: z.string().nullable(),
+  created_at: z.string(),
+  deleted_at: z.string().nullable(),
+  user_name: z.string(),
+  user_email: z.string(),
+});
+
+export type ConversionRecord = z.infer<typeof conversionSchema>;
+
+export const conversionPageResponseSchema = z.object({
+  conversions: z.array(conversionSchema),
+  hasMore: z.boolean(),
+});
+
+export const supportTicketSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  subject: z.string(),
+  status: z.enum(["open", "closed"]),
+  created_at: z.string(),
+  updated_at: z.string(),
+  closed_at: z.string().nullable(),
+  closed_by: z.string().nullable(),
+});
+
+export type SupportTicketRecord = z.infer<typeof supportTicketSchema>;
+
+export const supportMessageSchema = z.object({
+  id: z.string(),
+  ticket_id: z.string(),
+  sender_id: z.string(),
+  sender_type: z.enum(["user", "admin"]),
+  message: z.string(),
+  created_at: z.string(),
+  read: z.boolean(),
+});
+
+export type SupportMessageRecord = z.infer<typeof supportMessageSchema>;
+
+export const supportUserSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string().nullable(),
+});
+
+// Everything the support inbox needs in one round trip: all tickets, their
+// messages (oldest first) and the customers who opened them
+export const supportInboxResponseSchema = z.object({
+  tickets: z.array(supportTicketSchema),
+  messages: z.array(supportMessageSchema),
+  users: z.array(supportUserSchema),
+});
+
+export type SupportInbox = z.infer<typeof supportInboxResponseSchema>;
+
+export const supportTicketResponseSchema = z.object({
+  ticket: supportTicketSchema,
+});
+
+export const supportMessageResponseSchema = z.object({
+  message: supportMessageSchema,
+});
+
+// A change to the plan or expiry date, from the admin audit log
+export const planChangeSchema = z.object({
+  at: z.string(),
+  field: z.enum(["subscription_plan", "expiry_date"]),
+  from: z.string().nullable(),
+  to: z.string().nullable(),
+  by: z.string().nullable(),
+});
+
+export const userConversionSchema = conversionSchema
+  .omit({ user_name: true, user_email: true })
+  .extend({
+    // Short-lived download links; null when the file is gone
+    pdf_url: z.string().nullable(),
+    audio_url: z.string().nullable(),
+  });
+
+export const userTicketSchema = supportTicketSchema.extend({
+  message_count: z.number(),
+  // The last few messages, oldest first
+  latest_messages: z.array(supportMessageSchema),
+});
+
+export const TIMELINE_EVENT_KINDS = [
+  "signup",
+  "conversion",
+  "ticket_opened",
+  "ticket_message",
+  "ticket_closed",
+  "admin_edit",
+] as const;
+
+export const timelineEventSchema = z.object({
+  at: z.string(),
+  kind: z.enum(TIMELINE_EVENT_KINDS),
+  title: z.string(),
+  detail: z.string().nullable(),
+  // Admin email for admin actions
+  actor: z.string().nullable(),
+});
+
+export type TimelineEvent = z.infer<typeof timelineEventSchema>;
+
+// Conversions in the current billing period, from the usage ledger
+export const usageSummarySchema = z.object({
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  // The plan's monthly quota; null when unlimited
+  quota: z.number().nullable(),
+  used: z.number(),
+  // Extra conversions granted by admins for this period
+  topUps: z.number(),
+  // Null when unlimited
+  remaining: z.number().nullable(),
+});
+
+export type UsageSummary = z.infer<typeof usageSummarySchema>;
+
+export const usageResponseSchema = z.object({ usage: usageSummarySchema });
+
+export const BILLING_EVENT_TYPES = [
+  "subscription.created",
+  "subscription.renewed",
+  "subscription.cancelled",
+  "payment.failed",
+] as const;
+
+export type BillingEventType = (typeof BILLING_EVENT_TYPES)[number];
+
+// A payment provider webhook delivery applied to the user. The raw payload
+// stays on the server.
+export const billingEventSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  subscription_id: z.string(),
+  status: z.enum(["received", "processed", "ignored", "failed"]),
+  error: z.string().nullable(),
+  received_at: z.string(),
+  processed_at: z.string().nullable(),
+});
+
+export type BillingEventRecord = z.infer<typeof billingEventSchema>;
+
+// Everything known about one customer. Sections the admin may not view
+// (conversions, support) are null.
+export const userDetailSchema = z.object({
+  user: userSchema,
+  // Newest first
+  planHistory: z.array(planChangeSchema),
+  conversions: z.array(userConversionSchema).nullable(),
+  tickets: z.array(userTicketSchema).nullable(),
+  usage: usageSummarySchema,
+  // Newest first
+  billingEvents: z.array(billingEventSchema),
+  // Oldest first
+  timeline: z.array(timelineEventSchema),
+});
+
+export type UserDetail = z.infer<typeof userDetailSchema>;
+
+export const userDetailResponseSchema = z.object({ detail: userDetailSchema });
+
+// What deleting a user removes. Files are objects in the pdfs and audio
+// buckets, whether or not a conversion still points at them.
+const userDeletionCountsSchema = z.object({
+  conversions: z.number(),
+  supportTickets: z.number(),
+  supportMessages: z.number(),
+  pdfFiles: z.number(),
+  audioFiles: z.number(),
+});
+
+export type UserDeletionCounts = z.infer<typeof userDeletionCountsSchema>;
+
+// Dry run: nothing has been deleted yet
+export const userDeletionPlanSchema = userDeletionCountsSchema.extend({
+  user: userSchema,
+});
+
+export type UserDeletionPlan = z.infer<typeof userDeletionPlanSchema>;
+
+export const userDeletionPlanResponseSchema = z.object({
+  plan: userDeletionPlanSchema,
+});
+
+// Proof of an erasure, for the admin to keep
+export const userDeletionReceiptSchema = userDeletionCountsSchema.extend({
+  receiptId: z.string(),
+  userId: z.string(),
+  email: z.string().nullable(),
+  deletedAt: z.string(),
+  deletedBy: z.string().nullable(),
+});
+
+export type UserDeletionReceipt = z.infer<typeof userDeletionReceiptSchema>;
+
+export const userDeletionReceiptResponseSchema = z.object({
+  receipt: userDeletionReceiptSchema,
+});
+
+// Outcome of a bulk action for one user; error is set when ok is false
+export const bulkUserResultSchema = z.object({
+  id: z.string(),
+  ok: z.boolean(),
+  error: z.string().nullable(),
+});
+
+export type BulkUserResult = z.infer<typeof bulkUserResultSchema>;
+
+export const bulkUserResponseSchema = z.object({
+  results: z.array(bulkUserResultSchema),
+});
+
+// What a CSV import would do, or did, with one row of the file. Changes
+// list each column's old and new value (old is null for a new user).
+export const userImportResultSchema = z.object({
+  line: z.number(),
+  email: z.string().nullable(),
+  action: z.enum(["create", "update", "skip", "error"]),
+  userId: z.string().nullable(),
+  changes: z.array(
+    z.object({
+      field: z.string(),
+      before: z.string().nullable(),
+      after: z.string().nullable(),
+    })
+  ),
+  errors: z.array(z.object({ path: z.string(), message: z.string() })),
+});
+
+export type UserImportResult = z.infer<typeof userImportResultSchema>;
+
+export const userImportResponseSchema = z.object({
+  results: z.array(userImportResultSchema),
+});
+
+export const userIdsResponseSchema = z.object({
+  ids: z.array(z.string()),
+});
+
+// Aggregates for the stats cards of each tab, over every row matching the
+// tab's filters. Sizes are bytes, durations seconds unless named *Ms.
+export const userStatsSchema = z.object({
+  total: z.number(),
+  // User count per plan id
+  plans: z.record(z.string(), z.number()),
+  active: z.number(),
+  expiringSoon: z.number(),
+  expired: z.number(),
+  newToday: z.number(),
+  newThisWeek: z.number(),
+  newThisMonth: z.number(),
+  newLastMonth: z.number(),
+  // Percent change of newThisMonth over newLastMonth
+  monthlyGrowth: z.number(),
+});
+
+export type UserStats = z.infer<typeof userStatsSchema>;
+
+export const conversionStatsSchema = z.object({
+  total: z.number(),
+  completed: z.number(),
+  processing: z.number(),
+  failed: z.number(),
+  pdfBytes: z.number(),
+  pdfFiles: z.number(),
+  audioBytes: z.number(),
+  audioFiles: z.number(),
+  audioSeconds: z.number(),
+  averageAudioSeconds: z.number(),
+  averagePdfBytes: z.number(),
+  // Conversion count per voice
+  voices: z.record(z.string(), z.number()),
+});
+
+export type ConversionStats = z.infer<typeof conversionStatsSchema>;
+
+export const supportStatsSchema = z.object({
+  total: z.number(),
+  open: z.number(),
+  closed: z.number(),
+  // Null when nothing qualifies
+  averageResolutionMs: z.number().nullable(),
+  unreadMessages: z.number(),
+  ticketsWithUnread: z.number(),
+  // Tickets whose last message is from the customer
+  pendingResponse: z.number(),
+  maxMessagesPerTicket: z.number(),
+  averageMessagesPerTicket: z.number(),
+  averageResponseMs: z.number().nullable(),
+  newToday: z.number(),
+  newThisWeek: z.number(),
+  newThisMonth: z.number(),
+  closedToday: z.number(),
+  closedThisWeek: z.number(),
+  closedThisMonth: z.number(),
+  // Ticket count per subject
+  subjects: z.record(z.string(), z.number()),
+  uniqueUsers: z.number(),
+  usersWithMultipleTickets: z.number(),
+  maxTicketsPerUser: z.number(),
+});
+
+export type SupportStats = z.infer<typeof supportStatsSchema>;
+
+export const userStatsResponseSchema = z.object({ stats: userStatsSchema });
+
+export const conversionStatsResponseSchema = z.object({
+  stats: conversionStatsSchema,
+});
+
+export const supportStatsResponseSchema = z.object({
+  stats: supportStatsSchema,
+});
@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+// Expiry email campaigns' editable fields and template rendering, shared by
+// the Campaigns screen (form and preview) and the server (routes and the
+// send job).
+
+// Placeholders a subject or body may use, written {{name}}
+export const TEMPLATE_VARIABLES = [
+  "name",
+  "email",
+  "plan",
+  "expiry_date",
+  "days",
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export type TemplateValues = Record<TemplateVariable, string>;
+
+export const campaignFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name is too long"),
+  // Days from the expiry date: negative before it, positive after
+  offset_days: z
+    .number("Enter a number of days")
+    .int("Enter a whole number")
+    .min(-90, "At most 90 days before expiry")
+    .max(365, "At most 365 days after expiry"),
+  subject: z
+    .string()
+    .trim()
+    .min(1, "Subject is required")
+    .max(200, "Subject is too long"),
+  body: z
+    .string()
+    .trim()
+    .min(1, "Message is required")
+    .max(10000, "Message is too long"),
+  enabled: z.boolean(),
+});
+
+export type CampaignFields = z.infer<typeof campaignFieldsSchema>;
+
+// Unknown placeholders are left as they are, so a typo shows in the preview
+export const renderTemplate = (template: string, values: TemplateValues) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key as TemplateVariable] : match
+  );
+
+export const describeOffset = (days: number) => {
+  if (days === 0) return "On the expiry date";
+  const count = `${Math.abs(days)} day${Math.abs(days) === 1 ? "" : "s"}`;
+  return days < 0 ? `${count} before expiry` : `${count} after expiry`;
+};
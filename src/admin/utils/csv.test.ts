@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+import { toCsvLine } from "./csv";
+
+describe("toCsvLine", () => {
+  it("keeps spreadsheets from evaluating formulas", () => {
+    expect(toCsvLine(["=SUM(A1)", "+1", "-1", "@cmd", "\t=1"])).toBe(
+      "'=SUM(A1),'+1,'-1,'@cmd,'\t=1"
+    );
+    expect(toCsvLine(["\r=1"])).toBe(`"'\r=1"`);
+  });
+});
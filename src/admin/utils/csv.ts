@@ -0,0 +1,65 @@
+// Reading and writing CSV: the import wizard parses in the browser, the
+// exports write on the server.
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+// RFC 4180 quoting, plus a leading apostrophe on values a spreadsheet would
+// otherwise evaluate as a formula (=, +, -, @, or a leading tab or carriage
+// return, which some spreadsheets skip before evaluating).
+const escapeCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One record, without the line break; for writing a CSV piece by piece
+export const toCsvLine = (values: unknown[]): string =>
+  values.map(escapeCell).join(",");
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string =>
+  [
+    toCsvLine(columns.map((column) => column.header)),
+    ...rows.map((row) => toCsvLine(columns.map((column) => column.value(row)))),
+  ].join("\r\n");
+
+// RFC 4180 records: quoted fields may hold commas, quotes ("") and line
+// breaks; CRLF, LF and a leading byte order mark are all accepted. Blank
+// lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    field = "";
+  };
+
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) endRecord();
+  return records;
+};
@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+// CSV / XLSX exports of the Users, Conversions and Support tabs: which
+// datasets and columns exist, shared by the export dialog and the server.
+
+export const EXPORT_DATASETS = ["users", "conversions", "tickets"] as const;
+
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+};
+
+// Up to this many matching rows download straight away; more are built by a
+// background job and offered as a download link
+export const DIRECT_EXPORT_ROWS = 10000;
+
+// Larger result sets are refused; narrow the filters instead
+export const MAX_EXPORT_ROWS = 100000;
+
+// How long a finished export stays downloadable
+export const EXPORT_RETENTION_DAYS = 7;
+
+export interface ExportColumn {
+  key: string;
+  // Also the column header in the file
+  label: string;
+  // Ticked when the dialog opens
+  selected: boolean;
+}
+
+export const EXPORT_COLUMNS = {
+  users: [
+    { key: "id", label: "User ID", selected: false },
+    { key: "name", label: "Name", selected: true },
+    { key: "email", label: "Email", selected: true },
+    { key: "plan", label: "Plan", selected: true },
+    { key: "subscription_plan", label: "Plan ID", selected: false },
+    { key: "subscription_id", label: "Subscription ID", selected: true },
+    { key: "expiry_date", label: "Expiry Date", selected: true },
+    { key: "conversions", label: "Lifetime Conversions", selected: true },
+    { key: "created_at", label: "Created", selected: true },
+    { key: "updated_at", label: "Updated", selected: false },
+    { key: "deleted_at", label: "Moved to Trash", selected: false },
+  ],
+  conversions: [
+    { key: "id", label: "Conversion ID", selected: false },
+    { key: "created_at", label: "Created", selected: true },
+    { key: "user_name", label: "Owner", selected: true },
+    { key: "user_email", label: "Owner Email", selected: true },
+    { key: "user_id", label: "Owner ID", selected: false },
+    { key: "pdf_filename", label: "PDF", selected: true },
+    { key: "pdf_size", label: "PDF Size (bytes)", selected: true },
+    { key: "voice", label: "Voice", selected: true },
+    { key: "status", label: "Status", selected: true },
+    { key: "text_length", label: "Characters", selected: false },
+    { key: "audio_duration", label: "Audio Length (s)", selected: true },
+    { key: "audio_size", label: "Audio Size (bytes)", selected: false },
+    { key: "completed_at", label: "Completed", selected: false },
+    { key: "deleted_at", label: "Moved to Trash", selected: false },
+  ],
+  tickets: [
+    { key: "id", label: "Ticket ID", selected: true },
+    { key: "created_at", label: "Created", selected: true },
+    { key: "subject", label: "Subject", selected: true },
+    { key: "status", label: "Status", selected: true },
+    { key: "user_name", label: "Customer", selected: true },
+    { key: "user_email", label: "Customer Email", selected: true },
+    { key: "user_id", label: "Customer ID", selected: false },
+    { key: "messages", label: "Messages", selected: true },
+    { key: "unread", label: "Unread", selected: false },
+    { key: "updated_at", label: "Updated", selected: false },
+    { key: "closed_at", label: "Closed", selected: true },
+  ],
+} as const satisfies Record<ExportDataset, readonly ExportColumn[]>;
+
+export type ExportColumnKey<D extends ExportDataset> =
+  (typeof EXPORT_COLUMNS)[D][number]["key"];
+
+export const defaultExportColumns = (dataset: ExportDataset): string[] =>
+  EXPORT_COLUMNS[dataset]
+    .filter((column) => column.selected)
+    .map((column) => column.key);
+
+// POST /api/admin/exports. `query` holds the tab's list parameters (filters,
+// sort, Trash), exactly as its list route takes them.
+export const exportRequestSchema = z
+  .object({
+    dataset: z.enum(EXPORT_DATASETS),
+    format: z.enum(EXPORT_FORMATS),
+    columns: z.array(z.string()).min(1, "Choose at least one column"),
+    query: z.record(z.string(), z.string()).default({}),
+  })
+  .superRefine((value, ctx) => {
+    const known: readonly string[] = EXPORT_COLUMNS[value.dataset].map(
+      (column) => column.key
+    );
+    const unknown = value.columns.filter((key) => !known.includes(key));
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["columns"],
+        message: `Unknown columns: ${unknown.join(", ")}`,
+      });
+    }
+    if (new Set(value.columns).size !== value.columns.length) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["columns"],
+        message: "Columns must not repeat",
+      });
+    }
+  });
+
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
@@ -0,0 +1,76 @@
+import type { User } from "../../types/database";
+
+// Shared by the client (to hide tabs and actions) and the API routes (to
+// enforce them). Keep this file free of browser or server-only imports.
+
+export const ADMIN_ROLES = ["owner", "support", "billing", "read_only"] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type Permission =
+  | "users:view"
+  | "users:edit"
+  | "users:edit_billing"
+  | "users:delete"
+  | "conversions:view"
+  | "conversions:delete"
+  | "plans:manage"
+  | "campaigns:manage"
+  | "support:view"
+  | "support:reply"
+  | "support:close"
+  | "audit:view"
+  | "admins:manage";
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: [
+    "users:view",
+    "users:edit",
+    "users:edit_billing",
+    "users:delete",
+    "conversions:view",
+    "conversions:delete",
+    "plans:manage",
+    "campaigns:manage",
+    "support:view",
+    "support:reply",
+    "support:close",
+    "audit:view",
+    "admins:manage",
+  ],
+  support: ["support:view", "support:reply", "support:close"],
+  billing: ["users:view", "users:edit_billing"],
+  read_only: ["users:view", "conversions:view", "support:view"],
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  support: "Support Agent",
+  billing: "Billing",
+  read_only: "Read-only",
+};
+
+export const hasPermission = (
+  admin: { role: AdminRole } | null | undefined,
+  permission: Permission
+): boolean =>
+  !!admin && (ROLE_PERMISSIONS[admin.role] ?? []).includes(permission);
+
+// Fields each edit permission unlocks on a users row
+const BILLING_FIELDS: (keyof User)[] = ["subscription_plan", "expiry_date"];
+const ALL_USER_FIELDS: (keyof User)[] = [
+  "name",
+  "email",
+  "subscription_plan",
+  "subscription_id",
+  "expiry_date",
+  "conversions",
+];
+
+export const editableUserFields = (
+  admin: { role: AdminRole } | null | undefined
+): (keyof User)[] => {
+  if (hasPermission(admin, "users:edit")) return ALL_USER_FIELDS;
+  if (hasPermission(admin, "users:edit_billing")) return BILLING_FIELDS;
+  return [];
+};
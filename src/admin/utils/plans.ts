@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+// The plan catalog's editable fields, validated the same way by the Plans
+// screen and by the /api/admin/plans routes.
+
+// Every voice the converter offers
+export const TTS_VOICES = [
+  "alloy",
+  "echo",
+  "fable",
+  "nova",
+  "onyx",
+  "shimmer",
+] as const;
+
+export const planFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name is too long"),
+  // Null: unlimited
+  monthly_conversions: z
+    .number("Enter a number")
+    .int("Enter a whole number")
+    .min(0, "Cannot be negative")
+    .nullable(),
+  max_pdf_mb: z
+    .number("Enter a number")
+    .int("Enter a whole number")
+    .min(1, "Must be at least 1 MB")
+    .max(1024, "At most 1024 MB"),
+  allowed_voices: z
+    .array(z.enum(TTS_VOICES))
+    .min(1, "Allow at least one voice"),
+  monthly_price: z
+    .number("Enter a price")
+    .min(0, "Cannot be negative")
+    .max(100000, "Price is too high"),
+});
+
+// The id is what users.subscription_plan stores; it cannot change later
+export const newPlanSchema = planFieldsSchema.extend({
+  id: z
+    .string()
+    .trim()
+    .min(1, "ID is required")
+    .max(50, "ID is too long")
+    .regex(/^[a-z0-9_-]+$/, "Use lowercase letters, digits, - and _"),
+});
+
+export type PlanFields = z.infer<typeof planFieldsSchema>;
+export type NewPlan = z.infer<typeof newPlanSchema>;
+
+export const formatPlanPrice = (price: number) =>
+  price > 0 ? `$${price.toFixed(2)}/mo` : "Free";
@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+// Named filter views of the Users, Conversions and Support tabs. `query`
+// holds the tab's list parameters exactly as they appear in its URL and
+// list request.
+
+export const SAVED_VIEW_TABS = ["users", "conversions", "support"] as const;
+
+export type SavedViewTab = (typeof SAVED_VIEW_TABS)[number];
+
+const savedViewQuerySchema = z
+  .record(z.string().max(50), z.string().max(500))
+  .refine((query) => Object.keys(query).length <= 20, "Too many parameters");
+
+const savedViewNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name is required")
+  .max(100, "Name is too long");
+
+export const savedViewInputSchema = z.object({
+  tab: z.enum(SAVED_VIEW_TABS),
+  name: savedViewNameSchema,
+  query: savedViewQuerySchema,
+  // Listed for every admin, not just the one who saved it
+  shared: z.boolean().default(false),
+});
+
+export type SavedViewInput = z.infer<typeof savedViewInputSchema>;
+
+// Rename, share or unshare, or save the current filters over the old ones
+export const savedViewPatchSchema = z
+  .object({
+    name: savedViewNameSchema,
+    query: savedViewQuerySchema,
+    shared: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+export type SavedViewPatch = z.infer<typeof savedViewPatchSchema>;
+
+// Opens the panel on the tab with the view applied
+export const savedViewPath = (tab: SavedViewTab, id: string) =>
+  `/?tab=${tab}&view=${id}`;
+
+// Whether two queries select the same rows; parameter order is ignored
+export const sameViewQuery = (
+  a: Record<string, string>,
+  b: Record<string, string>
+) =>
+  Object.keys(a).length === Object.keys(b).length &&
+  Object.entries(a).every(([key, value]) => b[key] === value);
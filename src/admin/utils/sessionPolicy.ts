@@ -0,0 +1,15 @@
+// Session timing shared by the client (idle lock, renewal pings) and the
+// server (session expiry).
+
+// Lock the panel after this long without mouse or keyboard activity
+export const IDLE_LOCK_TIMEOUT = 15 * 60 * 1000; // 15 minutes
+
+// While the admin is active, tell the server at most this often
+export const ACTIVITY_RENEW_INTERVAL = 60 * 1000; // 1 minute
+
+// Server-side sliding expiry: a session unused for this long is dead. The
+// margin covers the gap between the last activity and the last renewal.
+export const SESSION_IDLE_TIMEOUT = IDLE_LOCK_TIMEOUT + ACTIVITY_RENEW_INTERVAL;
+
+// Hard cap on a session regardless of activity
+export const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
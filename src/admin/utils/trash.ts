@@ -0,0 +1,11 @@
+// Trash retention, shared by the client (to show when an item goes for
+// good) and the purge job.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Days a deleted user or conversion can still be restored from Trash
+export const TRASH_RETENTION_DAYS = 30;
+
+// When the purge job removes an item deleted at `deletedAt`
+export const purgeDate = (deletedAt: string) =>
+  new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY);
@@ -0,0 +1,111 @@
+// Filter and sort state of the Users tab, and its query-string form. The
+// same parameters go into the page URL (so a filtered view can be reloaded or
+// shared) and into GET /api/admin/users.
+
+// A subscription expiring within this many days counts as "expiring soon"
+export const EXPIRING_SOON_DAYS = 7;
+
+export const EXPIRY_STATUSES = ["active", "expiring_soon", "expired"] as const;
+
+export type ExpiryStatus = (typeof EXPIRY_STATUSES)[number];
+
+export const USER_SORT_FIELDS = [
+  "created_at",
+  "name",
+  "email",
+  "subscription_plan",
+  "conversions",
+  "expiry_date",
+] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+export interface UserSort {
+  field: UserSortField;
+  direction: "asc" | "desc";
+}
+
+// Kept as strings, exactly as typed into the filter inputs
+export interface UserFilters {
+  search: string;
+  subscriptionPlan: string;
+  conversionsMin: string;
+  conversionsMax: string;
+  expiryStatus: string;
+  subscriptionId: string;
+}
+
+export const DEFAULT_USER_FILTERS: UserFilters = {
+  search: "",
+  subscriptionPlan: "all",
+  conversionsMin: "",
+  conversionsMax: "",
+  expiryStatus: "all",
+  subscriptionId: "",
+};
+
+export const DEFAULT_USER_SORT: UserSort = {
+  field: "created_at",
+  direction: "desc",
+};
+
+// Every query parameter userFiltersToParams may write
+export const USER_FILTER_PARAMS = [
+  "search",
+  "plan",
+  "conversionsMin",
+  "conversionsMax",
+  "expiryStatus",
+  "subscriptionId",
+  "sort",
+  "dir",
+] as const;
+
+// Query parameters for the filters and sort; defaults are left out
+export const userFiltersToParams = (
+  filters: UserFilters,
+  sort: UserSort = DEFAULT_USER_SORT
+): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (filters.search.trim()) params.search = filters.search.trim();
+  if (filters.subscriptionPlan !== "all") params.plan = filters.subscriptionPlan;
+  if (filters.conversionsMin) params.conversionsMin = filters.conversionsMin;
+  if (filters.conversionsMax) params.conversionsMax = filters.conversionsMax;
+  if (filters.expiryStatus !== "all") params.expiryStatus = filters.expiryStatus;
+  if (filters.subscriptionId.trim()) {
+    params.subscriptionId = filters.subscriptionId.trim();
+  }
+  if (sort.field !== DEFAULT_USER_SORT.field) params.sort = sort.field;
+  if (sort.direction !== DEFAULT_USER_SORT.direction) params.dir = sort.direction;
+  return params;
+};
+
+// Inverse of userFiltersToParams; unknown or invalid values fall back to
+// the defaults
+export const userFiltersFromParams = (
+  params: URLSearchParams
+): { filters: UserFilters; sort: UserSort } => {
+  const sortField = params.get("sort");
+  const expiryStatus = params.get("expiryStatus");
+
+  return {
+    filters: {
+      search: params.get("search") ?? "",
+      subscriptionPlan: params.get("plan") ?? "all",
+      conversionsMin: params.get("conversionsMin") ?? "",
+      conversionsMax: params.get("conversionsMax") ?? "",
+      expiryStatus: (EXPIRY_STATUSES as readonly string[]).includes(
+        expiryStatus ?? ""
+      )
+        ? expiryStatus
+        : "all",
+      subscriptionId: params.get("subscriptionId") ?? "",
+    },
+    sort: {
+      field: (USER_SORT_FIELDS as readonly string[]).includes(sortField ?? "")
+        ? (sortField as UserSortField)
+        : DEFAULT_USER_SORT.field,
+      direction: params.get("dir") === "asc" ? "asc" : "desc",
+    },
+  };
+};
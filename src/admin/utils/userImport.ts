@@ -0,0 +1,117 @@
+import { z } from "zod";
+
+// CSV import of users: creating new accounts and updating existing ones
+// (matched by email). The wizard parses and maps the file in the browser
+// and sends the rows in batches; the server validates each row and plans
+// or applies it.
+
+export const USER_IMPORT_FIELDS = [
+  "email",
+  "name",
+  "subscription_plan",
+  "subscription_id",
+  "expiry_date",
+  "conversions",
+] as const;
+
+export type UserImportField = (typeof USER_IMPORT_FIELDS)[number];
+
+export const USER_IMPORT_FIELD_LABELS: Record<UserImportField, string> = {
+  email: "Email",
+  name: "Name",
+  subscription_plan: "Plan",
+  subscription_id: "Subscription ID",
+  expiry_date: "Expiry Date",
+  conversions: "Conversions",
+};
+
+// Rows per preview or apply request
+export const USER_IMPORT_BATCH = 100;
+
+// Larger files are refused; split them instead
+export const MAX_IMPORT_ROWS = 5000;
+
+// Headers recognised for each field, compared lowercased and without
+// spaces, dashes or underscores. Includes the headers of a Users export.
+const HEADER_ALIASES: Record<UserImportField, string[]> = {
+  email: ["email", "emailaddress", "mail"],
+  name: ["name", "fullname", "customer"],
+  subscription_plan: ["plan", "planid", "subscriptionplan", "tier"],
+  subscription_id: ["subscriptionid", "subscription"],
+  expiry_date: ["expirydate", "expiry", "expires", "expiresat", "enddate"],
+  conversions: ["conversions", "lifetimeconversions"],
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[\s_-]/g, "");
+
+// Column index for each field, or undefined when it is not imported
+export type UserImportMapping = Partial<Record<UserImportField, number>>;
+
+// Match the file's header row to fields; the admin can change it after
+export const guessImportMapping = (header: string[]): UserImportMapping => {
+  const normalized = header.map(normalizeHeader);
+  const mapping: UserImportMapping = {};
+  for (const field of USER_IMPORT_FIELDS) {
+    const index = normalized.findIndex((name) =>
+      HEADER_ALIASES[field].includes(name)
+    );
+    if (index !== -1) mapping[field] = index;
+  }
+  return mapping;
+};
+
+// One data row of the file as sent to the server. `line` is its record
+// number, counting the header as 1, for the preview and the error report;
+// `values` holds the mapped cells, trimmed, with empty ones left out.
+export const userImportRowSchema = z.object({
+  line: z.number().int().min(1),
+  values: z.partialRecord(z.enum(USER_IMPORT_FIELDS), z.string().max(1000)),
+});
+
+export type UserImportRow = z.infer<typeof userImportRowSchema>;
+
+export const userImportRequestSchema = z.object({
+  rows: z.array(userImportRowSchema).min(1).max(USER_IMPORT_BATCH),
+});
+
+export type UserImportRequest = z.infer<typeof userImportRequestSchema>;
+
+// A leading apostrophe guards formula-like text in exported CSVs (see
+// toCsvLine); drop it so an export imports back unchanged
+const cellValue = (cell: string | undefined) => {
+  const value = (cell ?? "").trim();
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+};
+
+// The data rows (every record after the header) as the server takes them
+export const toImportRows = (
+  records: string[][],
+  mapping: UserImportMapping
+): UserImportRow[] =>
+  records.slice(1).map((cells, i) => {
+    const values: UserImportRow["values"] = {};
+    for (const field of USER_IMPORT_FIELDS) {
+      const index = mapping[field];
+      if (index === undefined) continue;
+      const value = cellValue(cells[index]);
+      if (value) values[field] = value;
+    }
+    return { line: i + 2, values };
+  });
+
+// Rows whose email (ignoring case) is on an earlier row too, each with the
+// line of that first row
+export const duplicateEmailRows = (
+  rows: UserImportRow[]
+): Map<number, number> => {
+  const first = new Map<string, number>();
+  const duplicates = new Map<number, number>();
+  for (const row of rows) {
+    const email = row.values.email?.toLowerCase();
+    if (!email) continue;
+    if (first.has(email)) duplicates.set(row.line, first.get(email));
+    else first.set(email, row.line);
+  }
+  return duplicates;
+};
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "../../../../admin/server/guard";
+import { twoFactorStatus } from "../../../../admin/server/twoFactor";
+
+export const GET = adminRoute(
+  { allowPendingEnrollment: true },
+  async ({ admin }) => NextResponse.json({ twoFactor: twoFactorStatus(admin) })
+);
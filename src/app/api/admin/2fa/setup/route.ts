@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import {
+  AdminApiError,
+  adminRoute,
+} from "../../../../../admin/server/guard";
+import { startEnrollment } from "../../../../../admin/server/twoFactor";
+
+// Start (or restart) enrollment: returns the provisioning secret and a QR
+// code for it. Nothing changes for login until /2fa/verify succeeds.
+export const POST = adminRoute(
+  { allowPendingEnrollment: true },
+  async ({ admin }) => {
+    if (admin.totp_enabled) {
+      throw new AdminApiError(
+        409,
+        "conflict",
+        "Two-factor authentication is already enabled"
+      );
+    }
+
+    return NextResponse.json(await startEnrollment(admin));
+  }
+);
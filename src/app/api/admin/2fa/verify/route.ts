@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { recordAudit } from "../../../../../admin/server/audit";
+import {
+  AdminApiError,
+  adminRoute,
+} from "../../../../../admin/server/guard";
+import {
+  completeEnrollment,
+  twoFactorStatus,
+} from "../../../../../admin/server/twoFactor";
+
+const verifySchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code"),
+});
+
+// Finish enrollment. The recovery codes are only ever returned here.
+export const POST = adminRoute<z.infer<typeof verifySchema>>(
+  { allowPendingEnrollment: true, body: verifySchema },
+  async ({ admin, body }) => {
+    const now = Date.now();
+    const recoveryCodes = await completeEnrollment(admin.id, body.code, now);
+
+    if (!recoveryCodes) {
+      throw new AdminApiError(
+        422,
+        "validation_failed",
+        "That code did not match, check your authenticator app"
+      );
+    }
+
+    await recordAudit(admin, {
+      action: "admin.enable_2fa",
+      entity: "admin",
+      entityId: admin.id,
+    });
+
+    return NextResponse.json({
+      recoveryCodes,
+      twoFactor: twoFactorStatus({ ...admin, totp_enabled: true }, now),
+    });
+  }
+);
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { recordAudit } from "../../../../admin/server/audit";
+import {
+  AdminApiError,
+  adminErrorResponse,
+} from "../../../../admin/server/guard";
+import {
+  completeAccountSetup,
+  newPasswordSchema,
+  previewAccountSetup,
+} from "../../../../admin/server/team";
+
+const tokenSchema = z.string().min(1).max(200);
+
+const invalidLink = () =>
+  adminErrorResponse(404, "not_found", "This link is invalid or has expired");
+
+const completeSchema = z.object({
+  token: tokenSchema,
+  password: newPasswordSchema,
+});
+
+// Public: reached from an invite or password reset link before the admin
+// has a session. The token itself is the credential.
+export async function GET(request: NextRequest) {
+  const token = tokenSchema.safeParse(
+    request.nextUrl.searchParams.get("token")
+  );
+  if (!token.success) return invalidLink();
+
+  try {
+    const preview = await previewAccountSetup(token.data);
+    if (!preview) return invalidLink();
+    return NextResponse.json({ account: preview });
+  } catch (error) {
+    console.error("Account setup lookup failed:", error);
+    return adminErrorResponse(500, "internal_error", "Internal server error");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const parsed = completeSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+
+  if (!parsed.success) {
+    return adminErrorResponse(
+      422,
+      "validation_failed",
+      parsed.error.issues[0]?.message || "Invalid request body"
+    );
+  }
+
+  try {
+    const { purpose, admin } = await completeAccountSetup(
+      parsed.data.token,
+      parsed.data.password
+    );
+
+    await recordAudit(admin, {
+      action:
+        purpose === "invite" ? "admin.accept_invite" : "admin.reset_password",
+      entity: "admin",
+      entityId: admin.id,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AdminApiError) {
+      return adminErrorResponse(error.status, error.code, error.message);
+    }
+    console.error("Account setup failed:", error);
+    return adminErrorResponse(500, "internal_error", "Internal server error");
+  }
+}
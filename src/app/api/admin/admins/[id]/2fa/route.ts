@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../../../../admin/server/audit";
+import {
+  AdminApiError,
+  adminRoute,
+} from "../../../../../../admin/server/guard";
+import { repositories } from "../../../../../../admin/server/repositories";
+import { resetTwoFactor } from "../../../../../../admin/server/twoFactor";
+
+// Owner reset for an admin who lost their authenticator and recovery codes.
+// Also signs them out everywhere.
+export const DELETE = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "admins:manage" },
+  async ({ admin, params }) => {
+    const row = await repositories().admins.findById(params.id);
+    if (!row) throw new AdminApiError(404, "not_found", "Admin not found");
+
+    const target = {
+      id: row.id,
+      email: row.email,
+      totp_enabled: row.totp_enabled,
+      totp_enrolled_at: row.totp_enrolled_at,
+    };
+    await resetTwoFactor(target.id);
+
+    await recordAudit(admin, {
+      action: "admin.reset_2fa",
+      entity: "admin",
+      entityId: target.id,
+      before: target,
+      after: { ...target, totp_enabled: false, totp_enrolled_at: null },
+    });
+
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../../../../admin/server/audit";
+import { adminRoute } from "../../../../../../admin/server/guard";
+import {
+  accountSetupUrl,
+  forcePasswordReset,
+} from "../../../../../../admin/server/team";
+
+// Invalidate the admin's password and return a one-time link to set a new one
+export const POST = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "admins:manage" },
+  async ({ request, admin, params }) => {
+    const { target, token } = await forcePasswordReset(admin, params.id);
+
+    await recordAudit(admin, {
+      action: "admin.force_password_reset",
+      entity: "admin",
+      entityId: target.id,
+    });
+
+    return NextResponse.json({
+      resetUrl: accountSetupUrl(request.nextUrl.origin, token),
+    });
+  }
+);
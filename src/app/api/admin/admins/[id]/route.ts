@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { recordAudit } from "../../../../../admin/server/audit";
+import { adminRoute } from "../../../../../admin/server/guard";
+import {
+  setAdminDisabled,
+  setAdminRole,
+} from "../../../../../admin/server/team";
+import { ADMIN_ROLES } from "../../../../../admin/utils/permissions";
+
+// Either disable / enable the admin or change their role
+const updateAdminSchema = z.union([
+  z.object({ disabled: z.boolean() }).strict(),
+  z.object({ role: z.enum(ADMIN_ROLES) }).strict(),
+]);
+
+export const PATCH = adminRoute<
+  z.infer<typeof updateAdminSchema>,
+  undefined,
+  { id: string }
+>(
+  { permission: "admins:manage", body: updateAdminSchema },
+  async ({ admin, body, params }) => {
+    const { before, after } =
+      "role" in body
+        ? await setAdminRole(admin, params.id, body.role)
+        : await setAdminDisabled(admin, params.id, body.disabled);
+
+    await recordAudit(admin, {
+      action:
+        "role" in body
+          ? "admin.change_role"
+          : body.disabled
+            ? "admin.disable"
+            : "admin.enable",
+      entity: "admin",
+      entityId: params.id,
+      before,
+      after,
+    });
+
+    return NextResponse.json({ admin: after });
+  }
+);
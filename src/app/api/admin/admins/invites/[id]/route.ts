@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../../../../admin/server/audit";
+import {
+  AdminApiError,
+  adminRoute,
+} from "../../../../../../admin/server/guard";
+import { revokeInvite } from "../../../../../../admin/server/team";
+
+export const DELETE = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "admins:manage" },
+  async ({ admin, params }) => {
+    const invite = await revokeInvite(params.id);
+    if (!invite) throw new AdminApiError(404, "not_found", "Invite not found");
+
+    await recordAudit(admin, {
+      action: "admin.revoke_invite",
+      entity: "admin",
+      entityId: invite.email,
+      before: invite,
+    });
+
+    return NextResponse.json({ success: true });
+  }
+);
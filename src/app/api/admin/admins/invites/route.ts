@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { recordAudit } from "../../../../../admin/server/audit";
+import { adminRoute } from "../../../../../admin/server/guard";
+import {
+  accountSetupUrl,
+  inviteAdmin,
+  inviteSchema,
+} from "../../../../../admin/server/team";
+
+// The invite link is returned once; only its hash is stored.
+export const POST = adminRoute<z.infer<typeof inviteSchema>>(
+  { permission: "admins:manage", body: inviteSchema },
+  async ({ request, admin, body }) => {
+    const { token, row } = await inviteAdmin(admin, body);
+
+    await recordAudit(admin, {
+      action: "admin.invite",
+      entity: "admin",
+      entityId: row.email,
+      after: { name: row.name, email: row.email, role: row.role },
+    });
+
+    return NextResponse.json({
+      invite: {
+        id: row.id,
+        email: row.email,
+        name: row.name,
+        role: row.role,
+        created_at: row.created_at,
+        expires_at: row.expires_at,
+      },
+      inviteUrl: accountSetupUrl(request.nextUrl.origin, token),
+    });
+  }
+);
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "../../../../admin/server/guard";
+import { listTeam } from "../../../../admin/server/team";
+
+export const GET = adminRoute({ permission: "admins:manage" }, async () =>
+  NextResponse.json(await listTeam())
+);
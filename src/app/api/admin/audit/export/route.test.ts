@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  repositories,
+  setRepositories,
+} from "../../../../../admin/server/repositories";
+import { signedInRequest } from "../../../../../admin/server/testing";
+import { GET } from "./route";
+
+const ROUTE_URL = "http://localhost/api/admin/audit/export";
+const context = { params: Promise.resolve({}) };
+
+const signedIn = () => signedInRequest(demoFixtures().admins[0].id, ROUTE_URL);
+
+const recordEntries = async (count: number) => {
+  for (let i = 0; i < count; i++) {
+    await repositories().auditLog.insert({
+      admin_id: null,
+      admin_email: "owner@example.com",
+      action: "user.update",
+      entity: "user",
+      entity_id: `user-${i}`,
+      before: null,
+      after: null,
+    });
+  }
+};
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories(demoFixtures()));
+});
+
+describe("GET /api/admin/audit/export", () => {
+  it("exports every entry, past a single page", async () => {
+    await recordEntries(2500);
+    const response = await GET(await signedIn(), context);
+    const lines = (await response.text()).trim().split("\r\n");
+
+    expect(response.status).toBe(200);
+    // The header row, then one row per entry
+    expect(lines).toHaveLength(2501);
+    expect(new Set(lines.slice(1)).size).toBe(2500);
+  });
+
+  it("refuses more entries than an export holds", async () => {
+    await recordEntries(10001);
+    const response = await GET(await signedIn(), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error.code).toBe("conflict");
+  });
+});
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import type { AuditEntry } from "../../../../../types/audit";
+import {
+  auditQuerySchema,
+  listAuditEntries,
+  type AuditQuery,
+} from "../../../../../admin/server/audit";
+import { AdminApiError, adminRoute } from "../../../../../admin/server/guard";
+import { toCsv } from "../../../../../admin/utils/csv";
+
+const MAX_EXPORT_ROWS = 10000;
+
+// Entries read per request; PostgREST returns at most 1000 rows at a time
+const EXPORT_BATCH = 1000;
+
+// Every matching entry, newest first. Refused rather than cut short when
+// there are more than an export may hold.
+const listExportEntries = async (query: AuditQuery) => {
+  const entries: AuditEntry[] = [];
+  for (let offset = 0; ; offset += EXPORT_BATCH) {
+    const batch = await listAuditEntries(query, offset, EXPORT_BATCH);
+    entries.push(...batch);
+    if (entries.length > MAX_EXPORT_ROWS) {
+      throw new AdminApiError(
+        409,
+        "conflict",
+        `More than ${MAX_EXPORT_ROWS} entries match; narrow the filters first`
+      );
+    }
+    if (batch.length < EXPORT_BATCH) return entries;
+  }
+};
+
+export const GET = adminRoute<undefined, AuditQuery>(
+  { permission: "audit:view", query: auditQuerySchema },
+  async ({ query }) => {
+    const entries = await listExportEntries(query);
+
+    const csv = toCsv<AuditEntry>(entries, [
+      { header: "Time", value: (e) => e.created_at },
+      { header: "Admin", value: (e) => e.admin_email },
+      { header: "Admin ID", value: (e) => e.admin_id },
+      { header: "Action", value: (e) => e.action },
+      { header: "Entity", value: (e) => e.entity },
+      { header: "Entity ID", value: (e) => e.entity_id },
+      { header: "Before", value: (e) => e.before },
+      { header: "After", value: (e) => e.after },
+    ]);
+
+    const date = new Date().toISOString().split("T")[0];
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-log-${date}.csv"`,
+      },
+    });
+  }
+);
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  auditQuerySchema,
+  listAuditEntries,
+} from "../../../../admin/server/audit";
+import { adminRoute } from "../../../../admin/server/guard";
+
+const PAGE_SIZE = 50;
+
+const listQuerySchema = auditQuerySchema.extend({
+  page: z.coerce.number().int().min(0).default(0),
+});
+
+export const GET = adminRoute<undefined, z.infer<typeof listQuerySchema>>(
+  { permission: "audit:view", query: listQuerySchema },
+  async ({ query }) => {
+    const { page, ...filters } = query;
+
+    // Fetch one extra row to know whether another page exists
+    const entries = await listAuditEntries(
+      filters,
+      page * PAGE_SIZE,
+      PAGE_SIZE + 1
+    );
+
+    return NextResponse.json({
+      entries: entries.slice(0, PAGE_SIZE),
+      hasMore: entries.length > PAGE_SIZE,
+    });
+  }
+);
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import {
+  deleteCampaign,
+  updateCampaign,
+} from "../../../../../admin/server/campaigns";
+import { adminRoute, jsonResponse } from "../../../../../admin/server/guard";
+import { campaignResponseSchema } from "../../../../../admin/utils/apiSchemas";
+import {
+  campaignFieldsSchema,
+  type CampaignFields,
+} from "../../../../../admin/utils/campaigns";
+
+const updateCampaignSchema = campaignFieldsSchema.partial().strict();
+
+export const PATCH = adminRoute<
+  Partial<CampaignFields>,
+  undefined,
+  { id: string }
+>(
+  { permission: "campaigns:manage", body: updateCampaignSchema },
+  async ({ admin, body, params }) =>
+    jsonResponse(campaignResponseSchema, {
+      campaign: await updateCampaign(admin, params.id, body),
+    })
+);
+
+export const DELETE = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "campaigns:manage" },
+  async ({ admin, params }) => {
+    await deleteCampaign(admin, params.id);
+    return NextResponse.json({ success: true });
+  }
+);
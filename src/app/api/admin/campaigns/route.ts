@@ -0,0 +1,26 @@
+import {
+  campaignReport,
+  createCampaign,
+} from "../../../../admin/server/campaigns";
+import { adminRoute, jsonResponse } from "../../../../admin/server/guard";
+import {
+  campaignReportSchema,
+  campaignResponseSchema,
+} from "../../../../admin/utils/apiSchemas";
+import {
+  campaignFieldsSchema,
+  type CampaignFields,
+} from "../../../../admin/utils/campaigns";
+
+export const GET = adminRoute(
+  { permission: "campaigns:manage" },
+  async () => jsonResponse(campaignReportSchema, await campaignReport())
+);
+
+export const POST = adminRoute<CampaignFields>(
+  { permission: "campaigns:manage", body: campaignFieldsSchema },
+  async ({ admin, body }) =>
+    jsonResponse(campaignResponseSchema, {
+      campaign: await createCampaign(admin, body),
+    })
+);
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runEmailCampaigns } from "../../../../../admin/server/campaigns";
+import {
+  adminErrorResponse,
+  isSchedulerRequest,
+} from "../../../../../admin/server/guard";
+
+// Called by a scheduler, not an admin (see isSchedulerRequest)
+export async function POST(request: NextRequest) {
+  if (!isSchedulerRequest(request)) {
+    return adminErrorResponse(401, "unauthorized", "Invalid cron secret");
+  }
+
+  try {
+    return NextResponse.json(await runEmailCampaigns());
+  } catch (error) {
+    console.error("Email campaigns failed:", error);
+    return adminErrorResponse(500, "internal_error", "Email campaigns failed");
+  }
+}
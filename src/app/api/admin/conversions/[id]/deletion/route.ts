@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "../../../../../../admin/server/guard";
+import { purgeTrashedConversion } from "../../../../../../admin/server/trash";
+
+// Deletes a conversion in Trash for good, files included
+export const DELETE = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "conversions:delete" },
+  async ({ admin, params }) => {
+    await purgeTrashedConversion(admin, params.id);
+    return NextResponse.json({ success: true });
+  }
+);
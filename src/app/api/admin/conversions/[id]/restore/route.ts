@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "../../../../../../admin/server/guard";
+import { restoreConversion } from "../../../../../../admin/server/trash";
+
+// Brings a conversion back from Trash
+export const POST = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "conversions:delete" },
+  async ({ admin, params }) => {
+    await restoreConversion(admin, params.id);
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { recordAudit } from "../../../../../admin/server/audit";
+import { AdminApiError, adminRoute } from "../../../../../admin/server/guard";
+import { repositories } from "../../../../../admin/server/repositories";
+import { removeStorageObject } from "../../../../../admin/server/storage";
+import { trashConversion } from "../../../../../admin/server/trash";
+
+const deleteConversionSchema = z.object({
+  scope: z.enum(["pdf", "audio", "all"]),
+});
+
+const AUDIT_ACTIONS = {
+  pdf: "conversion.delete_pdf",
+  audio: "conversion.delete_audio",
+} as const;
+
+// Deletes the PDF or the audio file right away, or moves the whole
+// conversion to Trash (conversions/[id]/deletion deletes it for good)
+export const DELETE = adminRoute<
+  z.infer<typeof deleteConversionSchema>,
+  undefined,
+  { id: string }
+>(
+  { permission: "conversions:delete", body: deleteConversionSchema },
+  async ({ admin, body, params }) => {
+    if (body.scope === "all") {
+      await trashConversion(admin, params.id);
+      return NextResponse.json({ success: true });
+    }
+
+    const conversion = await repositories().conversions.findById(params.id);
+    if (!conversion) {
+      throw new AdminApiError(404, "not_found", "Conversion not found");
+    }
+
+    if (body.scope === "pdf" && !conversion.pdf_path) {
+      throw new AdminApiError(422, "validation_failed", "No PDF file to delete");
+    }
+    if (body.scope === "audio" && !conversion.audio_path) {
+      throw new AdminApiError(422, "validation_failed", "No audio file to delete");
+    }
+
+    if (body.scope === "pdf") {
+      await removeStorageObject("pdfs", conversion.pdf_path);
+    } else {
+      await removeStorageObject("audio", conversion.audio_path);
+    }
+
+    const patch =
+      body.scope === "pdf"
+        ? { pdf_path: "", pdf_size: 0 }
+        : { audio_path: "", audio_size: null, audio_duration: null };
+    await repositories().conversions.update(params.id, patch);
+
+    await recordAudit(admin, {
+      action: AUDIT_ACTIONS[body.scope],
+      entity: "conversion",
+      entityId: params.id,
+      before: conversion,
+      after: { ...conversion, ...patch },
+    });
+
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  setRepositories,
+} from "../../../../admin/server/repositories";
+import { signedInRequest } from "../../../../admin/server/testing";
+import { GET } from "./route";
+
+const ROUTE_URL = "http://localhost/api/admin/conversions";
+const context = { params: Promise.resolve({}) };
+
+// A request signed in as the demo owner
+const signedIn = (search: string) =>
+  signedInRequest(demoFixtures().admins[0].id, `${ROUTE_URL}${search}`);
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories(demoFixtures()));
+});
+
+describe("GET /api/admin/conversions", () => {
+  it("refuses requests without a session", async () => {
+    const response = await GET(new NextRequest(ROUTE_URL), context);
+    expect(response.status).toBe(401);
+  });
+
+  it("pages the conversions with their owners", async () => {
+    const response = await GET(await signedIn("?search=farid"), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.hasMore).toBe(false);
+    expect(body.conversions).toHaveLength(1);
+    expect(body.conversions[0].user_email).toBe("farid@example.com");
+  });
+
+  it("answers a bad date with a validation error", async () => {
+    const response = await GET(await signedIn("?dateFrom=yesterday"), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error.code).toBe("validation_failed");
+    expect(body.error.issues[0].path).toBe("dateFrom");
+  });
+});
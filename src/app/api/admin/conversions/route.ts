@@ -0,0 +1,34 @@
+import { z } from "zod";
+import {
+  conversionQuerySchema,
+  listConversions,
+} from "../../../../admin/server/conversions";
+import { adminRoute, jsonResponse } from "../../../../admin/server/guard";
+import { conversionPageResponseSchema } from "../../../../admin/utils/apiSchemas";
+
+const PAGE_SIZE = 20;
+
+const listQuerySchema = conversionQuerySchema.extend({
+  page: z.coerce.number().int().min(0).default(0),
+  trash: z.literal("1").optional(),
+});
+
+export const GET = adminRoute<undefined, z.infer<typeof listQuerySchema>>(
+  { permission: "conversions:view", query: listQuerySchema },
+  async ({ query }) => {
+    const { page, trash, ...filters } = query;
+
+    // Fetch one extra row to know whether another page exists
+    const conversions = await listConversions(
+      filters,
+      page * PAGE_SIZE,
+      PAGE_SIZE + 1,
+      trash === "1"
+    );
+
+    return jsonResponse(conversionPageResponseSchema, {
+      conversions: conversions.slice(0, PAGE_SIZE),
+      hasMore: conversions.length > PAGE_SIZE,
+    });
+  }
+);
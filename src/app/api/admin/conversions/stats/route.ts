@@ -0,0 +1,15 @@
+import {
+  conversionQuerySchema,
+  type ConversionQuery,
+} from "../../../../../admin/server/conversions";
+import { adminRoute, jsonResponse } from "../../../../../admin/server/guard";
+import { getConversionStats } from "../../../../../admin/server/stats";
+import { conversionStatsResponseSchema } from "../../../../../admin/utils/apiSchemas";
+
+export const GET = adminRoute<undefined, ConversionQuery>(
+  { permission: "conversions:view", query: conversionQuerySchema },
+  async ({ query }) =>
+    jsonResponse(conversionStatsResponseSchema, {
+      stats: await getConversionStats(query),
+    })
+);
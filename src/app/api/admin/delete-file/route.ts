@@ -1,21 +1,28 @@
-import { createClient } from "@supabase/supabase-js";
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { recordAudit } from "../../../../admin/server/audit";
+import { adminRoute } from "../../../../admin/server/guard";
+import {
+  removeStorageObject,
+  storagePathSchema,
+} from "../../../../admin/server/storage";
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE!
-);
+const deleteFileSchema = z.object({
+  bucket: z.string().min(1),
+  path: storagePathSchema,
+});
 
-export async function DELETE(request: NextRequest) {
-  const { bucket, path } = await request.json();
+export const DELETE = adminRoute(
+  { permission: "conversions:delete", body: deleteFileSchema },
+  async ({ admin, body }) => {
+    await removeStorageObject(body.bucket, body.path);
 
-  const { data, error } = await supabase.storage
-    .from(bucket)
-    .remove([path]);
+    await recordAudit(admin, {
+      action: "storage.delete",
+      entity: "storage_object",
+      entityId: `${body.bucket}/${body.path}`,
+    });
 
-  if (error) {
-    return NextResponse.json({ error }, { status: 500 });
+    return NextResponse.json({ success: true });
   }
-
-  return NextResponse.json({ success: true, data });
-}
\ No newline at end of file
+);
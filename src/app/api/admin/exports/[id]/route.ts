@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { downloadExport } from "../../../../../admin/server/exports";
+import { adminRoute } from "../../../../../admin/server/guard";
+
+export const GET = adminRoute<undefined, undefined, { id: string }>(
+  {
+    permission: ["users:view", "conversions:view", "support:view"],
+  },
+  async ({ admin, params }) => {
+    const { filename, contentType, body } = await downloadExport(
+      admin,
+      params.id
+    );
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+);
@@ -0,0 +1,41 @@
+import { after } from "next/server";
+import {
+  createExport,
+  listExports,
+  runExportJob,
+} from "../../../../admin/server/exports";
+import { adminRoute, jsonResponse } from "../../../../admin/server/guard";
+import {
+  dataExportListResponseSchema,
+  dataExportResponseSchema,
+} from "../../../../admin/utils/apiSchemas";
+import {
+  exportRequestSchema,
+  type ExportRequest,
+} from "../../../../admin/utils/exports";
+
+// Any tab that can be exported; createExport checks the one asked for
+const EXPORT_PERMISSIONS = [
+  "users:view" as const,
+  "conversions:view" as const,
+  "support:view" as const,
+];
+
+export const GET = adminRoute(
+  { permission: EXPORT_PERMISSIONS },
+  async ({ admin }) =>
+    jsonResponse(dataExportListResponseSchema, {
+      exports: await listExports(admin),
+    })
+);
+
+export const POST = adminRoute<ExportRequest>(
+  { permission: EXPORT_PERMISSIONS, body: exportRequestSchema },
+  async ({ admin, body }) => {
+    const record = await createExport(admin, body);
+    // Large exports are built once the response has gone out
+    if (record.background) after(() => runExportJob(record.id));
+
+    return jsonResponse(dataExportResponseSchema, { export: record });
+  }
+);
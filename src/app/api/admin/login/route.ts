@@ -0,0 +1,111 @@
+import bcrypt from "bcryptjs";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  auditFailedLogin,
+  checkLockout,
+  clearFailedAttempts,
+  lockedResponse,
+  loginKeys,
+  recordFailedAttempt,
+} from "../../../../admin/server/loginThrottle";
+import { repositories } from "../../../../admin/server/repositories";
+import {
+  clearMfaChallengeCookie,
+  clientIp,
+  issueSession,
+  setMfaChallengeCookie,
+  toAdminUser,
+} from "../../../../admin/server/session";
+import { recordLogin } from "../../../../admin/server/team";
+import { twoFactorStatus } from "../../../../admin/server/twoFactor";
+
+const loginSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(1),
+});
+
+// Compared against when the email is unknown so both paths cost one bcrypt
+// round and response timing does not reveal which admin emails exist.
+const DUMMY_HASH =
+  "$2b$10$pLzZa2Ziw8dL6bpZ8W0zgu1VtIsMGP8JZJtZMn3wR9WTL3CsMUuny";
+
+export async function POST(request: NextRequest) {
+  const parsed = loginSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: { message: "Invalid email or password" } },
+      { status: 400 }
+    );
+  }
+
+  const { email, password } = parsed.data;
+  const ip = clientIp(request);
+  const keys = loginKeys(email, ip);
+
+  try {
+    // Refuse before touching bcrypt while the email or IP is locked out
+    const lockedUntil = await checkLockout(keys);
+    if (lockedUntil) return lockedResponse(lockedUntil);
+
+    const admin = await repositories().admins.findByEmail(email);
+
+    const passwordMatches = await bcrypt.compare(
+      password,
+      admin?.password_hash || DUMMY_HASH
+    );
+
+    if (!admin || !admin.password_hash || !passwordMatches) {
+      const lockedNow = await recordFailedAttempt(keys);
+      await auditFailedLogin(email, ip, "password", lockedNow);
+      if (lockedNow) return lockedResponse(lockedNow);
+
+      return NextResponse.json(
+        { error: { message: "Invalid email or password" } },
+        { status: 401 }
+      );
+    }
+
+    await clearFailedAttempts(keys);
+
+    // Only reported once the password is right, so it does not leak which
+    // emails belong to disabled accounts
+    if (admin.disabled_at) {
+      return NextResponse.json(
+        { error: { message: "This account has been disabled" } },
+        { status: 403 }
+      );
+    }
+
+    const now = Date.now();
+
+    // Enrolled admins get a short-lived challenge cookie instead of a
+    // session; /api/admin/login/totp swaps it for one after checking the code.
+    if (admin.totp_enabled) {
+      const response = NextResponse.json({ status: "totp_required" });
+      setMfaChallengeCookie(response, admin.id, now);
+      return response;
+    }
+
+    const sessionAdmin = toAdminUser(admin);
+    const response = NextResponse.json({
+      status: "ok",
+      admin: sessionAdmin,
+      twoFactor: twoFactorStatus(sessionAdmin, now),
+    });
+    clearMfaChallengeCookie(response);
+    await issueSession(request, response, admin.id, now);
+    await recordLogin(admin.id, now);
+
+    return response;
+  } catch (error) {
+    console.error("Admin login failed:", error);
+    return NextResponse.json(
+      { error: { message: "An error occurred during login" } },
+      { status: 500 }
+    );
+  }
+}
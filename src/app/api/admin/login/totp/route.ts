@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { recordAudit } from "../../../../../admin/server/audit";
+import {
+  auditFailedLogin,
+  checkLockout,
+  clearFailedAttempts,
+  lockedResponse,
+  recordFailedAttempt,
+  secondFactorKeys,
+} from "../../../../../admin/server/loginThrottle";
+import { repositories } from "../../../../../admin/server/repositories";
+import {
+  MFA_CHALLENGE_COOKIE,
+  clearMfaChallengeCookie,
+  clientIp,
+  issueSession,
+  toAdminUser,
+  verifyMfaChallenge,
+} from "../../../../../admin/server/session";
+import { recordLogin } from "../../../../../admin/server/team";
+import {
+  twoFactorStatus,
+  verifySecondFactor,
+} from "../../../../../admin/server/twoFactor";
+
+const secondFactorSchema = z.union([
+  z.object({ code: z.string().trim().regex(/^\d{6}$/) }),
+  z.object({ recoveryCode: z.string().trim().min(1).max(32) }),
+]);
+
+// Second login step: exchange the challenge cookie set by /api/admin/login
+// plus a TOTP or recovery code for a session.
+export async function POST(request: NextRequest) {
+  const now = Date.now();
+  const challenge = verifyMfaChallenge(
+    request.cookies.get(MFA_CHALLENGE_COOKIE)?.value,
+    now
+  );
+
+  if (!challenge) {
+    const response = NextResponse.json(
+      { error: { message: "Your sign-in expired, please start again" } },
+      { status: 401 }
+    );
+    clearMfaChallengeCookie(response);
+    return response;
+  }
+
+  const parsed = secondFactorSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: { message: "Invalid verification code" } },
+      { status: 400 }
+    );
+  }
+
+  const ip = clientIp(request);
+  const keys = secondFactorKeys(challenge.sub, ip);
+
+  try {
+    const lockedUntil = await checkLockout(keys, now);
+    if (lockedUntil) return lockedResponse(lockedUntil, now);
+
+    const method = await verifySecondFactor(challenge.sub, parsed.data, now);
+    if (!method) {
+      const lockedNow = await recordFailedAttempt(keys, now);
+      await auditFailedLogin(challenge.sub, ip, "totp", lockedNow);
+      if (lockedNow) return lockedResponse(lockedNow, now);
+
+      return NextResponse.json(
+        { error: { message: "Invalid verification code" } },
+        { status: 401 }
+      );
+    }
+
+    await clearFailedAttempts(keys);
+
+    const row = await repositories().admins.findById(challenge.sub);
+    if (!row || row.disabled_at) {
+      return NextResponse.json(
+        { error: { message: "Invalid verification code" } },
+        { status: 401 }
+      );
+    }
+
+    const admin = toAdminUser(row);
+    if (method === "recovery_code") {
+      await recordAudit(admin, {
+        action: "admin.recovery_code_used",
+        entity: "admin",
+        entityId: admin.id,
+      });
+    }
+
+    const response = NextResponse.json({
+      status: "ok",
+      admin,
+      twoFactor: twoFactorStatus(admin, now),
+    });
+    clearMfaChallengeCookie(response);
+    await issueSession(request, response, admin.id, now);
+    await recordLogin(admin.id, now);
+
+    return response;
+  } catch (error) {
+    console.error("Admin TOTP verification failed:", error);
+    return NextResponse.json(
+      { error: { message: "An error occurred during login" } },
+      { status: 500 }
+    );
+  }
+}
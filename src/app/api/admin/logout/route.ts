@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ADMIN_SESSION_COOKIE,
+  clearMfaChallengeCookie,
+  clearSessionCookie,
+  revokeSession,
+  verifySession,
+} from "../../../../admin/server/session";
+
+// Revoke the current session server-side, not just the cookie, so a copied
+// cookie stops working too.
+export async function POST(request: NextRequest) {
+  const session = verifySession(
+    request.cookies.get(ADMIN_SESSION_COOKIE)?.value
+  );
+
+  if (session) {
+    try {
+      await revokeSession(session.sid);
+    } catch (error) {
+      console.error("Failed to revoke admin session:", error);
+      return NextResponse.json(
+        { error: { message: "Could not sign out, please try again" } },
+        { status: 500 }
+      );
+    }
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  clearMfaChallengeCookie(response);
+  return response;
+}
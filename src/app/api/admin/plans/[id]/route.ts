@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { adminRoute, jsonResponse } from "../../../../../admin/server/guard";
+import { deletePlan, updatePlan } from "../../../../../admin/server/plans";
+import { planResponseSchema } from "../../../../../admin/utils/apiSchemas";
+import {
+  planFieldsSchema,
+  type PlanFields,
+} from "../../../../../admin/utils/plans";
+
+const updatePlanSchema = planFieldsSchema.partial().strict();
+
+export const PATCH = adminRoute<Partial<PlanFields>, undefined, { id: string }>(
+  { permission: "plans:manage", body: updatePlanSchema },
+  async ({ admin, body, params }) =>
+    jsonResponse(planResponseSchema, {
+      plan: await updatePlan(admin, params.id, body),
+    })
+);
+
+export const DELETE = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "plans:manage" },
+  async ({ admin, params }) => {
+    await deletePlan(admin, params.id);
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,19 @@
+import { adminRoute, jsonResponse } from "../../../../admin/server/guard";
+import { createPlan, listPlans } from "../../../../admin/server/plans";
+import {
+  planListResponseSchema,
+  planResponseSchema,
+} from "../../../../admin/utils/apiSchemas";
+import { newPlanSchema, type NewPlan } from "../../../../admin/utils/plans";
+
+// Anyone who can see users needs the catalog for plan names and dropdowns
+export const GET = adminRoute(
+  { permission: ["users:view", "plans:manage"] },
+  async () => jsonResponse(planListResponseSchema, { plans: await listPlans() })
+);
+
+export const POST = adminRoute<NewPlan>(
+  { permission: "plans:manage", body: newPlanSchema },
+  async ({ admin, body }) =>
+    jsonResponse(planResponseSchema, { plan: await createPlan(admin, body) })
+);
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  clearSessionCookie,
+  getAdminSession,
+} from "../../../../admin/server/session";
+import { twoFactorStatus } from "../../../../admin/server/twoFactor";
+
+export async function GET(request: NextRequest) {
+  const current = await getAdminSession(request);
+
+  if (!current) {
+    const response = NextResponse.json(
+      { error: { message: "Not authenticated" } },
+      { status: 401 }
+    );
+    clearSessionCookie(response);
+    return response;
+  }
+
+  return NextResponse.json({
+    admin: current.admin,
+    twoFactor: twoFactorStatus(current.admin),
+  });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../../admin/server/audit";
+import { adminRoute } from "../../../../admin/server/guard";
+import {
+  clearSessionCookie,
+  revokeAllSessions,
+} from "../../../../admin/server/session";
+
+// "Sign out all sessions": revokes every session of the calling admin,
+// including this one.
+export const DELETE = adminRoute(
+  { allowPendingEnrollment: true },
+  async ({ admin }) => {
+    await revokeAllSessions(admin.id);
+
+    await recordAudit(admin, {
+      action: "admin.revoke_sessions",
+      entity: "admin",
+      entityId: admin.id,
+    });
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  }
+);
@@ -0,0 +1,7 @@
+import { adminRoute, jsonResponse } from "../../../../admin/server/guard";
+import { loadSupportInbox } from "../../../../admin/server/support";
+import { supportInboxResponseSchema } from "../../../../admin/utils/apiSchemas";
+
+export const GET = adminRoute({ permission: "support:view" }, async () =>
+  jsonResponse(supportInboxResponseSchema, await loadSupportInbox())
+);
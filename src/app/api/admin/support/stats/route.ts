@@ -0,0 +1,15 @@
+import { adminRoute, jsonResponse } from "../../../../../admin/server/guard";
+import { getSupportStats } from "../../../../../admin/server/stats";
+import {
+  supportQuerySchema,
+  type SupportQuery,
+} from "../../../../../admin/server/support";
+import { supportStatsResponseSchema } from "../../../../../admin/utils/apiSchemas";
+
+export const GET = adminRoute<undefined, SupportQuery>(
+  { permission: "support:view", query: supportQuerySchema },
+  async ({ query }) =>
+    jsonResponse(supportStatsResponseSchema, {
+      stats: await getSupportStats(query),
+    })
+);
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { recordAudit } from "../../../../../../../admin/server/audit";
+import {
+  adminRoute,
+  jsonResponse,
+} from "../../../../../../../admin/server/guard";
+import { repositories } from "../../../../../../../admin/server/repositories";
+import { supportMessageResponseSchema } from "../../../../../../../admin/utils/apiSchemas";
+
+const sendMessageSchema = z.object({
+  message: z.string().trim().min(1).max(5000),
+});
+
+export const POST = adminRoute<
+  z.infer<typeof sendMessageSchema>,
+  undefined,
+  { id: string }
+>(
+  { permission: "support:reply", body: sendMessageSchema },
+  async ({ admin, body, params }) => {
+    const data = await repositories().supportMessages.insert({
+      ticket_id: params.id,
+      sender_id: admin.id,
+      sender_type: "admin",
+      message: body.message,
+      read: false,
+    });
+
+    // Update ticket updated_at
+    try {
+      await repositories().supportTickets.update(params.id, {
+        updated_at: new Date().toISOString(),
+      });
+    } catch (updateError) {
+      console.error("Error updating ticket:", updateError);
+    }
+
+    await recordAudit(admin, {
+      action: "ticket.reply",
+      entity: "support_message",
+      entityId: data.id,
+      after: data,
+    });
+
+    return jsonResponse(supportMessageResponseSchema, { message: data });
+  }
+);
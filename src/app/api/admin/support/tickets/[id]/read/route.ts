@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "../../../../../../../admin/server/guard";
+import { repositories } from "../../../../../../../admin/server/repositories";
+
+// Marks the user's messages on a ticket as read once an admin opens it
+export const POST = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "support:view" },
+  async ({ params }) => {
+    await repositories().supportMessages.markUserMessagesRead(params.id);
+
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { recordAudit } from "../../../../../../admin/server/audit";
+import {
+  AdminApiError,
+  adminRoute,
+  jsonResponse,
+} from "../../../../../../admin/server/guard";
+import { repositories } from "../../../../../../admin/server/repositories";
+import { supportTicketResponseSchema } from "../../../../../../admin/utils/apiSchemas";
+
+const updateTicketSchema = z.object({
+  status: z.enum(["open", "closed"]),
+});
+
+export const PATCH = adminRoute<
+  z.infer<typeof updateTicketSchema>,
+  undefined,
+  { id: string }
+>(
+  { permission: "support:close", body: updateTicketSchema },
+  async ({ admin, body, params }) => {
+    const now = new Date().toISOString();
+    const updateData =
+      body.status === "closed"
+        ? { status: body.status, updated_at: now, closed_at: now, closed_by: admin.id }
+        : { status: body.status, updated_at: now, closed_at: null, closed_by: null };
+
+    const before = await repositories().supportTickets.findById(params.id);
+    if (!before) throw new AdminApiError(404, "not_found", "Ticket not found");
+
+    const data = await repositories().supportTickets.update(
+      params.id,
+      updateData
+    );
+    if (!data) throw new AdminApiError(404, "not_found", "Ticket not found");
+
+    await recordAudit(admin, {
+      action: body.status === "closed" ? "ticket.close" : "ticket.reopen",
+      entity: "support_ticket",
+      entityId: params.id,
+      before,
+      after: data,
+    });
+
+    return jsonResponse(supportTicketResponseSchema, { ticket: data });
+  }
+);
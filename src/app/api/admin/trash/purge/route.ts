@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  adminErrorResponse,
+  isSchedulerRequest,
+} from "../../../../../admin/server/guard";
+import { purgeExpiredExports } from "../../../../../admin/server/exports";
+import { purgeExpiredTrash } from "../../../../../admin/server/trash";
+
+// Called by a scheduler, not an admin (see isSchedulerRequest). Also deletes
+// expired data exports.
+export async function POST(request: NextRequest) {
+  if (!isSchedulerRequest(request)) {
+    return adminErrorResponse(401, "unauthorized", "Invalid cron secret");
+  }
+
+  try {
+    return NextResponse.json({
+      ...(await purgeExpiredTrash()),
+      exports: await purgeExpiredExports(),
+    });
+  } catch (error) {
+    console.error("Trash purge failed:", error);
+    return adminErrorResponse(500, "internal_error", "Trash purge failed");
+  }
+}
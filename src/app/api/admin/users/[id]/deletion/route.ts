@@ -0,0 +1,28 @@
+import { adminRoute, jsonResponse } from "../../../../../../admin/server/guard";
+import {
+  deleteUser,
+  planUserDeletion,
+} from "../../../../../../admin/server/userDeletion";
+import {
+  userDeletionPlanResponseSchema,
+  userDeletionReceiptResponseSchema,
+} from "../../../../../../admin/utils/apiSchemas";
+
+// Dry run of DELETE: what it would remove
+export const GET = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "users:delete" },
+  async ({ params }) =>
+    jsonResponse(userDeletionPlanResponseSchema, {
+      plan: await planUserDeletion(params.id),
+    })
+);
+
+// Deletes a user in Trash for good, with their files, conversions and
+// support tickets, and returns the receipt
+export const DELETE = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "users:delete" },
+  async ({ admin, params }) =>
+    jsonResponse(userDeletionReceiptResponseSchema, {
+      receipt: await deleteUser(admin, params.id),
+    })
+);
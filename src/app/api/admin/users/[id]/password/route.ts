@@ -0,0 +1,13 @@
+import { adminRoute, jsonResponse } from "../../../../../../admin/server/guard";
+import { setTemporaryPassword } from "../../../../../../admin/server/userPassword";
+import { temporaryPasswordResponseSchema } from "../../../../../../admin/utils/apiSchemas";
+
+// Sets a generated temporary password and signs the user out of the app
+export const POST = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "users:edit" },
+  async ({ admin, params }) =>
+    jsonResponse(
+      temporaryPasswordResponseSchema,
+      await setTemporaryPassword(admin, params.id)
+    )
+);
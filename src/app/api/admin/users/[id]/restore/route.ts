@@ -0,0 +1,12 @@
+import { adminRoute, jsonResponse } from "../../../../../../admin/server/guard";
+import { restoreUser } from "../../../../../../admin/server/trash";
+import { userResponseSchema } from "../../../../../../admin/utils/apiSchemas";
+
+// Brings a user back from Trash
+export const POST = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "users:delete" },
+  async ({ admin, params }) =>
+    jsonResponse(userResponseSchema, {
+      user: await restoreUser(admin, params.id),
+    })
+);
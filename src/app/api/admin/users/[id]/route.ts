@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { pick, recordAudit } from "../../../../../admin/server/audit";
+import {
+  AdminApiError,
+  adminRoute,
+  jsonResponse,
+} from "../../../../../admin/server/guard";
+import { assertPlanExists } from "../../../../../admin/server/plans";
+import { repositories } from "../../../../../admin/server/repositories";
+import { trashUser } from "../../../../../admin/server/trash";
+import { loadUserDetail } from "../../../../../admin/server/userDetail";
+import {
+  userDetailResponseSchema,
+  userResponseSchema,
+} from "../../../../../admin/utils/apiSchemas";
+import { editableUserFields } from "../../../../../admin/utils/permissions";
+import { userPatchSchema } from "../../../../../types/database";
+
+// Passwords are not editable here; see users/[id]/password.
+const updateUserSchema = userPatchSchema.strict();
+
+export const GET = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "users:view" },
+  async ({ admin, params }) =>
+    jsonResponse(userDetailResponseSchema, {
+      detail: await loadUserDetail(admin, params.id),
+    })
+);
+
+export const PATCH = adminRoute<
+  z.infer<typeof updateUserSchema>,
+  undefined,
+  { id: string }
+>(
+  {
+    permission: ["users:edit", "users:edit_billing"],
+    body: updateUserSchema,
+  },
+  async ({ admin, body, params }) => {
+    // Billing admins may only touch plan and expiry
+    const allowed = editableUserFields(admin);
+    const forbidden = Object.keys(body).filter(
+      (key) => !allowed.includes(key as keyof typeof body)
+    );
+    if (forbidden.length > 0) {
+      throw new AdminApiError(
+        403,
+        "forbidden",
+        `You may not edit: ${forbidden.join(", ")}`
+      );
+    }
+
+    const before = await repositories().users.findById(params.id);
+    if (!before) throw new AdminApiError(404, "not_found", "User not found");
+
+    if (
+      body.subscription_plan !== undefined &&
+      body.subscription_plan !== before.subscription_plan
+    ) {
+      await assertPlanExists(body.subscription_plan, "subscription_plan");
+    }
+    if (body.email !== undefined && body.email !== before.email) {
+      const taken = await repositories().users.findByEmail(body.email);
+      if (taken && taken.id !== params.id) {
+        throw new AdminApiError(409, "conflict", "Email is already in use", [
+          { path: "email", message: "Another user already has this email" },
+        ]);
+      }
+    }
+
+    const data = await repositories().users.update(params.id, {
+      ...body,
+      updated_at: new Date().toISOString(),
+    });
+    if (!data) throw new AdminApiError(404, "not_found", "User not found");
+
+    // Only the changed columns go into the audit entry
+    await recordAudit(admin, {
+      action: "user.update",
+      entity: "user",
+      entityId: params.id,
+      before: pick(before, Object.keys(body)),
+      after: pick(data, Object.keys(body)),
+    });
+
+    return jsonResponse(userResponseSchema, { user: data });
+  }
+);
+
+// Moves the user to Trash; users/[id]/deletion deletes for good
+export const DELETE = adminRoute<undefined, undefined, { id: string }>(
+  { permission: "users:delete" },
+  async ({ admin, params }) =>
+    jsonResponse(userResponseSchema, {
+      user: await trashUser(admin, params.id),
+    })
+);
@@ -0,0 +1,16 @@
+import { adminRoute, jsonResponse } from "../../../../../../admin/server/guard";
+import {
+  grantTopUp,
+  topUpSchema,
+  type TopUp,
+} from "../../../../../../admin/server/usage";
+import { usageResponseSchema } from "../../../../../../admin/utils/apiSchemas";
+
+// Grants extra conversions for the user's current billing period
+export const POST = adminRoute<TopUp, undefined, { id: string }>(
+  { permission: "users:edit_billing", body: topUpSchema },
+  async ({ admin, body, params }) =>
+    jsonResponse(usageResponseSchema, {
+      usage: await grantTopUp(admin, params.id, body),
+    })
+);
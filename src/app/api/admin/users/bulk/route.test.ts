@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { BulkUserAction } from "../../../../../admin/server/bulkUsers";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  repositories,
+  setRepositories,
+} from "../../../../../admin/server/repositories";
+import { signedInRequest } from "../../../../../admin/server/testing";
+import { POST } from "./route";
+
+const ROUTE_URL = "http://localhost/api/admin/users/bulk";
+const context = { params: Promise.resolve({}) };
+const DAY = 24 * 60 * 60 * 1000;
+
+const fixtures = demoFixtures();
+const owner = fixtures.admins[0];
+// Ayesha (expires in 120 days) and Bilal (in 5 days)
+const [ayesha, bilal] = fixtures.users;
+
+const bulk = async (
+  adminId: string,
+  ids: string[],
+  action: BulkUserAction
+) => {
+  const response = await POST(
+    await signedInRequest(adminId, ROUTE_URL, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ids, action }),
+    }),
+    context
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+const addAdmin = async (role: "billing" | "support") =>
+  (
+    await repositories().admins.insert({
+      name: `Demo ${role}`,
+      email: `${role}@example.com`,
+      role,
+      password_hash: owner.password_hash,
+    })
+  ).id;
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories(fixtures));
+});
+
+describe("POST /api/admin/users/bulk", () => {
+  it("reports each row, carrying on past the ones that fail", async () => {
+    await repositories().users.update(bilal.id, {
+      deleted_at: new Date().toISOString(),
+      deleted_by: owner.email,
+    });
+    const missing = crypto.randomUUID();
+
+    const { status, body } = await bulk(
+      owner.id,
+      [ayesha.id, bilal.id, missing],
+      { type: "delete" }
+    );
+
+    expect(status).toBe(200);
+    expect(body.results).toEqual([
+      { id: ayesha.id, ok: true, error: null },
+      { id: bilal.id, ok: false, error: "User is already in Trash" },
+      { id: missing, ok: false, error: "User not found" },
+    ]);
+    const user = await repositories().users.findById(ayesha.id);
+    expect(user?.deleted_at).not.toBeNull();
+  });
+
+  it("extends each user from their own expiry date", async () => {
+    const { body } = await bulk(owner.id, [ayesha.id, bilal.id], {
+      type: "extend_expiry",
+      days: 30,
+    });
+
+    expect(body.results.every((result) => result.ok)).toBe(true);
+    for (const before of [ayesha, bilal]) {
+      const after = await repositories().users.findById(before.id);
+      expect(new Date(after.expiry_date).getTime()).toBe(
+        new Date(before.expiry_date).getTime() + 30 * DAY
+      );
+    }
+  });
+
+  it("lets billing admins change billing fields only", async () => {
+    const billing = await addAdmin("billing");
+
+    const extend = await bulk(billing, [ayesha.id], {
+      type: "extend_expiry",
+      days: 30,
+    });
+    const reset = await bulk(billing, [ayesha.id], {
+      type: "reset_conversions",
+    });
+    const trash = await bulk(billing, [ayesha.id], { type: "delete" });
+
+    expect(extend.status).toBe(200);
+    expect(reset.status).toBe(403);
+    expect(trash.status).toBe(403);
+    const user = await repositories().users.findById(ayesha.id);
+    expect(user?.conversions).toBe(ayesha.conversions);
+    expect(user?.deleted_at).toBeFalsy();
+  });
+
+  it("refuses admins who may not edit users", async () => {
+    const support = await addAdmin("support");
+    const { status } = await bulk(support, [ayesha.id], {
+      type: "reset_conversions",
+    });
+    expect(status).toBe(403);
+  });
+});
@@ -0,0 +1,19 @@
+import {
+  bulkUserRequestSchema,
+  runBulkUserAction,
+  type BulkUserRequest,
+} from "../../../../../admin/server/bulkUsers";
+import { adminRoute, jsonResponse } from "../../../../../admin/server/guard";
+import { bulkUserResponseSchema } from "../../../../../admin/utils/apiSchemas";
+
+// Which action each admin may run is checked per action in runBulkUserAction
+export const POST = adminRoute<BulkUserRequest>(
+  {
+    permission: ["users:edit", "users:edit_billing", "users:delete"],
+    body: bulkUserRequestSchema,
+  },
+  async ({ admin, body }) =>
+    jsonResponse(bulkUserResponseSchema, {
+      results: await runBulkUserAction(admin, body),
+    })
+);
@@ -0,0 +1,18 @@
+import { listMatchingUserIds } from "../../../../../admin/server/bulkUsers";
+import { adminRoute, jsonResponse } from "../../../../../admin/server/guard";
+import {
+  userFilterQuerySchema,
+  type UserFilterQuery,
+} from "../../../../../admin/server/users";
+import { userIdsResponseSchema } from "../../../../../admin/utils/apiSchemas";
+
+export const GET = adminRoute<undefined, UserFilterQuery>(
+  {
+    permission: ["users:edit", "users:edit_billing", "users:delete"],
+    query: userFilterQuerySchema,
+  },
+  async ({ query }) =>
+    jsonResponse(userIdsResponseSchema, {
+      ids: await listMatchingUserIds(query),
+    })
+);
@@ -0,0 +1,19 @@
+import { adminRoute, jsonResponse } from "../../../../../../admin/server/guard";
+import { previewUserImport } from "../../../../../../admin/server/userImport";
+import { userImportResponseSchema } from "../../../../../../admin/utils/apiSchemas";
+import {
+  userImportRequestSchema,
+  type UserImportRequest,
+} from "../../../../../../admin/utils/userImport";
+
+// What importing a batch of rows would do, without writing anything
+export const POST = adminRoute<UserImportRequest>(
+  {
+    permission: ["users:edit", "users:edit_billing"],
+    body: userImportRequestSchema,
+  },
+  async ({ admin, body }) =>
+    jsonResponse(userImportResponseSchema, {
+      results: await previewUserImport(admin, body.rows),
+    })
+);
@@ -0,0 +1,20 @@
+import { adminRoute, jsonResponse } from "../../../../../admin/server/guard";
+import { applyUserImport } from "../../../../../admin/server/userImport";
+import { userImportResponseSchema } from "../../../../../admin/utils/apiSchemas";
+import {
+  userImportRequestSchema,
+  type UserImportRequest,
+} from "../../../../../admin/utils/userImport";
+
+// One batch of rows; which fields each admin may write, and whether they
+// may create users, is checked per row in applyUserImport
+export const POST = adminRoute<UserImportRequest>(
+  {
+    permission: ["users:edit", "users:edit_billing"],
+    body: userImportRequestSchema,
+  },
+  async ({ admin, body }) =>
+    jsonResponse(userImportResponseSchema, {
+      results: await applyUserImport(admin, body.rows),
+    })
+);
@@ -0,0 +1,15 @@
+import { adminRoute, jsonResponse } from "../../../../admin/server/guard";
+import {
+  listUsersPage,
+  userQuerySchema,
+  type UserQuery,
+} from "../../../../admin/server/users";
+import { userPageResponseSchema } from "../../../../admin/utils/apiSchemas";
+
+const PAGE_SIZE = 20;
+
+export const GET = adminRoute<undefined, UserQuery>(
+  { permission: "users:view", query: userQuerySchema },
+  async ({ query }) =>
+    jsonResponse(userPageResponseSchema, await listUsersPage(query, PAGE_SIZE))
+);
@@ -0,0 +1,15 @@
+import { adminRoute, jsonResponse } from "../../../../../admin/server/guard";
+import { getUserStats } from "../../../../../admin/server/stats";
+import {
+  userFilterQuerySchema,
+  type UserFilterQuery,
+} from "../../../../../admin/server/users";
+import { userStatsResponseSchema } from "../../../../../admin/utils/apiSchemas";
+
+export const GET = adminRoute<undefined, UserFilterQuery>(
+  { permission: "users:view", query: userFilterQuerySchema },
+  async ({ query }) =>
+    jsonResponse(userStatsResponseSchema, {
+      stats: await getUserStats(query),
+    })
+);
@@ -0,0 +1,20 @@
+import { adminRoute, jsonResponse } from "../../../../../../admin/server/guard";
+import { setSavedViewPinned } from "../../../../../../admin/server/savedViews";
+import { savedViewResponseSchema } from "../../../../../../admin/utils/apiSchemas";
+
+// Pin to (PUT) or unpin from (DELETE) the admin's own tab header
+export const PUT = adminRoute<undefined, undefined, { id: string }>(
+  { permission: ["users:view", "conversions:view", "support:view"] },
+  async ({ admin, params }) =>
+    jsonResponse(savedViewResponseSchema, {
+      view: await setSavedViewPinned(admin, params.id, true),
+    })
+);
+
+export const DELETE = adminRoute<undefined, undefined, { id: string }>(
+  { permission: ["users:view", "conversions:view", "support:view"] },
+  async ({ admin, params }) =>
+    jsonResponse(savedViewResponseSchema, {
+      view: await setSavedViewPinned(admin, params.id, false),
+    })
+);
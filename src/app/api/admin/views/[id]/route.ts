@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { adminRoute, jsonResponse } from "../../../../../admin/server/guard";
+import {
+  deleteSavedView,
+  updateSavedView,
+} from "../../../../../admin/server/savedViews";
+import { savedViewResponseSchema } from "../../../../../admin/utils/apiSchemas";
+import {
+  savedViewPatchSchema,
+  type SavedViewPatch,
+} from "../../../../../admin/utils/savedViews";
+
+export const PATCH = adminRoute<SavedViewPatch, undefined, { id: string }>(
+  {
+    permission: ["users:view", "conversions:view", "support:view"],
+    body: savedViewPatchSchema,
+  },
+  async ({ admin, body, params }) =>
+    jsonResponse(savedViewResponseSchema, {
+      view: await updateSavedView(admin, params.id, body),
+    })
+);
+
+export const DELETE = adminRoute<undefined, undefined, { id: string }>(
+  { permission: ["users:view", "conversions:view", "support:view"] },
+  async ({ admin, params }) => {
+    await deleteSavedView(admin, params.id);
+    return NextResponse.json({ success: true });
+  }
+);
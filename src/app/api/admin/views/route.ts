@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { adminRoute, jsonResponse } from "../../../../admin/server/guard";
+import {
+  createSavedView,
+  listSavedViews,
+} from "../../../../admin/server/savedViews";
+import {
+  savedViewListResponseSchema,
+  savedViewResponseSchema,
+} from "../../../../admin/utils/apiSchemas";
+import {
+  SAVED_VIEW_TABS,
+  savedViewInputSchema,
+  type SavedViewInput,
+} from "../../../../admin/utils/savedViews";
+
+// Any tab with views; the service checks the one asked for
+const VIEW_PERMISSIONS = [
+  "users:view" as const,
+  "conversions:view" as const,
+  "support:view" as const,
+];
+
+const listQuerySchema = z.object({ tab: z.enum(SAVED_VIEW_TABS) });
+
+export const GET = adminRoute<undefined, z.infer<typeof listQuerySchema>>(
+  { permission: VIEW_PERMISSIONS, query: listQuerySchema },
+  async ({ admin, query }) =>
+    jsonResponse(savedViewListResponseSchema, {
+      views: await listSavedViews(admin, query.tab),
+    })
+);
+
+export const POST = adminRoute<SavedViewInput>(
+  { permission: VIEW_PERMISSIONS, body: savedViewInputSchema },
+  async ({ admin, body }) =>
+    jsonResponse(savedViewResponseSchema, {
+      view: await createSavedView(admin, body),
+    })
+);
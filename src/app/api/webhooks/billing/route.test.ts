@@ -0,0 +1,98 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  buildEvent,
+  sign,
+  TYPES,
+} from "../../../../../scripts/fake-billing-provider.mjs";
+import {
+  createMemoryRepositories,
+  demoFixtures,
+  repositories,
+  setRepositories,
+} from "../../../../admin/server/repositories";
+import { POST } from "./route";
+
+const SECRET = "test-billing-secret-of-at-least-32-chars";
+const MINUTE = 60 * 1000;
+
+const fixtures = demoFixtures();
+// Ayesha Khan, on the paid plan until 120 days from now
+const subscriber = fixtures.users[0];
+
+// The webhook request the fake provider would send
+const delivery = (body: string, signature: string) =>
+  new NextRequest("http://localhost/api/webhooks/billing", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "billing-signature": signature,
+    },
+    body,
+  });
+
+const renewal = (days: number) =>
+  JSON.stringify(
+    buildEvent(TYPES.renewed, subscriber.subscription_id, { days })
+  );
+
+beforeEach(() => {
+  vi.stubEnv("BILLING_WEBHOOK_SECRET", SECRET);
+  setRepositories(createMemoryRepositories(fixtures));
+});
+
+describe("POST /api/webhooks/billing", () => {
+  it("applies a signed event", async () => {
+    const body = renewal(200);
+    const response = await POST(delivery(body, sign(body, SECRET)));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "processed" });
+    const user = await repositories().users.findById(subscriber.id);
+    expect(user?.expiry_date).toBe(
+      JSON.parse(body).data.current_period_end
+    );
+  });
+
+  it("refuses a signature made with another secret", async () => {
+    const body = renewal(200);
+    const response = await POST(delivery(body, sign(body, `${SECRET}-x`)));
+
+    expect(response.status).toBe(401);
+    const user = await repositories().users.findById(subscriber.id);
+    expect(user?.expiry_date).toBe(subscriber.expiry_date);
+  });
+
+  it("refuses a body changed after signing", async () => {
+    const signature = sign(renewal(200), SECRET);
+    const response = await POST(delivery(renewal(400), signature));
+    expect(response.status).toBe(401);
+  });
+
+  it("refuses a signature older than five minutes", async () => {
+    const body = renewal(200);
+    const signature = sign(body, SECRET, Date.now() - 6 * MINUTE);
+    const response = await POST(delivery(body, signature));
+    expect(response.status).toBe(401);
+  });
+
+  it("applies a redelivered event once", async () => {
+    const body = renewal(200);
+    const first = await POST(delivery(body, sign(body, SECRET)));
+    const later = JSON.parse(body);
+    later.data.current_period_end = new Date(2030, 0, 1).toISOString();
+    // Same event id with different data: still the first delivery's effect
+    const replay = JSON.stringify(later);
+    const second = await POST(delivery(replay, sign(replay, SECRET)));
+
+    expect(await first.json()).toEqual({ status: "processed" });
+    expect(await second.json()).toEqual({ status: "duplicate" });
+    const user = await repositories().users.findById(subscriber.id);
+    expect(user?.expiry_date).toBe(JSON.parse(body).data.current_period_end);
+    const events = await repositories().billingEvents.listByUser(
+      subscriber.id,
+      50
+    );
+    expect(events.filter((e) => e.id === later.id)).toHaveLength(1);
+  });
+});
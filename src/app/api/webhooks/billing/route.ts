@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  billingWebhookSchema,
+  handleBillingEvent,
+  verifyBillingSignature,
+} from "../../../../admin/server/billing";
+import { adminErrorResponse } from "../../../../admin/server/guard";
+
+// Called by the payment provider, not an admin: authorized by the
+// Billing-Signature header over the raw body instead of a session. Any
+// non-2xx answer makes the provider deliver the event again later.
+export async function POST(request: NextRequest) {
+  const body = await request.text();
+
+  try {
+    if (!verifyBillingSignature(body, request.headers.get("billing-signature"))) {
+      return adminErrorResponse(401, "unauthorized", "Invalid signature");
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      payload = undefined;
+    }
+    const parsed = billingWebhookSchema.safeParse(payload);
+    if (!parsed.success) {
+      return adminErrorResponse(
+        422,
+        "validation_failed",
+        "Invalid billing event",
+        parsed.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        }))
+      );
+    }
+
+    return NextResponse.json(await handleBillingEvent(parsed.data));
+  } catch (error) {
+    console.error("Billing webhook failed:", error);
+    return adminErrorResponse(500, "internal_error", "Billing webhook failed");
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// Routes under /api/admin that are reachable without a session.
+const PUBLIC_ADMIN_ROUTES = [
+  "/api/admin/login",
+  "/api/admin/login/totp",
+  "/api/admin/logout",
+  "/api/admin/session",
+  "/api/admin/account-setup",
+  // Check their own scheduler secret
+  "/api/admin/trash/purge",
+  "/api/admin/campaigns/run",
+];
+
+// Cheap first line of defence: refuse admin API calls that carry no session
+// cookie at all. The signature, expiry and admin lookup are checked by
+// adminRoute() in src/admin/server/guard.ts, which every handler must use.
+export function middleware(request: NextRequest) {
+  if (PUBLIC_ADMIN_ROUTES.includes(request.nextUrl.pathname)) {
+    return NextResponse.next();
+  }
+
+  if (!request.cookies.has("admin_session")) {
+    return NextResponse.json(
+      { error: { code: "unauthorized", message: "Not authenticated" } },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: "/api/admin/:path*",
+};
@@ -0,0 +1,38 @@
+// types/audit.ts
+
+export type AuditEntity =
+  | "user"
+  | "conversion"
+  | "plan"
+  | "campaign"
+  | "storage_object"
+  | "support_ticket"
+  | "support_message"
+  | "admin"
+  | "export"
+  | "saved_view";
+
+export const AUDIT_ENTITIES: AuditEntity[] = [
+  "user",
+  "conversion",
+  "plan",
+  "campaign",
+  "storage_object",
+  "support_ticket",
+  "support_message",
+  "admin",
+  "export",
+  "saved_view",
+];
+
+export interface AuditEntry {
+  id: string;
+  admin_id: string | null;
+  admin_email: string | null;
+  action: string;
+  entity: AuditEntity;
+  entity_id: string;
+  before: unknown | null;
+  after: unknown | null;
+  created_at: string;
+}
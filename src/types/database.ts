@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 export interface User {
   id: string;
   name: string;
@@ -9,4 +11,40 @@ export interface User {
   conversions: number;
   created_at: string;
   updated_at: string;
+  // Set while the account is in Trash
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+  // Sessions issued before this are no longer valid
+  sessions_revoked_at?: string | null;
 }
+
+const isDate = (value: string) => !Number.isNaN(Date.parse(value));
+
+// The columns of a users row an admin may edit, validated the same way by
+// the edit form in the admin panel and by PATCH /api/admin/users/[id].
+// Whether the email is free and the plan exists is checked on the server.
+export const userFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(200, "Name is too long"),
+  email: z.string().trim().email("Enter a valid email address"),
+  // A plan id from the catalog
+  subscription_plan: z.string().trim().min(1, "Choose a plan").max(50),
+  subscription_id: z
+    .string()
+    .trim()
+    .max(200, "Subscription ID is too long")
+    .nullable(),
+  expiry_date: z.string().refine(isDate, "Enter a valid date"),
+  conversions: z
+    .number("Enter a number")
+    .int("Enter a whole number")
+    .min(0, "Cannot be negative"),
+});
+
+// Any subset of the fields, as sent when saving an edit
+export const userPatchSchema = userFieldsSchema.partial();
+
+export type UserPatch = z.infer<typeof userPatchSchema>;
@@ -0,0 +1,16 @@
+-- Admin passwords are verified server-side with bcrypt (/api/admin/login).
+-- Hash the existing plaintext passwords in place and drop the old column so
+-- nothing can match on it through PostgREST any more.
+
+create extension if not exists pgcrypto;
+
+alter table admin add column if not exists password_hash text;
+
+update admin
+set password_hash = crypt(password, gen_salt('bf', 10))
+where password_hash is null and password is not null;
+
+alter table admin drop column if exists password;
+
+-- The admin table is only read with the service role key from now on.
+alter table admin enable row level security;
@@ -0,0 +1,13 @@
+-- Role-based access for admins. See src/admin/utils/permissions.ts for what
+-- each role may do; the API routes enforce the same table.
+
+alter table admin add column if not exists role text;
+
+-- Existing admins keep full access; new rows default to read-only.
+update admin set role = 'owner' where role is null;
+
+alter table admin
+  alter column role set not null,
+  alter column role set default 'read_only',
+  add constraint admin_role_check
+    check (role in ('owner', 'support', 'billing', 'read_only'));
@@ -0,0 +1,42 @@
+-- Append-only record of every admin mutation, written by recordAudit() in
+-- src/admin/server/audit.ts. admin_id is deliberately not a foreign key so
+-- entries survive the admin account being removed.
+
+create table if not exists admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  admin_id uuid,
+  admin_email text,
+  action text not null,
+  entity text not null,
+  entity_id text not null,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_at_idx
+  on admin_audit_log (created_at desc);
+create index if not exists admin_audit_log_entity_idx
+  on admin_audit_log (entity, entity_id);
+
+-- Service role only; no policies means anon/authenticated see nothing.
+alter table admin_audit_log enable row level security;
+
+create or replace function admin_audit_log_reject_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'admin_audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists admin_audit_log_no_update on admin_audit_log;
+create trigger admin_audit_log_no_update
+  before update or delete on admin_audit_log
+  for each row execute function admin_audit_log_reject_change();
+
+drop trigger if exists admin_audit_log_no_truncate on admin_audit_log;
+create trigger admin_audit_log_no_truncate
+  before truncate on admin_audit_log
+  for each statement execute function admin_audit_log_reject_change();
@@ -0,0 +1,12 @@
+-- TOTP two-factor authentication for admins. Secrets are AES-256-GCM
+-- encrypted by the app (src/admin/server/twoFactor.ts); recovery codes are
+-- stored as SHA-256 hashes and removed once used. totp_last_step is the
+-- time step of the last code accepted, so a code cannot be replayed.
+
+alter table admin
+  add column if not exists totp_enabled boolean not null default false,
+  add column if not exists totp_secret text,
+  add column if not exists totp_pending_secret text,
+  add column if not exists totp_recovery_codes text[],
+  add column if not exists totp_enrolled_at timestamptz,
+  add column if not exists totp_last_step bigint;
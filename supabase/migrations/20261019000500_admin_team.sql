@@ -0,0 +1,32 @@
+-- Team management: invites, disabled accounts, forced password resets and
+-- last-login tracking. See src/admin/server/team.ts.
+
+alter table admin
+  add column if not exists last_login_at timestamptz,
+  add column if not exists disabled_at timestamptz,
+  add column if not exists disabled_by uuid;
+
+-- One-time links for accepting an invite or setting a new password. Only the
+-- SHA-256 of the token is stored; the link itself is shown once to the owner.
+create table if not exists admin_account_tokens (
+  id uuid primary key default gen_random_uuid(),
+  purpose text not null check (purpose in ('invite', 'password_reset')),
+  token_hash text not null unique,
+  email text not null,
+  name text not null,
+  role text not null default 'read_only'
+    check (role in ('owner', 'support', 'billing', 'read_only')),
+  -- Set for password resets; null for invites until accepted
+  admin_id uuid,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  used_at timestamptz
+);
+
+create index if not exists admin_account_tokens_pending_idx
+  on admin_account_tokens (purpose, email)
+  where used_at is null;
+
+-- Service role only, like the admin table itself.
+alter table admin_account_tokens enable row level security;
@@ -0,0 +1,21 @@
+-- Server-side admin sessions. The signed cookie carries the session id; a
+-- session is only valid while its row is unrevoked, unexpired and has been
+-- used within the idle timeout (src/admin/utils/sessionPolicy.ts).
+
+create table if not exists admin_sessions (
+  id uuid primary key default gen_random_uuid(),
+  admin_id uuid not null,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  ip text,
+  user_agent text
+);
+
+create index if not exists admin_sessions_admin_idx
+  on admin_sessions (admin_id)
+  where revoked_at is null;
+
+-- Service role only.
+alter table admin_sessions enable row level security;
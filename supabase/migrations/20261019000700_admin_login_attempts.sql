@@ -0,0 +1,34 @@
+-- Failed admin sign-in counters used for lockout (src/admin/server/
+-- loginThrottle.ts). key is "email:<address>", "ip:<address>" or
+-- "mfa:<admin id>".
+
+create table if not exists admin_login_attempts (
+  key text primary key,
+  failures integer not null,
+  last_failed_at timestamptz not null
+);
+
+-- Service role only.
+alter table admin_login_attempts enable row level security;
+
+-- Count one failure atomically, starting over when the previous failure is
+-- older than p_reset_after_seconds.
+create or replace function admin_login_attempt_fail(
+  p_key text,
+  p_now timestamptz,
+  p_reset_after_seconds integer
+)
+returns table (failures integer, last_failed_at timestamptz)
+language sql
+as $$
+  insert into admin_login_attempts as a (key, failures, last_failed_at)
+  values (p_key, 1, p_now)
+  on conflict (key) do update
+    set failures = case
+          when a.last_failed_at < p_now - make_interval(secs => p_reset_after_seconds)
+            then 1
+          else a.failures + 1
+        end,
+        last_failed_at = p_now
+  returning a.failures, a.last_failed_at;
+$$;
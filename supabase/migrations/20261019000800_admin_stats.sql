@@ -0,0 +1,206 @@
+-- Aggregates behind the stats cards of the Users, Conversions and Support
+-- tabs (src/admin/server/stats.ts). Each takes the same filters as the
+-- matching list and returns one JSON object, so the numbers cover every
+-- matching row rather than the pages loaded in the browser. Time boundaries
+-- are passed in by the caller. Text filters are plain "contains" matches.
+
+create or replace function admin_user_stats(
+  p_search text,
+  p_plan text,
+  p_conversions_min integer,
+  p_conversions_max integer,
+  p_expires_from timestamptz,
+  p_expires_before timestamptz,
+  p_subscription_id text,
+  p_now timestamptz,
+  p_soon timestamptz,
+  p_today timestamptz,
+  p_week timestamptz,
+  p_month timestamptz,
+  p_last_month timestamptz
+)
+returns json
+language sql
+stable
+as $$
+  select json_build_object(
+    'total', count(*),
+    'free', count(*) filter (where subscription_plan = 'free'),
+    'paid', count(*) filter (where subscription_plan = 'paid'),
+    'active', count(*) filter (where expiry_date >= p_soon),
+    'expiringSoon', count(*) filter (
+      where expiry_date >= p_now and expiry_date < p_soon
+    ),
+    'expired', count(*) filter (where expiry_date < p_now),
+    'newToday', count(*) filter (where created_at >= p_today),
+    'newThisWeek', count(*) filter (where created_at >= p_week),
+    'newThisMonth', count(*) filter (where created_at >= p_month),
+    'newLastMonth', count(*) filter (
+      where created_at >= p_last_month and created_at < p_month
+    )
+  )
+  from users
+  where (
+      p_search is null
+      or strpos(lower(name), lower(p_search)) > 0
+      or strpos(lower(email), lower(p_search)) > 0
+      or strpos(lower(subscription_id), lower(p_search)) > 0
+    )
+    and (p_plan is null or subscription_plan = p_plan)
+    and (p_conversions_min is null or conversions >= p_conversions_min)
+    and (p_conversions_max is null or conversions <= p_conversions_max)
+    and (p_expires_from is null or expiry_date >= p_expires_from)
+    and (p_expires_before is null or expiry_date < p_expires_before)
+    and (
+      p_subscription_id is null
+      or strpos(lower(subscription_id), lower(p_subscription_id)) > 0
+    );
+$$;
+
+create or replace function admin_conversion_stats(
+  p_search text,
+  p_owner_ids uuid[],
+  p_voice text,
+  p_status text,
+  p_date_from timestamptz,
+  p_date_to timestamptz
+)
+returns json
+language sql
+stable
+as $$
+  with filtered as (
+    select *
+    from conversions
+    where (p_voice is null or voice = p_voice)
+      and (p_status is null or status = p_status)
+      and (p_date_from is null or created_at >= p_date_from)
+      and (p_date_to is null or created_at <= p_date_to)
+      and (
+        p_search is null
+        or strpos(lower(pdf_filename), lower(p_search)) > 0
+        or user_id = any(coalesce(p_owner_ids, '{}'))
+        or id::text = p_search
+      )
+  )
+  select json_build_object(
+    'total', count(*),
+    'completed', count(*) filter (where status = 'completed'),
+    'processing', count(*) filter (where status = 'processing'),
+    'failed', count(*) filter (where status = 'failed'),
+    'pdfBytes', coalesce(sum(pdf_size), 0),
+    'pdfFiles', count(*) filter (where pdf_path is not null),
+    'audioBytes', coalesce(sum(audio_size), 0),
+    'audioFiles', count(*) filter (where audio_path is not null),
+    'audioSeconds', coalesce(sum(audio_duration), 0),
+    'averageAudioSeconds',
+      coalesce(avg(audio_duration) filter (where audio_duration > 0), 0),
+    'averagePdfBytes', coalesce(avg(pdf_size) filter (where pdf_size > 0), 0),
+    'voices', (
+      select coalesce(json_object_agg(voice, n), '{}'::json)
+      from (select voice, count(*) as n from filtered group by voice) v
+    )
+  )
+  from filtered;
+$$;
+
+create or replace function admin_support_stats(
+  p_search text,
+  p_user_ids uuid[],
+  p_status text,
+  p_subject text,
+  p_created_from timestamptz,
+  p_created_before timestamptz,
+  p_today timestamptz,
+  p_week timestamptz,
+  p_month timestamptz
+)
+returns json
+language sql
+stable
+as $$
+  with tickets as (
+    select *
+    from support_tickets
+    where (p_status is null or status = p_status)
+      and (p_subject is null or subject = p_subject)
+      and (p_created_from is null or created_at >= p_created_from)
+      and (p_created_before is null or created_at < p_created_before)
+      and (
+        p_search is null
+        or user_id = any(coalesce(p_user_ids, '{}'))
+        or strpos(lower(id::text), lower(p_search)) > 0
+      )
+  ),
+  messages as (
+    select m.*
+    from support_messages m
+    join tickets t on t.id = m.ticket_id
+  ),
+  per_ticket as (
+    select
+      t.id,
+      count(m.id) as message_count,
+      count(m.id) filter (where m.sender_type = 'user' and not m.read) as unread,
+      (array_agg(m.sender_type order by m.created_at desc))[1] as last_sender
+    from tickets t
+    left join messages m on m.ticket_id = t.id
+    group by t.id
+  ),
+  -- Time from a customer message to the admin reply right after it
+  responses as (
+    select next_at - created_at as wait
+    from (
+      select
+        created_at,
+        sender_type,
+        lead(sender_type) over w as next_sender,
+        lead(created_at) over w as next_at
+      from messages
+      window w as (partition by ticket_id order by created_at)
+    ) pairs
+    where sender_type = 'user' and next_sender = 'admin'
+  ),
+  per_user as (
+    select user_id, count(*) as n from tickets group by user_id
+  )
+  select json_build_object(
+    'total', (select count(*) from tickets),
+    'open', (select count(*) from tickets where status = 'open'),
+    'closed', (select count(*) from tickets where status = 'closed'),
+    'averageResolutionMs', (
+      select avg(extract(epoch from closed_at - created_at) * 1000)
+      from tickets
+      where status = 'closed' and closed_at is not null
+    ),
+    'unreadMessages', (select coalesce(sum(unread), 0) from per_ticket),
+    'ticketsWithUnread', (select count(*) from per_ticket where unread > 0),
+    'pendingResponse', (
+      select count(*) from per_ticket where last_sender = 'user'
+    ),
+    'maxMessagesPerTicket', (
+      select coalesce(max(message_count), 0) from per_ticket
+    ),
+    'averageMessagesPerTicket', (
+      select coalesce(avg(message_count), 0) from per_ticket
+    ),
+    'averageResponseMs', (
+      select avg(extract(epoch from wait) * 1000) from responses
+    ),
+    'newToday', (select count(*) from tickets where created_at >= p_today),
+    'newThisWeek', (select count(*) from tickets where created_at >= p_week),
+    'newThisMonth', (select count(*) from tickets where created_at >= p_month),
+    'closedToday', (select count(*) from tickets where closed_at >= p_today),
+    'closedThisWeek', (select count(*) from tickets where closed_at >= p_week),
+    'closedThisMonth', (
+      select count(*) from tickets where closed_at >= p_month
+    ),
+    'subjects', (
+      select coalesce(json_object_agg(subject, n), '{}'::json)
+      from (select subject, count(*) as n from tickets group by subject) s
+    ),
+    'uniqueUsers', (select count(*) from per_user),
+    'usersWithMultipleTickets', (select count(*) from per_user where n > 1),
+    'maxTicketsPerUser', (select coalesce(max(n), 0) from per_user)
+  );
+$$;
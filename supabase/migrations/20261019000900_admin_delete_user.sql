@@ -0,0 +1,39 @@
+-- Remove a customer and every row they own in one transaction (src/admin/
+-- server/userDeletion.ts). Storage objects are deleted by the caller first;
+-- they cannot take part in the transaction. Returns null when the user does
+-- not exist, otherwise the counts of removed rows.
+
+create or replace function admin_delete_user(p_user_id uuid)
+returns json
+language plpgsql
+as $$
+declare
+  v_messages integer;
+  v_tickets integer;
+  v_conversions integer;
+begin
+  -- Lock the row so a concurrent delete waits and then finds nothing
+  perform 1 from users where id = p_user_id for update;
+  if not found then
+    return null;
+  end if;
+
+  delete from support_messages
+  where ticket_id in (select id from support_tickets where user_id = p_user_id);
+  get diagnostics v_messages = row_count;
+
+  delete from support_tickets where user_id = p_user_id;
+  get diagnostics v_tickets = row_count;
+
+  delete from conversions where user_id = p_user_id;
+  get diagnostics v_conversions = row_count;
+
+  delete from users where id = p_user_id;
+
+  return json_build_object(
+    'conversions', v_conversions,
+    'supportTickets', v_tickets,
+    'supportMessages', v_messages
+  );
+end;
+$$;
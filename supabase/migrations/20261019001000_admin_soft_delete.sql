@@ -0,0 +1,122 @@
+-- Soft delete for customers and conversions (src/admin/server/trash.ts).
+-- Deleting from the panel sets deleted_at; the row stays in Trash until it
+-- is restored or purged by the scheduled job after the retention window.
+
+alter table users
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+alter table conversions
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+create index if not exists users_deleted_at_idx
+  on users (deleted_at) where deleted_at is not null;
+
+create index if not exists conversions_deleted_at_idx
+  on conversions (deleted_at) where deleted_at is not null;
+
+-- The stats cards count live rows only; otherwise unchanged from
+-- 20261019000800_admin_stats.sql.
+
+create or replace function admin_user_stats(
+  p_search text,
+  p_plan text,
+  p_conversions_min integer,
+  p_conversions_max integer,
+  p_expires_from timestamptz,
+  p_expires_before timestamptz,
+  p_subscription_id text,
+  p_now timestamptz,
+  p_soon timestamptz,
+  p_today timestamptz,
+  p_week timestamptz,
+  p_month timestamptz,
+  p_last_month timestamptz
+)
+returns json
+language sql
+stable
+as $$
+  select json_build_object(
+    'total', count(*),
+    'free', count(*) filter (where subscription_plan = 'free'),
+    'paid', count(*) filter (where subscription_plan = 'paid'),
+    'active', count(*) filter (where expiry_date >= p_soon),
+    'expiringSoon', count(*) filter (
+      where expiry_date >= p_now and expiry_date < p_soon
+    ),
+    'expired', count(*) filter (where expiry_date < p_now),
+    'newToday', count(*) filter (where created_at >= p_today),
+    'newThisWeek', count(*) filter (where created_at >= p_week),
+    'newThisMonth', count(*) filter (where created_at >= p_month),
+    'newLastMonth', count(*) filter (
+      where created_at >= p_last_month and created_at < p_month
+    )
+  )
+  from users
+  where deleted_at is null
+    and (
+      p_search is null
+      or strpos(lower(name), lower(p_search)) > 0
+      or strpos(lower(email), lower(p_search)) > 0
+      or strpos(lower(subscription_id), lower(p_search)) > 0
+    )
+    and (p_plan is null or subscription_plan = p_plan)
+    and (p_conversions_min is null or conversions >= p_conversions_min)
+    and (p_conversions_max is null or conversions <= p_conversions_max)
+    and (p_expires_from is null or expiry_date >= p_expires_from)
+    and (p_expires_before is null or expiry_date < p_expires_before)
+    and (
+      p_subscription_id is null
+      or strpos(lower(subscription_id), lower(p_subscription_id)) > 0
+    );
+$$;
+
+create or replace function admin_conversion_stats(
+  p_search text,
+  p_owner_ids uuid[],
+  p_voice text,
+  p_status text,
+  p_date_from timestamptz,
+  p_date_to timestamptz
+)
+returns json
+language sql
+stable
+as $$
+  with filtered as (
+    select *
+    from conversions
+    where deleted_at is null
+      and (p_voice is null or voice = p_voice)
+      and (p_status is null or status = p_status)
+      and (p_date_from is null or created_at >= p_date_from)
+      and (p_date_to is null or created_at <= p_date_to)
+      and (
+        p_search is null
+        or strpos(lower(pdf_filename), lower(p_search)) > 0
+        or user_id = any(coalesce(p_owner_ids, '{}'))
+        or id::text = p_search
+      )
+  )
+  select json_build_object(
+    'total', count(*),
+    'completed', count(*) filter (where status = 'completed'),
+    'processing', count(*) filter (where status = 'processing'),
+    'failed', count(*) filter (where status = 'failed'),
+    'pdfBytes', coalesce(sum(pdf_size), 0),
+    'pdfFiles', count(*) filter (where pdf_path is not null),
+    'audioBytes', coalesce(sum(audio_size), 0),
+    'audioFiles', count(*) filter (where audio_path is not null),
+    'audioSeconds', coalesce(sum(audio_duration), 0),
+    'averageAudioSeconds',
+      coalesce(avg(audio_duration) filter (where audio_duration > 0), 0),
+    'averagePdfBytes', coalesce(avg(pdf_size) filter (where pdf_size > 0), 0),
+    'voices', (
+      select coalesce(json_object_agg(voice, n), '{}'::json)
+      from (select voice, count(*) as n from filtered group by voice) v
+    )
+  )
+  from filtered;
+$$;
@@ -0,0 +1,7 @@
+-- Admin-triggered password resets for customers (src/admin/server/
+-- userPassword.ts). The panel sets a temporary password, stored as a bcrypt
+-- hash in users.password, and stamps sessions_revoked_at: the app must treat
+-- any session issued before that time as signed out.
+
+alter table users
+  add column if not exists sessions_revoked_at timestamptz;
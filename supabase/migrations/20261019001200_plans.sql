@@ -0,0 +1,107 @@
+-- Subscription plan catalog, edited from the Plans screen (src/admin/
+-- server/plans.ts). users.subscription_plan holds a plan id.
+
+create table if not exists plans (
+  id text primary key,
+  name text not null,
+  -- Null: unlimited
+  monthly_conversions integer check (monthly_conversions >= 0),
+  max_pdf_mb integer not null check (max_pdf_mb > 0),
+  allowed_voices text[] not null,
+  monthly_price numeric(10, 2) not null default 0 check (monthly_price >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- The two plans that used to be hard-coded, plus any other value already in
+-- users so the foreign key below holds. Those others start unlimited, so no
+-- customer loses access on deploy. Adjust the limits from the panel.
+insert into plans (
+  id, name, monthly_conversions, max_pdf_mb, allowed_voices, monthly_price
+)
+values
+  ('free', 'Free', 5, 10, '{alloy,echo,fable,nova,onyx,shimmer}', 0),
+  ('paid', 'Paid', null, 50, '{alloy,echo,fable,nova,onyx,shimmer}', 9.99)
+on conflict (id) do nothing;
+
+insert into plans (id, name, monthly_conversions, max_pdf_mb, allowed_voices)
+select distinct subscription_plan, initcap(subscription_plan), null, 50,
+  '{alloy,echo,fable,nova,onyx,shimmer}'
+from users
+where subscription_plan is not null
+on conflict (id) do nothing;
+
+-- A plan cannot be deleted while any user (Trash included) is on it
+alter table users
+  add constraint users_subscription_plan_fkey
+  foreign key (subscription_plan) references plans (id);
+
+-- Service role only.
+alter table plans enable row level security;
+
+-- The stats cards count users per plan instead of free/paid; otherwise
+-- unchanged from 20261019001000_admin_soft_delete.sql.
+
+create or replace function admin_user_stats(
+  p_search text,
+  p_plan text,
+  p_conversions_min integer,
+  p_conversions_max integer,
+  p_expires_from timestamptz,
+  p_expires_before timestamptz,
+  p_subscription_id text,
+  p_now timestamptz,
+  p_soon timestamptz,
+  p_today timestamptz,
+  p_week timestamptz,
+  p_month timestamptz,
+  p_last_month timestamptz
+)
+returns json
+language sql
+stable
+as $$
+  with filtered as (
+    select *
+    from users
+    where deleted_at is null
+      and (
+        p_search is null
+        or strpos(lower(name), lower(p_search)) > 0
+        or strpos(lower(email), lower(p_search)) > 0
+        or strpos(lower(subscription_id), lower(p_search)) > 0
+      )
+      and (p_plan is null or subscription_plan = p_plan)
+      and (p_conversions_min is null or conversions >= p_conversions_min)
+      and (p_conversions_max is null or conversions <= p_conversions_max)
+      and (p_expires_from is null or expiry_date >= p_expires_from)
+      and (p_expires_before is null or expiry_date < p_expires_before)
+      and (
+        p_subscription_id is null
+        or strpos(lower(subscription_id), lower(p_subscription_id)) > 0
+      )
+  )
+  select json_build_object(
+    'total', count(*),
+    'plans', (
+      select coalesce(json_object_agg(subscription_plan, n), '{}'::json)
+      from (
+        select subscription_plan, count(*) as n
+        from filtered
+        group by subscription_plan
+      ) p
+    ),
+    'active', count(*) filter (where expiry_date >= p_soon),
+    'expiringSoon', count(*) filter (
+      where expiry_date >= p_now and expiry_date < p_soon
+    ),
+    'expired', count(*) filter (where expiry_date < p_now),
+    'newToday', count(*) filter (where created_at >= p_today),
+    'newThisWeek', count(*) filter (where created_at >= p_week),
+    'newThisMonth', count(*) filter (where created_at >= p_month),
+    'newLastMonth', count(*) filter (
+      where created_at >= p_last_month and created_at < p_month
+    )
+  )
+  from filtered;
+$$;
@@ -0,0 +1,143 @@
+-- Conversion usage per billing period (src/admin/server/usage.ts). Every
+-- conversion and every admin top-up is a row in usage_ledger; a user's
+-- remaining quota for the period is their plan's monthly_conversions plus
+-- the period's top-ups minus the period's conversions. users.conversions
+-- stays as the lifetime counter.
+
+create table if not exists usage_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users (id) on delete cascade,
+  kind text not null check (kind in ('conversion', 'top_up')),
+  amount integer not null check (amount > 0),
+  -- Kept when the conversion is deleted: the usage still counts
+  conversion_id uuid references conversions (id) on delete set null,
+  note text,
+  -- Admin email, for top-ups
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_ledger_user_created_at_idx
+  on usage_ledger (user_id, created_at);
+
+-- Service role only.
+alter table usage_ledger enable row level security;
+
+-- Existing conversions count towards the period they were made in. Ones
+-- without an owner count for nobody.
+insert into usage_ledger (user_id, kind, amount, conversion_id, created_at)
+select c.user_id, 'conversion', 1, c.id, c.created_at
+from conversions c
+where c.user_id is not null
+  and not exists (
+    select 1 from usage_ledger l where l.conversion_id = c.id
+  );
+
+-- The monthly window containing p_now. Periods renew on the day of month
+-- of the user's expiry date (clamped to shorter months), in UTC; keep in
+-- step with billingPeriod in usage.ts.
+create or replace function usage_period(p_anchor timestamptz, p_now timestamptz)
+returns table (period_start timestamptz, period_end timestamptz)
+language plpgsql
+immutable
+as $$
+declare
+  v_anchor timestamp := p_anchor at time zone 'UTC';
+  v_now timestamp := p_now at time zone 'UTC';
+  v_months integer :=
+    (extract(year from v_now) - extract(year from v_anchor)) * 12
+    + extract(month from v_now) - extract(month from v_anchor);
+begin
+  while v_anchor + make_interval(months => v_months) > v_now loop
+    v_months := v_months - 1;
+  end loop;
+  while v_anchor + make_interval(months => v_months + 1) <= v_now loop
+    v_months := v_months + 1;
+  end loop;
+
+  period_start := (v_anchor + make_interval(months => v_months)) at time zone 'UTC';
+  period_end := (v_anchor + make_interval(months => v_months + 1)) at time zone 'UTC';
+  return next;
+end;
+$$;
+
+-- Refuse a conversion once the period's quota (plus top-ups) is used up.
+-- The user row is locked so two conversions started together cannot both
+-- take the last one.
+--
+-- Both trigger functions run as their owner: the app inserts conversions
+-- with the customer's role, which cannot read or write usage_ledger. The
+-- fixed search_path keeps a caller's schemas out of that.
+create or replace function enforce_conversion_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_anchor timestamptz;
+  v_quota integer;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_used integer;
+  v_top_ups integer;
+begin
+  select coalesce(u.expiry_date, u.created_at), p.monthly_conversions
+  into v_anchor, v_quota
+  from users u
+  left join plans p on p.id = u.subscription_plan
+  where u.id = new.user_id
+  for update of u;
+
+  if v_quota is null then
+    return new;
+  end if;
+
+  select period_start, period_end into v_start, v_end
+  from usage_period(v_anchor, now());
+
+  select
+    coalesce(sum(amount) filter (where kind = 'conversion'), 0),
+    coalesce(sum(amount) filter (where kind = 'top_up'), 0)
+  into v_used, v_top_ups
+  from usage_ledger
+  where user_id = new.user_id
+    and created_at >= v_start
+    and created_at < v_end;
+
+  if v_used >= v_quota + v_top_ups then
+    raise exception 'Conversion quota reached for this billing period'
+      using errcode = 'P0001', hint = 'quota_exceeded';
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function record_conversion_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.user_id is null then
+    return new;
+  end if;
+
+  insert into usage_ledger (user_id, kind, amount, conversion_id, created_at)
+  values (new.user_id, 'conversion', 1, new.id, new.created_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists conversions_enforce_quota on conversions;
+create trigger conversions_enforce_quota
+  before insert on conversions
+  for each row execute function enforce_conversion_quota();
+
+-- After insert, so the ledger row can reference the new conversion
+drop trigger if exists conversions_record_usage on conversions;
+create trigger conversions_record_usage
+  after insert on conversions
+  for each row execute function record_conversion_usage();
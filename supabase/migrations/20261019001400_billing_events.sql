@@ -0,0 +1,27 @@
+-- Payment provider webhook deliveries (src/admin/server/billing.ts). The
+-- provider's event id is the primary key, so a redelivered event is
+-- recognised and applied only once.
+
+create table if not exists billing_events (
+  id text primary key,
+  type text not null,
+  subscription_id text not null,
+  -- Null until the event is matched to a user
+  user_id uuid references users (id) on delete cascade,
+  status text not null default 'received'
+    check (status in ('received', 'processed', 'ignored', 'failed')),
+  -- Why the event was ignored or failed
+  error text,
+  payload jsonb not null,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz
+);
+
+create index if not exists billing_events_user_received_at_idx
+  on billing_events (user_id, received_at desc);
+
+create index if not exists users_subscription_id_idx
+  on users (subscription_id);
+
+-- Service role only.
+alter table billing_events enable row level security;
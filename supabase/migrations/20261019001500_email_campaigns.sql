@@ -0,0 +1,92 @@
+-- Expiry reminder and win-back emails (src/admin/server/campaigns.ts). A
+-- scheduled job sends each enabled campaign to users whose expiry date plus
+-- the campaign's offset has passed, and records every send.
+
+create table if not exists email_campaigns (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- Days from the expiry date: negative before it, positive after
+  offset_days integer not null check (offset_days between -90 and 365),
+  subject text not null,
+  -- Plain text with {{name}}, {{email}}, {{plan}}, {{expiry_date}} and
+  -- {{days}} placeholders
+  body text not null,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One row per campaign, user and expiry date: a user is emailed once per
+-- campaign for each subscription period, however often the job runs. A
+-- renewal moves the expiry date and starts a new cycle.
+create table if not exists email_sends (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id uuid not null references email_campaigns (id) on delete cascade,
+  user_id uuid not null references users (id) on delete cascade,
+  expiry_date timestamptz not null,
+  email text not null,
+  status text not null default 'sending'
+    check (status in ('sending', 'sent', 'failed')),
+  error text,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz,
+  unique (campaign_id, user_id, expiry_date)
+);
+
+create index if not exists email_sends_created_at_idx
+  on email_sends (created_at desc);
+
+-- Service role only.
+alter table email_campaigns enable row level security;
+alter table email_sends enable row level security;
+
+insert into email_campaigns (name, offset_days, subject, body)
+values
+  (
+    'Expiry reminder',
+    -7,
+    'Your {{plan}} plan renews in {{days}} days',
+    E'Hi {{name}},\n\nYour {{plan}} plan expires on {{expiry_date}}. Renew before then to keep converting PDFs to audio without interruption.\n\nThanks for listening with us!'
+  ),
+  (
+    'Last day reminder',
+    -1,
+    'Your {{plan}} plan expires tomorrow',
+    E'Hi {{name}},\n\nJust a reminder that your {{plan}} plan expires on {{expiry_date}}. Renew today to keep your conversions and voices.\n\nThanks for listening with us!'
+  ),
+  (
+    'Win-back',
+    7,
+    'We miss you, {{name}}',
+    E'Hi {{name}},\n\nYour {{plan}} plan expired {{days}} days ago. Come back any time: your account and conversions are still here.\n\nThanks for listening with us!'
+  );
+
+-- Sent and failed counts per campaign for the report (campaignReport in
+-- campaigns.ts)
+create or replace function admin_email_send_stats(p_since timestamptz)
+returns json
+language sql
+stable
+as $$
+  select coalesce(
+    json_object_agg(
+      campaign_id,
+      json_build_object(
+        'sent', sent,
+        'failed', failed,
+        'lastSentAt', last_sent_at
+      )
+    ),
+    '{}'::json
+  )
+  from (
+    select
+      campaign_id,
+      count(*) filter (where status = 'sent') as sent,
+      count(*) filter (where status = 'failed') as failed,
+      max(sent_at) as last_sent_at
+    from email_sends
+    where created_at >= p_since
+    group by campaign_id
+  ) s;
+$$;
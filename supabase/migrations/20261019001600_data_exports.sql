@@ -0,0 +1,70 @@
+-- CSV / XLSX exports of the Users, Conversions and Support tabs
+-- (src/admin/server/exports.ts). Small exports stream straight to the
+-- browser; large ones are built in the background and stored in the private
+-- "exports" bucket until they expire.
+
+create table if not exists data_exports (
+  id uuid primary key default gen_random_uuid(),
+  admin_id uuid not null,
+  dataset text not null check (dataset in ('users', 'conversions', 'tickets')),
+  format text not null check (format in ('csv', 'xlsx')),
+  -- Column keys, in file order
+  columns text[] not null,
+  -- The tab's filters, sort and Trash toggle
+  query jsonb not null default '{}',
+  background boolean not null default false,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'done', 'failed')),
+  row_count integer,
+  -- Object key in the exports bucket
+  file_path text,
+  error text,
+  created_at timestamptz not null default now(),
+  finished_at timestamptz,
+  expires_at timestamptz not null
+);
+
+create index if not exists data_exports_admin_idx
+  on data_exports (admin_id, created_at desc);
+
+create index if not exists data_exports_expires_at_idx
+  on data_exports (expires_at);
+
+-- Service role only.
+alter table data_exports enable row level security;
+
+insert into storage.buckets (id, name, public)
+values ('exports', 'exports', false)
+on conflict (id) do nothing;
+
+-- One page of tickets matching the Support tab's filters, newest first.
+-- Same conditions as admin_support_stats.
+create or replace function admin_support_ticket_page(
+  p_search text,
+  p_user_ids uuid[],
+  p_status text,
+  p_subject text,
+  p_created_from timestamptz,
+  p_created_before timestamptz,
+  p_offset integer,
+  p_limit integer
+)
+returns setof support_tickets
+language sql
+stable
+as $$
+  select *
+  from support_tickets
+  where (p_status is null or status = p_status)
+    and (p_subject is null or subject = p_subject)
+    and (p_created_from is null or created_at >= p_created_from)
+    and (p_created_before is null or created_at < p_created_before)
+    and (
+      p_search is null
+      or user_id = any(coalesce(p_user_ids, '{}'))
+      or strpos(lower(id::text), lower(p_search)) > 0
+    )
+  order by created_at desc, id
+  offset p_offset
+  limit p_limit;
+$$;
@@ -0,0 +1,30 @@
+-- Named filter views of the Users, Conversions and Support tabs
+-- (src/admin/server/savedViews.ts). A view is private to the admin who
+-- saved it unless shared with the team; each admin pins the ones they want
+-- in the tab header.
+
+create table if not exists saved_views (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  tab text not null check (tab in ('users', 'conversions', 'support')),
+  name text not null,
+  -- The tab's list parameters (filters, sort, Trash), as in its URL
+  query jsonb not null default '{}',
+  shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_views_tab_idx
+  on saved_views (tab, name);
+
+create table if not exists saved_view_pins (
+  admin_id uuid not null,
+  view_id uuid not null references saved_views (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (admin_id, view_id)
+);
+
+-- Service role only.
+alter table saved_views enable row level security;
+alter table saved_view_pins enable row level security;
@@ -0,0 +1,75 @@
+-- Conversions tab search inside the database (src/admin/server/conversions.ts).
+-- The owner's name and email are matched with a join, so a broad term no
+-- longer turns into a list of owner ids in the request URL.
+
+-- Conversions whose filename contains the term, whose id is the term, or
+-- whose owner's name or email contains it; every conversion without one.
+-- The list route applies its other filters and paging to the result.
+create or replace function admin_conversions_matching(p_search text)
+returns setof conversions
+language sql
+stable
+as $$
+  select c.*
+  from conversions c
+  where p_search is null
+    or strpos(lower(c.pdf_filename), lower(p_search)) > 0
+    or c.id::text = p_search
+    or exists (
+      select 1
+      from users u
+      where u.id = c.user_id
+        and (
+          strpos(lower(u.name), lower(p_search)) > 0
+          or strpos(lower(u.email), lower(p_search)) > 0
+        )
+    );
+$$;
+
+-- Replaces the version taking owner ids. Also counts Trash when asked, as
+-- saved views of the Trash list do.
+drop function if exists admin_conversion_stats(
+  text, uuid[], text, text, timestamptz, timestamptz
+);
+
+create or replace function admin_conversion_stats(
+  p_search text,
+  p_voice text,
+  p_status text,
+  p_date_from timestamptz,
+  p_date_to timestamptz,
+  p_trashed boolean default false
+)
+returns json
+language sql
+stable
+as $$
+  with filtered as (
+    select *
+    from admin_conversions_matching(p_search)
+    where (deleted_at is not null) = p_trashed
+      and (p_voice is null or voice = p_voice)
+      and (p_status is null or status = p_status)
+      and (p_date_from is null or created_at >= p_date_from)
+      and (p_date_to is null or created_at <= p_date_to)
+  )
+  select json_build_object(
+    'total', count(*),
+    'completed', count(*) filter (where status = 'completed'),
+    'processing', count(*) filter (where status = 'processing'),
+    'failed', count(*) filter (where status = 'failed'),
+    'pdfBytes', coalesce(sum(pdf_size), 0),
+    'pdfFiles', count(*) filter (where pdf_path is not null),
+    'audioBytes', coalesce(sum(audio_size), 0),
+    'audioFiles', count(*) filter (where audio_path is not null),
+    'audioSeconds', coalesce(sum(audio_duration), 0),
+    'averageAudioSeconds',
+      coalesce(avg(audio_duration) filter (where audio_duration > 0), 0),
+    'averagePdfBytes', coalesce(avg(pdf_size) filter (where pdf_size > 0), 0),
+    'voices', (
+      select coalesce(json_object_agg(voice, n), '{}'::json)
+      from (select voice, count(*) as n from filtered group by voice) v
+    )
+  )
+  from filtered;
+$$;
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+// Tests run on the in-memory repositories, never against Supabase
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    env: {
+      ADMIN_DATA_SOURCE: "memory",
+      ADMIN_SESSION_SECRET: "test-session-secret-of-at-least-32-chars",
+    },
+  },
+});